@@ -16,6 +16,7 @@ import { Reports } from "./pages/Reports";
 import { QueueMonitor } from "./pages/QueueMonitor";
 import { UserManagement } from "./pages/UserManagement";
 import { Settings } from "./pages/Settings";
+import { Unsubscribe } from "./pages/Unsubscribe";
 import { DragDropEmailEditor } from "./components/EmailEditor/DragDropEmailEditor";
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({
@@ -42,6 +43,8 @@ const AppRoutes: React.FC = () => {
   return (
     <Routes>
       <Route path="/login" element={<LoginForm />} />
+      {/* Public preference center, linked from every email */}
+      <Route path="/unsubscribe" element={<Unsubscribe />} />
       <Route
         path="/"
         element={
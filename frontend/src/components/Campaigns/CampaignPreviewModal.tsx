@@ -1,5 +1,14 @@
-import React from "react";
-import { X, Eye, Mail, Clock, Users, BarChart3 } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import {
+  X,
+  Eye,
+  Mail,
+  Clock,
+  Users,
+  BarChart3,
+  FileText,
+  Loader2,
+} from "lucide-react";
 import { Campaign } from "../../types";
 
 interface CampaignPreviewModalProps {
@@ -13,8 +22,37 @@ export const CampaignPreviewModal: React.FC<CampaignPreviewModalProps> = ({
   onClose,
   campaign,
 }) => {
+  const [previewFormat, setPreviewFormat] = useState<"html" | "text">("html");
+  const [plainText, setPlainText] = useState<string | null>(null);
+  const [isCustomText, setIsCustomText] = useState(false);
+  const [loadingText, setLoadingText] = useState(false);
+
+  useEffect(() => {
+    setPreviewFormat("html");
+    setPlainText(null);
+  }, [campaign.id]);
+
   if (!isOpen) return null;
 
+  // The plain-text part is built by the server exactly as it will be sent
+  const showPlainText = async () => {
+    setPreviewFormat("text");
+    if (plainText !== null) return;
+
+    setLoadingText(true);
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      const preview = await apiClient.previewCampaign(campaign.id);
+      setPlainText(preview.text || "");
+      setIsCustomText(Boolean(preview.isCustomText));
+    } catch (error) {
+      console.error("Failed to load plain-text preview:", error);
+      setPlainText("");
+    } finally {
+      setLoadingText(false);
+    }
+  };
+
   const getStatusColor = (status: Campaign["status"]) => {
     const colors = {
       draft: "bg-gray-100 text-gray-800",
@@ -201,11 +239,34 @@ export const CampaignPreviewModal: React.FC<CampaignPreviewModalProps> = ({
 
           {/* Right Panel - Email Preview */}
           <div className="lg:w-2/3 flex flex-col overflow-hidden">
-            <div className="p-6 border-b border-gray-200">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
               <h3 className="text-lg font-semibold text-gray-800 flex items-center">
                 <Mail className="w-5 h-5 mr-2 text-blue-600" />
                 Email Preview
               </h3>
+              <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+                <button
+                  onClick={() => setPreviewFormat("html")}
+                  className={`px-3 py-1 ${
+                    previewFormat === "html"
+                      ? "bg-blue-600 text-white"
+                      : "bg-white text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  HTML
+                </button>
+                <button
+                  onClick={showPlainText}
+                  className={`px-3 py-1 flex items-center border-l border-gray-300 ${
+                    previewFormat === "text"
+                      ? "bg-blue-600 text-white"
+                      : "bg-white text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  <FileText className="w-4 h-4 mr-1" />
+                  Plain text
+                </button>
+              </div>
             </div>
             
             <div className="flex-1 bg-white overflow-hidden">
@@ -226,12 +287,29 @@ export const CampaignPreviewModal: React.FC<CampaignPreviewModalProps> = ({
 
                 {/* Email Body */}
                 <div className="bg-white flex-1 overflow-hidden">
-                  <iframe
-                    srcDoc={campaign.htmlContent}
-                    className="w-full h-full min-h-[400px] border-0"
-                    title="Email Preview"
-                    sandbox="allow-same-origin"
-                  />
+                  {previewFormat === "html" ? (
+                    <iframe
+                      srcDoc={campaign.htmlContent}
+                      className="w-full h-full min-h-[400px] border-0"
+                      title="Email Preview"
+                      sandbox="allow-same-origin"
+                    />
+                  ) : loadingText ? (
+                    <div className="flex justify-center items-center min-h-[400px]">
+                      <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+                    </div>
+                  ) : (
+                    <div className="min-h-[400px] max-h-[60vh] overflow-y-auto">
+                      <div className="px-6 pt-3 text-xs text-gray-500">
+                        {isCustomText
+                          ? "Custom plain-text version"
+                          : "Generated from the HTML"}
+                      </div>
+                      <pre className="px-6 py-4 text-sm text-gray-800 whitespace-pre-wrap font-mono">
+                        {plainText || "No plain-text content available."}
+                      </pre>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { X, BarChart3, TrendingUp, TrendingDown, Users, Mail, MousePointer, AlertTriangle, Loader2 } from "lucide-react";
 import { Campaign } from "../../types";
+import { ClickHeatmap, LinkClickStats } from "./ClickHeatmap";
 
 interface CampaignReportModalProps {
   isOpen: boolean;
@@ -15,9 +16,12 @@ interface CampaignReport {
   clickRate: number;
   bounceRate: number;
   unsubscribeRate: number;
+  complaintRate: number;
   clickThroughRate: number;
   engagement: {
     totalEngagements: number;
+    totalOpens: number;
+    totalClicks: number;
     uniqueOpens: number;
     uniqueClicks: number;
     forwardShares: number;
@@ -34,6 +38,7 @@ interface CampaignReport {
     clicks: number;
     uniqueClicks: number;
   }>;
+  links?: LinkClickStats[];
   deviceStats?: {
     desktop: number;
     mobile: number;
@@ -52,6 +57,7 @@ export const CampaignReportModal: React.FC<CampaignReportModalProps> = ({
   campaign,
 }) => {
   const [report, setReport] = useState<CampaignReport | null>(null);
+  const [sentHtml, setSentHtml] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -69,6 +75,15 @@ export const CampaignReportModal: React.FC<CampaignReportModalProps> = ({
       const { apiClient } = await import("../../utils/apiClient");
       const reportData = await apiClient.getCampaignReport(campaign.id);
       setReport(reportData);
+
+      // The email as sent, for the click heatmap
+      try {
+        const preview = await apiClient.previewCampaign(campaign.id);
+        setSentHtml(preview.content || null);
+      } catch (previewError) {
+        console.error("Failed to load campaign content:", previewError);
+        setSentHtml(null);
+      }
     } catch (error) {
       console.error("Failed to fetch campaign report:", error);
       setError(error instanceof Error ? error.message : "Failed to fetch campaign report");
@@ -79,6 +94,9 @@ export const CampaignReportModal: React.FC<CampaignReportModalProps> = ({
 
   if (!isOpen) return null;
 
+  // Counts from the report are fresher than the campaign list's
+  const stats = report?.campaign || campaign;
+
   const getPercentage = (value: number, total: number) => {
     if (total === 0) return "0%";
     return `${((value / total) * 100).toFixed(1)}%`;
@@ -191,35 +209,35 @@ export const CampaignReportModal: React.FC<CampaignReportModalProps> = ({
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                   <StatCard
                     title="Delivered"
-                    value={campaign.deliveredCount.toLocaleString()}
-                    percentage={getPercentage(campaign.deliveredCount, campaign.sentCount)}
+                    value={stats.deliveredCount.toLocaleString()}
+                    percentage={getPercentage(stats.deliveredCount, stats.sentCount)}
                     icon={Mail}
                     color="bg-blue-500"
                     trend="up"
                   />
                   <StatCard
                     title="Opened"
-                    value={campaign.openedCount.toLocaleString()}
-                    percentage={getPercentage(campaign.openedCount, campaign.sentCount)}
+                    value={stats.openedCount.toLocaleString()}
+                    percentage={getPercentage(stats.openedCount, stats.sentCount)}
                     icon={TrendingUp}
                     color="bg-green-500"
-                    trend={campaign.openedCount > 0 ? "up" : "neutral"}
+                    trend={stats.openedCount > 0 ? "up" : "neutral"}
                   />
                   <StatCard
                     title="Clicked"
-                    value={campaign.clickedCount.toLocaleString()}
-                    percentage={getPercentage(campaign.clickedCount, campaign.sentCount)}
+                    value={stats.clickedCount.toLocaleString()}
+                    percentage={getPercentage(stats.clickedCount, stats.sentCount)}
                     icon={MousePointer}
                     color="bg-purple-500"
-                    trend={campaign.clickedCount > 0 ? "up" : "neutral"}
+                    trend={stats.clickedCount > 0 ? "up" : "neutral"}
                   />
                   <StatCard
                     title="Bounced"
-                    value={campaign.bouncedCount.toLocaleString()}
-                    percentage={getPercentage(campaign.bouncedCount, campaign.sentCount)}
+                    value={stats.bouncedCount.toLocaleString()}
+                    percentage={getPercentage(stats.bouncedCount, stats.sentCount)}
                     icon={AlertTriangle}
                     color="bg-red-500"
-                    trend={campaign.bouncedCount > 0 ? "down" : "neutral"}
+                    trend={stats.bouncedCount > 0 ? "down" : "neutral"}
                   />
                 </div>
               </div>
@@ -230,7 +248,7 @@ export const CampaignReportModal: React.FC<CampaignReportModalProps> = ({
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   <div className="text-center">
                     <div className="text-3xl font-bold text-blue-600">
-                      {getPercentage(campaign.openedCount, campaign.sentCount)}
+                      {getPercentage(stats.openedCount, stats.sentCount)}
                     </div>
                     <div className="text-sm text-gray-600">Open Rate</div>
                     <div className="text-xs text-gray-500 mt-1">
@@ -239,7 +257,7 @@ export const CampaignReportModal: React.FC<CampaignReportModalProps> = ({
                   </div>
                   <div className="text-center">
                     <div className="text-3xl font-bold text-green-600">
-                      {getPercentage(campaign.clickedCount, campaign.sentCount)}
+                      {getPercentage(stats.clickedCount, stats.sentCount)}
                     </div>
                     <div className="text-sm text-gray-600">Click Rate</div>
                     <div className="text-xs text-gray-500 mt-1">
@@ -248,7 +266,7 @@ export const CampaignReportModal: React.FC<CampaignReportModalProps> = ({
                   </div>
                   <div className="text-center">
                     <div className="text-3xl font-bold text-purple-600">
-                      {campaign.openedCount > 0 ? getPercentage(campaign.clickedCount, campaign.openedCount) : "0%"}
+                      {stats.openedCount > 0 ? getPercentage(stats.clickedCount, stats.openedCount) : "0%"}
                     </div>
                     <div className="text-sm text-gray-600">Click-to-Open Rate</div>
                     <div className="text-xs text-gray-500 mt-1">
@@ -267,41 +285,57 @@ export const CampaignReportModal: React.FC<CampaignReportModalProps> = ({
                     <dl className="space-y-2">
                       <div className="flex justify-between">
                         <dt className="text-sm text-gray-600">Total Recipients</dt>
-                        <dd className="text-sm font-medium text-gray-900">{campaign.totalRecipients.toLocaleString()}</dd>
+                        <dd className="text-sm font-medium text-gray-900">{stats.totalRecipients.toLocaleString()}</dd>
                       </div>
                       <div className="flex justify-between">
                         <dt className="text-sm text-gray-600">Successfully Sent</dt>
-                        <dd className="text-sm font-medium text-gray-900">{campaign.sentCount.toLocaleString()}</dd>
+                        <dd className="text-sm font-medium text-gray-900">{stats.sentCount.toLocaleString()}</dd>
                       </div>
                       <div className="flex justify-between">
                         <dt className="text-sm text-gray-600">Delivered</dt>
-                        <dd className="text-sm font-medium text-gray-900">{campaign.deliveredCount.toLocaleString()}</dd>
+                        <dd className="text-sm font-medium text-gray-900">{stats.deliveredCount.toLocaleString()}</dd>
                       </div>
                       <div className="flex justify-between">
                         <dt className="text-sm text-gray-600">Bounced</dt>
-                        <dd className="text-sm font-medium text-red-600">{campaign.bouncedCount.toLocaleString()}</dd>
+                        <dd className="text-sm font-medium text-red-600">{stats.bouncedCount.toLocaleString()}</dd>
                       </div>
                     </dl>
                   </div>
                   <div>
                     <h4 className="text-sm font-medium text-gray-700 mb-3">Engagement Details</h4>
                     <dl className="space-y-2">
+                      <div className="flex justify-between">
+                        <dt className="text-sm text-gray-600">Unique Opens</dt>
+                        <dd className="text-sm font-medium text-gray-900">{stats.openedCount.toLocaleString()}</dd>
+                      </div>
                       <div className="flex justify-between">
                         <dt className="text-sm text-gray-600">Total Opens</dt>
-                        <dd className="text-sm font-medium text-gray-900">{campaign.openedCount.toLocaleString()}</dd>
+                        <dd className="text-sm font-medium text-gray-900">
+                          {(report?.engagement.totalOpens ?? stats.openedCount).toLocaleString()}
+                        </dd>
+                      </div>
+                      <div className="flex justify-between">
+                        <dt className="text-sm text-gray-600">Unique Clicks</dt>
+                        <dd className="text-sm font-medium text-gray-900">{stats.clickedCount.toLocaleString()}</dd>
                       </div>
                       <div className="flex justify-between">
                         <dt className="text-sm text-gray-600">Total Clicks</dt>
-                        <dd className="text-sm font-medium text-gray-900">{campaign.clickedCount.toLocaleString()}</dd>
+                        <dd className="text-sm font-medium text-gray-900">
+                          {(report?.engagement.totalClicks ?? stats.clickedCount).toLocaleString()}
+                        </dd>
                       </div>
                       <div className="flex justify-between">
                         <dt className="text-sm text-gray-600">Unsubscribes</dt>
-                        <dd className="text-sm font-medium text-orange-600">{campaign.unsubscribedCount.toLocaleString()}</dd>
+                        <dd className="text-sm font-medium text-orange-600">{stats.unsubscribedCount.toLocaleString()}</dd>
+                      </div>
+                      <div className="flex justify-between">
+                        <dt className="text-sm text-gray-600">Spam Complaints</dt>
+                        <dd className="text-sm font-medium text-red-600">{(stats.complainedCount || 0).toLocaleString()}</dd>
                       </div>
                       <div className="flex justify-between">
                         <dt className="text-sm text-gray-600">Sent Date</dt>
                         <dd className="text-sm font-medium text-gray-900">
-                          {campaign.sentAt ? new Date(campaign.sentAt).toLocaleDateString() : "N/A"}
+                          {stats.sentAt ? new Date(stats.sentAt).toLocaleDateString() : "N/A"}
                         </dd>
                       </div>
                     </dl>
@@ -309,6 +343,18 @@ export const CampaignReportModal: React.FC<CampaignReportModalProps> = ({
                 </div>
               </div>
 
+              {/* Click Heatmap */}
+              {report && (sentHtml || (report.links?.length ?? 0) > 0) && (
+                <div className="bg-white border border-gray-200 rounded-lg p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-1">Click Heatmap</h3>
+                  <p className="text-sm text-gray-600 mb-4">
+                    Each link shows its clicks, unique clicks and share of all
+                    clicks. Hover a row to find its link in the email.
+                  </p>
+                  <ClickHeatmap html={sentHtml || ""} links={report.links || []} />
+                </div>
+              )}
+
               {/* Additional Insights */}
               {report && (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
@@ -335,6 +381,10 @@ export const CampaignReportModal: React.FC<CampaignReportModalProps> = ({
                     ) : (
                       <p>✅ Good delivery rate! Your email list quality is excellent.</p>
                     )}
+
+                    {report.complaintRate > 0.1 && (
+                      <p>⚠️ Spam complaints are above 0.1% of delivered emails. Make sure recipients opted in and can easily unsubscribe.</p>
+                    )}
                   </div>
                 </div>
               )}
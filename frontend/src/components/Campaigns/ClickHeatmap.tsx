@@ -0,0 +1,277 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+
+// Clicks on one link of a campaign, from the campaign report
+export interface LinkClickStats {
+  linkIndex: number | null; // Null for clicks from before positions were tracked
+  url: string;
+  clicks: number;
+  uniqueClicks: number;
+  share: number; // Percentage of all clicks
+}
+
+interface ClickHeatmapProps {
+  html: string;
+  links: LinkClickStats[];
+}
+
+interface HeatmapRow extends LinkClickStats {
+  text: string;
+}
+
+type SortKey = "linkIndex" | "text" | "clicks" | "uniqueClicks" | "share";
+
+const OVERLAY_ID = "csemail-click-heatmap";
+
+// The links the server tracks, in the order it numbers them (see
+// server/services/trackingService.js)
+const getTrackedLinks = (doc: Document) =>
+  Array.from(doc.querySelectorAll<HTMLAnchorElement>("a[href]")).filter(
+    (link) =>
+      /^https?:\/\//i.test(link.getAttribute("href") || "") &&
+      !link.hasAttribute("data-no-track")
+  );
+
+const getLinkText = (link: HTMLAnchorElement) =>
+  link.textContent?.trim() ||
+  link.querySelector("img")?.getAttribute("alt") ||
+  "(image)";
+
+/**
+ * The sent email with each tracked link outlined in proportion to its
+ * clicks and labelled with clicks, unique clicks and share of all clicks,
+ * above a sortable table of the links. Links are matched to their stats by
+ * position, so links to the same URL are told apart.
+ */
+export const ClickHeatmap: React.FC<ClickHeatmapProps> = ({ html, links }) => {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [anchors, setAnchors] = useState<{ url: string; text: string }[]>([]);
+  const [height, setHeight] = useState(400);
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: "clicks",
+    descending: true,
+  });
+
+  const statsByIndex = useMemo(
+    () =>
+      new Map(
+        links
+          .filter((link) => link.linkIndex !== null)
+          .map((link) => [link.linkIndex as number, link])
+      ),
+    [links]
+  );
+
+  const drawOverlay = useCallback(() => {
+    const doc = iframeRef.current?.contentDocument;
+    if (!doc?.body) return;
+
+    doc.getElementById(OVERLAY_ID)?.remove();
+    const overlay = doc.createElement("div");
+    overlay.id = OVERLAY_ID;
+    overlay.style.cssText =
+      "position:absolute;top:0;left:0;width:0;height:0;pointer-events:none;";
+
+    const view = doc.defaultView;
+    const maxClicks = Math.max(1, ...links.map((link) => link.clicks));
+
+    getTrackedLinks(doc).forEach((link, index) => {
+      const stats = statsByIndex.get(index);
+      const clicks = stats?.clicks || 0;
+      const heat = clicks / maxClicks;
+      const rect = link.getBoundingClientRect();
+      if (rect.width === 0 && rect.height === 0) return;
+
+      const top = rect.top + (view?.scrollY || 0);
+      const left = rect.left + (view?.scrollX || 0);
+      const isHighlighted = highlighted === index;
+
+      const box = doc.createElement("div");
+      box.style.cssText = [
+        "position:absolute",
+        `top:${top - 2}px`,
+        `left:${left - 2}px`,
+        `width:${rect.width + 4}px`,
+        `height:${rect.height + 4}px`,
+        "box-sizing:border-box",
+        "border-radius:4px",
+        isHighlighted
+          ? "border:3px solid #2563eb"
+          : clicks > 0
+          ? `border:2px solid rgba(220,38,38,${0.4 + 0.6 * heat})`
+          : "border:2px dashed rgba(107,114,128,0.6)",
+        `background:rgba(239,68,68,${clicks > 0 ? 0.1 + 0.4 * heat : 0})`,
+      ].join(";");
+
+      const label = doc.createElement("div");
+      label.textContent = stats
+        ? `${clicks} clicks · ${stats.uniqueClicks} unique · ${stats.share}%`
+        : "No clicks";
+      label.style.cssText = [
+        "position:absolute",
+        `top:${Math.max(0, top - 20)}px`,
+        `left:${left}px`,
+        "padding:1px 6px",
+        "border-radius:9999px",
+        "font:600 11px/16px system-ui,sans-serif",
+        "white-space:nowrap",
+        "color:#fff",
+        `background:${
+          isHighlighted ? "#2563eb" : clicks > 0 ? "#b91c1c" : "#6b7280"
+        }`,
+      ].join(";");
+
+      overlay.appendChild(box);
+      overlay.appendChild(label);
+    });
+
+    doc.body.appendChild(overlay);
+  }, [links, statsByIndex, highlighted]);
+
+  const handleLoad = () => {
+    const doc = iframeRef.current?.contentDocument;
+    if (!doc) return;
+    setAnchors(
+      getTrackedLinks(doc).map((link) => ({
+        url: link.getAttribute("href") || "",
+        text: getLinkText(link),
+      }))
+    );
+    setHeight(Math.max(400, doc.documentElement.scrollHeight + 24));
+    drawOverlay();
+  };
+
+  useEffect(() => {
+    drawOverlay();
+    window.addEventListener("resize", drawOverlay);
+    return () => window.removeEventListener("resize", drawOverlay);
+  }, [drawOverlay, height]);
+
+  // Every link in the email, plus clicks that cannot be placed on one
+  const rows = useMemo<HeatmapRow[]>(() => {
+    const placed = anchors.map((anchor, index) => ({
+      linkIndex: index,
+      url: statsByIndex.get(index)?.url || anchor.url,
+      text: anchor.text,
+      clicks: statsByIndex.get(index)?.clicks || 0,
+      uniqueClicks: statsByIndex.get(index)?.uniqueClicks || 0,
+      share: statsByIndex.get(index)?.share || 0,
+    }));
+    const unplaced = links
+      .filter(
+        (link) => link.linkIndex === null || link.linkIndex >= anchors.length
+      )
+      .map((link) => ({ ...link, text: "" }));
+
+    const direction = sort.descending ? -1 : 1;
+    return [...placed, ...unplaced].sort((a, b) => {
+      const first = a[sort.key] ?? -1;
+      const second = b[sort.key] ?? -1;
+      if (typeof first === "string" && typeof second === "string") {
+        return first.localeCompare(second) * direction;
+      }
+      return (Number(first) - Number(second)) * direction;
+    });
+  }, [anchors, links, statsByIndex, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) => ({
+      key,
+      descending: prev.key === key ? !prev.descending : key !== "linkIndex",
+    }));
+
+  const SortHeader = ({
+    label,
+    sortKey,
+    align = "left",
+  }: {
+    label: string;
+    sortKey: SortKey;
+    align?: "left" | "right";
+  }) => {
+    const Icon =
+      sort.key !== sortKey ? ArrowUpDown : sort.descending ? ArrowDown : ArrowUp;
+    return (
+      <th
+        className={`py-2 px-3 text-xs font-medium text-gray-500 uppercase tracking-wider text-${align}`}
+      >
+        <button
+          type="button"
+          onClick={() => toggleSort(sortKey)}
+          className="inline-flex items-center gap-1 hover:text-gray-900"
+        >
+          {label}
+          <Icon className="w-3 h-3" />
+        </button>
+      </th>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border border-gray-200 rounded-lg overflow-hidden bg-gray-50">
+        <iframe
+          ref={iframeRef}
+          srcDoc={html}
+          onLoad={handleLoad}
+          title="Click heatmap"
+          sandbox="allow-same-origin"
+          className="w-full border-0 bg-white"
+          style={{ height }}
+        />
+      </div>
+
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead>
+          <tr>
+            <SortHeader label="#" sortKey="linkIndex" />
+            <SortHeader label="Link" sortKey="text" />
+            <SortHeader label="Clicks" sortKey="clicks" align="right" />
+            <SortHeader label="Unique" sortKey="uniqueClicks" align="right" />
+            <SortHeader label="Share" sortKey="share" align="right" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map((row) => (
+            <tr
+              key={`${row.linkIndex ?? "url"}-${row.url}`}
+              onMouseEnter={() => setHighlighted(row.linkIndex)}
+              onMouseLeave={() => setHighlighted(null)}
+              className="hover:bg-blue-50"
+            >
+              <td className="py-2 px-3 text-sm text-gray-500">
+                {row.linkIndex !== null ? row.linkIndex + 1 : "-"}
+              </td>
+              <td className="py-2 px-3 text-sm max-w-md">
+                {row.text && (
+                  <div className="font-medium text-gray-900 truncate">
+                    {row.text}
+                  </div>
+                )}
+                <a
+                  href={row.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={row.url}
+                  className="block text-xs text-blue-600 truncate"
+                >
+                  {row.url}
+                </a>
+              </td>
+              <td className="py-2 px-3 text-sm text-right text-gray-900">
+                {row.clicks.toLocaleString()}
+              </td>
+              <td className="py-2 px-3 text-sm text-right text-gray-900">
+                {row.uniqueClicks.toLocaleString()}
+              </td>
+              <td className="py-2 px-3 text-sm text-right text-gray-900">
+                {row.share}%
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,9 +1,9 @@
 import React, { useState, useEffect } from "react";
 import { X, Mail, Users, Settings, Eye, Plus } from "lucide-react";
 import { ContactListManagerModal } from "../Contact/ContactListManagerModal";
-const fromName = import.meta.env.VITE_DEFAULT_FROM_NAME;
-const support = import.meta.env.VITE_DEFAULT_SUPPORT_EMAIL;
-const noreply = import.meta.env.VITE_DEFAULT_FROM_EMAIL;
+import { previewMergeTags, SAMPLE_CONTACT } from "../../utils/mergeTags";
+import { Segment, SenderIdentity } from "../../types";
+
 interface Template {
   _id: string;
   name: string;
@@ -30,6 +30,7 @@ interface ContactList {
 interface CampaignFormData {
   name: string;
   subject: string;
+  senderIdentityId: string;
   fromName: string;
   fromEmail: string;
   replyToEmail: string;
@@ -38,6 +39,7 @@ interface CampaignFormData {
   htmlContent: string;
   variables: Record<string, string>;
   listIds: string[];
+  segmentIds: string[];
   scheduledAt: string;
 }
 
@@ -47,6 +49,15 @@ interface CreateCampaignModalProps {
   onCampaignCreated: (campaign: any) => void;
 }
 
+// From fields shown in the review step; the server copies them from the
+// identity when the campaign is saved
+const senderFields = (identity: SenderIdentity) => ({
+  senderIdentityId: identity.id,
+  fromName: identity.name,
+  fromEmail: identity.email,
+  replyToEmail: identity.replyToEmail || identity.email,
+});
+
 export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
   isOpen,
   onClose,
@@ -56,6 +67,10 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
   const [loading, setLoading] = useState(false);
   const [templates, setTemplates] = useState<Template[]>([]);
   const [contactLists, setContactLists] = useState<ContactList[]>([]);
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [senderIdentities, setSenderIdentities] = useState<SenderIdentity[]>(
+    []
+  );
   const [previewHtml, setPreviewHtml] = useState("");
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showContactListManager, setShowContactListManager] = useState(false);
@@ -63,6 +78,7 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
   const [formData, setFormData] = useState<CampaignFormData>({
     name: "",
     subject: "",
+    senderIdentityId: "",
     fromName: "",
     fromEmail: "",
     replyToEmail: "",
@@ -71,6 +87,7 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
     htmlContent: "",
     variables: {},
     listIds: [],
+    segmentIds: [],
     scheduledAt: "",
   });
 
@@ -85,44 +102,32 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
     if (isOpen) {
       fetchTemplates();
       fetchContactLists();
-      fetchEmailDefaults();
+      fetchSegments();
+      fetchSenderIdentities();
     }
   }, [isOpen]);
 
-  // const fetch
-
-  const fetchEmailDefaults = async () => {
+  // Campaigns can only be sent from approved identities
+  const fetchSenderIdentities = async () => {
     try {
       const response = await (
         await import("../../utils/apiClient")
-      ).apiClient.get("/api/settings/email-defaults");
-
-      if (response) {
-        setFormData((prev) => ({
-          ...prev,
-          fromName: (response as any).fromName || "from",
-          fromEmail: (response as any).fromEmail || noreply || "",
-          replyToEmail: (response as any).replyToEmail || support || "",
-        }));
-      } else {
-        // Fallback to environment variables if API fails
-        setFormData((prev) => ({
-          ...prev,
-          fromName: import.meta.env.VITE_DEFAULT_FROM_NAME || fromName || "",
-          fromEmail: import.meta.env.VITE_DEFAULT_FROM_EMAIL || noreply || "",
-          replyToEmail:
-            import.meta.env.VITE_DEFAULT_SUPPORT_EMAIL || support || "",
-        }));
+      ).apiClient.getSenderIdentities({ approved: true });
+      const identities: SenderIdentity[] = response.identities || [];
+      setSenderIdentities(identities);
+
+      const preselected =
+        identities.find((identity) => identity.isDefault) ||
+        (identities.length === 1 ? identities[0] : undefined);
+      if (preselected) {
+        setFormData((prev) =>
+          prev.senderIdentityId
+            ? prev
+            : { ...prev, ...senderFields(preselected) }
+        );
       }
     } catch (error) {
-      // Fallback to environment variables
-      setFormData((prev) => ({
-        ...prev,
-        fromName: import.meta.env.VITE_DEFAULT_FROM_NAME || fromName || "",
-        fromEmail: import.meta.env.VITE_DEFAULT_FROM_EMAIL || noreply || "",
-        replyToEmail:
-          import.meta.env.VITE_DEFAULT_SUPPORT_EMAIL || support || "",
-      }));
+      console.error("Failed to fetch sender identities:", error);
     }
   };
 
@@ -148,6 +153,17 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
     }
   };
 
+  const fetchSegments = async () => {
+    try {
+      const response = await (
+        await import("../../utils/apiClient")
+      ).apiClient.getSegments();
+      setSegments(response.segments || []);
+    } catch (error) {
+      console.error("Failed to fetch segments:", error);
+    }
+  };
+
   const validateStep = (step: number): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -164,13 +180,8 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
         if (!formData.subject.trim()) {
           newErrors.subject = "Subject is required";
         }
-        if (!formData.fromName.trim()) {
-          newErrors.fromName = "From name is required";
-        }
-        if (!formData.fromEmail.trim()) {
-          newErrors.fromEmail = "From email is required";
-        } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.fromEmail)) {
-          newErrors.fromEmail = "Invalid email format";
+        if (!formData.senderIdentityId) {
+          newErrors.senderIdentityId = "Please choose a sender identity";
         }
 
         // Validate template variables
@@ -220,8 +231,9 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
         }
         break;
       case 3:
-        if (formData.listIds.length === 0) {
-          newErrors.listIds = "Please select at least one contact list";
+        if (formData.listIds.length === 0 && formData.segmentIds.length === 0) {
+          newErrors.listIds =
+            "Please select at least one contact list or segment";
         }
         break;
     }
@@ -261,6 +273,21 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
     }));
   };
 
+  const handleSenderSelect = (id: string) => {
+    const identity = senderIdentities.find((item) => item.id === id);
+    setFormData((prev) => ({
+      ...prev,
+      ...(identity
+        ? senderFields(identity)
+        : {
+            senderIdentityId: "",
+            fromName: "",
+            fromEmail: "",
+            replyToEmail: "",
+          }),
+    }));
+  };
+
   const handleVariableChange = (key: string, value: string) => {
     setFormData((prev) => ({
       ...prev,
@@ -272,28 +299,12 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
   };
 
   // Function to preview content with variables replaced
-  const getVariablePreview = (content: string): string => {
-    let previewContent = content;
-
-    // Replace variables with actual values or placeholders
-    Object.entries(formData.variables).forEach(([key, value]) => {
-      const placeholder = value.trim() || `[${key}]`;
-      const variableRegex = new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, "g");
-      previewContent = previewContent.replace(variableRegex, placeholder);
+  const getVariablePreview = (content: string): string =>
+    previewMergeTags(content, formData.variables, {
+      format: "text",
+      contact: SAMPLE_CONTACT,
     });
 
-    // Show remaining unreplaced variables
-    const remainingVars = previewContent.match(/\{\{[^}]+\}\}/g);
-    if (remainingVars) {
-      remainingVars.forEach((variable) => {
-        const varName = variable.replace(/[{}]/g, "").trim();
-        previewContent = previewContent.replace(variable, `[${varName}]`);
-      });
-    }
-
-    return previewContent;
-  };
-
   const handleContactListToggle = (listId: string) => {
     setFormData((prev) => ({
       ...prev,
@@ -303,6 +314,15 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
     }));
   };
 
+  const handleSegmentToggle = (segmentId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      segmentIds: prev.segmentIds.includes(segmentId)
+        ? prev.segmentIds.filter((id) => id !== segmentId)
+        : [...prev.segmentIds, segmentId],
+    }));
+  };
+
   const handleContactListCreated = (newList: ContactList) => {
     setContactLists((prev) => [...prev, newList]);
     setShowContactListManager(false);
@@ -314,30 +334,11 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
     try {
       setLoading(true);
 
-      // Generate preview content directly from template and variables
-      let previewContent = selectedTemplate.content || "";
-
-      // Replace variables with actual values or sample data
-      const sampleData = {
-        first_name: "John",
-        last_name: "Doe",
-        email: "john@example.com",
-        company_name: "Sample Company",
-        ...formData.variables,
-      };
-
-      // Replace all variables in the content
-      Object.entries(sampleData).forEach(([key, value]) => {
-        const regex = new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, "g");
-        previewContent = previewContent.replace(regex, value || `[${key}]`);
-      });
-
-      // Replace any remaining unreplaced variables with placeholder text
-      previewContent = previewContent.replace(
-        /\{\{([^}]+)\}\}/g,
-        (_match: string, varName: string) => {
-          return `[${varName.trim()}]`;
-        }
+      // Render with a sample recipient, the same way emails are sent
+      const previewContent = previewMergeTags(
+        selectedTemplate.content || "",
+        formData.variables,
+        { contact: SAMPLE_CONTACT }
       );
 
       setPreviewHtml(previewContent);
@@ -389,6 +390,7 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
         setFormData({
           name: "",
           subject: "",
+          senderIdentityId: "",
           fromName: "",
           fromEmail: "",
           replyToEmail: "",
@@ -397,6 +399,7 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
           htmlContent: "",
           variables: {},
           listIds: [],
+          segmentIds: [],
           scheduledAt: "",
         });
         setCurrentStep(1);
@@ -416,9 +419,15 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
   if (!isOpen) return null;
 
   const selectedTemplate = templates.find((t) => t._id === formData.templateId);
-  const totalRecipients = contactLists
-    .filter((list) => formData.listIds.includes(list._id))
-    .reduce((sum, list) => sum + list.contactCount, 0);
+  // Segments are evaluated when the campaign is sent, and may overlap with
+  // the lists, so with segments this is an estimate
+  const totalRecipients =
+    contactLists
+      .filter((list) => formData.listIds.includes(list._id))
+      .reduce((sum, list) => sum + list.contactCount, 0) +
+    segments
+      .filter((segment) => formData.segmentIds.includes(segment._id))
+      .reduce((sum, segment) => sum + segment.contactCount, 0);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -563,80 +572,40 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    From Name *
+                    Sender *
                   </label>
-                  <input
-                    type="text"
-                    value={`${fromName}` || formData.fromName}
-                    onChange={(e) =>
-                      setFormData((prev) => ({
-                        ...prev,
-                        fromName: e.target.value,
-                      }))
-                    }
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder={
-                      import.meta.env.VITE_DEFAULT_FROM_NAME ||
-                      fromName ||
-                      "e.g., Codlogics Software Engineering"
-                    }
-                  />
-                  {errors.fromName && (
-                    <p className="text-red-600 text-sm mt-1">
-                      {errors.fromName}
+                  {senderIdentities.length > 0 ? (
+                    <select
+                      value={formData.senderIdentityId}
+                      onChange={(e) => handleSenderSelect(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Choose a sender identity</option>
+                      {senderIdentities.map((identity) => (
+                        <option key={identity.id} value={identity.id}>
+                          {identity.name} &lt;{identity.email}&gt;
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="text-sm text-gray-600">
+                      There are no approved sender identities yet. An admin
+                      can add and approve one under Settings → Sender
+                      Identities.
                     </p>
                   )}
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    From Email *
-                  </label>
-                  <input
-                    type="email"
-                    value={formData.fromEmail}
-                    onChange={(e) =>
-                      setFormData((prev) => ({
-                        ...prev,
-                        fromEmail: e.target.value,
-                      }))
-                    }
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder={
-                      import.meta.env.VITE_DEFAULT_FROM_EMAIL ||
-                      noreply ||
-                      "e.g., noreply@codlogics.com"
-                    }
-                  />
-                  {errors.fromEmail && (
+                  {formData.senderIdentityId && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Replies go to {formData.replyToEmail}
+                    </p>
+                  )}
+                  {errors.senderIdentityId && (
                     <p className="text-red-600 text-sm mt-1">
-                      {errors.fromEmail}
+                      {errors.senderIdentityId}
                     </p>
                   )}
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Reply-To Email
-                  </label>
-                  <input
-                    type="email"
-                    value={formData.replyToEmail}
-                    onChange={(e) =>
-                      setFormData((prev) => ({
-                        ...prev,
-                        replyToEmail: e.target.value,
-                      }))
-                    }
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder={
-                      import.meta.env.VITE_SUPPORT_EMAIL ||
-                      support ||
-                      "e.g., support@codlogics.com"
-                    }
-                  />
-                </div>
-
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Preheader Text
@@ -821,6 +790,45 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
                   ))}
                 </div>
               )}
+
+              {segments.length > 0 && (
+                <div className="mt-6">
+                  <h4 className="font-medium text-gray-900 mb-1">Segments</h4>
+                  <p className="text-sm text-gray-500 mb-3">
+                    Matching contacts are found when the campaign is sent
+                  </p>
+                  <div className="space-y-3">
+                    {segments.map((segment) => (
+                      <div
+                        key={segment._id}
+                        className="flex items-center justify-between p-4 border border-gray-200 rounded-lg"
+                      >
+                        <div className="flex items-center space-x-3">
+                          <input
+                            type="checkbox"
+                            checked={formData.segmentIds.includes(segment._id)}
+                            onChange={() => handleSegmentToggle(segment._id)}
+                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                          />
+                          <div>
+                            <h4 className="font-medium text-gray-900">
+                              {segment.name}
+                            </h4>
+                            {segment.description && (
+                              <p className="text-sm text-gray-500">
+                                {segment.description}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          ~{segment.contactCount.toLocaleString()} contacts
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
               {errors.listIds && (
                 <p className="text-red-600 text-sm mt-2">{errors.listIds}</p>
               )}
@@ -828,8 +836,10 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
               {totalRecipients > 0 && (
                 <div className="mt-4 p-3 bg-blue-50 rounded-lg">
                   <p className="text-sm text-blue-800">
-                    Total recipients:{" "}
-                    <strong>{totalRecipients.toLocaleString()}</strong>
+                    {formData.segmentIds.length > 0
+                      ? "Estimated recipients"
+                      : "Total recipients"}
+                    : <strong>{totalRecipients.toLocaleString()}</strong>
                   </p>
                 </div>
               )}
@@ -902,8 +912,8 @@ export const CreateCampaignModal: React.FC<CreateCampaignModalProps> = ({
                             </>
                           )}
                           <div className="text-blue-600 text-xs mt-2">
-                            Variables in [brackets] will be replaced with actual
-                            values when sent.
+                            Variables still shown as {"{{name}}"} have no value
+                            yet and are left out of the sent emails.
                           </div>
                         </div>
                       </div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { X, Save, Loader2 } from "lucide-react";
-import { Campaign } from "../../types";
+import { Campaign, SenderIdentity } from "../../types";
+import { PlainTextEditor } from "../EmailEditor/PlainTextEditor";
 
 interface EditCampaignModalProps {
   isOpen: boolean;
@@ -18,25 +19,40 @@ export const EditCampaignModal: React.FC<EditCampaignModalProps> = ({
   const [formData, setFormData] = useState({
     name: "",
     subject: "",
-    fromName: "",
-    fromEmail: "",
-    replyToEmail: "",
+    senderIdentityId: "",
     preheader: "",
     htmlContent: "",
+    textContent: "",
   });
+  const [senderIdentities, setSenderIdentities] = useState<SenderIdentity[]>(
+    []
+  );
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    const fetchSenderIdentities = async () => {
+      try {
+        const { apiClient } = await import("../../utils/apiClient");
+        const response = await apiClient.getSenderIdentities({ approved: true });
+        setSenderIdentities(response.identities || []);
+      } catch (error) {
+        console.error("Failed to fetch sender identities:", error);
+      }
+    };
+    fetchSenderIdentities();
+  }, [isOpen]);
+
   useEffect(() => {
     if (campaign) {
       setFormData({
         name: campaign.name,
         subject: campaign.subject,
-        fromName: campaign.fromName,
-        fromEmail: campaign.fromEmail,
-        replyToEmail: campaign.replyToEmail,
+        senderIdentityId: campaign.senderIdentityId || "",
         preheader: campaign.preheader || "",
         htmlContent: campaign.htmlContent,
+        textContent: campaign.textContent || "",
       });
     }
   }, [campaign]);
@@ -48,7 +64,15 @@ export const EditCampaignModal: React.FC<EditCampaignModalProps> = ({
 
     try {
       const { apiClient } = await import("../../utils/apiClient");
-      const updatedCampaign = await apiClient.updateCampaign(campaign.id, formData);
+      // The sender only changes when another approved identity is chosen
+      const { senderIdentityId, ...fields } = formData;
+      const senderChanged =
+        senderIdentityId !== "" &&
+        senderIdentityId !== campaign.senderIdentityId;
+      const updatedCampaign = await apiClient.updateCampaign(
+        campaign.id,
+        senderChanged ? { ...fields, senderIdentityId } : fields
+      );
       
       // Ensure proper ID mapping
       const mappedCampaign = {
@@ -66,13 +90,23 @@ export const EditCampaignModal: React.FC<EditCampaignModalProps> = ({
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
   if (!isOpen) return null;
 
+  // Campaigns from before sender identities, or whose identity was revoked,
+  // keep their current sender until another one is chosen
+  const hasApprovedSender = senderIdentities.some(
+    (identity) => identity.id === formData.senderIdentityId
+  );
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -130,51 +164,31 @@ export const EditCampaignModal: React.FC<EditCampaignModalProps> = ({
             </div>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                From Name *
-              </label>
-              <input
-                type="text"
-                name="fromName"
-                value={formData.fromName}
-                onChange={handleChange}
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="Enter sender name"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                From Email *
-              </label>
-              <input
-                type="email"
-                name="fromEmail"
-                value={formData.fromEmail}
-                onChange={handleChange}
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="sender@example.com"
-              />
-            </div>
-          </div>
-
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Reply-To Email *
+              Sender *
             </label>
-            <input
-              type="email"
-              name="replyToEmail"
-              value={formData.replyToEmail}
+            <select
+              name="senderIdentityId"
+              value={formData.senderIdentityId}
               onChange={handleChange}
-              required
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="reply@example.com"
-            />
+            >
+              {!hasApprovedSender && (
+                <option value={formData.senderIdentityId}>
+                  {campaign.fromName} &lt;{campaign.fromEmail}&gt; (current)
+                </option>
+              )}
+              {senderIdentities.map((identity) => (
+                <option key={identity.id} value={identity.id}>
+                  {identity.name} &lt;{identity.email}&gt;
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Only approved sender identities can be chosen. Replies go to the
+              identity's reply-to address.
+            </p>
           </div>
 
           <div>
@@ -210,6 +224,14 @@ export const EditCampaignModal: React.FC<EditCampaignModalProps> = ({
             />
           </div>
 
+          <PlainTextEditor
+            html={formData.htmlContent}
+            value={formData.textContent}
+            onChange={(textContent) =>
+              setFormData((prev) => ({ ...prev, textContent }))
+            }
+          />
+
           {/* Footer */}
           <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
             <button
@@ -1,6 +1,7 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { X, Send, Clock, AlertTriangle, Loader2, Users, Mail } from "lucide-react";
-import { Campaign } from "../../types";
+import { Campaign, DeliveryWindow, MergeTagReport } from "../../types";
+import { formatInTimeZone, getZonedDateTime } from "../../utils/timeZone";
 
 interface SendCampaignModalProps {
   isOpen: boolean;
@@ -9,6 +10,10 @@ interface SendCampaignModalProps {
   onCampaignSent: (updatedCampaign: Campaign) => void;
 }
 
+// Delivery window bounds: 0 (midnight) to 24 (end of the day)
+const hourOptions = Array.from({ length: 25 }, (_, hour) => hour);
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
 export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
   isOpen,
   onClose,
@@ -20,6 +25,71 @@ export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
   const [scheduledTime, setScheduledTime] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [mergeTagReport, setMergeTagReport] = useState<MergeTagReport | null>(
+    null
+  );
+  // Send each recipient the email at the hour they usually open
+  const [optimizeSendTime, setOptimizeSendTime] = useState(
+    campaign.deliveryMode === 'optimized'
+  );
+  const [deliveryWindow, setDeliveryWindow] = useState<DeliveryWindow>(
+    campaign.deliveryWindow || { startHour: 9, endHour: 17 }
+  );
+  // Schedule times are picked in the organization's timezone
+  const [timeZone, setTimeZone] = useState("UTC");
+  const isRescheduling = campaign.status === "scheduled";
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setOptimizeSendTime(campaign.deliveryMode === 'optimized');
+    setDeliveryWindow(campaign.deliveryWindow || { startHour: 9, endHour: 17 });
+  }, [isOpen, campaign.deliveryMode, campaign.deliveryWindow]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const { apiClient } = await import("../../utils/apiClient");
+        const defaults = await apiClient.get<{ timezone?: string }>(
+          "/api/settings/email-defaults"
+        );
+        if (cancelled) return;
+        const zone = defaults.timezone || "UTC";
+        setTimeZone(zone);
+        if (campaign.status === "scheduled" && campaign.scheduledAt) {
+          const current = getZonedDateTime(new Date(campaign.scheduledAt), zone);
+          setSendOption("scheduled");
+          setScheduledDate(current.date);
+          setScheduledTime(current.time);
+        }
+      } catch (error) {
+        console.error("Failed to load timezone:", error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, campaign.status, campaign.scheduledAt]);
+
+  // Check for merge tags that recipients have no value for
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setMergeTagReport(null);
+    (async () => {
+      try {
+        const { apiClient } = await import("../../utils/apiClient");
+        const report = await apiClient.getMergeTagReport(campaign.id);
+        if (!cancelled) setMergeTagReport(report);
+      } catch (error) {
+        console.error("Failed to check merge tags:", error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, campaign.id]);
 
   const handleSend = async () => {
     setLoading(true);
@@ -27,18 +97,22 @@ export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
 
     try {
       const { apiClient } = await import("../../utils/apiClient");
-      
+      const delivery = optimizeSendTime
+        ? { deliveryMode: 'optimized', deliveryWindow }
+        : { deliveryMode: 'immediate' };
+
       let updatedCampaign;
       if (sendOption === 'now') {
-        updatedCampaign = await apiClient.sendCampaign(campaign.id);
+        // The server queues the emails and returns the campaign's progress
+        const response = await apiClient.sendCampaign(campaign.id, delivery);
+        updatedCampaign = { ...campaign, ...response.campaign };
       } else {
-        // For scheduled sending, we would update the campaign with the scheduled date
-        const scheduledAt = new Date(`${scheduledDate}T${scheduledTime}`);
-        updatedCampaign = await apiClient.updateCampaign(campaign.id, {
-          ...campaign,
-          scheduledAt: scheduledAt.toISOString(),
-          status: 'scheduled'
-        });
+        // The server reads the time in the organization's timezone
+        updatedCampaign = await apiClient.scheduleCampaign(
+          campaign.id,
+          `${scheduledDate}T${scheduledTime}`,
+          delivery
+        );
       }
 
       // Ensure proper ID mapping
@@ -67,10 +141,14 @@ export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
 
   if (!isOpen) return null;
 
-  const canSend = campaign.status === 'draft' || campaign.status === 'paused';
-  const now = new Date();
-  const minDate = now.toISOString().split('T')[0];
-  const minTime = now.getHours().toString().padStart(2, '0') + ':' + now.getMinutes().toString().padStart(2, '0');
+  const canSend =
+    campaign.status === 'draft' ||
+    campaign.status === 'paused' ||
+    isRescheduling;
+  const { date: minDate, time: minTime } = getZonedDateTime(
+    new Date(),
+    timeZone
+  );
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -82,8 +160,17 @@ export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
               <Send className="w-6 h-6 text-green-600" />
             </div>
             <div className="ml-4">
-              <h2 className="text-lg font-semibold text-gray-900">Send Campaign</h2>
-              <p className="text-sm text-gray-600">Ready to launch your campaign?</p>
+              <h2 className="text-lg font-semibold text-gray-900">
+                {isRescheduling ? 'Reschedule Campaign' : 'Send Campaign'}
+              </h2>
+              <p className="text-sm text-gray-600">
+                {isRescheduling && campaign.scheduledAt
+                  ? `Scheduled for ${formatInTimeZone(
+                      campaign.scheduledAt,
+                      campaign.scheduledTimezone || timeZone
+                    )}`
+                  : 'Ready to launch your campaign?'}
+              </p>
             </div>
           </div>
           <button
@@ -110,7 +197,7 @@ export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
                   <h3 className="text-sm font-medium text-yellow-800">Cannot Send Campaign</h3>
                   <p className="text-sm text-yellow-700 mt-1">
                     This campaign cannot be sent because its status is "{campaign.status}". 
-                    Only draft or paused campaigns can be sent.
+                    Only draft, paused or scheduled campaigns can be sent.
                   </p>
                 </div>
               </div>
@@ -143,6 +230,48 @@ export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
                 </div>
               </div>
 
+              {/* Merge tag check */}
+              {mergeTagReport?.syntaxError && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+                  <div className="flex">
+                    <AlertTriangle className="h-5 w-5 text-red-400 mt-0.5" />
+                    <div className="ml-3">
+                      <h3 className="text-sm font-medium text-red-800">Template Error</h3>
+                      <p className="text-sm text-red-700 mt-1">
+                        {mergeTagReport.syntaxError}. Fix the template before sending.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+              {mergeTagReport && mergeTagReport.tags.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-6">
+                  <div className="flex">
+                    <AlertTriangle className="h-5 w-5 text-yellow-400 mt-0.5" />
+                    <div className="ml-3">
+                      <h3 className="text-sm font-medium text-yellow-800">Unresolved Merge Tags</h3>
+                      <p className="text-sm text-yellow-700 mt-1">
+                        {mergeTagReport.affectedRecipients.toLocaleString()} of{" "}
+                        {mergeTagReport.totalRecipients.toLocaleString()} recipients
+                        have no value for these tags. They will be left out of
+                        their emails.
+                      </p>
+                      <ul className="mt-2 space-y-1 text-sm text-yellow-800">
+                        {mergeTagReport.tags.map((tag) => (
+                          <li key={tag.tag}>
+                            <code className="font-mono">{`{{${tag.tag}}}`}</code>{" "}
+                            <span className="text-yellow-700">
+                              ({tag.count.toLocaleString()} recipients, e.g.{" "}
+                              {tag.emails.join(", ")})
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Send Options */}
               <div className="space-y-4 mb-6">
                 <h3 className="text-sm font-medium text-gray-900">When would you like to send this campaign?</h3>
@@ -163,7 +292,7 @@ export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
                       <span className="text-sm font-medium text-gray-900">Send Now</span>
                     </div>
                     <p className="text-xs text-gray-500 mt-1">
-                      Campaign will be sent immediately to all recipients
+                      Campaign is queued now and sent in the background at the configured rate
                     </p>
                   </div>
                 </label>
@@ -209,10 +338,78 @@ export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
                             className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                           />
                         </div>
+                        <p className="col-span-2 text-xs text-gray-500">
+                          Times are in {timeZone}, set in Settings
+                        </p>
                       </div>
                     )}
                   </div>
                 </label>
+
+                {/* Send-time optimization */}
+                <div className="p-4 border border-gray-200 rounded-lg">
+                  <label className="flex items-start cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={optimizeSendTime}
+                      onChange={(e) => setOptimizeSendTime(e.target.checked)}
+                      className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <div className="ml-3">
+                      <span className="text-sm font-medium text-gray-900">
+                        Optimize send time per recipient
+                      </span>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Each contact gets the email at the hour they usually
+                        open, within the window below in their timezone.
+                        Contacts without open history get the start of the
+                        window. Delivery may take up to a day.
+                      </p>
+                    </div>
+                  </label>
+                  {optimizeSendTime && (
+                    <div className="grid grid-cols-2 gap-3 mt-3 ml-7">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                        <select
+                          value={deliveryWindow.startHour}
+                          onChange={(e) =>
+                            setDeliveryWindow((prev) => ({
+                              ...prev,
+                              startHour: Number(e.target.value),
+                            }))
+                          }
+                          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          {hourOptions.slice(0, 24).map((hour) => (
+                            <option key={hour} value={hour}>
+                              {formatHour(hour)}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Until</label>
+                        <select
+                          value={deliveryWindow.endHour}
+                          onChange={(e) =>
+                            setDeliveryWindow((prev) => ({
+                              ...prev,
+                              endHour: Number(e.target.value),
+                            }))
+                          }
+                          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          {hourOptions.slice(1).map((hour) => (
+                            <option key={hour} value={hour}>
+                              {formatHour(hour)}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  )}
+                </div>
               </div>
 
               {/* Warning for large lists */}
@@ -224,7 +421,7 @@ export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
                       <h3 className="text-sm font-medium text-blue-800">Large Recipient List</h3>
                       <p className="text-sm text-blue-700 mt-1">
                         This campaign will be sent to {campaign.totalRecipients.toLocaleString()} recipients. 
-                        Large campaigns may take some time to process and deliver.
+                        Large campaigns may take some time to process and deliver. Follow progress in the Queue Monitor.
                       </p>
                     </div>
                   </div>
@@ -246,7 +443,13 @@ export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
           {canSend && (
             <button
               onClick={handleSend}
-              disabled={loading || (sendOption === 'scheduled' && (!scheduledDate || !scheduledTime))}
+              disabled={
+                loading ||
+                Boolean(mergeTagReport?.syntaxError) ||
+                (sendOption === 'scheduled' && (!scheduledDate || !scheduledTime)) ||
+                (optimizeSendTime &&
+                  deliveryWindow.startHour >= deliveryWindow.endHour)
+              }
               className="px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
             >
               {loading ? (
@@ -264,7 +467,7 @@ export const SendCampaignModal: React.FC<SendCampaignModalProps> = ({
                   ) : (
                     <>
                       <Clock className="w-4 h-4 mr-2" />
-                      Schedule Campaign
+                      {isRescheduling ? 'Reschedule' : 'Schedule Campaign'}
                     </>
                   )}
                 </>
@@ -19,7 +19,16 @@ import { Label } from "../ui/label";
 //   SelectTrigger,
 //   SelectValue,
 // } from "./ui/select"
-import { Contact } from "../../types";
+import {
+  Contact,
+  CustomFieldDefinition,
+  CustomFieldValue,
+} from "../../types";
+import { CustomFieldInput } from "./CustomFieldInput";
+import {
+  isBlankCustomFieldValue,
+  toCustomFieldFormValue,
+} from "../../utils/customFields";
 
 interface ContactFormDialogProps {
   contact?: Contact;
@@ -28,6 +37,7 @@ interface ContactFormDialogProps {
   trigger?: React.ReactNode;
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
+  customFieldDefinitions?: CustomFieldDefinition[];
 }
 
 interface ContactFormData {
@@ -35,12 +45,9 @@ interface ContactFormData {
   firstName: string;
   lastName: string;
   phone: string;
+  timezone: string;
   tags: string[];
-  customFields: {
-    company?: string;
-    position?: string;
-    // [key: string]: string | undefined
-  };
+  customFields: Contact["customFields"];
   status: "active" | "unsubscribed" | "bounced" | "complained";
   listIds: string[];
 }
@@ -52,12 +59,14 @@ export function ContactFormDialog({
   trigger,
   open,
   onOpenChange,
+  customFieldDefinitions = [],
 }: ContactFormDialogProps) {
   const [formData, setFormData] = useState<ContactFormData>({
     email: contact?.email || "",
     firstName: contact?.firstName || "",
     lastName: contact?.lastName || "",
     phone: contact?.phone || "",
+    timezone: contact?.timezone || "",
     tags: contact?.tags || [],
     customFields: contact?.customFields || {},
     status: contact?.status || "active",
@@ -75,6 +84,18 @@ export function ContactFormDialog({
       return;
     }
 
+    // New contacts get the defaults of fields they leave empty
+    const missingField = customFieldDefinitions.find(
+      (definition) =>
+        definition.required &&
+        isBlankCustomFieldValue(formData.customFields[definition.key]) &&
+        (contact || isBlankCustomFieldValue(definition.defaultValue))
+    );
+    if (missingField) {
+      alert(`${missingField.label} is required`);
+      return;
+    }
+
     onSave(formData);
 
     // Reset form if creating new contact
@@ -84,6 +105,7 @@ export function ContactFormDialog({
         firstName: "",
         lastName: "",
         phone: "",
+        timezone: "",
         tags: [],
         customFields: {},
         status: "active",
@@ -133,6 +155,16 @@ export function ContactFormDialog({
     });
   };
 
+  const setCustomField = (key: string, value: CustomFieldValue | undefined) =>
+    setFormData((prev) => ({
+      ...prev,
+      customFields: { ...prev.customFields, [key]: value },
+    }));
+
+  // Company and position have their own inputs unless they are defined
+  const isDefined = (key: string) =>
+    customFieldDefinitions.some((definition) => definition.key === key);
+
   const defaultTrigger = (
     <Button>
       <Plus className="mr-2 h-4 w-4" />
@@ -182,6 +214,17 @@ export function ContactFormDialog({
                 placeholder="Enter phone number"
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="timezone">Timezone</Label>
+              <Input
+                id="timezone"
+                value={formData.timezone}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, timezone: e.target.value }))
+                }
+                placeholder="e.g. Africa/Accra (used for optimized send times)"
+              />
+            </div>
             {/* <div className="space-y-2">
               <Label htmlFor="status">Status</Label>
               <Select
@@ -233,42 +276,47 @@ export function ContactFormDialog({
 
           {/* Company and Position Fields */}
           <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="company">Company</Label>
-              <Input
-                id="company"
-                value={formData.customFields.company || ""}
-                onChange={(e) =>
-                  setFormData((prev) => ({
-                    ...prev,
-                    customFields: {
-                      ...prev.customFields,
-                      company: e.target.value,
-                    },
-                  }))
-                }
-                placeholder="Enter company name"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="position">Position</Label>
-              <Input
-                id="position"
-                value={formData.customFields.position || ""}
-                onChange={(e) =>
-                  setFormData((prev) => ({
-                    ...prev,
-                    customFields: {
-                      ...prev.customFields,
-                      position: e.target.value,
-                    },
-                  }))
-                }
-                placeholder="Enter job position"
-              />
-            </div>
+            {!isDefined("company") && (
+              <div className="space-y-2">
+                <Label htmlFor="company">Company</Label>
+                <Input
+                  id="company"
+                  value={String(formData.customFields.company ?? "")}
+                  onChange={(e) => setCustomField("company", e.target.value)}
+                  placeholder="Enter company name"
+                />
+              </div>
+            )}
+            {!isDefined("position") && (
+              <div className="space-y-2">
+                <Label htmlFor="position">Position</Label>
+                <Input
+                  id="position"
+                  value={String(formData.customFields.position ?? "")}
+                  onChange={(e) => setCustomField("position", e.target.value)}
+                  placeholder="Enter job position"
+                />
+              </div>
+            )}
           </div>
 
+          {/* Defined Custom Fields */}
+          {customFieldDefinitions.length > 0 && (
+            <div className="grid grid-cols-2 gap-4">
+              {customFieldDefinitions.map((definition) => (
+                <CustomFieldInput
+                  key={definition._id}
+                  definition={definition}
+                  value={toCustomFieldFormValue(
+                    definition,
+                    formData.customFields[definition.key]
+                  )}
+                  onChange={(value) => setCustomField(definition.key, value)}
+                />
+              ))}
+            </div>
+          )}
+
           {/* Tags Section */}
           {/* <div className="space-y-2">
             <Label>Tags</Label>
@@ -382,6 +430,7 @@ export function ContactFormDialog({
                     firstName: contact.firstName || "",
                     lastName: contact.lastName || "",
                     phone: contact.phone || "",
+                    timezone: contact.timezone || "",
                     tags: contact.tags || [],
                     customFields: contact.customFields || {},
                     status: contact.status || "active",
@@ -393,6 +442,7 @@ export function ContactFormDialog({
                     firstName: "",
                     lastName: "",
                     phone: "",
+                    timezone: "",
                     tags: [],
                     customFields: {},
                     status: "active",
@@ -21,6 +21,7 @@ interface ContactList {
   _id: string;
   name: string;
   description?: string;
+  defaultTimezone?: string;
   contactCount: number;
 }
 
@@ -34,6 +35,7 @@ interface ContactListManagerModalProps {
 interface ContactListFormData {
   name: string;
   description: string;
+  defaultTimezone: string;
 }
 
 export const ContactListManagerModal: React.FC<
@@ -46,6 +48,7 @@ export const ContactListManagerModal: React.FC<
   const [formData, setFormData] = useState<ContactListFormData>({
     name: "",
     description: "",
+    defaultTimezone: "",
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [contactsModalOpen, setContactsModalOpen] = useState(false);
@@ -125,7 +128,7 @@ export const ContactListManagerModal: React.FC<
       }
 
       // Reset form
-      setFormData({ name: "", description: "" });
+      setFormData({ name: "", description: "", defaultTimezone: "" });
       setShowCreateForm(false);
       setEditingList(null);
       setErrors({});
@@ -142,6 +145,7 @@ export const ContactListManagerModal: React.FC<
     setFormData({
       name: list.name,
       description: list.description || "",
+      defaultTimezone: list.defaultTimezone || "",
     });
     setShowCreateForm(true);
   };
@@ -166,7 +170,7 @@ export const ContactListManagerModal: React.FC<
   const handleCancel = () => {
     setShowCreateForm(false);
     setEditingList(null);
-    setFormData({ name: "", description: "" });
+    setFormData({ name: "", description: "", defaultTimezone: "" });
     setErrors({});
   };
 
@@ -245,6 +249,28 @@ export const ContactListManagerModal: React.FC<
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Default Timezone
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.defaultTimezone}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        defaultTimezone: e.target.value,
+                      }))
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g. Africa/Accra"
+                  />
+                  <p className="text-gray-500 text-xs mt-1">
+                    Optimized send times use this for contacts without their
+                    own timezone
+                  </p>
+                </div>
+
                 {errors.submit && (
                   <p className="text-red-600 text-sm">{errors.submit}</p>
                 )}
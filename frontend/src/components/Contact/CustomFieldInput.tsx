@@ -0,0 +1,143 @@
+import React from "react";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { CustomFieldDefinition, CustomFieldValue } from "../../types";
+import { formatCustomFieldValue } from "../../utils/customFields";
+
+interface CustomFieldInputProps {
+  definition: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue | undefined) => void;
+}
+
+// Form control for one custom field, by its type
+export const CustomFieldInput: React.FC<CustomFieldInputProps> = ({
+  definition,
+  value,
+  onChange,
+}) => {
+  const id = `customField-${definition.key}`;
+  const placeholder =
+    definition.defaultValue !== undefined && definition.defaultValue !== null
+      ? `Default: ${formatCustomFieldValue(
+          definition.defaultValue,
+          definition.type
+        )}`
+      : undefined;
+  const label = (
+    <Label htmlFor={id}>
+      {definition.label}
+      {definition.required && " *"}
+    </Label>
+  );
+
+  switch (definition.type) {
+    case "number":
+      return (
+        <div className="space-y-2">
+          {label}
+          <Input
+            id={id}
+            type="number"
+            value={value === undefined ? "" : String(value)}
+            min={definition.min ?? undefined}
+            max={definition.max ?? undefined}
+            step="any"
+            onChange={(e) =>
+              onChange(
+                e.target.value === "" ? undefined : Number(e.target.value)
+              )
+            }
+            placeholder={placeholder}
+          />
+        </div>
+      );
+    case "date":
+      return (
+        <div className="space-y-2">
+          {label}
+          <Input
+            id={id}
+            type="date"
+            value={value === undefined ? "" : String(value)}
+            onChange={(e) => onChange(e.target.value || undefined)}
+          />
+        </div>
+      );
+    case "boolean":
+      return (
+        <div className="flex items-center space-x-2 pt-6">
+          <input
+            id={id}
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+          />
+          {label}
+        </div>
+      );
+    case "select":
+      return (
+        <div className="space-y-2">
+          {label}
+          <select
+            id={id}
+            value={value === undefined ? "" : String(value)}
+            onChange={(e) => onChange(e.target.value || undefined)}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            <option value="">{placeholder || "Not set"}</option>
+            {definition.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+      );
+    case "multiselect": {
+      const selected = Array.isArray(value) ? value : [];
+      const toggle = (option: string) => {
+        const next = selected.includes(option)
+          ? selected.filter((item) => item !== option)
+          : [...selected, option];
+        onChange(next.length > 0 ? next : undefined);
+      };
+      return (
+        <div className="space-y-2">
+          {label}
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {definition.options.map((option) => (
+              <label
+                key={option}
+                className="flex items-center space-x-2 text-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={() => toggle(option)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span>{option}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      );
+    }
+    default:
+      return (
+        <div className="space-y-2">
+          {label}
+          <Input
+            id={id}
+            value={value === undefined ? "" : String(value)}
+            maxLength={definition.maxLength ?? undefined}
+            onChange={(e) => onChange(e.target.value || undefined)}
+            placeholder={placeholder}
+          />
+        </div>
+      );
+  }
+};
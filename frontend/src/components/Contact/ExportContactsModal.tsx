@@ -1,12 +1,14 @@
-import React, { useState } from "react";
-import { Download, X, FileText, Table, Users, Filter } from "lucide-react";
+import React, { useState, useEffect } from "react";
+import { Download, X, FileText, Table, Users, Filter, CheckSquare } from "lucide-react";
 
 interface ExportContactsModalProps {
   isOpen: boolean;
   onClose: () => void;
   onExport: (options: ExportOptions) => Promise<void>;
   totalContacts: number;
+  // Contacts matching the page's filters, when any filter is active
   filteredContacts?: number;
+  selectedContacts?: number;
 }
 
 export interface ExportOptions {
@@ -25,6 +27,7 @@ const AVAILABLE_FIELDS = [
   { id: "position", label: "Position" },
   { id: "tags", label: "Tags" },
   { id: "status", label: "Status" },
+  { id: "timezone", label: "Timezone" },
   { id: "createdAt", label: "Date Added" },
   { id: "lastActivity", label: "Last Activity" },
 ];
@@ -35,6 +38,7 @@ export const ExportContactsModal: React.FC<ExportContactsModalProps> = ({
   onExport,
   totalContacts,
   filteredContacts,
+  selectedContacts = 0,
 }) => {
   const [format, setFormat] = useState<"csv" | "xlsx" | "json">("csv");
   const [filterType, setFilterType] = useState<"all" | "filtered" | "selected">("all");
@@ -49,6 +53,18 @@ export const ExportContactsModal: React.FC<ExportContactsModalProps> = ({
   ]);
   const [isExporting, setIsExporting] = useState(false);
 
+  // Default to the narrowest set of contacts the page offers
+  useEffect(() => {
+    if (!isOpen) return;
+    setFilterType(
+      selectedContacts > 0
+        ? "selected"
+        : filteredContacts !== undefined
+        ? "filtered"
+        : "all"
+    );
+  }, [isOpen, selectedContacts, filteredContacts]);
+
   const handleFieldToggle = (fieldId: string) => {
     const field = AVAILABLE_FIELDS.find(f => f.id === fieldId);
     if (field?.required) return; // Don't allow toggling required fields
@@ -88,9 +104,9 @@ export const ExportContactsModal: React.FC<ExportContactsModalProps> = ({
       case "all":
         return totalContacts;
       case "filtered":
-        return filteredContacts || totalContacts;
+        return filteredContacts ?? totalContacts;
       case "selected":
-        return 0; // Will be implemented when selection is added
+        return selectedContacts;
       default:
         return totalContacts;
     }
@@ -211,9 +227,16 @@ export const ExportContactsModal: React.FC<ExportContactsModalProps> = ({
                     { 
                       id: "filtered", 
                       label: "Filtered Contacts", 
-                      description: `Export ${filteredContacts || totalContacts} contacts matching current filters`,
+                      description: `Export ${filteredContacts ?? totalContacts} contacts matching current filters`,
                       icon: <Filter className="h-4 w-4" />,
-                      disabled: !filteredContacts || filteredContacts === totalContacts
+                      disabled: filteredContacts === undefined
+                    },
+                    {
+                      id: "selected",
+                      label: "Selected Contacts",
+                      description: `Export the ${selectedContacts} selected contacts`,
+                      icon: <CheckSquare className="h-4 w-4" />,
+                      disabled: selectedContacts === 0
                     },
                   ].map((option) => (
                     <div key={option.id} className="flex items-center">
@@ -244,7 +267,8 @@ export const ExportContactsModal: React.FC<ExportContactsModalProps> = ({
             <div>
               <label className="text-base font-medium text-gray-900">Fields to Include</label>
               <p className="text-sm leading-5 text-gray-500">
-                Select which contact fields to include in the export
+                Select which contact fields to include in the export. Every
+                custom field is added as a column too.
               </p>
               <div className="mt-4 grid grid-cols-2 gap-4">
                 {AVAILABLE_FIELDS.map((field) => (
@@ -1,14 +1,27 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
 import { Button } from '../ui/button';
 import { Label } from '../ui/label';
-import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, X } from 'lucide-react';
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, X, ArrowLeft, Download } from 'lucide-react';
+import { CustomFieldDefinition, ImportJob, ImportRowError, ImportStrategy } from '../../types';
+import { checkCustomFieldText } from '../../utils/customFields';
 
 interface ImportContactsModalProps {
-  onImport: (file: File) => Promise<any>; // Changed to return any result
+  // Starts an import job and resolves to { job }
+  onImport: (file: File, options: ImportOptions) => Promise<any>;
+  // Called when an import (not a dry run) has finished
+  onImported?: () => void;
   trigger?: React.ReactNode;
 }
 
+// Sent with the file; mapping is field -> column, e.g. { email: "E-mail" }
+export interface ImportOptions {
+  mapping: Record<string, string>;
+  listId?: string;
+  strategy: ImportStrategy;
+  dryRun: boolean;
+}
+
 interface ImportStatus {
   type: 'idle' | 'uploading' | 'success' | 'error';
   message?: string;
@@ -16,13 +29,207 @@ interface ImportStatus {
   totalCount?: number;
 }
 
-export function ImportContactsModal({ onImport, trigger }: ImportContactsModalProps) {
+type WizardStep = 'upload' | 'map' | 'preview' | 'review';
+
+const IGNORE = '';
+const NEW_CUSTOM_FIELD = '__new_custom_field';
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+const PREVIEW_ROWS = 10;
+const MAX_FILE_SIZE_MB = 200;
+// The browser only reads the start of a file for the mapping and preview;
+// the server streams the whole file
+const SAMPLE_BYTES = 256 * 1024;
+const SAMPLE_ROWS = 1000;
+const POLL_INTERVAL_MS = 1000;
+
+const STRATEGY_OPTIONS: { value: ImportStrategy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip them', description: 'Existing contacts are left as they are.' },
+  { value: 'overwrite', label: 'Overwrite fields', description: 'Non-empty cells replace the contact\'s values, tags included.' },
+  { value: 'fill_blanks', label: 'Fill blanks only', description: 'Only fields the contact has no value for are set.' },
+  { value: 'merge_tags', label: 'Merge tags only', description: 'The row\'s tags are added; other fields are left alone.' },
+];
+
+const FIELD_OPTIONS = [
+  { value: 'email', label: 'Email' },
+  { value: 'firstName', label: 'First name' },
+  { value: 'lastName', label: 'Last name' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'status', label: 'Status' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'timezone', label: 'Timezone' },
+];
+
+// Same checks as services/contactImportService.js on the server
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CUSTOM_FIELD_KEY_REGEX = /^[\w-]+$/;
+const STATUSES = ['active', 'inactive', 'bounced', 'unsubscribed', 'complained'];
+const TAGS = ['order', 'confirmation', 'receipt', 'newsletter', 'promotion', 'ecommerce'];
+
+const HEADER_GUESSES: [RegExp, string][] = [
+  [/^e-?mail( address)?$/i, 'email'],
+  [/^first[ _]?name$/i, 'firstName'],
+  [/^last[ _]?name$/i, 'lastName'],
+  [/^phone( number)?$/i, 'phone'],
+  [/^status$/i, 'status'],
+  [/^tags$/i, 'tags'],
+  [/^time[ _]?zone$/i, 'timezone'],
+];
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Initial target of a column: a contact field, a defined custom field with
+// the column's key or label, or a custom field named after the column
+const guessTarget = (header: string, definitions: CustomFieldDefinition[]) => {
+  const guess = HEADER_GUESSES.find(([pattern]) => pattern.test(header));
+  if (guess) return guess[1];
+  if (FIELD_OPTIONS.some((option) => option.value === header)) return header;
+  const name = header.trim().toLowerCase();
+  const definition = definitions.find(
+    ({ key, label }) => key.toLowerCase() === name || label.toLowerCase() === name
+  );
+  if (definition) return `${CUSTOM_FIELD_PREFIX}${definition.key}`;
+  const key = header.trim().replace(/\s+/g, '_');
+  return CUSTOM_FIELD_KEY_REGEX.test(key) ? `${CUSTOM_FIELD_PREFIX}${key}` : IGNORE;
+};
+
+// Problem with one mapped cell, or null
+const validateCell = (
+  field: string,
+  value: string,
+  definitions: CustomFieldDefinition[]
+): string | null => {
+  const text = value.trim();
+  if (field === 'email') {
+    if (!text) return 'Missing email';
+    return EMAIL_REGEX.test(text) ? null : 'Invalid email';
+  }
+  if (!text) return null;
+  if (field === 'status' && !STATUSES.includes(text.toLowerCase())) {
+    return `Unknown status "${text}"`;
+  }
+  if (field === 'tags') {
+    const unknown = text
+      .split(/[,;]/)
+      .map((tag) => tag.trim().toLowerCase())
+      .filter((tag) => tag && !TAGS.includes(tag));
+    return unknown.length > 0 ? `Unknown tags: ${unknown.join(', ')}` : null;
+  }
+  if (field === 'timezone' && !isValidTimeZone(text)) {
+    return `Unknown timezone "${text}"`;
+  }
+  const definition = definitions.find(
+    ({ key }) => `${CUSTOM_FIELD_PREFIX}${key}` === field
+  );
+  return definition ? checkCustomFieldText(definition, text) : null;
+};
+
+/**
+ * Read the header row and first rows of a CSV or Excel file in the browser,
+ * the way the server will: CSV cells as plain text, Excel dates as
+ * YYYY-MM-DD. sampled is true when the file has more rows than were read.
+ */
+const parseFile = async (file: File) => {
+  const XLSX = await import('xlsx');
+  const isCsv = file.name.toLowerCase().endsWith('.csv');
+  let workbook;
+  let sampled = false;
+  if (isCsv) {
+    let text = await file.slice(0, SAMPLE_BYTES).text();
+    if (file.size > SAMPLE_BYTES) {
+      // Drop the line the slice cut through
+      text = text.slice(0, text.lastIndexOf('\n') + 1);
+      sampled = true;
+    }
+    workbook = XLSX.read(text, { type: 'string', raw: true });
+  } else {
+    workbook = XLSX.read(await file.arrayBuffer(), {
+      type: 'array',
+      cellDates: true,
+      sheetRows: SAMPLE_ROWS + 1,
+    });
+  }
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  const [headerRow = [], ...values] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    raw: true,
+    defval: '',
+    blankrows: false,
+  });
+
+  const cellText = (value: unknown) =>
+    value instanceof Date ? value.toISOString().slice(0, 10) : String(value ?? '');
+  const headers = headerRow.map((header) => cellText(header).replace(/^\uFEFF/, '').trim());
+  const rows = values.map((cells) =>
+    Object.fromEntries(headers.map((header, i) => [header, cellText(cells[i])]))
+  );
+  return { headers, rows, sampled: sampled || rows.length >= SAMPLE_ROWS };
+};
+
+export function ImportContactsModal({ onImport, onImported, trigger }: ImportContactsModalProps) {
   const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<WizardStep>('upload');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [status, setStatus] = useState<ImportStatus>({ type: 'idle' });
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<Record<string, string>[]>([]);
+  const [sampled, setSampled] = useState(false);
+  // Target of each column: a field, customFields.<key>, or IGNORE
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [newFieldKeys, setNewFieldKeys] = useState<Record<string, string>>({});
+  const [customFields, setCustomFields] = useState<string[]>([]);
+  const [definitions, setDefinitions] = useState<CustomFieldDefinition[]>([]);
+  const [lists, setLists] = useState<{ _id: string; name: string }[]>([]);
+  const [listId, setListId] = useState('');
+  const [strategy, setStrategy] = useState<ImportStrategy>('skip');
+  const [mappingError, setMappingError] = useState<string | null>(null);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [jobErrors, setJobErrors] = useState<ImportRowError[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Poll the running job; every update schedules the next poll
+  useEffect(() => {
+    if (!job || job.status !== 'running') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const { apiClient } = await import('../../utils/apiClient');
+        const response = await apiClient.getImportJob(job._id);
+        const current: ImportJob = response.job;
+        setJob(current);
+        setJobErrors(response.errors || []);
+
+        if (current.status === 'failed') {
+          setStatus({ type: 'error', message: current.error || 'The import failed' });
+        } else if (current.status === 'completed') {
+          if (current.dryRun) {
+            setStatus({ type: 'idle' });
+          } else {
+            setStatus({
+              type: 'success',
+              message: 'Contacts imported successfully!',
+              importedCount: current.created + current.updated,
+              totalCount: current.processed
+            });
+            onImported?.();
+          }
+        }
+      } catch (error) {
+        console.error('Failed to check import progress:', error);
+        setStatus({ type: 'error', message: 'Lost track of the import. Check the contacts list later.' });
+        setJob(null);
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [job, onImported]);
+
   const acceptedTypes = [
     'text/csv',
     'application/vnd.ms-excel',
@@ -60,9 +267,7 @@ export function ImportContactsModal({ onImport, trigger }: ImportContactsModalPr
   };
 
   const validateAndSetFile = (file: File) => {
-    console.log('File selected:', file.name, 'Type:', file.type, 'Size:', file.size);
-    
-    const isValidType = acceptedTypes.includes(file.type) || 
+    const isValidType = acceptedTypes.includes(file.type) ||
       acceptedExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
 
     if (!isValidType) {
@@ -73,10 +278,10 @@ export function ImportContactsModal({ onImport, trigger }: ImportContactsModalPr
       return;
     }
 
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
+    if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
       setStatus({
         type: 'error',
-        message: 'File size must be less than 10MB'
+        message: `File size must be less than ${MAX_FILE_SIZE_MB}MB`
       });
       return;
     }
@@ -85,7 +290,8 @@ export function ImportContactsModal({ onImport, trigger }: ImportContactsModalPr
     setStatus({ type: 'idle' });
   };
 
-  const handleImport = async () => {
+  // Read the file and guess a target for each column
+  const handleParse = async () => {
     if (!selectedFile) {
       setStatus({
         type: 'error',
@@ -94,26 +300,108 @@ export function ImportContactsModal({ onImport, trigger }: ImportContactsModalPr
       return;
     }
 
-    console.log('Starting import with file:', selectedFile.name);
-    setStatus({ type: 'uploading', message: 'Processing file...' });
+    setStatus({ type: 'uploading', message: 'Reading file...' });
+    try {
+      const parsed = await parseFile(selectedFile);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setStatus({ type: 'error', message: 'The file has no header row or no contacts' });
+        return;
+      }
+
+      const { apiClient } = await import('../../utils/apiClient');
+      const [listResponse, fieldResponse] = await Promise.all([
+        apiClient.getContactLists().catch(() => ({ lists: [] })),
+        apiClient.getSegmentFields().catch(() => ({ customFields: [] })),
+      ]);
+
+      setHeaders(parsed.headers);
+      setRows(parsed.rows);
+      setSampled(parsed.sampled);
+      setLists(listResponse.lists || []);
+      const fieldDefinitions: CustomFieldDefinition[] = fieldResponse.definitions || [];
+      const definedKeys = fieldDefinitions.map((definition) => definition.key);
+      setDefinitions(fieldDefinitions);
+      setCustomFields(
+        (fieldResponse.customFields || []).filter((key: string) => !definedKeys.includes(key))
+      );
+      setTargets(
+        Object.fromEntries(
+          parsed.headers.map((header) => [header, guessTarget(header, fieldDefinitions)])
+        )
+      );
+      setNewFieldKeys({});
+      setMappingError(null);
+      setStatus({ type: 'idle' });
+      setStep('map');
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      setStatus({ type: 'error', message: 'The file could not be read' });
+    }
+  };
+
+  // Field of a column after resolving "new custom field" to its key
+  const fieldOf = (header: string) => {
+    const target = targets[header] ?? IGNORE;
+    if (target !== NEW_CUSTOM_FIELD) return target;
+    const key = (newFieldKeys[header] ?? '').trim();
+    return key ? `${CUSTOM_FIELD_PREFIX}${key}` : IGNORE;
+  };
+
+  const buildMapping = (): { mapping?: Record<string, string>; error?: string } => {
+    const mapping: Record<string, string> = {};
+    for (const header of headers) {
+      if (targets[header] === NEW_CUSTOM_FIELD) {
+        const key = (newFieldKeys[header] ?? '').trim();
+        if (!CUSTOM_FIELD_KEY_REGEX.test(key)) {
+          return { error: `Name the custom field for "${header}" with letters, numbers, _ or -` };
+        }
+      }
+      const field = fieldOf(header);
+      if (!field) continue;
+      if (mapping[field]) {
+        return { error: `"${mapping[field]}" and "${header}" are both mapped to ${field}` };
+      }
+      mapping[field] = header;
+    }
+    if (!mapping.email) return { error: 'Map a column to Email' };
+    return { mapping };
+  };
 
+  const handleMappingNext = () => {
+    const { error } = buildMapping();
+    setMappingError(error || null);
+    if (!error) setStep('preview');
+  };
+
+  const mappedHeaders = headers.filter((header) => fieldOf(header));
+
+  const rowErrors = (row: Record<string, string>) =>
+    mappedHeaders
+      .map((header) => validateCell(fieldOf(header), row[header] ?? '', definitions))
+      .filter((error): error is string => Boolean(error));
+
+  const invalidRowCount = step === 'preview'
+    ? rows.filter((row) => rowErrors(row).length > 0).length
+    : 0;
+
+  const runImport = async (dryRun: boolean) => {
+    const { mapping } = buildMapping();
+    if (!selectedFile || !mapping) return;
+
+    setStatus({
+      type: 'uploading',
+      message: dryRun ? 'Checking contacts...' : 'Importing contacts...'
+    });
     try {
-      const result = await onImport(selectedFile);
-      console.log('Import result:', result);
-      
-      setStatus({
-        type: 'success',
-        message: 'Contacts imported successfully!',
-        importedCount: result?.importedCount || result?.created || 0,
-        totalCount: result?.totalCount || result?.total || 0
+      const result = await onImport(selectedFile, {
+        mapping,
+        listId: listId || undefined,
+        strategy,
+        dryRun,
       });
-      
-      // Reset form after successful import
-      setTimeout(() => {
-        setSelectedFile(null);
-        setStatus({ type: 'idle' });
-        setOpen(false);
-      }, 3000);
+      setJob(result.job);
+      setJobErrors([]);
+      setStep('review');
     } catch (error) {
       console.error('Import error:', error);
       setStatus({
@@ -123,9 +411,40 @@ export function ImportContactsModal({ onImport, trigger }: ImportContactsModalPr
     }
   };
 
+  const handleDownloadErrors = async () => {
+    if (!job) return;
+    try {
+      const { apiClient } = await import('../../utils/apiClient');
+      const blob = await apiClient.downloadImportErrors(job._id);
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `import-errors-${job._id}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download import errors:', error);
+      setStatus({ type: 'error', message: 'Failed to download the error report' });
+    }
+  };
+
   const resetForm = () => {
+    setStep('upload');
     setSelectedFile(null);
     setStatus({ type: 'idle' });
+    setHeaders([]);
+    setRows([]);
+    setSampled(false);
+    setTargets({});
+    setNewFieldKeys({});
+    setListId('');
+    setStrategy('skip');
+    setMappingError(null);
+    setJob(null);
+    setJobErrors([]);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -145,6 +464,400 @@ export function ImportContactsModal({ onImport, trigger }: ImportContactsModalPr
     return <FileSpreadsheet className="h-8 w-8 text-blue-600" />;
   };
 
+  const fieldLabel = (field: string) =>
+    field.startsWith(CUSTOM_FIELD_PREFIX)
+      ? definitions.find(({ key }) => `${CUSTOM_FIELD_PREFIX}${key}` === field)?.label ||
+        field.slice(CUSTOM_FIELD_PREFIX.length)
+      : FIELD_OPTIONS.find((option) => option.value === field)?.label || field;
+
+  const selectClassName =
+    'block w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+  const stepTitles: Record<WizardStep, string> = {
+    upload: 'Select File',
+    map: 'Map Columns',
+    preview: 'Preview',
+    review: job && !job.dryRun ? 'Import' : 'Dry Run',
+  };
+
+  const renderUpload = () => (
+    <div className="space-y-6">
+      {/* File Upload Area */}
+      <div className="space-y-4">
+        <Label>Select File</Label>
+
+        <div
+          className={`relative border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+            dragActive
+              ? 'border-blue-400 bg-blue-50'
+              : selectedFile
+              ? 'border-green-400 bg-green-50'
+              : 'border-gray-300 hover:border-gray-400'
+          }`}
+          onDragEnter={handleDrag}
+          onDragLeave={handleDrag}
+          onDragOver={handleDrag}
+          onDrop={handleDrop}
+        >
+          {selectedFile ? (
+            <div className="space-y-3">
+              <div className="flex items-center justify-center">
+                {getFileIcon(selectedFile.name)}
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {selectedFile.name}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={resetForm}
+                className="mt-2"
+              >
+                <X className="h-4 w-4 mr-1" />
+                Remove
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-center justify-center">
+                <Upload className="h-12 w-12 text-gray-400" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  Drop your file here, or{' '}
+                  <button
+                    type="button"
+                    className="text-blue-600 hover:text-blue-500"
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    browse
+                  </button>
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Supports CSV, XLS, and XLSX files (max {MAX_FILE_SIZE_MB}MB)
+                </p>
+              </div>
+            </div>
+          )}
+
+          {!selectedFile && (
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+              accept=".csv,.xls,.xlsx,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/csv"
+              onChange={handleFileSelect}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* File Format Help */}
+      <div className="bg-gray-50 rounded-lg p-4">
+        <h4 className="text-sm font-medium text-gray-900 mb-2">
+          File Format
+        </h4>
+        <div className="text-xs text-gray-600 space-y-1">
+          <p>
+            The first row must hold the column headers. You choose which
+            contact field each column goes to in the next step.
+          </p>
+          <p className="mt-2">
+            • An <strong>email</strong> column is required
+            • <strong>status</strong> should be: active, inactive, unsubscribed, bounced, or complained
+            • <strong>tags</strong> should be comma-separated if multiple
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderMapping = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {sampled
+          ? `Showing the first ${rows.length.toLocaleString()} rows of ${selectedFile?.name}.`
+          : `${rows.length.toLocaleString()} rows in ${selectedFile?.name}.`}{' '}
+        Choose the contact field for each column; ignored columns are not
+        imported.
+      </p>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-[45vh] overflow-y-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Column</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Example</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Import as</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {headers.map((header) => {
+              const target = targets[header] ?? IGNORE;
+              const targetKey = target.slice(CUSTOM_FIELD_PREFIX.length);
+              const guessedCustomField =
+                target.startsWith(CUSTOM_FIELD_PREFIX) &&
+                !customFields.includes(targetKey) &&
+                !definitions.some(({ key }) => key === targetKey);
+              return (
+                <tr key={header}>
+                  <td className="px-4 py-2 font-medium text-gray-900">{header}</td>
+                  <td className="px-4 py-2 text-gray-500 truncate max-w-[12rem]">
+                    {rows.find((row) => row[header])?.[header] || '—'}
+                  </td>
+                  <td className="px-4 py-2 space-y-1">
+                    <select
+                      value={target}
+                      onChange={(e) =>
+                        setTargets((prev) => ({ ...prev, [header]: e.target.value }))
+                      }
+                      className={selectClassName}
+                    >
+                      <option value={IGNORE}>Ignore</option>
+                      {FIELD_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                      {definitions.map(({ key, label }) => (
+                        <option key={key} value={`${CUSTOM_FIELD_PREFIX}${key}`}>
+                          {label}
+                        </option>
+                      ))}
+                      {customFields.map((key) => (
+                        <option key={key} value={`${CUSTOM_FIELD_PREFIX}${key}`}>
+                          Custom field: {key}
+                        </option>
+                      ))}
+                      {guessedCustomField && (
+                        <option value={target}>
+                          New custom field: {target.slice(CUSTOM_FIELD_PREFIX.length)}
+                        </option>
+                      )}
+                      <option value={NEW_CUSTOM_FIELD}>New custom field…</option>
+                    </select>
+                    {target === NEW_CUSTOM_FIELD && (
+                      <input
+                        type="text"
+                        value={newFieldKeys[header] ?? ''}
+                        onChange={(e) =>
+                          setNewFieldKeys((prev) => ({ ...prev, [header]: e.target.value }))
+                        }
+                        className={selectClassName}
+                        placeholder="Custom field name"
+                      />
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <Label>Add contacts to list</Label>
+        <select
+          value={listId}
+          onChange={(e) => setListId(e.target.value)}
+          className={`${selectClassName} mt-1`}
+        >
+          <option value="">No list</option>
+          {lists.map((list) => (
+            <option key={list._id} value={list._id}>
+              {list.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <Label>Contacts that already exist</Label>
+        <select
+          value={strategy}
+          onChange={(e) => setStrategy(e.target.value as ImportStrategy)}
+          className={`${selectClassName} mt-1`}
+        >
+          {STRATEGY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {STRATEGY_OPTIONS.find((option) => option.value === strategy)?.description}{' '}
+          {strategy !== 'skip' && 'They are added to the chosen list. '}
+          Existing contacts always keep their status.
+        </p>
+      </div>
+
+      {mappingError && (
+        <p className="text-sm text-red-600">{mappingError}</p>
+      )}
+    </div>
+  );
+
+  const renderPreview = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {sampled
+          ? `First ${Math.min(PREVIEW_ROWS, rows.length)} of the ${rows.length.toLocaleString()} rows read from the file, as they will be imported.`
+          : `First ${Math.min(PREVIEW_ROWS, rows.length)} of ${rows.length.toLocaleString()} rows as they will be imported.`}{' '}
+        {invalidRowCount > 0 ? (
+          <span className="text-red-700">
+            {invalidRowCount.toLocaleString()} row{invalidRowCount !== 1 ? 's have' : ' has'} problems
+            and will be skipped.
+          </span>
+        ) : (
+          <span className="text-green-700">
+            No problems found{sampled ? ' in these rows' : ''}.
+          </span>
+        )}
+      </p>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+              {mappedHeaders.map((header) => (
+                <th key={header} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase whitespace-nowrap">
+                  {fieldLabel(fieldOf(header))}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+              <tr key={index}>
+                {/* Line number in the file; the header is line 1 */}
+                <td className="px-3 py-2 text-gray-400">{index + 2}</td>
+                {mappedHeaders.map((header) => {
+                  const error = validateCell(fieldOf(header), row[header] ?? '', definitions);
+                  return (
+                    <td
+                      key={header}
+                      title={error || undefined}
+                      className={`px-3 py-2 whitespace-nowrap ${
+                        error ? 'bg-red-50 text-red-700' : 'text-gray-900'
+                      }`}
+                    >
+                      {row[header] || (error ? '(empty)' : '')}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500">
+        Run a dry run next to see which contacts will be created or updated.
+        Nothing is saved until you import.
+      </p>
+    </div>
+  );
+
+  const renderReview = () => {
+    if (!job) return null;
+    const running = job.status === 'running';
+    const rejectedCount = job.duplicates + job.invalid;
+    const percent = job.fileSize > 0
+      ? Math.min(100, Math.round((job.bytesRead / job.fileSize) * 100))
+      : 0;
+    const cards = [
+      { label: 'New contacts', value: job.created, className: 'text-green-700' },
+      { label: 'Updated contacts', value: job.updated, className: 'text-blue-700' },
+      { label: 'Unchanged contacts', value: job.skipped, className: 'text-gray-700' },
+      { label: 'Duplicate rows', value: job.duplicates, className: 'text-yellow-700' },
+      { label: 'Invalid rows', value: job.invalid, className: 'text-red-700' },
+    ];
+    return (
+      <div className="space-y-4">
+        {running && (
+          <div className="space-y-1">
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              {job.processed.toLocaleString()} rows processed ({percent}%)
+            </p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          {cards.map((card) => (
+            <div key={card.label} className="border border-gray-200 rounded-lg p-3">
+              <p className={`text-2xl font-semibold ${card.className}`}>
+                {card.value.toLocaleString()}
+              </p>
+              <p className="text-xs text-gray-500">{card.label}</p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          {STRATEGY_OPTIONS.find((option) => option.value === job.strategy)?.description}{' '}
+          Unchanged contacts already exist and have nothing to update.
+          Duplicate rows repeat an email from an earlier row and are skipped,
+          as are invalid rows.
+        </p>
+
+        {jobErrors.length > 0 && (
+          <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-[35vh] overflow-y-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {jobErrors.map((rowError) => (
+                  <tr key={rowError.row}>
+                    <td className="px-3 py-2 text-gray-400">{rowError.row}</td>
+                    <td className="px-3 py-2 text-gray-900">{rowError.email || '—'}</td>
+                    <td className="px-3 py-2 text-gray-600">{rowError.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {!running && rejectedCount > 0 && (
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              {rejectedCount > jobErrors.length
+                ? `Showing the first ${jobErrors.length} of ${rejectedCount.toLocaleString()} rejected rows.`
+                : `${rejectedCount.toLocaleString()} rejected row${rejectedCount !== 1 ? 's' : ''}.`}
+            </p>
+            <Button type="button" variant="outline" size="sm" onClick={handleDownloadErrors}>
+              <Download className="h-4 w-4 mr-2" />
+              Download Error Report
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const importCount = job?.dryRun && job.status === 'completed' ? job.created + job.updated : 0;
+  const previousStep: Partial<Record<WizardStep, WizardStep>> = {
+    map: 'upload',
+    preview: 'map',
+    review: 'preview',
+  };
+
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
@@ -155,89 +868,20 @@ export function ImportContactsModal({ onImport, trigger }: ImportContactsModalPr
           </Button>
         )}
       </DialogTrigger>
-      
-      <DialogContent className="sm:max-w-[500px]">
+
+      <DialogContent className={step === 'upload' ? 'sm:max-w-[500px]' : 'sm:max-w-3xl'}>
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Upload className="h-5 w-5" />
-            Import Contacts
+            Import Contacts: {stepTitles[step]}
           </DialogTitle>
         </DialogHeader>
 
         <div className="space-y-6">
-          {/* File Upload Area */}
-          <div className="space-y-4">
-            <Label>Select File</Label>
-            
-            <div
-              className={`relative border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
-                dragActive
-                  ? 'border-blue-400 bg-blue-50'
-                  : selectedFile
-                  ? 'border-green-400 bg-green-50'
-                  : 'border-gray-300 hover:border-gray-400'
-              }`}
-              onDragEnter={handleDrag}
-              onDragLeave={handleDrag}
-              onDragOver={handleDrag}
-              onDrop={handleDrop}
-            >
-              {selectedFile ? (
-                <div className="space-y-3">
-                  <div className="flex items-center justify-center">
-                    {getFileIcon(selectedFile.name)}
-                  </div>
-                  <div>
-                    <p className="text-sm font-medium text-gray-900">
-                      {selectedFile.name}
-                    </p>
-                    <p className="text-xs text-gray-500">
-                      {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-                    </p>
-                  </div>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    onClick={resetForm}
-                    className="mt-2"
-                  >
-                    <X className="h-4 w-4 mr-1" />
-                    Remove
-                  </Button>
-                </div>
-              ) : (
-                <div className="space-y-3">
-                  <div className="flex items-center justify-center">
-                    <Upload className="h-12 w-12 text-gray-400" />
-                  </div>
-                  <div>
-                    <p className="text-sm font-medium text-gray-900">
-                      Drop your file here, or{' '}
-                      <button
-                        type="button"
-                        className="text-blue-600 hover:text-blue-500"
-                        onClick={() => fileInputRef.current?.click()}
-                      >
-                        browse
-                      </button>
-                    </p>
-                    <p className="text-xs text-gray-500 mt-1">
-                      Supports CSV, XLS, and XLSX files (max 10MB)
-                    </p>
-                  </div>
-                </div>
-              )}
-
-              <input
-                ref={fileInputRef}
-                type="file"
-                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                accept=".csv,.xls,.xlsx,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/csv"
-                onChange={handleFileSelect}
-              />
-            </div>
-          </div>
+          {step === 'upload' && renderUpload()}
+          {step === 'map' && renderMapping()}
+          {step === 'preview' && renderPreview()}
+          {step === 'review' && renderReview()}
 
           {/* Status Messages */}
           {status.type !== 'idle' && (
@@ -253,7 +897,7 @@ export function ImportContactsModal({ onImport, trigger }: ImportContactsModalPr
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
                 </div>
               )}
-              
+
               <div className="flex-1">
                 <p className={`text-sm font-medium ${
                   status.type === 'error' ? 'text-red-800' :
@@ -271,55 +915,80 @@ export function ImportContactsModal({ onImport, trigger }: ImportContactsModalPr
               </div>
             </div>
           )}
-
-          {/* File Format Help */}
-          <div className="bg-gray-50 rounded-lg p-4">
-            <h4 className="text-sm font-medium text-gray-900 mb-2">
-              Expected File Format
-            </h4>
-            <div className="text-xs text-gray-600 space-y-1">
-              <p>Your file should contain columns with these headers:</p>
-              <div className="font-mono bg-white p-2 rounded border text-xs">
-                email, firstName, lastName, status, tags, company, position
-              </div>
-              <p className="mt-2">
-                • <strong>email</strong> is required
-                • <strong>status</strong> should be: active, unsubscribed, bounced, or complained
-                • <strong>tags</strong> should be comma-separated if multiple
-              </p>
-            </div>
-          </div>
         </div>
 
         {/* Action Buttons */}
-        <div className="flex justify-end space-x-3 pt-4 border-t">
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => setOpen(false)}
-            disabled={status.type === 'uploading'}
-          >
-            Cancel
-          </Button>
-          <Button
-            type="button"
-            onClick={handleImport}
-            disabled={!selectedFile || status.type === 'uploading'}
-          >
-            {status.type === 'uploading' ? (
-              <>
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                Importing...
-              </>
-            ) : (
-              <>
-                <Upload className="h-4 w-4 mr-2" />
-                Import Contacts
-              </>
+        <div className="flex justify-between pt-4 border-t">
+          <div>
+            {previousStep[step] && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  setStatus({ type: 'idle' });
+                  setStep(previousStep[step] as WizardStep);
+                }}
+                disabled={status.type === 'uploading' || status.type === 'success'}
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
             )}
-          </Button>
+          </div>
+          <div className="flex space-x-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={status.type === 'uploading' && !job}
+            >
+              {job && !job.dryRun ? 'Close' : 'Cancel'}
+            </Button>
+            {step === 'upload' && (
+              <Button
+                type="button"
+                onClick={handleParse}
+                disabled={!selectedFile || status.type === 'uploading'}
+              >
+                Next: Map Columns
+              </Button>
+            )}
+            {step === 'map' && (
+              <Button type="button" onClick={handleMappingNext}>
+                Next: Preview
+              </Button>
+            )}
+            {step === 'preview' && (
+              <Button
+                type="button"
+                onClick={() => runImport(true)}
+                disabled={status.type === 'uploading'}
+              >
+                Run Dry Run
+              </Button>
+            )}
+            {step === 'review' && job?.dryRun && (
+              <Button
+                type="button"
+                onClick={() => runImport(false)}
+                disabled={importCount === 0 || status.type === 'uploading' || status.type === 'success'}
+              >
+                {status.type === 'uploading' ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import {importCount.toLocaleString()} Contacts
+                  </>
+                )}
+              </Button>
+            )}
+          </div>
         </div>
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,683 @@
+import React, { useEffect, useState } from "react";
+import { Plus, Trash2, FolderPlus, Users } from "lucide-react";
+import {
+  CustomFieldDefinition,
+  CustomFieldType,
+  SegmentField,
+  SegmentPreview,
+  SegmentRule,
+  SegmentRuleGroup,
+} from "../../types";
+
+interface SegmentBuilderProps {
+  rules: SegmentRuleGroup;
+  onChange: (rules: SegmentRuleGroup) => void;
+}
+
+interface BuilderOptions {
+  lists: { _id: string; name: string }[];
+  campaigns: { _id: string; name: string }[];
+  customFields: string[];
+  definitions: CustomFieldDefinition[];
+}
+
+// Same limit as services/segmentService.js on the server
+const MAX_DEPTH = 4;
+const PREVIEW_DELAY_MS = 500;
+
+const FIELD_LABELS: Record<SegmentField, string> = {
+  email: "Email",
+  firstName: "First name",
+  lastName: "Last name",
+  phone: "Phone",
+  customField: "Custom field",
+  status: "Status",
+  tags: "Tags",
+  list: "List",
+  createdAt: "Date added",
+  opened: "Opened",
+  clicked: "Clicked",
+};
+
+const TEXT_OPERATORS = [
+  { value: "equals", label: "is" },
+  { value: "not_equals", label: "is not" },
+  { value: "contains", label: "contains" },
+  { value: "not_contains", label: "does not contain" },
+  { value: "starts_with", label: "starts with" },
+  { value: "ends_with", label: "ends with" },
+  { value: "is_empty", label: "is empty" },
+  { value: "is_not_empty", label: "is not empty" },
+];
+
+const EMPTY_OPERATORS = [
+  { value: "is_empty", label: "is empty" },
+  { value: "is_not_empty", label: "is not empty" },
+];
+
+const DAYS_OPERATORS = [
+  { value: "in_last_days", label: "in the last (days)" },
+  { value: "not_in_last_days", label: "not in the last (days)" },
+  { value: "before", label: "before" },
+  { value: "after", label: "on or after" },
+];
+
+const ENGAGEMENT_OPERATORS = [
+  { value: "did", label: "did" },
+  { value: "did_not", label: "did not" },
+];
+
+const OPERATORS: Record<SegmentField, { value: string; label: string }[]> = {
+  email: TEXT_OPERATORS,
+  firstName: TEXT_OPERATORS,
+  lastName: TEXT_OPERATORS,
+  phone: TEXT_OPERATORS,
+  customField: TEXT_OPERATORS,
+  status: [
+    { value: "is", label: "is" },
+    { value: "is_not", label: "is not" },
+  ],
+  tags: [
+    { value: "has", label: "include" },
+    { value: "has_not", label: "do not include" },
+  ],
+  list: [
+    { value: "in", label: "is in" },
+    { value: "not_in", label: "is not in" },
+  ],
+  createdAt: DAYS_OPERATORS,
+  opened: ENGAGEMENT_OPERATORS,
+  clicked: ENGAGEMENT_OPERATORS,
+};
+
+// Operators of defined custom fields, per type, as on the server
+const CUSTOM_FIELD_OPERATORS: Record<
+  CustomFieldType,
+  { value: string; label: string }[]
+> = {
+  text: TEXT_OPERATORS,
+  number: [
+    { value: "equals", label: "is" },
+    { value: "not_equals", label: "is not" },
+    { value: "greater_than", label: "is more than" },
+    { value: "less_than", label: "is less than" },
+    ...EMPTY_OPERATORS,
+  ],
+  date: [...DAYS_OPERATORS, ...EMPTY_OPERATORS],
+  boolean: [
+    { value: "is_true", label: "is yes" },
+    { value: "is_false", label: "is no" },
+  ],
+  select: [
+    { value: "is", label: "is" },
+    { value: "is_not", label: "is not" },
+    ...EMPTY_OPERATORS,
+  ],
+  multiselect: [
+    { value: "has", label: "includes" },
+    { value: "has_not", label: "does not include" },
+    ...EMPTY_OPERATORS,
+  ],
+};
+
+const VALUELESS_OPERATORS = [
+  "is_empty",
+  "is_not_empty",
+  "is_true",
+  "is_false",
+];
+
+const STATUSES = ["active", "inactive", "unsubscribed", "bounced", "complained"];
+const TAGS = [
+  "order",
+  "confirmation",
+  "receipt",
+  "newsletter",
+  "promotion",
+  "ecommerce",
+];
+
+const controlClassName =
+  "px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// A condition with the first operator and a usable default value
+const createRule = (field: SegmentField): SegmentRule => {
+  const rule: SegmentRule = {
+    type: "rule",
+    field,
+    operator: OPERATORS[field][0].value,
+  };
+  if (field === "status") rule.value = "active";
+  if (field === "tags") rule.value = TAGS[0];
+  if (field === "createdAt") rule.value = 30;
+  if (field === "opened" || field === "clicked") rule.days = 30;
+  return rule;
+};
+
+// A custom field condition on another field, keeping the operator and
+// value while the field type stays the same
+const changeCustomFieldKey = (
+  rule: SegmentRule,
+  key: string,
+  definitions: CustomFieldDefinition[]
+): SegmentRule => {
+  const current = definitions.find((definition) => definition.key === rule.key);
+  const next = definitions.find((definition) => definition.key === key);
+  if ((current?.type ?? "text") === (next?.type ?? "text")) {
+    return { ...rule, key };
+  }
+  const type = next?.type ?? "text";
+  const operator = CUSTOM_FIELD_OPERATORS[type][0].value;
+  return {
+    ...rule,
+    key,
+    operator,
+    value:
+      type === "date"
+        ? 30
+        : type === "select" || type === "multiselect"
+        ? next?.options[0]
+        : undefined,
+  };
+};
+
+const createRuleGroup = (): SegmentRuleGroup => ({
+  type: "group",
+  combinator: "and",
+  rules: [createRule("email")],
+});
+
+interface RuleRowProps {
+  rule: SegmentRule;
+  options: BuilderOptions;
+  onChange: (rule: SegmentRule) => void;
+  onRemove: () => void;
+}
+
+const RuleRow: React.FC<RuleRowProps> = ({
+  rule,
+  options,
+  onChange,
+  onRemove,
+}) => {
+  const update = (changes: Partial<SegmentRule>) =>
+    onChange({ ...rule, ...changes });
+
+  const definition =
+    rule.field === "customField"
+      ? options.definitions.find((field) => field.key === rule.key)
+      : undefined;
+  const operators = definition
+    ? CUSTOM_FIELD_OPERATORS[definition.type]
+    : OPERATORS[rule.field];
+
+  const renderCustomFieldValue = (field: CustomFieldDefinition) => {
+    if (VALUELESS_OPERATORS.includes(rule.operator)) return null;
+    switch (field.type) {
+      case "number":
+        return (
+          <input
+            type="number"
+            step="any"
+            value={rule.value ?? ""}
+            onChange={(e) =>
+              update({
+                value: e.target.value === "" ? "" : Number(e.target.value),
+              })
+            }
+            className={`${controlClassName} w-28`}
+          />
+        );
+      case "date":
+        return rule.operator.endsWith("_days") ? (
+          <input
+            type="number"
+            min={1}
+            value={rule.value ?? ""}
+            onChange={(e) => update({ value: Number(e.target.value) || "" })}
+            className={`${controlClassName} w-24`}
+          />
+        ) : (
+          <input
+            type="date"
+            value={String(rule.value ?? "")}
+            onChange={(e) => update({ value: e.target.value })}
+            className={controlClassName}
+          />
+        );
+      case "select":
+      case "multiselect":
+        return (
+          <select
+            value={String(rule.value ?? "")}
+            onChange={(e) => update({ value: e.target.value })}
+            className={controlClassName}
+          >
+            {field.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <input
+            type="text"
+            value={String(rule.value ?? "")}
+            onChange={(e) => update({ value: e.target.value })}
+            className={controlClassName}
+            placeholder="Value"
+          />
+        );
+    }
+  };
+
+  const renderValue = () => {
+    if (definition) return renderCustomFieldValue(definition);
+    switch (rule.field) {
+      case "status":
+        return (
+          <select
+            value={String(rule.value ?? "")}
+            onChange={(e) => update({ value: e.target.value })}
+            className={controlClassName}
+          >
+            {STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        );
+      case "tags":
+        return (
+          <select
+            value={String(rule.value ?? "")}
+            onChange={(e) => update({ value: e.target.value })}
+            className={controlClassName}
+          >
+            {TAGS.map((tag) => (
+              <option key={tag} value={tag}>
+                {tag}
+              </option>
+            ))}
+          </select>
+        );
+      case "list":
+        return (
+          <select
+            value={String(rule.value ?? "")}
+            onChange={(e) => update({ value: e.target.value })}
+            className={controlClassName}
+          >
+            <option value="">Choose a list</option>
+            {options.lists.map((list) => (
+              <option key={list._id} value={list._id}>
+                {list.name}
+              </option>
+            ))}
+          </select>
+        );
+      case "createdAt":
+        return rule.operator.endsWith("_days") ? (
+          <input
+            type="number"
+            min={1}
+            value={rule.value ?? ""}
+            onChange={(e) => update({ value: Number(e.target.value) || "" })}
+            className={`${controlClassName} w-24`}
+          />
+        ) : (
+          <input
+            type="date"
+            value={String(rule.value ?? "")}
+            onChange={(e) => update({ value: e.target.value })}
+            className={controlClassName}
+          />
+        );
+      case "opened":
+      case "clicked":
+        return (
+          <>
+            <select
+              value={rule.campaignId || ""}
+              onChange={(e) =>
+                update({ campaignId: e.target.value || undefined })
+              }
+              className={controlClassName}
+            >
+              <option value="">any campaign</option>
+              {options.campaigns.map((campaign) => (
+                <option key={campaign._id} value={campaign._id}>
+                  {campaign.name}
+                </option>
+              ))}
+            </select>
+            <span className="text-sm text-gray-600">in the last</span>
+            <input
+              type="number"
+              min={1}
+              value={rule.days ?? ""}
+              placeholder="any"
+              onChange={(e) =>
+                update({ days: Number(e.target.value) || undefined })
+              }
+              className={`${controlClassName} w-20`}
+            />
+            <span className="text-sm text-gray-600">days</span>
+          </>
+        );
+      default:
+        return rule.operator === "is_empty" ||
+          rule.operator === "is_not_empty" ? null : (
+          <input
+            type="text"
+            value={String(rule.value ?? "")}
+            onChange={(e) => update({ value: e.target.value })}
+            className={controlClassName}
+            placeholder="Value"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={rule.field}
+        onChange={(e) => onChange(createRule(e.target.value as SegmentField))}
+        className={controlClassName}
+      >
+        {(Object.keys(FIELD_LABELS) as SegmentField[]).map((field) => (
+          <option key={field} value={field}>
+            {FIELD_LABELS[field]}
+          </option>
+        ))}
+      </select>
+      {rule.field === "customField" && (
+        <>
+          <input
+            type="text"
+            list="segment-custom-fields"
+            value={rule.key || ""}
+            onChange={(e) =>
+              onChange(
+                changeCustomFieldKey(rule, e.target.value, options.definitions)
+              )
+            }
+            className={`${controlClassName} w-32`}
+            placeholder="Field name"
+          />
+          <datalist id="segment-custom-fields">
+            {options.definitions.map((field) => (
+              <option key={field.key} value={field.key}>
+                {field.label}
+              </option>
+            ))}
+            {options.customFields
+              .filter(
+                (key) => !options.definitions.some((field) => field.key === key)
+              )
+              .map((key) => (
+                <option key={key} value={key} />
+              ))}
+          </datalist>
+        </>
+      )}
+      <select
+        value={rule.operator}
+        onChange={(e) =>
+          update({
+            operator: e.target.value,
+            // Dates and day counts don't convert into each other
+            ...((rule.field === "createdAt" || definition?.type === "date") && {
+              value: e.target.value.endsWith("_days") ? 30 : "",
+            }),
+          })
+        }
+        className={controlClassName}
+      >
+        {operators.map((operator) => (
+          <option key={operator.value} value={operator.value}>
+            {operator.label}
+          </option>
+        ))}
+      </select>
+      {renderValue()}
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-1 text-gray-400 hover:text-red-600"
+        title="Remove condition"
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+interface RuleGroupEditorProps {
+  group: SegmentRuleGroup;
+  depth: number;
+  options: BuilderOptions;
+  onChange: (group: SegmentRuleGroup) => void;
+  onRemove?: () => void;
+}
+
+const RuleGroupEditor: React.FC<RuleGroupEditorProps> = ({
+  group,
+  depth,
+  options,
+  onChange,
+  onRemove,
+}) => {
+  const setRule = (index: number, rule: SegmentRule | SegmentRuleGroup) =>
+    onChange({
+      ...group,
+      rules: group.rules.map((current, i) => (i === index ? rule : current)),
+    });
+
+  const removeRule = (index: number) =>
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+
+  return (
+    <div
+      className={`space-y-3 rounded-lg border p-3 ${
+        depth % 2 === 1 ? "border-gray-200 bg-white" : "border-blue-100 bg-blue-50"
+      }`}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm text-gray-700">
+          <span>Match</span>
+          <select
+            value={group.combinator}
+            onChange={(e) =>
+              onChange({
+                ...group,
+                combinator: e.target.value as SegmentRuleGroup["combinator"],
+              })
+            }
+            className={controlClassName}
+          >
+            <option value="and">all</option>
+            <option value="or">any</option>
+          </select>
+          <span>of these conditions</span>
+        </div>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="p-1 text-gray-400 hover:text-red-600"
+            title="Remove group"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {group.rules.map((rule, index) => (
+        <div key={index} className="space-y-1">
+          {index > 0 && (
+            <div className="text-xs font-medium uppercase text-gray-400">
+              {group.combinator}
+            </div>
+          )}
+          {rule.type === "group" ? (
+            <RuleGroupEditor
+              group={rule}
+              depth={depth + 1}
+              options={options}
+              onChange={(next) => setRule(index, next)}
+              onRemove={() => removeRule(index)}
+            />
+          ) : (
+            <RuleRow
+              rule={rule}
+              options={options}
+              onChange={(next) => setRule(index, next)}
+              onRemove={() => removeRule(index)}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={() =>
+            onChange({ ...group, rules: [...group.rules, createRule("email")] })
+          }
+          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Condition
+        </button>
+        {depth < MAX_DEPTH && (
+          <button
+            type="button"
+            onClick={() =>
+              onChange({ ...group, rules: [...group.rules, createRuleGroup()] })
+            }
+            className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            <FolderPlus className="h-4 w-4 mr-1" />
+            Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Visual editor for segment rules: nested groups matching all or any of
+ * their conditions, with a live count of the contacts that match.
+ */
+export const SegmentBuilder: React.FC<SegmentBuilderProps> = ({
+  rules,
+  onChange,
+}) => {
+  const [options, setOptions] = useState<BuilderOptions>({
+    lists: [],
+    campaigns: [],
+    customFields: [],
+    definitions: [],
+  });
+  const [preview, setPreview] = useState<SegmentPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [counting, setCounting] = useState(false);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const { apiClient } = await import("../../utils/apiClient");
+        const [lists, campaigns, fields] = await Promise.all([
+          apiClient.getContactLists(),
+          apiClient.getCampaigns(1, 100),
+          apiClient.getSegmentFields(),
+        ]);
+        setOptions({
+          lists: lists.lists || [],
+          campaigns: campaigns.campaigns || [],
+          customFields: fields.customFields || [],
+          definitions: fields.definitions || [],
+        });
+      } catch (error) {
+        console.error("Failed to load segment options:", error);
+      }
+    };
+    fetchOptions();
+  }, []);
+
+  // Count matches once the rules stop changing
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setCounting(true);
+      try {
+        const { apiClient } = await import("../../utils/apiClient");
+        const result = await apiClient.previewSegment(rules);
+        if (!cancelled) {
+          setPreview(result);
+          setPreviewError(null);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setPreview(null);
+          setPreviewError(getErrorMessage(error, "Failed to count contacts"));
+        }
+      } finally {
+        if (!cancelled) setCounting(false);
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [rules]);
+
+  return (
+    <div className="space-y-3">
+      <RuleGroupEditor
+        group={rules}
+        depth={1}
+        options={options}
+        onChange={onChange}
+      />
+
+      <div className="flex items-center space-x-2 text-sm">
+        <Users className="h-4 w-4 text-gray-400" />
+        {previewError ? (
+          <span className="text-amber-700">{previewError}</span>
+        ) : preview ? (
+          <span className="text-gray-700">
+            <strong>{preview.total.toLocaleString()}</strong> contact
+            {preview.total !== 1 ? "s" : ""} match
+            {preview.total === 1 ? "es" : ""} (
+            {preview.active.toLocaleString()} active)
+            {counting && <span className="text-gray-400"> · updating…</span>}
+          </span>
+        ) : (
+          <span className="text-gray-400">Counting contacts…</span>
+        )}
+      </div>
+
+      {preview && preview.sample.length > 0 && (
+        <div className="text-xs text-gray-500">
+          e.g.{" "}
+          {preview.sample
+            .slice(0, 5)
+            .map((contact) => contact.email)
+            .join(", ")}
+          {preview.total > 5 ? ", …" : ""}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,334 @@
+import React, { useState, useEffect } from "react";
+import { X, Plus, Edit, Trash2, Filter } from "lucide-react";
+import { Segment, SegmentRuleGroup } from "../../types";
+import { SegmentBuilder } from "./SegmentBuilder";
+
+interface SegmentManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface SegmentFormData {
+  name: string;
+  description: string;
+  rules: SegmentRuleGroup;
+}
+
+const emptyForm = (): SegmentFormData => ({
+  name: "",
+  description: "",
+  rules: { type: "group", combinator: "and", rules: [] },
+});
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export const SegmentManagerModal: React.FC<SegmentManagerModalProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingSegment, setEditingSegment] = useState<Segment | null>(null);
+  const [formData, setFormData] = useState<SegmentFormData>(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSegments();
+    }
+  }, [isOpen]);
+
+  const fetchSegments = async () => {
+    try {
+      setLoading(true);
+      const response = await (
+        await import("../../utils/apiClient")
+      ).apiClient.getSegments();
+      setSegments(response.segments || []);
+    } catch (error) {
+      console.error("Failed to fetch segments:", error);
+      setErrors({ list: getErrorMessage(error, "Failed to load segments") });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      setErrors({ name: "Segment name is required" });
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const apiClient = (await import("../../utils/apiClient")).apiClient;
+
+      if (editingSegment) {
+        const updated = await apiClient.updateSegment(
+          editingSegment._id,
+          formData
+        );
+        setSegments((current) =>
+          current.map((segment) =>
+            segment._id === updated._id ? updated : segment
+          )
+        );
+      } else {
+        const created = await apiClient.createSegment(formData);
+        setSegments((current) =>
+          [...current, created].sort((a, b) => a.name.localeCompare(b.name))
+        );
+      }
+
+      handleCancel();
+    } catch (error) {
+      console.error("Failed to save segment:", error);
+      setErrors({ submit: getErrorMessage(error, "Failed to save segment") });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (segment: Segment) => {
+    setEditingSegment(segment);
+    setFormData({
+      name: segment.name,
+      description: segment.description || "",
+      rules: segment.rules,
+    });
+    setErrors({});
+    setShowForm(true);
+  };
+
+  const handleDelete = async (segment: Segment) => {
+    if (!confirm(`Delete the segment "${segment.name}"?`)) return;
+
+    try {
+      setLoading(true);
+      await (
+        await import("../../utils/apiClient")
+      ).apiClient.deleteSegment(segment._id);
+      setSegments((current) =>
+        current.filter((item) => item._id !== segment._id)
+      );
+    } catch (error) {
+      console.error("Failed to delete segment:", error);
+      setErrors({ list: getErrorMessage(error, "Failed to delete segment") });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingSegment(null);
+    setFormData(emptyForm());
+    setErrors({});
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Segments</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Campaigns sent to a segment reach the contacts matching its rules
+              when they are sent
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[70vh]">
+          {/* Create/Edit Form */}
+          {showForm && (
+            <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+              <h3 className="text-lg font-medium mb-4">
+                {editingSegment ? "Edit Segment" : "New Segment"}
+              </h3>
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Segment Name *
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          name: e.target.value,
+                        }))
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="e.g., Engaged newsletter readers"
+                    />
+                    {errors.name && (
+                      <p className="text-red-600 text-sm mt-1">{errors.name}</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Description
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.description}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          description: e.target.value,
+                        }))
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Optional"
+                    />
+                  </div>
+                </div>
+
+                <SegmentBuilder
+                  rules={formData.rules}
+                  onChange={(rules) =>
+                    setFormData((prev) => ({ ...prev, rules }))
+                  }
+                />
+
+                {errors.submit && (
+                  <p className="text-red-600 text-sm">{errors.submit}</p>
+                )}
+
+                <div className="flex space-x-3">
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {loading
+                      ? "Saving..."
+                      : editingSegment
+                      ? "Update Segment"
+                      : "Save Segment"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            </div>
+          )}
+
+          {/* Saved Segments */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium">Saved Segments</h3>
+              {!showForm && (
+                <button
+                  onClick={() => setShowForm(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                >
+                  <Plus size={16} />
+                  <span>New Segment</span>
+                </button>
+              )}
+            </div>
+
+            {errors.list && (
+              <p className="text-red-600 text-sm">{errors.list}</p>
+            )}
+
+            {loading && segments.length === 0 ? (
+              <div className="text-center py-8">
+                <div className="text-gray-500">Loading segments...</div>
+              </div>
+            ) : segments.length === 0 ? (
+              <div className="text-center py-8">
+                <Filter size={48} className="mx-auto text-gray-400 mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">
+                  No Segments Yet
+                </h3>
+                <p className="text-gray-500">
+                  Segments select contacts by their fields, tags, lists and
+                  engagement.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {segments.map((segment) => (
+                  <div
+                    key={segment._id}
+                    className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
+                  >
+                    <div className="flex-1">
+                      <h4 className="font-medium text-gray-900">
+                        {segment.name}
+                      </h4>
+                      {segment.description && (
+                        <p className="text-sm text-gray-500 mt-1">
+                          {segment.description}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-400 mt-1">
+                        {segment.contactCount} contact
+                        {segment.contactCount !== 1 ? "s" : ""}
+                        {segment.countedAt &&
+                          ` as of ${new Date(
+                            segment.countedAt
+                          ).toLocaleString()}`}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleEdit(segment)}
+                        className="p-2 text-gray-400 hover:text-gray-600"
+                        title="Edit segment"
+                      >
+                        <Edit size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(segment)}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        title="Delete segment"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -27,6 +27,10 @@ import {
   Move,
   Edit3,
 } from "lucide-react";
+import { useEditorHistory } from "../../hooks/useEditorHistory";
+import { useEditorShortcuts } from "../../hooks/useEditorShortcuts";
+import { MergeTagField } from "./MergeTagField";
+import { MergeTagUsage } from "./MergeTagUsage";
 
 interface EmailBlock {
   id: string;
@@ -134,12 +138,19 @@ export const AdvancedEmailEditor: React.FC<AdvancedEmailEditorProps> = ({
   const [previewDevice, setPreviewDevice] = useState<"desktop" | "mobile">(
     "desktop"
   );
-  const [blocks, setBlocks] = useState<EmailBlock[]>([]);
+  const {
+    state: blocks,
+    set: setBlocks,
+    reset: resetBlocks,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useEditorHistory<EmailBlock[]>([]);
   const [selectedBlock, setSelectedBlock] = useState<string | null>(null);
   const [draggedBlock, setDraggedBlock] = useState<string | null>(null);
   const [showVariables, setShowVariables] = useState(false);
-  const [undoStack, setUndoStack] = useState<EmailBlock[][]>([]);
-  const [redoStack, setRedoStack] = useState<EmailBlock[][]>([]);
+  const variableNames = variables.map((variable) => variable.name);
 
   const editorRef = useRef<HTMLDivElement>(null);
 
@@ -153,9 +164,9 @@ export const AdvancedEmailEditor: React.FC<AdvancedEmailEditorProps> = ({
         content: { text: content },
         styles: { fontSize: "16px", color: "#333333", padding: "10px" },
       };
-      setBlocks([initialBlock]);
+      resetBlocks([initialBlock]);
     }
-  }, [content, blocks.length]);
+  }, [content, blocks.length, resetBlocks]);
 
   // Generate HTML from blocks
   const generateHTML = () => {
@@ -241,26 +252,19 @@ export const AdvancedEmailEditor: React.FC<AdvancedEmailEditorProps> = ({
       id: `block-${Date.now()}`,
     };
 
-    // Save current state to undo stack
-    setUndoStack((prev) => [...prev, blocks]);
-    setRedoStack([]);
-
     setBlocks((prev) => [...prev, newBlock]);
   };
 
   const updateBlock = (id: string, updates: Partial<EmailBlock>) => {
-    setUndoStack((prev) => [...prev, blocks]);
-    setRedoStack([]);
-
-    setBlocks((prev) =>
-      prev.map((block) => (block.id === id ? { ...block, ...updates } : block))
+    // Consecutive edits to one block collapse into a single undo step
+    setBlocks(
+      (prev) =>
+        prev.map((block) => (block.id === id ? { ...block, ...updates } : block)),
+      { coalesceKey: `update:${id}` }
     );
   };
 
   const deleteBlock = (id: string) => {
-    setUndoStack((prev) => [...prev, blocks]);
-    setRedoStack([]);
-
     setBlocks((prev) => prev.filter((block) => block.id !== id));
     if (selectedBlock === id) {
       setSelectedBlock(null);
@@ -268,33 +272,53 @@ export const AdvancedEmailEditor: React.FC<AdvancedEmailEditorProps> = ({
   };
 
   const moveBlock = (fromIndex: number, toIndex: number) => {
-    setUndoStack((prev) => [...prev, blocks]);
-    setRedoStack([]);
-
-    const newBlocks = [...blocks];
-    const [movedBlock] = newBlocks.splice(fromIndex, 1);
-    newBlocks.splice(toIndex, 0, movedBlock);
-    setBlocks(newBlocks);
+    if (toIndex < 0 || toIndex >= blocks.length) return;
+
+    setBlocks((prev) => {
+      const newBlocks = [...prev];
+      const [movedBlock] = newBlocks.splice(fromIndex, 1);
+      newBlocks.splice(toIndex, 0, movedBlock);
+      return newBlocks;
+    });
   };
 
-  const undo = () => {
-    if (undoStack.length > 0) {
-      const previousState = undoStack[undoStack.length - 1];
-      setRedoStack((prev) => [blocks, ...prev]);
-      setUndoStack((prev) => prev.slice(0, -1));
-      setBlocks(previousState);
-    }
-  };
+  const duplicateBlock = (id: string) => {
+    const index = blocks.findIndex((block) => block.id === id);
+    if (index === -1) return;
 
-  const redo = () => {
-    if (redoStack.length > 0) {
-      const nextState = redoStack[0];
-      setUndoStack((prev) => [...prev, blocks]);
-      setRedoStack((prev) => prev.slice(1));
-      setBlocks(nextState);
-    }
+    const copy: EmailBlock = {
+      ...JSON.parse(JSON.stringify(blocks[index])),
+      id: `block-${Date.now()}`,
+    };
+    setBlocks((prev) => [
+      ...prev.slice(0, index + 1),
+      copy,
+      ...prev.slice(index + 1),
+    ]);
+    setSelectedBlock(copy.id);
   };
 
+  const selectedIndex = blocks.findIndex((block) => block.id === selectedBlock);
+
+  useEditorShortcuts(
+    {
+      onUndo: undo,
+      onRedo: redo,
+      onDuplicate: selectedBlock
+        ? () => duplicateBlock(selectedBlock)
+        : undefined,
+      onMoveUp:
+        selectedIndex !== -1
+          ? () => moveBlock(selectedIndex, selectedIndex - 1)
+          : undefined,
+      onMoveDown:
+        selectedIndex !== -1
+          ? () => moveBlock(selectedIndex, selectedIndex + 1)
+          : undefined,
+    },
+    viewMode === "builder"
+  );
+
   const insertVariable = (variableName: string) => {
     if (selectedBlock) {
       const block = blocks.find((b) => b.id === selectedBlock);
@@ -350,6 +374,15 @@ export const AdvancedEmailEditor: React.FC<AdvancedEmailEditorProps> = ({
           </div>
         </div>
       )}
+
+      <div className="mt-6">
+        <h3 className="font-semibold text-gray-900 mb-4">Used in this email</h3>
+        <MergeTagUsage
+          content={generateHTML()}
+          variables={variableNames}
+          onInsert={insertVariable}
+        />
+      </div>
     </div>
   );
 
@@ -376,16 +409,18 @@ export const AdvancedEmailEditor: React.FC<AdvancedEmailEditorProps> = ({
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Text
               </label>
-              <textarea
+              <MergeTagField
+                multiline
                 value={selectedBlockData.content.text}
-                onChange={(e) =>
+                onChange={(value) =>
                   updateBlock(selectedBlock, {
                     content: {
                       ...selectedBlockData.content,
-                      text: e.target.value,
+                      text: value,
                     },
                   })
                 }
+                variables={variableNames}
                 className="w-full p-2 border border-gray-300 rounded text-sm"
                 rows={4}
               />
@@ -435,17 +470,17 @@ export const AdvancedEmailEditor: React.FC<AdvancedEmailEditorProps> = ({
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Text
               </label>
-              <input
-                type="text"
+              <MergeTagField
                 value={selectedBlockData.content.text}
-                onChange={(e) =>
+                onChange={(value) =>
                   updateBlock(selectedBlock, {
                     content: {
                       ...selectedBlockData.content,
-                      text: e.target.value,
+                      text: value,
                     },
                   })
                 }
+                variables={variableNames}
                 className="w-full p-2 border border-gray-300 rounded text-sm"
               />
             </div>
@@ -453,17 +488,18 @@ export const AdvancedEmailEditor: React.FC<AdvancedEmailEditorProps> = ({
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Link
               </label>
-              <input
+              <MergeTagField
                 type="url"
                 value={selectedBlockData.content.link}
-                onChange={(e) =>
+                onChange={(value) =>
                   updateBlock(selectedBlock, {
                     content: {
                       ...selectedBlockData.content,
-                      link: e.target.value,
+                      link: value,
                     },
                   })
                 }
+                variables={variableNames}
                 className="w-full p-2 border border-gray-300 rounded text-sm"
               />
             </div>
@@ -571,14 +607,16 @@ export const AdvancedEmailEditor: React.FC<AdvancedEmailEditorProps> = ({
               <>
                 <button
                   onClick={undo}
-                  disabled={undoStack.length === 0}
+                  disabled={!canUndo}
+                  title="Undo (Ctrl+Z)"
                   className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded disabled:opacity-50"
                 >
                   <Undo className="h-4 w-4" />
                 </button>
                 <button
                   onClick={redo}
-                  disabled={redoStack.length === 0}
+                  disabled={!canRedo}
+                  title="Redo (Ctrl+Shift+Z)"
                   className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded disabled:opacity-50"
                 >
                   <Redo className="h-4 w-4" />
@@ -611,7 +649,7 @@ export const AdvancedEmailEditor: React.FC<AdvancedEmailEditorProps> = ({
 
       {/* Main Content */}
       <div className="flex-1 flex">
-        {viewMode === "builder" && <BlockLibrary />}
+        {viewMode === "builder" && BlockLibrary()}
 
         <div className="flex-1 overflow-auto">
           {viewMode === "builder" && (
@@ -698,7 +736,8 @@ export const AdvancedEmailEditor: React.FC<AdvancedEmailEditorProps> = ({
           )}
         </div>
 
-        {viewMode === "builder" && <PropertiesPanel />}
+        {/* Called rather than mounted, so fields keep focus while typing */}
+        {viewMode === "builder" && PropertiesPanel()}
       </div>
     </div>
   );
@@ -0,0 +1,39 @@
+import { ReactNode } from "react";
+import { useDroppable } from "@dnd-kit/core";
+import {
+  SortableContext,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+
+interface BlockContainerProps {
+  id: string;
+  itemIds: string[];
+  children: ReactNode;
+  className?: string;
+  emptyMessage?: ReactNode;
+}
+
+// Drop zone holding a sortable list of blocks: the email body or one column
+export const BlockContainer = ({
+  id,
+  itemIds,
+  children,
+  className = "",
+  emptyMessage,
+}: BlockContainerProps) => {
+  const { setNodeRef, isOver } = useDroppable({ id });
+
+  return (
+    <SortableContext items={itemIds} strategy={verticalListSortingStrategy}>
+      <div
+        ref={setNodeRef}
+        className={`${className} ${
+          isOver ? "bg-blue-50 outline outline-2 outline-blue-300" : ""
+        }`}
+      >
+        {children}
+        {itemIds.length === 0 && emptyMessage}
+      </div>
+    </SortableContext>
+  );
+};
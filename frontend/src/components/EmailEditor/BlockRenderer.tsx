@@ -1,17 +1,31 @@
-import { EmailComponent } from "./BlockToolbox";
+import { ReactNode } from "react";
+import { EmailColumn, EmailComponent } from "./BlockToolbox";
+import { Image as ImageIcon } from "lucide-react";
+import { useBrandKit } from "../../hooks/useBrandKit";
+import { resolveBrandContent } from "../../utils/brandKit";
 
 interface BlockRendererProps {
   component: EmailComponent;
   isEditing?: boolean;
+  // Renders the inside of a column; defaults to a read-only preview
+  renderColumn?: (column: EmailColumn) => ReactNode;
 }
 
-export const BlockRenderer = ({ component, isEditing }: BlockRendererProps) => {
-  const { type, content } = component;
+export const BlockRenderer = ({
+  component,
+  isEditing,
+  renderColumn,
+}: BlockRendererProps) => {
+  const brandKit = useBrandKit();
+  const { type } = component;
+  // Show brand kit tokens with their current values
+  const content = resolveBrandContent(component.content, brandKit);
 
   const getInlineStyles = (content: any) => {
     const baseStyles: React.CSSProperties = {};
 
     if (content.fontSize) baseStyles.fontSize = content.fontSize;
+    if (content.fontFamily) baseStyles.fontFamily = content.fontFamily;
     if (content.color) baseStyles.color = content.color;
     if (content.backgroundColor)
       baseStyles.backgroundColor = content.backgroundColor;
@@ -30,7 +44,10 @@ export const BlockRenderer = ({ component, isEditing }: BlockRendererProps) => {
     case "text":
       return (
         <div
-          style={getInlineStyles(content)}
+          style={{
+            fontFamily: brandKit.fonts.body,
+            ...getInlineStyles(content),
+          }}
           className={`whitespace-pre-wrap ${isEditing ? "outline-none" : ""}`}
           contentEditable={isEditing}
           suppressContentEditableWarning={true}
@@ -43,7 +60,10 @@ export const BlockRenderer = ({ component, isEditing }: BlockRendererProps) => {
       const HeadingTag = content.level || "h2";
       return (
         <HeadingTag
-          style={getInlineStyles(content)}
+          style={{
+            fontFamily: brandKit.fonts.heading,
+            ...getInlineStyles(content),
+          }}
           className={`${isEditing ? "outline-none" : ""}`}
           contentEditable={isEditing}
           suppressContentEditableWarning={true}
@@ -53,13 +73,20 @@ export const BlockRenderer = ({ component, isEditing }: BlockRendererProps) => {
       );
 
     case "image":
+      if (!content.src) {
+        return (
+          <div className="flex flex-col items-center justify-center gap-2 h-40 bg-gray-100 border-2 border-dashed border-gray-300 rounded text-gray-500">
+            <ImageIcon size={28} />
+            <span className="text-sm">
+              Select this block to choose an image
+            </span>
+          </div>
+        );
+      }
       return (
         <div style={{ textAlign: content.alignment || "center" }}>
           <img
-            src={
-              content.src ||
-              "https://via.placeholder.com/600x300/e2e8f0/64748b?text=Click+to+upload+image"
-            }
+            src={content.src}
             alt={content.alt || "Image"}
             style={getInlineStyles(content)}
             className="max-w-full h-auto"
@@ -73,6 +100,7 @@ export const BlockRenderer = ({ component, isEditing }: BlockRendererProps) => {
           <a
             href={content.link || "#"}
             style={{
+              fontFamily: brandKit.fonts.body,
               ...getInlineStyles(content),
               display: "inline-block",
               textDecoration: "none",
@@ -108,6 +136,49 @@ export const BlockRenderer = ({ component, isEditing }: BlockRendererProps) => {
         />
       );
 
+    case "columns": {
+      const ratios: number[] = content.ratios || [1, 1];
+      return (
+        <div
+          style={{
+            display: "flex",
+            gap: content.gap || "20px",
+            padding: content.padding || undefined,
+            backgroundColor: content.backgroundColor || undefined,
+            alignItems:
+              content.verticalAlign === "middle"
+                ? "center"
+                : content.verticalAlign === "bottom"
+                ? "flex-end"
+                : "flex-start",
+          }}
+        >
+          {(component.columns || []).map((column, index) => (
+            <div
+              key={column.id}
+              style={{ flex: `${ratios[index] || 1} 1 0`, minWidth: 0 }}
+            >
+              {renderColumn
+                ? renderColumn(column)
+                : column.components.map((child) => (
+                    <BlockRenderer key={child.id} component={child} />
+                  ))}
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case "snippet":
+      // Linked snippets are edited through the snippet master, not in place
+      return (
+        <div>
+          {(content.components || []).map((child: EmailComponent) => (
+            <BlockRenderer key={child.id} component={child} />
+          ))}
+        </div>
+      );
+
     default:
       return (
         <div className="p-4 bg-gray-100 text-gray-500 text-center">
@@ -1,10 +1,49 @@
 import { useState } from "react";
-import { Mail, Image, Type, Square, Minus, MousePointer } from "lucide-react";
+import {
+  Mail,
+  Image,
+  Type,
+  Square,
+  Minus,
+  MousePointer,
+  Columns,
+  Puzzle,
+  Link2,
+  Trash2,
+} from "lucide-react";
+import { brandToken } from "../../utils/brandKit";
+
+export interface EmailColumn {
+  id: string;
+  components: EmailComponent[];
+}
 
 export interface EmailComponent {
   id: string;
-  type: "text" | "image" | "button" | "divider" | "spacer" | "heading";
+  type:
+    | "text"
+    | "image"
+    | "button"
+    | "divider"
+    | "spacer"
+    | "heading"
+    | "columns"
+    | "snippet";
   content: any;
+  columns?: EmailColumn[]; // Only set on "columns" blocks
+}
+
+// Saved group of blocks that can be reused across templates
+export interface EmailSnippet {
+  _id: string;
+  name: string;
+  description?: string;
+  category: "header" | "footer" | "legal" | "content" | "other";
+  components: EmailComponent[];
+  html: string;
+  version: number;
+  createdAt?: string;
+  updatedAt?: string;
 }
 
 export const BlockTypes = {
@@ -14,6 +53,7 @@ export const BlockTypes = {
   BUTTON: "button",
   DIVIDER: "divider",
   SPACER: "spacer",
+  COLUMNS: "columns",
 } as const;
 
 type BlockType = (typeof BlockTypes)[keyof typeof BlockTypes];
@@ -26,7 +66,7 @@ export const blockConfigs: Record<BlockType, any> = {
     defaultContent: {
       text: "Enter your text here...",
       fontSize: "14px",
-      color: "#333333",
+      color: brandToken("text"),
       textAlign: "left",
       fontWeight: "normal",
     },
@@ -38,7 +78,7 @@ export const blockConfigs: Record<BlockType, any> = {
     defaultContent: {
       text: "Your Heading Here",
       fontSize: "24px",
-      color: "#333333",
+      color: brandToken("text"),
       textAlign: "left",
       fontWeight: "bold",
       level: "h2",
@@ -49,8 +89,8 @@ export const blockConfigs: Record<BlockType, any> = {
     name: "Image",
     description: "Add an image",
     defaultContent: {
-      src: "https://via.placeholder.com/600x300/e2e8f0/64748b?text=Click+to+upload+image",
-      alt: "Image description",
+      src: "",
+      alt: "",
       width: "100%",
       height: "auto",
       alignment: "center",
@@ -63,10 +103,10 @@ export const blockConfigs: Record<BlockType, any> = {
     defaultContent: {
       text: "Click Here",
       link: "https://example.com",
-      backgroundColor: "#3b82f6",
-      textColor: "#ffffff",
-      borderRadius: "6px",
-      padding: "12px 24px",
+      backgroundColor: brandToken("buttonBackground"),
+      textColor: brandToken("buttonText"),
+      borderRadius: brandToken("buttonRadius"),
+      padding: brandToken("buttonPadding"),
       alignment: "center",
     },
   },
@@ -76,7 +116,7 @@ export const blockConfigs: Record<BlockType, any> = {
     description: "Add a horizontal line",
     defaultContent: {
       height: "1px",
-      color: "#e2e8f0",
+      color: brandToken("muted"),
       margin: "20px 0",
     },
   },
@@ -88,13 +128,34 @@ export const blockConfigs: Record<BlockType, any> = {
       height: "20px",
     },
   },
+  [BlockTypes.COLUMNS]: {
+    icon: Columns,
+    name: "Columns",
+    description: "Place blocks side by side",
+    defaultContent: {
+      ratios: [1, 1],
+      gap: "20px",
+      padding: "0px",
+      backgroundColor: "",
+      verticalAlign: "top",
+      stackOnMobile: true,
+    },
+  },
 };
 
 interface BlockToolboxProps {
   onAddBlock: (type: BlockType) => void;
+  snippets?: EmailSnippet[];
+  onInsertSnippet?: (snippet: EmailSnippet, linked: boolean) => void;
+  onDeleteSnippet?: (snippet: EmailSnippet) => void;
 }
 
-export const BlockToolbox = ({ onAddBlock }: BlockToolboxProps) => {
+export const BlockToolbox = ({
+  onAddBlock,
+  snippets = [],
+  onInsertSnippet,
+  onDeleteSnippet,
+}: BlockToolboxProps) => {
   const [activeCategory, setActiveCategory] = useState<
     "all" | "content" | "layout"
   >("all");
@@ -105,7 +166,11 @@ export const BlockToolbox = ({ onAddBlock }: BlockToolboxProps) => {
     BlockTypes.IMAGE,
     BlockTypes.BUTTON,
   ];
-  const layoutBlocks: BlockType[] = [BlockTypes.DIVIDER, BlockTypes.SPACER];
+  const layoutBlocks: BlockType[] = [
+    BlockTypes.COLUMNS,
+    BlockTypes.DIVIDER,
+    BlockTypes.SPACER,
+  ];
 
   const getFilteredBlocks = (): BlockType[] => {
     switch (activeCategory) {
@@ -172,13 +237,79 @@ export const BlockToolbox = ({ onAddBlock }: BlockToolboxProps) => {
         })}
       </div>
 
+      {/* Saved Snippets */}
+      {onInsertSnippet && (
+        <div className="mt-6">
+          <div className="flex items-center gap-2 mb-2">
+            <Puzzle className="w-4 h-4 text-blue-600" />
+            <h4 className="font-semibold text-gray-800 text-sm">Snippets</h4>
+          </div>
+          {snippets.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              Select a block and use "Save as snippet" to reuse it in other
+              templates.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {snippets.map((snippet) => (
+                <div
+                  key={snippet._id}
+                  className="p-2 border border-gray-200 rounded-lg hover:border-blue-300 transition-colors"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h5 className="font-medium text-gray-800 text-sm truncate">
+                        {snippet.name}
+                      </h5>
+                      <p className="text-xs text-gray-500 capitalize">
+                        {snippet.category} · {snippet.components.length} block
+                        {snippet.components.length === 1 ? "" : "s"}
+                      </p>
+                    </div>
+                    {onDeleteSnippet && (
+                      <button
+                        onClick={() => onDeleteSnippet(snippet)}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded"
+                        title="Delete snippet"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex gap-1 mt-2">
+                    <button
+                      onClick={() => onInsertSnippet(snippet, false)}
+                      className="flex-1 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-blue-50 hover:text-blue-600"
+                      title="Insert an editable copy of the blocks"
+                    >
+                      Insert copy
+                    </button>
+                    <button
+                      onClick={() => onInsertSnippet(snippet, true)}
+                      className="flex-1 flex items-center justify-center gap-1 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-blue-50 hover:text-blue-600"
+                      title="Insert a linked copy that follows updates to the snippet"
+                    >
+                      <Link2 size={12} />
+                      Linked
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Quick Tips */}
       <div className="mt-6 p-3 bg-blue-50 rounded-lg">
         <h4 className="text-sm font-medium text-blue-800 mb-2">Quick Tips</h4>
         <ul className="text-xs text-blue-700 space-y-1">
           <li>• Drag blocks to reorder them</li>
+          <li>• Drop blocks into columns to place them side by side</li>
           <li>• Click blocks to edit content</li>
           <li>• Use preview to test your email</li>
+          <li>• Ctrl+Z / Ctrl+Shift+Z to undo and redo</li>
+          <li>• Ctrl+D duplicates, arrow keys move the selected block</li>
         </ul>
       </div>
     </div>
@@ -1,17 +1,15 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import {
+  CollisionDetection,
   DndContext,
   DragEndEvent,
   DragOverlay,
   PointerSensor,
+  closestCenter,
+  pointerWithin,
   useSensor,
   useSensors,
 } from "@dnd-kit/core";
-import {
-  SortableContext,
-  verticalListSortingStrategy,
-  arrayMove,
-} from "@dnd-kit/sortable";
 import {
   Eye,
   Save,
@@ -19,19 +17,45 @@ import {
   Download,
   Smartphone,
   Monitor,
+  Undo,
+  Redo,
+  Puzzle,
 } from "lucide-react";
 import { useNavigate, useLocation } from "react-router-dom";
-import { v4 as uuidv4 } from "uuid";
 
 import {
   BlockToolbox,
   EmailComponent,
-  blockConfigs,
+  EmailSnippet,
   BlockTypes,
 } from "./BlockToolbox";
 import { EmailBlock } from "./EmailBlock";
 import { BlockRenderer } from "./BlockRenderer";
+import { BlockContainer } from "./BlockContainer";
 import { PropertyEditor } from "./PropertyEditor";
+import { SaveSnippetModal } from "./SaveSnippetModal";
+import { compileEmailHtml, parseEmailHtml } from "../../utils/emailCompiler";
+import { useEditorHistory } from "../../hooks/useEditorHistory";
+import { useEditorShortcuts } from "../../hooks/useEditorShortcuts";
+import { useBrandKit } from "../../hooks/useBrandKit";
+import {
+  ROOT_CONTAINER_ID,
+  cloneWithNewIds,
+  collectNestedIds,
+  createBlock,
+  createLinkedSnippet,
+  duplicateComponent,
+  findComponent,
+  getContainer,
+  insertComponent,
+  locateComponent,
+  moveComponent,
+  removeComponent,
+  replaceComponent,
+  shiftComponent,
+  syncLinkedSnippets,
+  updateComponent,
+} from "../../utils/blockTree";
 
 type BlockType = (typeof BlockTypes)[keyof typeof BlockTypes];
 
@@ -40,14 +64,46 @@ export const DragDropEmailEditor = () => {
   const location = useLocation();
   const sensors = useSensors(useSensor(PointerSensor));
 
-  const [components, setComponents] = useState<EmailComponent[]>([]);
-  const [selectedComponent, setSelectedComponent] =
-    useState<EmailComponent | null>(null);
+  const {
+    state: components,
+    set: setComponents,
+    reset: resetComponents,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useEditorHistory<EmailComponent[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [previewMode, setPreviewMode] = useState(false);
   const [viewMode, setViewMode] = useState<"desktop" | "mobile">("desktop");
   const [emailSubject, setEmailSubject] = useState("Your Email Subject");
   const [templateName, setTemplateName] = useState("Untitled Template");
   const [activeId, setActiveId] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [snippets, setSnippets] = useState<EmailSnippet[]>([]);
+  const brandKit = useBrandKit();
+  const [showSnippetModal, setShowSnippetModal] = useState(false);
+
+  const loadSnippets = useCallback(async () => {
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      const response = await apiClient.getSnippets();
+      setSnippets(Array.isArray(response) ? response : []);
+    } catch (error) {
+      console.error("Failed to load snippets:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSnippets();
+  }, [loadSnippets]);
+
+  // Linked snippet blocks follow the latest version of their snippet
+  useEffect(() => {
+    if (snippets.length > 0) {
+      setComponents((prev) => syncLinkedSnippets(prev, snippets));
+    }
+  }, [snippets, setComponents]);
 
   // Load template data if passed from Templates page
   useEffect(() => {
@@ -56,46 +112,60 @@ export const DragDropEmailEditor = () => {
       setTemplateName(templateData.name || "Untitled Template");
       setEmailSubject(templateData.subject || "Your Email Subject");
 
-      // Convert template content to components if available
-      if (templateData.content) {
-        try {
-          // If the template has HTML content, create a single text block with it
-          const htmlContent =
-            typeof templateData.content === "string"
-              ? templateData.content
-              : templateData.content.html || "";
-
-          if (htmlContent) {
-            const newComponent: EmailComponent = {
-              id: uuidv4(),
-              type: "text",
-              content: {
-                text: htmlContent.replace(/<[^>]*>/g, ""), // Strip HTML tags for editing
-                fontSize: "14px",
-                color: "#333333",
-                textAlign: "left",
-                fontWeight: "normal",
-              },
-            };
-            setComponents([newComponent]);
-          }
-        } catch (error) {
-          console.error("Error parsing template content:", error);
+      // Predefined library templates are used as a starting point, never overwritten
+      if (!templateData.isPredefined) {
+        setTemplateId(templateData._id || templateData.id || null);
+      }
+
+      // Convert template content back into editor blocks
+      try {
+        const htmlContent =
+          typeof templateData.content === "string"
+            ? templateData.content
+            : templateData.content?.html || templateData.htmlContent || "";
+
+        if (htmlContent) {
+          resetComponents(parseEmailHtml(htmlContent).components);
         }
+      } catch (error) {
+        console.error("Error parsing template content:", error);
       }
     }
-  }, [location.state]);
+  }, [location.state, resetComponents]);
+
+  // Always read the selection from the tree so it never goes stale after a move
+  const selectedComponent = selectedId
+    ? findComponent(components, selectedId)
+    : null;
 
   const handleAddBlock = (blockType: BlockType) => {
-    const config = blockConfigs[blockType];
-    const newComponent: EmailComponent = {
-      id: uuidv4(),
-      type: blockType,
-      content: { ...config.defaultContent },
-    };
-
-    setComponents((prev) => [...prev, newComponent]);
-    setSelectedComponent(newComponent);
+    const newComponent = createBlock(blockType);
+
+    // Add next to the selected block's column when one is selected
+    const containerId =
+      (selectedId && locateComponent(components, selectedId)?.containerId) ||
+      ROOT_CONTAINER_ID;
+    const container = getContainer(components, containerId) || [];
+
+    setComponents((prev) =>
+      insertComponent(prev, containerId, container.length, newComponent)
+    );
+    setSelectedId(newComponent.id);
+  };
+
+  // Prefer the innermost drop zone under the pointer, and never offer a
+  // block's own columns as a target while it is being dragged
+  const collisionDetection: CollisionDetection = (args) => {
+    const dragged = findComponent(components, String(args.active.id));
+    const nestedIds = dragged ? collectNestedIds(dragged) : new Set<string>();
+    const droppableContainers = args.droppableContainers.filter(
+      (container) => !nestedIds.has(String(container.id))
+    );
+
+    const collisions = pointerWithin({ ...args, droppableContainers });
+    return collisions.length > 0
+      ? collisions
+      : closestCenter({ ...args, droppableContainers });
   };
 
   const handleDragEnd = (event: DragEndEvent) => {
@@ -105,12 +175,9 @@ export const DragDropEmailEditor = () => {
     if (!over) return;
 
     if (active.id !== over.id) {
-      setComponents((items) => {
-        const oldIndex = items.findIndex((item) => item.id === active.id);
-        const newIndex = items.findIndex((item) => item.id === over.id);
-
-        return arrayMove(items, oldIndex, newIndex);
-      });
+      setComponents((items) =>
+        moveComponent(items, String(active.id), String(over.id))
+      );
     }
   };
 
@@ -119,89 +186,182 @@ export const DragDropEmailEditor = () => {
   };
 
   const handleEditComponent = (component: EmailComponent) => {
-    setSelectedComponent(component);
+    setSelectedId(component.id);
   };
 
   const handleUpdateComponent = (updatedComponent: EmailComponent) => {
-    setComponents((prev) =>
-      prev.map((comp) =>
-        comp.id === updatedComponent.id ? updatedComponent : comp
-      )
-    );
-    setSelectedComponent(updatedComponent);
+    // Rapid edits to the same block (typing, dragging a color picker) are
+    // merged into one undo step
+    setComponents((prev) => updateComponent(prev, updatedComponent), {
+      coalesceKey: `update:${updatedComponent.id}`,
+    });
+  };
+
+  const handleDuplicateComponent = (componentId: string) => {
+    const { tree, copy } = duplicateComponent(components, componentId);
+    if (!copy) return;
+    setComponents(tree);
+    setSelectedId(copy.id);
   };
 
+  useEditorShortcuts(
+    {
+      onUndo: undo,
+      onRedo: redo,
+      onDuplicate: selectedId
+        ? () => handleDuplicateComponent(selectedId)
+        : undefined,
+      onMoveUp: selectedId
+        ? () => setComponents((prev) => shiftComponent(prev, selectedId, -1))
+        : undefined,
+      onMoveDown: selectedId
+        ? () => setComponents((prev) => shiftComponent(prev, selectedId, 1))
+        : undefined,
+    },
+    !previewMode
+  );
+
   const handleDeleteComponent = (componentId: string) => {
-    setComponents((prev) => prev.filter((comp) => comp.id !== componentId));
-    if (selectedComponent?.id === componentId) {
-      setSelectedComponent(null);
+    const deleted = findComponent(components, componentId);
+    setComponents((prev) => removeComponent(prev, componentId));
+    if (
+      selectedId &&
+      deleted &&
+      (selectedId === componentId || collectNestedIds(deleted).has(selectedId))
+    ) {
+      setSelectedId(null);
     }
   };
 
-  const handleSelectComponent = (component: EmailComponent) => {
-    setSelectedComponent(component);
+  const insertIntoCurrentContainer = (blocks: EmailComponent[]) => {
+    const containerId =
+      (selectedId && locateComponent(components, selectedId)?.containerId) ||
+      ROOT_CONTAINER_ID;
+    const container = getContainer(components, containerId) || [];
+
+    setComponents((prev) =>
+      blocks.reduce(
+        (tree, block, offset) =>
+          insertComponent(tree, containerId, container.length + offset, block),
+        prev
+      )
+    );
+    if (blocks.length > 0) setSelectedId(blocks[0].id);
   };
 
-  const generateEmailHTML = () => {
-    const emailStyles = `
-      <style>
-        body { font-family: Arial, sans-serif; margin: 0; padding: 20px; background-color: #f7f7f7; }
-        .email-container { max-width: 600px; margin: 0 auto; background-color: white; }
-        .email-content { padding: 20px; }
-        img { max-width: 100%; height: auto; }
-        a { text-decoration: none; }
-        .button { display: inline-block; }
-      </style>
-    `;
+  const handleInsertSnippet = (snippet: EmailSnippet, linked: boolean) => {
+    insertIntoCurrentContainer(
+      linked
+        ? [createLinkedSnippet(snippet)]
+        : snippet.components.map(cloneWithNewIds)
+    );
+  };
 
-    const emailContent = components
-      .map((component) => {
-        const { type, content } = component;
+  const handleDeleteSnippet = async (snippet: EmailSnippet) => {
+    if (
+      !confirm(
+        `Delete snippet "${snippet.name}"? Templates that use it keep their current copy.`
+      )
+    ) {
+      return;
+    }
 
-        switch (type) {
-          case "text":
-            return `<p style="font-size: ${content.fontSize}; color: ${content.color}; text-align: ${content.textAlign}; font-weight: ${content.fontWeight}; margin: 0 0 16px 0;">${content.text}</p>`;
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      await apiClient.deleteSnippet(snippet._id);
+      setSnippets((prev) => prev.filter((item) => item._id !== snippet._id));
+    } catch (error) {
+      console.error("Failed to delete snippet:", error);
+      alert(
+        `Failed to delete snippet: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  };
 
-          case "heading":
-            return `<${content.level} style="font-size: ${content.fontSize}; color: ${content.color}; text-align: ${content.textAlign}; margin: 0 0 16px 0;">${content.text}</${content.level}>`;
+  const handleSnippetSaved = (
+    snippet: EmailSnippet,
+    { linked, componentIds }: { linked: boolean; componentIds: string[] }
+  ) => {
+    setSnippets((prev) => [
+      snippet,
+      ...prev.filter((item) => item._id !== snippet._id),
+    ]);
+
+    if (linked && componentIds.length > 0) {
+      // The first chosen block becomes the linked snippet, the rest go away
+      const linkedBlock = createLinkedSnippet(snippet);
+      setComponents((prev) =>
+        componentIds
+          .slice(1)
+          .reduce(
+            (tree, id) => removeComponent(tree, id),
+            replaceComponent(prev, componentIds[0], [linkedBlock])
+          )
+      );
+      setSelectedId(linkedBlock.id);
+    }
+  };
 
-          case "image":
-            return `<div style="text-align: ${content.alignment}; margin: 16px 0;"><img src="${content.src}" alt="${content.alt}" style="width: ${content.width}; height: ${content.height};" /></div>`;
+  const handleDetachSnippet = (component: EmailComponent) => {
+    const blocks = (component.content.components || []).map(cloneWithNewIds);
+    setComponents((prev) => replaceComponent(prev, component.id, blocks));
+    setSelectedId(blocks[0]?.id || null);
+  };
 
-          case "button":
-            return `<div style="text-align: ${content.alignment}; margin: 16px 0;"><a href="${content.link}" style="background-color: ${content.backgroundColor}; color: ${content.textColor}; padding: ${content.padding}; border-radius: ${content.borderRadius}; text-decoration: none; display: inline-block;">${content.text}</a></div>`;
+  // Blocks offered in the snippet dialog: the selected block and its siblings
+  const initialSnippetIds = useMemo(
+    () => (selectedId ? [selectedId] : []),
+    [selectedId]
+  );
+  const snippetCandidates = selectedId
+    ? getContainer(
+        components,
+        locateComponent(components, selectedId)?.containerId ||
+          ROOT_CONTAINER_ID
+      ) || []
+    : [];
 
-          case "divider":
-            return `<hr style="border: none; border-top: ${content.height} solid ${content.color}; margin: ${content.margin};" />`;
+  const handleSelectComponent = (component: EmailComponent) => {
+    setSelectedId(component.id);
+  };
 
-          case "spacer":
-            return `<div style="height: ${content.height};"></div>`;
+  const renderBlocks = (blocks: EmailComponent[]) =>
+    blocks.map((component, index) => (
+      <EmailBlock
+        key={component.id}
+        id={component.id}
+        index={index}
+        type={component.type}
+        content={component.content}
+        isSelected={selectedId === component.id}
+        onClick={() => handleSelectComponent(component)}
+        onEdit={() => handleEditComponent(component)}
+        onDelete={() => handleDeleteComponent(component.id)}
+      >
+        <BlockRenderer
+          component={component}
+          renderColumn={(column) => (
+            <BlockContainer
+              id={column.id}
+              itemIds={column.components.map((c) => c.id)}
+              className="min-h-[60px] rounded border border-dashed border-gray-300 p-1"
+              emptyMessage={
+                <p className="py-4 text-center text-xs text-gray-400">
+                  Drop blocks here
+                </p>
+              }
+            >
+              {renderBlocks(column.components)}
+            </BlockContainer>
+          )}
+        />
+      </EmailBlock>
+    ));
 
-          default:
-            return "";
-        }
-      })
-      .join("");
-
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>${emailSubject}</title>
-        ${emailStyles}
-      </head>
-      <body>
-        <div class="email-container">
-          <div class="email-content">
-            ${emailContent}
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-  };
+  const generateEmailHTML = () =>
+    compileEmailHtml(components, { subject: emailSubject, brandKit });
 
   const handleSaveTemplate = async () => {
     try {
@@ -209,15 +369,22 @@ export const DragDropEmailEditor = () => {
         name: templateName,
         subject: emailSubject,
         content: generateEmailHTML(),
-        description: `Created with drag-and-drop editor`,
-        category: "other",
-        tags: ["drag-drop"],
-        variables: [], // Will be auto-detected by backend if needed
       };
 
       // Call the backend API to save the template
       const { apiClient } = await import("../../utils/apiClient");
-      const savedTemplate = await apiClient.createTemplate(templateData);
+      if (templateId) {
+        // Keep the existing description, category, tags and variables
+        await apiClient.updateTemplate(templateId, templateData);
+      } else {
+        await apiClient.createTemplate({
+          ...templateData,
+          description: `Created with drag-and-drop editor`,
+          category: "other",
+          tags: ["drag-drop"],
+          variables: [], // Will be auto-detected by backend if needed
+        });
+      }
 
       // Show success message
       alert("Template saved successfully!");
@@ -299,7 +466,37 @@ export const DragDropEmailEditor = () => {
               </button>
             </div>
 
+            {/* History */}
+            <div className="flex items-center">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+                className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <Undo size={16} />
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <Redo size={16} />
+              </button>
+            </div>
+
             {/* Action Buttons */}
+            <button
+              onClick={() => setShowSnippetModal(true)}
+              disabled={!selectedComponent || previewMode}
+              title="Save the selected blocks as a reusable snippet"
+              className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-600 hover:text-gray-800 rounded-md transition-colors disabled:opacity-40"
+            >
+              <Puzzle size={16} />
+              Save as snippet
+            </button>
+
             <button
               onClick={() => setPreviewMode(!previewMode)}
               className={`flex items-center gap-2 px-3 py-2 rounded-md transition-colors ${
@@ -334,7 +531,14 @@ export const DragDropEmailEditor = () => {
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden">
         {/* Left Sidebar - Block Toolbox */}
-        {!previewMode && <BlockToolbox onAddBlock={handleAddBlock} />}
+        {!previewMode && (
+          <BlockToolbox
+            onAddBlock={handleAddBlock}
+            snippets={snippets}
+            onInsertSnippet={handleInsertSnippet}
+            onDeleteSnippet={handleDeleteSnippet}
+          />
+        )}
 
         {/* Center - Email Canvas */}
         <div className="flex-1 flex flex-col overflow-hidden">
@@ -373,40 +577,25 @@ export const DragDropEmailEditor = () => {
                 // Edit Mode
                 <DndContext
                   sensors={sensors}
+                  collisionDetection={collisionDetection}
                   onDragStart={handleDragStart}
                   onDragEnd={handleDragEnd}
                 >
-                  <SortableContext
-                    items={components.map((c) => c.id)}
-                    strategy={verticalListSortingStrategy}
-                  >
-                    <div className="min-h-[500px] p-6">
-                      <div className="mb-4 pb-4 border-b border-gray-200">
-                        <h2 className="text-xl font-semibold text-gray-800">
-                          {emailSubject}
-                        </h2>
-                        <p className="text-sm text-gray-600">
-                          Drag and drop blocks to build your email
-                        </p>
-                      </div>
+                  <div className="min-h-[500px] p-6">
+                    <div className="mb-4 pb-4 border-b border-gray-200">
+                      <h2 className="text-xl font-semibold text-gray-800">
+                        {emailSubject}
+                      </h2>
+                      <p className="text-sm text-gray-600">
+                        Drag and drop blocks to build your email
+                      </p>
+                    </div>
 
-                      {components.map((component, index) => (
-                        <EmailBlock
-                          key={component.id}
-                          id={component.id}
-                          index={index}
-                          type={component.type}
-                          content={component.content}
-                          isSelected={selectedComponent?.id === component.id}
-                          onClick={() => handleSelectComponent(component)}
-                          onEdit={() => handleEditComponent(component)}
-                          onDelete={() => handleDeleteComponent(component.id)}
-                        >
-                          <BlockRenderer component={component} />
-                        </EmailBlock>
-                      ))}
-
-                      {components.length === 0 && (
+                    <BlockContainer
+                      id={ROOT_CONTAINER_ID}
+                      itemIds={components.map((c) => c.id)}
+                      className="min-h-[200px]"
+                      emptyMessage={
                         <div className="text-center py-12 text-gray-500 border-2 border-dashed border-gray-300 rounded-lg">
                           <p className="text-lg font-medium mb-2">
                             Start building your email
@@ -415,15 +604,17 @@ export const DragDropEmailEditor = () => {
                             Drag blocks from the left sidebar to get started
                           </p>
                         </div>
-                      )}
-                    </div>
-                  </SortableContext>
+                      }
+                    >
+                      {renderBlocks(components)}
+                    </BlockContainer>
+                  </div>
 
                   <DragOverlay>
                     {activeId ? (
                       <div className="bg-white shadow-lg rounded-lg border">
                         <BlockRenderer
-                          component={components.find((c) => c.id === activeId)!}
+                          component={findComponent(components, activeId)!}
                         />
                       </div>
                     ) : null}
@@ -439,10 +630,20 @@ export const DragDropEmailEditor = () => {
           <PropertyEditor
             component={selectedComponent}
             onUpdate={handleUpdateComponent}
-            onClose={() => setSelectedComponent(null)}
+            onClose={() => setSelectedId(null)}
+            onDetachSnippet={handleDetachSnippet}
           />
         )}
       </div>
+
+      <SaveSnippetModal
+        isOpen={showSnippetModal}
+        onClose={() => setShowSnippetModal(false)}
+        blocks={snippetCandidates}
+        initialSelectedIds={initialSnippetIds}
+        snippets={snippets}
+        onSaved={handleSnippetSaved}
+      />
     </div>
   );
 };
@@ -51,7 +51,11 @@ export const EmailBlock = ({
         }
         ${isDragging ? "shadow-lg opacity-50" : "shadow-sm"}
       `}
-      onClick={onClick}
+      onClick={(e) => {
+        // Nested blocks sit inside their parent's block; select only the innermost
+        e.stopPropagation();
+        onClick?.();
+      }}
     >
       {/* Drag Handle and Actions */}
       <div className="absolute -top-10 left-0 right-0 flex justify-between items-center opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10">
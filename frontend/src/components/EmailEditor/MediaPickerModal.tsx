@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { X, Search, Upload, Image, Trash2, Loader2 } from "lucide-react";
+import { MediaAsset } from "../../types";
+
+interface MediaPickerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (asset: MediaAsset) => void;
+}
+
+const PAGE_SIZE = 40;
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const MediaPickerModal = ({
+  isOpen,
+  onClose,
+  onSelect,
+}: MediaPickerModalProps) => {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadAssets = useCallback(
+    async (pageToLoad: number) => {
+      setLoading(true);
+      try {
+        const { apiClient } = await import("../../utils/apiClient");
+        const response = await apiClient.getAssets({
+          page: pageToLoad,
+          limit: PAGE_SIZE,
+          search,
+        });
+        setAssets((prev) =>
+          pageToLoad === 1 ? response.assets : [...prev, ...response.assets]
+        );
+        setPage(pageToLoad);
+        setPages(response.pagination?.pages || 1);
+      } catch (error) {
+        console.error("Failed to load assets:", error);
+        setError("Failed to load the media library");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [search]
+  );
+
+  // Reload from the first page when opened or when the search changes
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setTimeout(() => loadAssets(1), 300);
+    return () => clearTimeout(timer);
+  }, [isOpen, loadAssets]);
+
+  if (!isOpen) return null;
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      const response = await apiClient.uploadAssets(files);
+      setAssets((prev) => [...response.assets, ...prev]);
+      if (response.errors?.length) {
+        setError(
+          `Could not upload: ${response.errors
+            .map((item: { file: string }) => item.file)
+            .join(", ")}`
+        );
+      }
+    } catch (error) {
+      console.error("Failed to upload images:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to upload images"
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (asset: MediaAsset) => {
+    if (
+      !confirm(
+        `Delete "${asset.name}"? Emails and templates that use it will show a broken image.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      await apiClient.deleteAsset(asset._id);
+      setAssets((prev) => prev.filter((item) => item._id !== asset._id));
+    } catch (error) {
+      console.error("Failed to delete asset:", error);
+      setError("Failed to delete image");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <Image className="w-5 h-5 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900">
+              Media Library
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex items-center gap-3 px-6 py-4 border-b border-gray-200">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md"
+              placeholder="Search by name, alt text or tag..."
+            />
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/gif,image/webp"
+            multiple
+            onChange={handleUpload}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {uploading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Upload className="w-4 h-4" />
+            )}
+            Upload
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+
+          {assets.length === 0 && !loading ? (
+            <div className="text-center py-12 text-gray-500">
+              <Image className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+              <p>
+                {search
+                  ? "No images match your search."
+                  : "No images yet. Upload one to get started."}
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+              {assets.map((asset) => (
+                <div
+                  key={asset._id}
+                  className="group relative border border-gray-200 rounded-lg overflow-hidden hover:border-blue-400 transition-colors"
+                >
+                  <button
+                    onClick={() => {
+                      onSelect(asset);
+                      onClose();
+                    }}
+                    className="block w-full text-left"
+                  >
+                    <div className="h-32 bg-gray-100 flex items-center justify-center">
+                      <img
+                        src={asset.thumbnail?.url || asset.url}
+                        alt={asset.alt || asset.name}
+                        className="max-h-full max-w-full object-contain"
+                        loading="lazy"
+                      />
+                    </div>
+                    <div className="p-2">
+                      <p className="text-sm font-medium text-gray-800 truncate">
+                        {asset.name}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {asset.width && asset.height
+                          ? `${asset.width}×${asset.height} · `
+                          : ""}
+                        {formatFileSize(asset.size)}
+                      </p>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(asset)}
+                    className="absolute top-2 right-2 p-1 bg-white rounded shadow text-gray-500 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete image"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          )}
+
+          {!loading && page < pages && (
+            <div className="flex justify-center mt-6">
+              <button
+                onClick={() => loadAssets(page + 1)}
+                className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+              >
+                Load more
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
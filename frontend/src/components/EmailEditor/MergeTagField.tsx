@@ -0,0 +1,277 @@
+import React, { useMemo, useRef, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { useMergeTags } from "../../hooks/useMergeTags";
+import {
+  MERGE_TAG_GROUPS,
+  MergeTag,
+  findMergeTagQuery,
+  insertMergeTag,
+  lintMergeTags,
+} from "../../utils/mergeTags";
+
+interface MergeTagFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  multiline?: boolean;
+  rows?: number;
+  type?: "text" | "url";
+  className?: string; // Applied to the field and to the highlight layer
+  placeholder?: string;
+  variables?: string[]; // Template or campaign variables declared by the author
+  autoFocus?: boolean;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const wavyUnderline: React.CSSProperties = {
+  textDecorationLine: "underline",
+  textDecorationStyle: "wavy",
+  textDecorationColor: "#dc2626",
+  textDecorationSkipInk: "none",
+};
+
+// Text field for editor content. Typing "{{" suggests known merge tags, and
+// tags that are unknown (usually misspelled) are underlined.
+export const MergeTagField = ({
+  value,
+  onChange,
+  multiline = false,
+  rows = 3,
+  type = "text",
+  className = "",
+  placeholder,
+  variables = [],
+  autoFocus,
+}: MergeTagFieldProps) => {
+  const catalog = useMergeTags();
+  const fieldRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState<{ start: number; query: string } | null>(
+    null
+  );
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const tags = useMemo<MergeTag[]>(() => {
+    const declared = variables
+      .filter((name) => !catalog.some((tag) => tag.name === name))
+      .map((name) => ({
+        name,
+        group: "campaign" as const,
+        label: name,
+        description: "Template variable",
+        example: "",
+      }));
+    return [...catalog, ...declared];
+  }, [catalog, variables]);
+
+  const lint = useMemo(
+    () => lintMergeTags(value, tags.map((tag) => tag.name)),
+    [value, tags]
+  );
+
+  const suggestions = useMemo(() => {
+    if (!query) return [];
+    const search = query.query.toLowerCase();
+    return tags
+      .filter(
+        (tag) =>
+          tag.name.toLowerCase().includes(search) ||
+          tag.label.toLowerCase().includes(search)
+      )
+      .sort(
+        (a, b) =>
+          Number(!a.name.toLowerCase().startsWith(search)) -
+          Number(!b.name.toLowerCase().startsWith(search))
+      )
+      .slice(0, MAX_SUGGESTIONS);
+  }, [query, tags]);
+
+  const updateQuery = () => {
+    const field = fieldRef.current;
+    if (!field || field.selectionStart !== field.selectionEnd) {
+      setQuery(null);
+      return;
+    }
+    const next = findMergeTagQuery(field.value, field.selectionStart ?? 0);
+    if (next?.start !== query?.start || next?.query !== query?.query) {
+      setActiveIndex(0);
+    }
+    setQuery(next);
+  };
+
+  const chooseTag = (name: string) => {
+    const field = fieldRef.current;
+    if (!field || !query) return;
+    const result = insertMergeTag(
+      value,
+      query.start,
+      field.selectionStart ?? query.start,
+      name
+    );
+    onChange(result.text);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      field.focus();
+      field.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!query || suggestions.length === 0) return;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(
+        (index) => (index + step + suggestions.length) % suggestions.length
+      );
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      chooseTag(suggestions[activeIndex].name);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setQuery(null);
+    }
+  };
+
+  // Replace a misspelled variable name inside its tag
+  const applySuggestion = (start: number, end: number, name: string) => {
+    const tag = value
+      .slice(start, end)
+      .replace(/^(\{\{\s*(?:#\w+\s+)?)[\w@-]+/, `$1${name}`);
+    onChange(value.slice(0, start) + tag + value.slice(end));
+  };
+
+  const syncScroll = () => {
+    if (fieldRef.current && highlightRef.current) {
+      highlightRef.current.scrollTop = fieldRef.current.scrollTop;
+      highlightRef.current.scrollLeft = fieldRef.current.scrollLeft;
+    }
+  };
+
+  // Copy of the text behind the field, with unknown tags underlined
+  const highlighted = useMemo(() => {
+    const ranges = lint.error ? [lint.error] : lint.unknown;
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    ranges.forEach((range, index) => {
+      parts.push(value.slice(cursor, range.start));
+      parts.push(
+        <span key={index} style={wavyUnderline}>
+          {value.slice(range.start, range.end)}
+        </span>
+      );
+      cursor = range.end;
+    });
+    // A trailing newline needs content to take up its line
+    parts.push(value.slice(cursor) + (multiline ? " " : ""));
+    return parts;
+  }, [lint, value, multiline]);
+
+  const fieldProps = {
+    value,
+    placeholder,
+    autoFocus,
+    onChange: (
+      e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    ) => {
+      onChange(e.target.value);
+      updateQuery();
+    },
+    onSelect: updateQuery,
+    onKeyDown: handleKeyDown,
+    onBlur: () => setQuery(null),
+    onScroll: syncScroll,
+    className: `${className} relative bg-transparent`,
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        <div
+          ref={highlightRef}
+          aria-hidden="true"
+          className={`${className} absolute inset-0 overflow-hidden pointer-events-none text-transparent border-transparent ${
+            multiline ? "whitespace-pre-wrap break-words" : "whitespace-pre"
+          }`}
+        >
+          {highlighted}
+        </div>
+        {multiline ? (
+          <textarea ref={fieldRef} rows={rows} {...fieldProps} />
+        ) : (
+          <input ref={fieldRef} type={type} {...fieldProps} />
+        )}
+
+        {query && suggestions.length > 0 && (
+          <ul className="absolute left-0 top-full mt-1 z-20 w-full max-w-xs max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg text-sm">
+            {suggestions.map((tag, index) => (
+              <li
+                key={tag.name}
+                // Keep focus in the field while choosing
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => chooseTag(tag.name)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`px-3 py-2 cursor-pointer ${
+                  index === activeIndex ? "bg-blue-50" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <code className="font-mono text-xs text-gray-900">
+                    {tag.name}
+                  </code>
+                  <span className="text-xs text-gray-400">
+                    {MERGE_TAG_GROUPS[tag.group]}
+                  </span>
+                </div>
+                {tag.description && (
+                  <div className="text-xs text-gray-500 truncate">
+                    {tag.description}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {lint.error && (
+        <p className="flex items-start gap-1 mt-1 text-xs text-red-600">
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          {lint.error.message}
+        </p>
+      )}
+      {lint.unknown.map((tag) => (
+        <p
+          key={`${tag.start}-${tag.path}`}
+          className="flex items-start gap-1 mt-1 text-xs text-red-600"
+        >
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>
+            Unknown merge tag <code className="font-mono">{tag.path}</code>.
+            {tag.suggestion && (
+              <>
+                {" "}
+                Did you mean{" "}
+                <button
+                  type="button"
+                  onClick={() =>
+                    applySuggestion(
+                      tag.start,
+                      tag.end,
+                      tag.suggestion as string
+                    )
+                  }
+                  className="font-mono underline hover:text-red-800"
+                >
+                  {tag.suggestion}
+                </button>
+                ?
+              </>
+            )}
+          </span>
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import { useMemo } from "react";
+import { AlertTriangle, Plus } from "lucide-react";
+import { useMergeTags } from "../../hooks/useMergeTags";
+import { extractVariablesFromContent } from "../../utils/templateVariables";
+import { MERGE_TAG_GROUPS, lintMergeTags } from "../../utils/mergeTags";
+
+interface MergeTagUsageProps {
+  content: string; // Everything the template renders, e.g. subject and HTML
+  variables?: string[]; // Template variables declared by the author
+  onDeclare?: (name: string) => void; // Turn an unknown tag into a variable
+  onInsert?: (name: string) => void;
+}
+
+// Live list of the merge tags a template uses and where their values come
+// from. Unknown tags are flagged so typos are caught before sending.
+export const MergeTagUsage = ({
+  content,
+  variables = [],
+  onDeclare,
+  onInsert,
+}: MergeTagUsageProps) => {
+  const catalog = useMergeTags();
+
+  const lint = useMemo(
+    () =>
+      lintMergeTags(content, [...catalog.map((tag) => tag.name), ...variables]),
+    [content, catalog, variables]
+  );
+
+  const used = useMemo(
+    () =>
+      extractVariablesFromContent(content).map(({ name }) => {
+        const head = name.split(".")[0];
+        const tag = catalog.find(
+          (entry) =>
+            entry.name === head ||
+            (head === "customFields" && entry.name === name.split(".")[1])
+        );
+        const problem = lint.unknown.find((entry) => entry.path === name);
+        return {
+          name,
+          source: tag
+            ? MERGE_TAG_GROUPS[tag.group]
+            : variables.includes(head)
+            ? "Template variable"
+            : null,
+          suggestion: problem?.suggestion ?? null,
+          unknown: Boolean(problem),
+        };
+      }),
+    [content, catalog, variables, lint]
+  );
+
+  if (used.length === 0) {
+    return (
+      <p className="text-xs text-gray-500">
+        No merge tags yet. Type {"{{"} in a text field to insert one.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1">
+      {lint.error && (
+        <li className="flex items-start gap-1 text-xs text-red-600">
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          {lint.error.message}
+        </li>
+      )}
+      {used.map((tag) => (
+        <li
+          key={tag.name}
+          className={`flex items-center justify-between gap-2 rounded border px-2 py-1 ${
+            tag.unknown
+              ? "border-red-200 bg-red-50"
+              : "border-gray-200 bg-white"
+          }`}
+        >
+          <button
+            type="button"
+            onClick={() => onInsert?.(tag.name)}
+            disabled={!onInsert}
+            title={onInsert ? "Insert into the selected block" : undefined}
+            className="min-w-0 text-left"
+          >
+            <code
+              className={`block truncate font-mono text-xs ${
+                tag.unknown ? "text-red-700" : "text-gray-900"
+              }`}
+            >
+              {`{{${tag.name}}}`}
+            </code>
+            <span
+              className={`text-xs ${
+                tag.unknown ? "text-red-600" : "text-gray-500"
+              }`}
+            >
+              {tag.unknown
+                ? tag.suggestion
+                  ? `Unknown, did you mean ${tag.suggestion}?`
+                  : "Unknown variable"
+                : tag.source ?? "Variable"}
+            </span>
+          </button>
+          {tag.unknown &&
+            (onDeclare ? (
+              <button
+                type="button"
+                onClick={() => onDeclare(tag.name.split(".")[0])}
+                title="Declare as a template variable, filled in per campaign"
+                className="flex-shrink-0 text-red-600 hover:text-red-800"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            ) : (
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 text-red-500" />
+            ))}
+        </li>
+      ))}
+    </ul>
+  );
+};
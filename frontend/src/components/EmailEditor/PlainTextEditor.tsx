@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { FileText, Loader2, RefreshCw, RotateCcw } from "lucide-react";
+
+interface PlainTextEditorProps {
+  html: string;
+  value: string; // Custom plain text, empty to generate it from the HTML
+  onChange: (value: string) => void;
+  rows?: number;
+}
+
+// Plain-text alternative of an email. Shows the version generated from the
+// HTML until the user customizes it.
+export const PlainTextEditor = ({
+  html,
+  value,
+  onChange,
+  rows = 8,
+}: PlainTextEditorProps) => {
+  const [generated, setGenerated] = useState("");
+  const [loading, setLoading] = useState(false);
+  const isCustom = value.trim() !== "";
+
+  const generate = async (source: string) => {
+    const { apiClient } = await import("../../utils/apiClient");
+    const response = await apiClient.generatePlainText(source);
+    return response.text || "";
+  };
+
+  // Keep the automatic version in step with the HTML while it is shown
+  useEffect(() => {
+    if (isCustom) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const text = await generate(html);
+        if (!cancelled) setGenerated(text);
+      } catch (error) {
+        console.error("Failed to generate plain text:", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [html, isCustom]);
+
+  const handleRegenerate = async () => {
+    if (
+      isCustom &&
+      !confirm("Replace your plain-text edits with a fresh copy from the HTML?")
+    ) {
+      return;
+    }
+    setLoading(true);
+    try {
+      onChange(await generate(html));
+    } catch (error) {
+      console.error("Failed to generate plain text:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="flex items-center text-sm font-medium text-gray-700">
+          <FileText className="w-4 h-4 mr-1" />
+          Plain-Text Version
+          <span
+            className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+              isCustom
+                ? "bg-blue-100 text-blue-800"
+                : "bg-gray-100 text-gray-600"
+            }`}
+          >
+            {isCustom ? "Custom" : "Automatic"}
+          </span>
+        </label>
+        <div className="flex items-center gap-3 text-xs">
+          {loading && <Loader2 className="w-3 h-3 animate-spin text-gray-400" />}
+          <button
+            type="button"
+            onClick={handleRegenerate}
+            className="flex items-center text-blue-600 hover:text-blue-800"
+          >
+            <RefreshCw className="w-3 h-3 mr-1" />
+            {isCustom ? "Regenerate from HTML" : "Customize"}
+          </button>
+          {isCustom && (
+            <button
+              type="button"
+              onClick={() => onChange("")}
+              className="flex items-center text-gray-600 hover:text-gray-800"
+            >
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Use automatic
+            </button>
+          )}
+        </div>
+      </div>
+      <textarea
+        value={isCustom ? value : generated}
+        onChange={(e) => onChange(e.target.value)}
+        readOnly={!isCustom}
+        rows={rows}
+        className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm ${
+          isCustom ? "" : "bg-gray-50 text-gray-600"
+        }`}
+      />
+      <p className="text-xs text-gray-500 mt-1">
+        {isCustom
+          ? "This text is sent to email clients that do not display HTML."
+          : "Generated from the HTML when the email is sent. Links become numbered footnotes."}
+      </p>
+    </div>
+  );
+};
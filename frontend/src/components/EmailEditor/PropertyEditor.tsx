@@ -1,19 +1,44 @@
 import { useState, useEffect } from "react";
 import { EmailComponent } from "./BlockToolbox";
-import { X, Upload, Link, Type, Palette, Layout } from "lucide-react";
+import { MediaPickerModal } from "./MediaPickerModal";
+import { ThemeColorField } from "./ThemeColorField";
+import { MergeTagField } from "./MergeTagField";
+import { useBrandKit } from "../../hooks/useBrandKit";
+import {
+  brandToken,
+  fontStacks,
+  isBrandToken,
+  resolveBrandValue,
+} from "../../utils/brandKit";
+import { MediaAsset } from "../../types";
+import { columnLayouts, resizeColumns } from "../../utils/blockTree";
+import {
+  X,
+  Upload,
+  Link,
+  Type,
+  Palette,
+  Layout,
+  Columns,
+  Image,
+} from "lucide-react";
 
 interface PropertyEditorProps {
   component: EmailComponent | null;
   onUpdate: (component: EmailComponent) => void;
   onClose: () => void;
+  onDetachSnippet?: (component: EmailComponent) => void;
 }
 
 export const PropertyEditor = ({
   component,
   onUpdate,
   onClose,
+  onDetachSnippet,
 }: PropertyEditorProps) => {
   const [editedContent, setEditedContent] = useState<any>({});
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
+  const brandKit = useBrandKit();
 
   useEffect(() => {
     if (component) {
@@ -23,12 +48,77 @@ export const PropertyEditor = ({
 
   if (!component) return null;
 
-  const handleContentChange = (key: string, value: any) => {
-    const newContent = { ...editedContent, [key]: value };
+  const handleContentChange = (key: string, value: any) =>
+    handleContentChanges({ [key]: value });
+
+  const handleContentChanges = (changes: Record<string, unknown>) => {
+    const newContent = { ...editedContent, ...changes };
     setEditedContent(newContent);
     onUpdate({ ...component, content: newContent });
   };
 
+  const handleAssetSelect = (asset: MediaAsset) =>
+    handleContentChanges({
+      src: asset.url,
+      alt:
+        (!isBrandToken(editedContent.alt) && editedContent.alt) ||
+        asset.alt ||
+        asset.name,
+      assetId: asset._id,
+      naturalWidth: asset.width,
+      naturalHeight: asset.height,
+    });
+
+  // Button colors and shape that follow the brand kit's button style
+  const brandButtonStyle = {
+    backgroundColor: brandToken("buttonBackground"),
+    textColor: brandToken("buttonText"),
+    borderRadius: brandToken("buttonRadius"),
+    padding: brandToken("buttonPadding"),
+  };
+
+  const renderFontField = (brandFont: "bodyFont" | "headingFont") => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Font
+      </label>
+      <select
+        value={editedContent.fontFamily || ""}
+        onChange={(e) =>
+          handleContentChange("fontFamily", e.target.value || undefined)
+        }
+        className="w-full p-2 border border-gray-300 rounded-md"
+      >
+        <option value="">
+          Brand {brandFont === "headingFont" ? "heading" : "body"} font
+        </option>
+        <option
+          value={brandToken(
+            brandFont === "headingFont" ? "bodyFont" : "headingFont"
+          )}
+        >
+          Brand {brandFont === "headingFont" ? "body" : "heading"} font
+        </option>
+        {fontStacks.map((font) => (
+          <option key={font.value} value={font.value}>
+            {font.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const handleLayoutChange = (ratios: number[]) => {
+    if (ratios.length === 0 || ratios.some((ratio) => !(ratio > 0))) return;
+    const newContent = { ...editedContent, ratios };
+    setEditedContent(newContent);
+    onUpdate({
+      ...component,
+      content: newContent,
+      columns: resizeColumns(component.columns, ratios.length),
+    });
+  };
+
   const renderTextProperties = () => (
     <div className="space-y-4">
       <div>
@@ -36,9 +126,10 @@ export const PropertyEditor = ({
           <Type className="w-4 h-4 inline mr-1" />
           Text Content
         </label>
-        <textarea
+        <MergeTagField
+          multiline
           value={editedContent.text || ""}
-          onChange={(e) => handleContentChange("text", e.target.value)}
+          onChange={(value) => handleContentChange("text", value)}
           className="w-full p-2 border border-gray-300 rounded-md resize-none"
           rows={3}
           placeholder="Enter your text here..."
@@ -81,17 +172,18 @@ export const PropertyEditor = ({
         </div>
       </div>
 
+      {renderFontField("bodyFont")}
+
       <div className="grid grid-cols-2 gap-3">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             <Palette className="w-4 h-4 inline mr-1" />
             Text Color
           </label>
-          <input
-            type="color"
-            value={editedContent.color || "#333333"}
-            onChange={(e) => handleContentChange("color", e.target.value)}
-            className="w-full h-10 border border-gray-300 rounded-md"
+          <ThemeColorField
+            value={editedContent.color}
+            onChange={(value) => handleContentChange("color", value)}
+            fallback="#333333"
           />
         </div>
 
@@ -120,10 +212,9 @@ export const PropertyEditor = ({
         <label className="block text-sm font-medium text-gray-700 mb-2">
           Heading Text
         </label>
-        <input
-          type="text"
+        <MergeTagField
           value={editedContent.text || ""}
-          onChange={(e) => handleContentChange("text", e.target.value)}
+          onChange={(value) => handleContentChange("text", value)}
           className="w-full p-2 border border-gray-300 rounded-md"
           placeholder="Your heading here..."
         />
@@ -165,16 +256,17 @@ export const PropertyEditor = ({
         </div>
       </div>
 
+      {renderFontField("headingFont")}
+
       <div className="grid grid-cols-2 gap-3">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Color
           </label>
-          <input
-            type="color"
-            value={editedContent.color || "#333333"}
-            onChange={(e) => handleContentChange("color", e.target.value)}
-            className="w-full h-10 border border-gray-300 rounded-md"
+          <ThemeColorField
+            value={editedContent.color}
+            onChange={(value) => handleContentChange("color", value)}
+            fallback="#333333"
           />
         </div>
 
@@ -201,14 +293,60 @@ export const PropertyEditor = ({
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
           <Upload className="w-4 h-4 inline mr-1" />
-          Image URL
+          Image
         </label>
+        {resolveBrandValue(editedContent.src, brandKit) && (
+          <div className="mb-2 p-2 bg-gray-50 border border-gray-200 rounded-md text-center">
+            <img
+              src={resolveBrandValue(editedContent.src, brandKit)}
+              alt={editedContent.alt || ""}
+              className="max-h-32 mx-auto"
+            />
+            {editedContent.naturalWidth && editedContent.naturalHeight && (
+              <p className="text-xs text-gray-500 mt-1">
+                {editedContent.naturalWidth}×{editedContent.naturalHeight}px
+              </p>
+            )}
+          </div>
+        )}
+        <button
+          onClick={() => setShowMediaPicker(true)}
+          className="w-full flex items-center justify-center gap-2 mb-2 py-2 text-sm bg-blue-50 text-blue-700 rounded-md hover:bg-blue-100 transition-colors"
+        >
+          <Image size={16} />
+          Choose from media library
+        </button>
+        <button
+          onClick={() =>
+            handleContentChanges({
+              src: brandToken("logo"),
+              alt: brandToken("logoAlt"),
+              width: brandToken("logoWidth"),
+              assetId: undefined,
+              naturalWidth: undefined,
+              naturalHeight: undefined,
+            })
+          }
+          disabled={!brandKit.logo.url}
+          title={brandKit.logo.url ? "" : "Add a logo in Settings > Brand Kit"}
+          className="w-full mb-2 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          Use brand logo
+        </button>
         <input
           type="url"
-          value={editedContent.src || ""}
-          onChange={(e) => handleContentChange("src", e.target.value)}
+          value={isBrandToken(editedContent.src) ? "" : editedContent.src || ""}
+          onChange={(e) =>
+            // A pasted URL is no longer a library image
+            handleContentChanges({
+              src: e.target.value,
+              assetId: undefined,
+              naturalWidth: undefined,
+              naturalHeight: undefined,
+            })
+          }
           className="w-full p-2 border border-gray-300 rounded-md"
-          placeholder="https://example.com/image.jpg"
+          placeholder="or paste https://example.com/image.jpg"
         />
       </div>
 
@@ -218,7 +356,7 @@ export const PropertyEditor = ({
         </label>
         <input
           type="text"
-          value={editedContent.alt || ""}
+          value={resolveBrandValue(editedContent.alt, brandKit) || ""}
           onChange={(e) => handleContentChange("alt", e.target.value)}
           className="w-full p-2 border border-gray-300 rounded-md"
           placeholder="Description of the image"
@@ -232,7 +370,7 @@ export const PropertyEditor = ({
           </label>
           <input
             type="text"
-            value={editedContent.width || "100%"}
+            value={resolveBrandValue(editedContent.width, brandKit) || "100%"}
             onChange={(e) => handleContentChange("width", e.target.value)}
             className="w-full p-2 border border-gray-300 rounded-md"
             placeholder="100% or 300px"
@@ -263,10 +401,9 @@ export const PropertyEditor = ({
         <label className="block text-sm font-medium text-gray-700 mb-2">
           Button Text
         </label>
-        <input
-          type="text"
+        <MergeTagField
           value={editedContent.text || ""}
-          onChange={(e) => handleContentChange("text", e.target.value)}
+          onChange={(value) => handleContentChange("text", value)}
           className="w-full p-2 border border-gray-300 rounded-md"
           placeholder="Click Here"
         />
@@ -277,27 +414,47 @@ export const PropertyEditor = ({
           <Link className="w-4 h-4 inline mr-1" />
           Link URL
         </label>
-        <input
+        <MergeTagField
           type="url"
           value={editedContent.link || ""}
-          onChange={(e) => handleContentChange("link", e.target.value)}
+          onChange={(value) => handleContentChange("link", value)}
           className="w-full p-2 border border-gray-300 rounded-md"
           placeholder="https://example.com"
         />
       </div>
 
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={Object.entries(brandButtonStyle).every(
+            ([key, value]) => editedContent[key] === value
+          )}
+          onChange={(e) =>
+            handleContentChanges(
+              e.target.checked
+                ? brandButtonStyle
+                : // Keep the current look as custom values
+                  Object.fromEntries(
+                    Object.keys(brandButtonStyle).map((key) => [
+                      key,
+                      resolveBrandValue(editedContent[key], brandKit),
+                    ])
+                  )
+            )
+          }
+        />
+        Use brand button style
+      </label>
+
       <div className="grid grid-cols-2 gap-3">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Background Color
           </label>
-          <input
-            type="color"
-            value={editedContent.backgroundColor || "#3b82f6"}
-            onChange={(e) =>
-              handleContentChange("backgroundColor", e.target.value)
-            }
-            className="w-full h-10 border border-gray-300 rounded-md"
+          <ThemeColorField
+            value={editedContent.backgroundColor}
+            onChange={(value) => handleContentChange("backgroundColor", value)}
+            fallback="#3b82f6"
           />
         </div>
 
@@ -305,11 +462,10 @@ export const PropertyEditor = ({
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Text Color
           </label>
-          <input
-            type="color"
-            value={editedContent.textColor || "#ffffff"}
-            onChange={(e) => handleContentChange("textColor", e.target.value)}
-            className="w-full h-10 border border-gray-300 rounded-md"
+          <ThemeColorField
+            value={editedContent.textColor}
+            onChange={(value) => handleContentChange("textColor", value)}
+            fallback="#ffffff"
           />
         </div>
       </div>
@@ -321,7 +477,7 @@ export const PropertyEditor = ({
           </label>
           <input
             type="text"
-            value={editedContent.padding || "12px 24px"}
+            value={resolveBrandValue(editedContent.padding, brandKit) || ""}
             onChange={(e) => handleContentChange("padding", e.target.value)}
             className="w-full p-2 border border-gray-300 rounded-md"
             placeholder="12px 24px"
@@ -334,7 +490,7 @@ export const PropertyEditor = ({
           </label>
           <input
             type="text"
-            value={editedContent.borderRadius || "6px"}
+            value={resolveBrandValue(editedContent.borderRadius, brandKit) || ""}
             onChange={(e) =>
               handleContentChange("borderRadius", e.target.value)
             }
@@ -368,11 +524,10 @@ export const PropertyEditor = ({
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Color
           </label>
-          <input
-            type="color"
-            value={editedContent.color || "#e2e8f0"}
-            onChange={(e) => handleContentChange("color", e.target.value)}
-            className="w-full h-10 border border-gray-300 rounded-md"
+          <ThemeColorField
+            value={editedContent.color}
+            onChange={(value) => handleContentChange("color", value)}
+            fallback="#e2e8f0"
           />
         </div>
 
@@ -431,6 +586,165 @@ export const PropertyEditor = ({
     </div>
   );
 
+  const renderColumnsProperties = () => {
+    const ratios: number[] = editedContent.ratios || [1, 1];
+    const ratioKey = ratios.join(":");
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            <Columns className="w-4 h-4 inline mr-1" />
+            Layout
+          </label>
+          <select
+            value={
+              columnLayouts.some((layout) => layout.ratios.join(":") === ratioKey)
+                ? ratioKey
+                : "custom"
+            }
+            onChange={(e) => {
+              const layout = columnLayouts.find(
+                (option) => option.ratios.join(":") === e.target.value
+              );
+              if (layout) handleLayoutChange(layout.ratios);
+            }}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          >
+            {columnLayouts.map((layout) => (
+              <option key={layout.label} value={layout.ratios.join(":")}>
+                {layout.label}
+              </option>
+            ))}
+            <option value="custom" disabled>
+              Custom
+            </option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Column Ratios
+          </label>
+          <input
+            type="text"
+            defaultValue={ratioKey}
+            key={ratioKey}
+            onBlur={(e) =>
+              handleLayoutChange(
+                e.target.value
+                  .split(":")
+                  .map((part) => parseFloat(part.trim()))
+                  .slice(0, 4)
+              )
+            }
+            className="w-full p-2 border border-gray-300 rounded-md"
+            placeholder="2:1"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Relative widths separated by colons, up to 4 columns. Blocks in
+            removed columns move to the last column.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Gap
+            </label>
+            <input
+              type="text"
+              value={editedContent.gap || "20px"}
+              onChange={(e) => handleContentChange("gap", e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md"
+              placeholder="20px"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Padding
+            </label>
+            <input
+              type="text"
+              value={editedContent.padding || "0px"}
+              onChange={(e) => handleContentChange("padding", e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md"
+              placeholder="0px"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Background
+            </label>
+            <ThemeColorField
+              value={editedContent.backgroundColor}
+              onChange={(value) =>
+                handleContentChange("backgroundColor", value)
+              }
+              fallback="#ffffff"
+              allowEmpty
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Vertical Align
+            </label>
+            <select
+              value={editedContent.verticalAlign || "top"}
+              onChange={(e) =>
+                handleContentChange("verticalAlign", e.target.value)
+              }
+              className="w-full p-2 border border-gray-300 rounded-md"
+            >
+              <option value="top">Top</option>
+              <option value="middle">Middle</option>
+              <option value="bottom">Bottom</option>
+            </select>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={editedContent.stackOnMobile !== false}
+            onChange={(e) =>
+              handleContentChange("stackOnMobile", e.target.checked)
+            }
+          />
+          Stack columns on mobile
+        </label>
+      </div>
+    );
+  };
+
+  const renderSnippetProperties = () => (
+    <div className="space-y-4">
+      <div className="p-3 bg-blue-50 rounded-md">
+        <p className="text-sm font-medium text-blue-800">
+          {editedContent.name}
+        </p>
+        <p className="text-xs text-blue-700 mt-1">
+          Linked snippet, version {editedContent.version}. Changes to the
+          snippet are applied to every template that links it.
+        </p>
+      </div>
+
+      {onDetachSnippet && (
+        <button
+          onClick={() => onDetachSnippet(component)}
+          className="w-full py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors"
+        >
+          Detach and edit blocks here
+        </button>
+      )}
+    </div>
+  );
+
   const renderProperties = () => {
     switch (component.type) {
       case "text":
@@ -445,6 +759,10 @@ export const PropertyEditor = ({
         return renderDividerProperties();
       case "spacer":
         return renderSpacerProperties();
+      case "columns":
+        return renderColumnsProperties();
+      case "snippet":
+        return renderSnippetProperties();
       default:
         return <div>No properties available for this block type.</div>;
     }
@@ -465,6 +783,12 @@ export const PropertyEditor = ({
       </div>
 
       {renderProperties()}
+
+      <MediaPickerModal
+        isOpen={showMediaPicker}
+        onClose={() => setShowMediaPicker(false)}
+        onSelect={handleAssetSelect}
+      />
     </div>
   );
 };
@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { X, Puzzle, Loader2 } from "lucide-react";
+import { EmailComponent, EmailSnippet, blockConfigs } from "./BlockToolbox";
+import { compileEmailRows } from "../../utils/emailCompiler";
+import { useBrandKit } from "../../hooks/useBrandKit";
+
+interface SaveSnippetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  blocks: EmailComponent[]; // Blocks that can be included, in order
+  initialSelectedIds: string[];
+  snippets: EmailSnippet[];
+  onSaved: (
+    snippet: EmailSnippet,
+    options: { linked: boolean; componentIds: string[] }
+  ) => void;
+}
+
+const describeBlock = (component: EmailComponent) => {
+  const name =
+    component.type === "snippet"
+      ? `Snippet: ${component.content.name}`
+      : blockConfigs[component.type as keyof typeof blockConfigs]?.name ||
+        component.type;
+  const text = component.content?.text;
+  return text ? `${name} – ${String(text).slice(0, 40)}` : name;
+};
+
+export const SaveSnippetModal = ({
+  isOpen,
+  onClose,
+  blocks,
+  initialSelectedIds,
+  snippets,
+  onSaved,
+}: SaveSnippetModalProps) => {
+  const [mode, setMode] = useState<"create" | "replace">("create");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState<EmailSnippet["category"]>("other");
+  const [replaceId, setReplaceId] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [linked, setLinked] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const brandKit = useBrandKit();
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedIds(initialSelectedIds);
+      setError(null);
+    }
+  }, [isOpen, initialSelectedIds]);
+
+  if (!isOpen) return null;
+
+  const toggleBlock = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]
+    );
+  };
+
+  const handleSave = async () => {
+    // Keep the blocks in document order, whatever order they were ticked in
+    const components = blocks.filter((block) =>
+      selectedIds.includes(block.id)
+    );
+
+    if (components.length === 0) {
+      setError("Select at least one block");
+      return;
+    }
+    if (mode === "create" && !name.trim()) {
+      setError("Snippet name is required");
+      return;
+    }
+    if (mode === "replace" && !replaceId) {
+      setError("Choose the snippet to update");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      const payload = { components, html: compileEmailRows(components, { brandKit }) };
+
+      const snippet: EmailSnippet =
+        mode === "create"
+          ? await apiClient.createSnippet({
+              ...payload,
+              name: name.trim(),
+              description,
+              category,
+            })
+          : await apiClient.updateSnippet(replaceId, payload);
+
+      onSaved(snippet, {
+        linked,
+        componentIds: components.map((component) => component.id),
+      });
+      onClose();
+    } catch (error) {
+      console.error("Failed to save snippet:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to save snippet"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <Puzzle className="w-5 h-5 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900">
+              Save as Snippet
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {(["create", "replace"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                disabled={option === "replace" && snippets.length === 0}
+                className={`flex-1 py-1 px-2 text-sm font-medium rounded-md transition-colors disabled:opacity-40 ${
+                  mode === option
+                    ? "bg-white text-blue-600 shadow-sm"
+                    : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                {option === "create" ? "New snippet" : "Update existing"}
+              </button>
+            ))}
+          </div>
+
+          {mode === "create" ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                  placeholder="Company footer"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Category
+                  </label>
+                  <select
+                    value={category}
+                    onChange={(e) =>
+                      setCategory(e.target.value as EmailSnippet["category"])
+                    }
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="header">Header</option>
+                    <option value="footer">Footer</option>
+                    <option value="legal">Legal</option>
+                    <option value="content">Content</option>
+                    <option value="other">Other</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Description
+                  </label>
+                  <input
+                    type="text"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+            </>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Snippet to update
+              </label>
+              <select
+                value={replaceId}
+                onChange={(e) => setReplaceId(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Choose a snippet...</option>
+                {snippets.map((snippet) => (
+                  <option key={snippet._id} value={snippet._id}>
+                    {snippet.name} (v{snippet.version})
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Templates with a linked copy of this snippet are updated too.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Blocks
+            </label>
+            <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+              {blocks.map((block) => (
+                <label
+                  key={block.id}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(block.id)}
+                    onChange={() => toggleBlock(block.id)}
+                  />
+                  <span className="truncate">{describeBlock(block)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={linked}
+              onChange={(e) => setLinked(e.target.checked)}
+            />
+            Keep linked: replace these blocks with the snippet so future
+            updates apply here
+          </label>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save Snippet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
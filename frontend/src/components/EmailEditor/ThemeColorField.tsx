@@ -0,0 +1,79 @@
+import { X } from "lucide-react";
+import { useBrandKit } from "../../hooks/useBrandKit";
+import {
+  brandColorTokens,
+  brandToken,
+  brandTokenValues,
+  isBrandToken,
+  resolveBrandValue,
+} from "../../utils/brandKit";
+
+interface ThemeColorFieldProps {
+  value?: string;
+  onChange: (value: string) => void;
+  fallback: string; // Shown in the color picker when no color is set
+  allowEmpty?: boolean;
+}
+
+// Color picker that prefers brand kit colors over raw hex values
+export const ThemeColorField = ({
+  value,
+  onChange,
+  fallback,
+  allowEmpty = false,
+}: ThemeColorFieldProps) => {
+  const brandKit = useBrandKit();
+  const tokenValues = brandTokenValues(brandKit);
+  const activeToken = brandColorTokens.find(
+    ({ token }) => value === brandToken(token)
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {allowEmpty && (
+          <button
+            type="button"
+            onClick={() => onChange("")}
+            title="None"
+            className={`w-5 h-5 rounded-full border bg-white flex items-center justify-center text-gray-400 ${
+              !value ? "ring-2 ring-blue-500 ring-offset-1" : "border-gray-300"
+            }`}
+          >
+            <X size={12} />
+          </button>
+        )}
+        {brandColorTokens.map(({ token, label }) => (
+          <button
+            key={token}
+            type="button"
+            onClick={() => onChange(brandToken(token))}
+            title={`${label} (brand kit)`}
+            className={`w-5 h-5 rounded-full border ${
+              value === brandToken(token)
+                ? "ring-2 ring-blue-500 ring-offset-1"
+                : "border-gray-300"
+            }`}
+            style={{ backgroundColor: tokenValues[token] }}
+          />
+        ))}
+      </div>
+      <input
+        type="color"
+        value={(resolveBrandValue(value, brandKit) as string) || fallback}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full h-8 border border-gray-300 rounded-md"
+        title="Custom color"
+      />
+      <p className="text-xs text-gray-500">
+        {activeToken
+          ? `Brand: ${activeToken.label}`
+          : isBrandToken(value)
+          ? "Brand color"
+          : value
+          ? "Custom color"
+          : "None"}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,348 @@
+import React, { useEffect, useState } from "react";
+import { Save, Image, X } from "lucide-react";
+import { MediaPickerModal } from "../EmailEditor/MediaPickerModal";
+import { loadBrandKit, setBrandKit } from "../../hooks/useBrandKit";
+import {
+  BrandKit,
+  DEFAULT_BRAND_KIT,
+  fontStacks,
+  mergeBrandKit,
+} from "../../utils/brandKit";
+import { MediaAsset } from "../../types";
+
+interface BrandKitSettingsProps {
+  onNotify: (type: "success" | "error" | "info", message: string) => void;
+}
+
+const paletteFields: { key: keyof BrandKit["palette"]; label: string }[] = [
+  { key: "primary", label: "Primary" },
+  { key: "secondary", label: "Secondary" },
+  { key: "accent", label: "Accent" },
+  { key: "text", label: "Text" },
+  { key: "muted", label: "Muted (dividers, borders)" },
+  { key: "background", label: "Background (around the email)" },
+  { key: "surface", label: "Surface (behind the content)" },
+];
+
+const inputClassName =
+  "block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500";
+
+const ColorInput = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700 mb-2">
+      {label}
+    </label>
+    <div className="flex items-center gap-2">
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-10 w-12 border border-gray-300 rounded-md"
+      />
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClassName}
+      />
+    </div>
+  </div>
+);
+
+export const BrandKitSettings: React.FC<BrandKitSettingsProps> = ({
+  onNotify,
+}) => {
+  const [brandKit, setDraft] = useState<BrandKit>(DEFAULT_BRAND_KIT);
+  const [saving, setSaving] = useState(false);
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
+
+  useEffect(() => {
+    loadBrandKit().then(setDraft);
+  }, []);
+
+  const updateSection = <K extends keyof BrandKit>(
+    section: K,
+    changes: Partial<BrandKit[K]>
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      [section]: { ...(prev[section] as object), ...changes },
+    }));
+  };
+
+  const handleLogoSelect = (asset: MediaAsset) => {
+    updateSection("logo", {
+      url: asset.url,
+      alt: asset.alt || brandKit.logo.alt,
+    });
+  };
+
+  const saveBrandKit = async () => {
+    setSaving(true);
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      const response = await apiClient.updateBrandKit(brandKit);
+      const saved = mergeBrandKit(response.brandKit);
+      setDraft(saved);
+      setBrandKit(saved);
+      onNotify(
+        "success",
+        response.restyledTemplates > 0
+          ? `Brand kit saved. ${response.restyledTemplates} template(s) restyled.`
+          : "Brand kit saved successfully"
+      );
+    } catch (error) {
+      console.error("Failed to save brand kit:", error);
+      onNotify("error", "Failed to save brand kit");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Brand Kit</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          New blocks in the drag-and-drop editor use these styles. Templates
+          that use brand colors, fonts or the brand logo are restyled when you
+          save.
+        </p>
+      </div>
+
+      {/* Palette */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-4">Palette</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {paletteFields.map(({ key, label }) => (
+            <ColorInput
+              key={key}
+              label={label}
+              value={brandKit.palette[key]}
+              onChange={(value) => updateSection("palette", { [key]: value })}
+            />
+          ))}
+          <ColorInput
+            label="Links"
+            value={brandKit.linkColor}
+            onChange={(value) =>
+              setDraft((prev) => ({ ...prev, linkColor: value }))
+            }
+          />
+        </div>
+      </div>
+
+      {/* Fonts */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-4">Fonts</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {(["heading", "body"] as const).map((key) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {key === "heading" ? "Headings" : "Body text"}
+              </label>
+              <select
+                value={brandKit.fonts[key]}
+                onChange={(e) =>
+                  updateSection("fonts", { [key]: e.target.value })
+                }
+                className={inputClassName}
+                style={{ fontFamily: brandKit.fonts[key] }}
+              >
+                {fontStacks.map((font) => (
+                  <option key={font.value} value={font.value}>
+                    {font.label}
+                  </option>
+                ))}
+                {!fontStacks.some(
+                  (font) => font.value === brandKit.fonts[key]
+                ) && (
+                  <option value={brandKit.fonts[key]}>
+                    {brandKit.fonts[key]}
+                  </option>
+                )}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Buttons */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-4">Buttons</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
+          <ColorInput
+            label="Background"
+            value={brandKit.button.backgroundColor}
+            onChange={(value) =>
+              updateSection("button", { backgroundColor: value })
+            }
+          />
+          <ColorInput
+            label="Text"
+            value={brandKit.button.textColor}
+            onChange={(value) => updateSection("button", { textColor: value })}
+          />
+          <div className="flex justify-center">
+            <span
+              className="inline-block font-bold text-sm"
+              style={{
+                backgroundColor: brandKit.button.backgroundColor,
+                color: brandKit.button.textColor,
+                borderRadius: brandKit.button.borderRadius,
+                padding: brandKit.button.padding,
+                fontFamily: brandKit.fonts.body,
+              }}
+            >
+              Button preview
+            </span>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Border Radius
+            </label>
+            <input
+              type="text"
+              value={brandKit.button.borderRadius}
+              onChange={(e) =>
+                updateSection("button", { borderRadius: e.target.value })
+              }
+              className={inputClassName}
+              placeholder="6px"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Padding
+            </label>
+            <input
+              type="text"
+              value={brandKit.button.padding}
+              onChange={(e) =>
+                updateSection("button", { padding: e.target.value })
+              }
+              className={inputClassName}
+              placeholder="12px 24px"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Logo */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-4">Logo</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <div className="h-24 border border-gray-200 rounded-md bg-gray-50 flex items-center justify-center mb-2">
+              {brandKit.logo.url ? (
+                <img
+                  src={brandKit.logo.url}
+                  alt={brandKit.logo.alt}
+                  className="max-h-20 max-w-full object-contain"
+                />
+              ) : (
+                <Image className="w-8 h-8 text-gray-300" />
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setShowMediaPicker(true)}
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Choose from media library
+              </button>
+              {brandKit.logo.url && (
+                <button
+                  type="button"
+                  onClick={() => updateSection("logo", { url: "" })}
+                  className="px-2 text-gray-400 hover:text-red-600"
+                  title="Remove logo"
+                >
+                  <X size={16} />
+                </button>
+              )}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Alt Text
+            </label>
+            <input
+              type="text"
+              value={brandKit.logo.alt}
+              onChange={(e) => updateSection("logo", { alt: e.target.value })}
+              className={inputClassName}
+              placeholder="Company name"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Width
+            </label>
+            <input
+              type="text"
+              value={brandKit.logo.width}
+              onChange={(e) => updateSection("logo", { width: e.target.value })}
+              className={inputClassName}
+              placeholder="150px"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Layout */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-4">Layout</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Content Width (px)
+            </label>
+            <input
+              type="number"
+              min={320}
+              max={900}
+              value={brandKit.contentWidth}
+              onChange={(e) =>
+                setDraft((prev) => ({
+                  ...prev,
+                  contentWidth: parseInt(e.target.value) || 0,
+                }))
+              }
+              className={inputClassName}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Between 320 and 900. Most email clients display 600px best.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={saveBrandKit}
+          disabled={saving}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? "Saving..." : "Save Brand Kit"}
+        </button>
+      </div>
+
+      <MediaPickerModal
+        isOpen={showMediaPicker}
+        onClose={() => setShowMediaPicker(false)}
+        onSelect={handleLogoSelect}
+      />
+    </div>
+  );
+};
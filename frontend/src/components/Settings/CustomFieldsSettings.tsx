@@ -0,0 +1,556 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { CustomFieldDefinition, CustomFieldType } from "../../types";
+import {
+  CUSTOM_FIELD_TYPE_LABELS,
+  formatCustomFieldValue,
+} from "../../utils/customFields";
+
+interface CustomFieldsSettingsProps {
+  onNotify: (type: "success" | "error" | "info", message: string) => void;
+}
+
+interface FieldForm {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string; // One per line
+  required: boolean;
+  defaultValue: string;
+  min: string;
+  max: string;
+  maxLength: string;
+  pattern: string;
+  order: string;
+}
+
+const emptyForm: FieldForm = {
+  key: "",
+  label: "",
+  type: "text",
+  options: "",
+  required: false,
+  defaultValue: "",
+  min: "",
+  max: "",
+  maxLength: "",
+  pattern: "",
+  order: "0",
+};
+
+const inputClassName =
+  "block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// "Customer tier" -> "customer_tier"
+const keyFromLabel = (label: string) =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^\w-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+const numberOrNull = (value: string) =>
+  value.trim() === "" ? null : Number(value);
+
+/**
+ * Typed contact fields. They appear in the contact form, as table columns,
+ * import targets, segment conditions and merge tags; values are checked
+ * against their type wherever contacts are saved.
+ */
+export const CustomFieldsSettings: React.FC<CustomFieldsSettingsProps> = ({
+  onNotify,
+}) => {
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [form, setForm] = useState<FieldForm>(emptyForm);
+  const [keyEdited, setKeyEdited] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchFields = useCallback(async () => {
+    setLoadError(null);
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      const response = await apiClient.getCustomFields();
+      setFields(response.fields || []);
+    } catch (error) {
+      console.error("Failed to load custom fields:", error);
+      setLoadError(getErrorMessage(error, "Failed to load custom fields"));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFields();
+  }, [fetchFields]);
+
+  const openForm = (field?: CustomFieldDefinition) => {
+    setEditingId(field?._id || null);
+    setKeyEdited(Boolean(field));
+    setForm(
+      field
+        ? {
+            key: field.key,
+            label: field.label,
+            type: field.type,
+            options: field.options.join("\n"),
+            required: field.required,
+            defaultValue: formatCustomFieldValue(
+              field.defaultValue,
+              field.type
+            ),
+            min: field.min?.toString() ?? "",
+            max: field.max?.toString() ?? "",
+            maxLength: field.maxLength?.toString() ?? "",
+            pattern: field.pattern || "",
+            order: String(field.order || 0),
+          }
+        : emptyForm
+    );
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const field = {
+      key: form.key.trim(),
+      label: form.label.trim(),
+      type: form.type,
+      options: form.options
+        .split("\n")
+        .map((option) => option.trim())
+        .filter(Boolean),
+      required: form.required,
+      defaultValue: form.defaultValue.trim() || null,
+      min: numberOrNull(form.min),
+      max: numberOrNull(form.max),
+      maxLength: numberOrNull(form.maxLength),
+      pattern: form.pattern.trim() || null,
+      order: Number(form.order) || 0,
+    };
+
+    setSaving(true);
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      if (editingId) {
+        await apiClient.updateCustomField(editingId, field);
+        onNotify("success", `Field ${field.label} updated`);
+      } else {
+        const { conversion } = await apiClient.createCustomField(field);
+        onNotify(
+          conversion?.failed > 0 ? "info" : "success",
+          conversion?.failed > 0
+            ? `Field ${field.label} added. ${conversion.failed} existing values do not fit its type and were left as they are.`
+            : `Field ${field.label} added`
+        );
+      }
+      closeForm();
+      fetchFields();
+    } catch (error) {
+      onNotify("error", getErrorMessage(error, "Failed to save field"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: CustomFieldDefinition) => {
+    if (
+      !confirm(
+        `Delete the field ${field.label}? Contacts keep their values as plain text.`
+      )
+    ) {
+      return;
+    }
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      await apiClient.deleteCustomField(field._id);
+      onNotify("success", `Field ${field.label} deleted`);
+      fetchFields();
+    } catch (error) {
+      onNotify("error", getErrorMessage(error, "Failed to delete field"));
+    }
+  };
+
+  const options = form.options
+    .split("\n")
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+  const renderDefaultInput = () => {
+    switch (form.type) {
+      case "boolean":
+        return (
+          <select
+            value={form.defaultValue}
+            onChange={(e) => setForm({ ...form, defaultValue: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">No default</option>
+            <option value="Yes">Yes</option>
+            <option value="No">No</option>
+          </select>
+        );
+      case "select":
+        return (
+          <select
+            value={form.defaultValue}
+            onChange={(e) => setForm({ ...form, defaultValue: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">No default</option>
+            {options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <input
+            type={
+              form.type === "date"
+                ? "date"
+                : form.type === "number"
+                ? "number"
+                : "text"
+            }
+            value={form.defaultValue}
+            onChange={(e) => setForm({ ...form, defaultValue: e.target.value })}
+            placeholder={
+              form.type === "multiselect"
+                ? "Options separated by commas"
+                : "No default"
+            }
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Custom Fields</h3>
+          <p className="mt-1 text-sm text-gray-600">
+            Extra contact fields with a type, shown in the contact form and
+            usable as table columns, import targets, segment conditions and
+            merge tags. New contacts get a field's default when they have no
+            value.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => openForm()}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 whitespace-nowrap"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Field
+        </button>
+      </div>
+
+      {loadError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {loadError}
+        </div>
+      )}
+
+      {/* Add or edit a field */}
+      {showForm && (
+        <form
+          onSubmit={handleSave}
+          className="p-4 border border-gray-200 rounded-lg space-y-4"
+        >
+          <h4 className="text-sm font-semibold text-gray-900">
+            {editingId ? "Edit field" : "New field"}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Label *
+              </label>
+              <input
+                type="text"
+                required
+                value={form.label}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    label: e.target.value,
+                    ...(!keyEdited && { key: keyFromLabel(e.target.value) }),
+                  })
+                }
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Key *
+              </label>
+              <input
+                type="text"
+                required
+                disabled={Boolean(editingId)}
+                value={form.key}
+                onChange={(e) => {
+                  setKeyEdited(true);
+                  setForm({ ...form, key: e.target.value });
+                }}
+                className={`${inputClassName} disabled:bg-gray-100`}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Merge tag {`{{${form.key || "key"}}}`}. Cannot be changed later.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Type
+              </label>
+              <select
+                disabled={Boolean(editingId)}
+                value={form.type}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    type: e.target.value as CustomFieldType,
+                    defaultValue: "",
+                  })
+                }
+                className={`${inputClassName} disabled:bg-gray-100`}
+              >
+                {(
+                  Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]
+                ).map((type) => (
+                  <option key={type} value={type}>
+                    {CUSTOM_FIELD_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {(form.type === "select" || form.type === "multiselect") && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Options *
+              </label>
+              <textarea
+                rows={4}
+                value={form.options}
+                onChange={(e) => setForm({ ...form, options: e.target.value })}
+                placeholder="One option per line"
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Default Value
+              </label>
+              {renderDefaultInput()}
+            </div>
+            {form.type === "number" && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Minimum
+                  </label>
+                  <input
+                    type="number"
+                    value={form.min}
+                    onChange={(e) => setForm({ ...form, min: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Maximum
+                  </label>
+                  <input
+                    type="number"
+                    value={form.max}
+                    onChange={(e) => setForm({ ...form, max: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </>
+            )}
+            {form.type === "text" && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Maximum Length
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={form.maxLength}
+                    onChange={(e) =>
+                      setForm({ ...form, maxLength: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Pattern
+                  </label>
+                  <input
+                    type="text"
+                    value={form.pattern}
+                    onChange={(e) =>
+                      setForm({ ...form, pattern: e.target.value })
+                    }
+                    placeholder="Regular expression, e.g. ^[A-Z]{2}\d+$"
+                    className={inputClassName}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.required}
+                onChange={(e) =>
+                  setForm({ ...form, required: e.target.checked })
+                }
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+              />
+              Required
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              Order
+              <input
+                type="number"
+                value={form.order}
+                onChange={(e) => setForm({ ...form, order: e.target.value })}
+                className={`${inputClassName} w-20 ml-2`}
+              />
+            </label>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Field"}
+            </button>
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Fields */}
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Field
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Type
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Default
+              </th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {fields.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={4}
+                  className="px-4 py-8 text-center text-sm text-gray-500"
+                >
+                  No custom fields yet
+                </td>
+              </tr>
+            ) : (
+              fields.map((field) => (
+                <tr key={field._id}>
+                  <td className="px-4 py-3 text-sm">
+                    <div className="text-gray-900">
+                      {field.label}
+                      {field.required && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          required
+                        </span>
+                      )}
+                    </div>
+                    <code className="text-xs text-gray-500">{field.key}</code>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {CUSTOM_FIELD_TYPE_LABELS[field.type]}
+                    {field.options.length > 0 && (
+                      <div className="text-xs text-gray-500">
+                        {field.options.join(", ")}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {formatCustomFieldValue(field.defaultValue, field.type) ||
+                      "—"}
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm space-x-3 whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => openForm(field)}
+                      className="text-gray-400 hover:text-blue-600"
+                      title="Edit field"
+                    >
+                      <Pencil className="w-4 h-4 inline" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(field)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete field"
+                    >
+                      <Trash2 className="w-4 h-4 inline" />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
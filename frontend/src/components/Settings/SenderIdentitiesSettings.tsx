@@ -0,0 +1,703 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  CheckCircle,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Star,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import {
+  DnsCheckStatus,
+  DnsRecordCheck,
+  SenderDomain,
+  SenderIdentity,
+} from "../../types";
+
+interface SenderIdentitiesSettingsProps {
+  onNotify: (type: "success" | "error" | "info", message: string) => void;
+}
+
+interface IdentityForm {
+  name: string;
+  email: string;
+  replyToEmail: string;
+  isDefault: boolean;
+  useSmtp: boolean;
+  smtpHost: string;
+  smtpPort: string;
+  smtpUser: string;
+  smtpPassword: string;
+  smtpSecure: boolean;
+}
+
+const emptyForm: IdentityForm = {
+  name: "",
+  email: "",
+  replyToEmail: "",
+  isDefault: false,
+  useSmtp: false,
+  smtpHost: "",
+  smtpPort: "587",
+  smtpUser: "",
+  smtpPassword: "",
+  smtpSecure: false,
+};
+
+const statusColors: Record<DnsCheckStatus, string> = {
+  valid: "bg-green-100 text-green-800",
+  missing: "bg-yellow-100 text-yellow-800",
+  invalid: "bg-red-100 text-red-800",
+  error: "bg-gray-100 text-gray-800",
+};
+
+const inputClassName =
+  "block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const RecordCheck: React.FC<{ label: string; check: DnsRecordCheck | null }> =
+  ({ label, check }) => (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-900">{label}</span>
+        <span
+          className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+            check ? statusColors[check.status] : "bg-gray-100 text-gray-600"
+          }`}
+        >
+          {check ? check.status : "not checked"}
+        </span>
+      </div>
+      {check?.message && (
+        <p className="text-xs text-gray-600">{check.message}</p>
+      )}
+      {check?.record && (
+        <code className="block text-xs text-gray-500 break-all">
+          {check.record}
+        </code>
+      )}
+    </div>
+  );
+
+/**
+ * The From addresses campaigns may send as. Identities need approval, which
+ * requires their domain's SPF, DKIM and DMARC records to check out; only
+ * approved identities are offered when creating a campaign.
+ */
+export const SenderIdentitiesSettings: React.FC<
+  SenderIdentitiesSettingsProps
+> = ({ onNotify }) => {
+  const [identities, setIdentities] = useState<SenderIdentity[]>([]);
+  const [domains, setDomains] = useState<SenderDomain[]>([]);
+  const [selectors, setSelectors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [form, setForm] = useState<IdentityForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [checkingDomain, setCheckingDomain] = useState<string | null>(null);
+
+  const fetchSenders = useCallback(async () => {
+    setLoadError(null);
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      const [identityResponse, domainResponse] = await Promise.all([
+        apiClient.getSenderIdentities(),
+        apiClient.getSenderDomains(),
+      ]);
+      setIdentities(identityResponse.identities || []);
+      setDomains(domainResponse.domains || []);
+    } catch (error) {
+      console.error("Failed to load sender identities:", error);
+      setLoadError(getErrorMessage(error, "Failed to load sender identities"));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSenders();
+  }, [fetchSenders]);
+
+  const openForm = (identity?: SenderIdentity) => {
+    setEditingId(identity?.id || null);
+    setForm(
+      identity
+        ? {
+            name: identity.name,
+            email: identity.email,
+            replyToEmail: identity.replyToEmail,
+            isDefault: identity.isDefault,
+            useSmtp: identity.hasSmtpProfile,
+            smtpHost: identity.smtp?.host || "",
+            smtpPort: String(identity.smtp?.port || 587),
+            smtpUser: identity.smtp?.user || "",
+            smtpPassword: identity.smtp?.password || "",
+            smtpSecure: Boolean(identity.smtp?.secure),
+          }
+        : emptyForm
+    );
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const identity = {
+      name: form.name.trim(),
+      email: form.email.trim(),
+      replyToEmail: form.replyToEmail.trim(),
+      isDefault: form.isDefault,
+      smtp: form.useSmtp
+        ? {
+            host: form.smtpHost.trim(),
+            port: parseInt(form.smtpPort) || 587,
+            user: form.smtpUser.trim(),
+            password: form.smtpPassword,
+            secure: form.smtpSecure,
+          }
+        : { host: "" },
+    };
+
+    setSaving(true);
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      if (editingId) {
+        await apiClient.updateSenderIdentity(editingId, identity);
+        onNotify("success", `Sender identity ${identity.email} updated`);
+      } else {
+        await apiClient.createSenderIdentity(identity);
+        onNotify(
+          "success",
+          `Sender identity ${identity.email} added. Approve it once its domain checks out.`
+        );
+      }
+      closeForm();
+      fetchSenders();
+    } catch (error) {
+      onNotify("error", getErrorMessage(error, "Failed to save identity"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateIdentity = async (
+    identity: SenderIdentity,
+    changes: { approved?: boolean; isDefault?: boolean },
+    successMessage: string
+  ) => {
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      await apiClient.updateSenderIdentity(identity.id, changes);
+      onNotify("success", successMessage);
+      fetchSenders();
+    } catch (error) {
+      onNotify("error", getErrorMessage(error, "Failed to update identity"));
+    }
+  };
+
+  const handleDelete = async (identity: SenderIdentity) => {
+    if (!confirm(`Delete the sender identity ${identity.email}?`)) return;
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      await apiClient.deleteSenderIdentity(identity.id);
+      onNotify("success", `Sender identity ${identity.email} deleted`);
+      fetchSenders();
+    } catch (error) {
+      onNotify("error", getErrorMessage(error, "Failed to delete identity"));
+    }
+  };
+
+  const handleTestSmtp = async (identity: SenderIdentity) => {
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      const result = await apiClient.testSenderSmtp(identity.id);
+      onNotify("success", result.message || "SMTP connection successful");
+    } catch (error) {
+      onNotify("error", getErrorMessage(error, "SMTP connection failed"));
+    }
+  };
+
+  const handleCheckDomain = async (domain: SenderDomain) => {
+    setCheckingDomain(domain.domain);
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      const result: SenderDomain = await apiClient.checkSenderDomain(
+        domain.domain,
+        selectors[domain.domain]?.trim() || undefined
+      );
+      onNotify(
+        result.verified ? "success" : "info",
+        result.verified
+          ? `${domain.domain} is verified`
+          : `${domain.domain} is not verified yet: check the records below`
+      );
+      fetchSenders();
+    } catch (error) {
+      onNotify("error", getErrorMessage(error, "Failed to check domain"));
+    } finally {
+      setCheckingDomain(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            Sender Identities
+          </h3>
+          <p className="mt-1 text-sm text-gray-600">
+            Campaigns can only be sent from approved identities. An identity
+            can be approved once its domain has valid SPF, DKIM and DMARC
+            records.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => openForm()}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 whitespace-nowrap"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Identity
+        </button>
+      </div>
+
+      {loadError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {loadError}
+        </div>
+      )}
+
+      {/* Add or edit an identity */}
+      {showForm && (
+        <form
+          onSubmit={handleSave}
+          className="p-4 border border-gray-200 rounded-lg space-y-4"
+        >
+          <h4 className="text-sm font-semibold text-gray-900">
+            {editingId ? "Edit identity" : "New identity"}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                From Name *
+              </label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                From Email *
+              </label>
+              <input
+                type="email"
+                required
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reply-To Email
+              </label>
+              <input
+                type="email"
+                value={form.replyToEmail}
+                onChange={(e) =>
+                  setForm({ ...form, replyToEmail: e.target.value })
+                }
+                placeholder="Defaults to the From email"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          {editingId &&
+            form.email.trim().toLowerCase() !==
+              identities.find((identity) => identity.id === editingId)
+                ?.email && (
+              <p className="text-xs text-yellow-700">
+                Changing the address withdraws the identity's approval.
+              </p>
+            )}
+
+          <div className="flex flex-wrap gap-6">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isDefault}
+                onChange={(e) =>
+                  setForm({ ...form, isDefault: e.target.checked })
+                }
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+              />
+              Preselect for new campaigns
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.useSmtp}
+                onChange={(e) =>
+                  setForm({ ...form, useSmtp: e.target.checked })
+                }
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+              />
+              Send through a dedicated SMTP server
+            </label>
+          </div>
+
+          {form.useSmtp && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-md">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  SMTP Host *
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={form.smtpHost}
+                  onChange={(e) =>
+                    setForm({ ...form, smtpHost: e.target.value })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Port
+                </label>
+                <input
+                  type="number"
+                  value={form.smtpPort}
+                  onChange={(e) =>
+                    setForm({ ...form, smtpPort: e.target.value })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              <label className="flex items-center text-sm text-gray-700 mt-6">
+                <input
+                  type="checkbox"
+                  checked={form.smtpSecure}
+                  onChange={(e) =>
+                    setForm({ ...form, smtpSecure: e.target.checked })
+                  }
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                Use SSL/TLS
+              </label>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Username
+                </label>
+                <input
+                  type="text"
+                  value={form.smtpUser}
+                  onChange={(e) =>
+                    setForm({ ...form, smtpUser: e.target.value })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Password
+                </label>
+                <input
+                  type="password"
+                  value={form.smtpPassword}
+                  onChange={(e) =>
+                    setForm({ ...form, smtpPassword: e.target.value })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Identity"}
+            </button>
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Identities */}
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Identity
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Domain
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                SMTP
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {identities.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={5}
+                  className="px-4 py-8 text-center text-sm text-gray-500"
+                >
+                  No sender identities yet
+                </td>
+              </tr>
+            ) : (
+              identities.map((identity) => (
+                <tr key={identity.id}>
+                  <td className="px-4 py-3 text-sm">
+                    <div className="flex items-center gap-1 text-gray-900">
+                      {identity.name}
+                      {identity.isDefault && (
+                        <Star
+                          className="w-4 h-4 text-yellow-500 fill-yellow-400"
+                          aria-label="Default identity"
+                        />
+                      )}
+                    </div>
+                    <div className="text-gray-600">{identity.email}</div>
+                    {identity.replyToEmail && (
+                      <div className="text-xs text-gray-500">
+                        Reply-To: {identity.replyToEmail}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <span
+                      className={`inline-flex items-center gap-1 ${
+                        identity.domainVerified
+                          ? "text-green-700"
+                          : "text-yellow-700"
+                      }`}
+                    >
+                      {identity.domainVerified ? (
+                        <CheckCircle className="w-4 h-4" />
+                      ) : (
+                        <XCircle className="w-4 h-4" />
+                      )}
+                      {identity.domain}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {identity.hasSmtpProfile ? (
+                      <button
+                        type="button"
+                        onClick={() => handleTestSmtp(identity)}
+                        className="text-blue-600 hover:text-blue-800"
+                        title="Test the connection"
+                      >
+                        {identity.smtp?.host}
+                      </button>
+                    ) : (
+                      "Default server"
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`px-2 py-1 text-xs font-medium rounded-full ${
+                        identity.approved
+                          ? "bg-green-100 text-green-800"
+                          : "bg-yellow-100 text-yellow-800"
+                      }`}
+                    >
+                      {identity.approved ? "Approved" : "Pending"}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap space-x-3">
+                    {identity.approved ? (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateIdentity(
+                            identity,
+                            { approved: false },
+                            `${identity.email} can no longer be used for new campaigns`
+                          )
+                        }
+                        className="text-sm text-gray-600 hover:text-gray-900"
+                      >
+                        Revoke
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateIdentity(
+                            identity,
+                            { approved: true },
+                            `${identity.email} approved`
+                          )
+                        }
+                        disabled={!identity.domainVerified}
+                        title={
+                          identity.domainVerified
+                            ? undefined
+                            : "Verify the domain's records first"
+                        }
+                        className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                      >
+                        Approve
+                      </button>
+                    )}
+                    {!identity.isDefault && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateIdentity(
+                            identity,
+                            { isDefault: true },
+                            `${identity.email} is now the default identity`
+                          )
+                        }
+                        className="text-gray-400 hover:text-yellow-500"
+                        title="Preselect for new campaigns"
+                      >
+                        <Star className="w-4 h-4 inline" />
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => openForm(identity)}
+                      className="text-gray-400 hover:text-blue-600"
+                      title="Edit identity"
+                    >
+                      <Pencil className="w-4 h-4 inline" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(identity)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete identity"
+                    >
+                      <Trash2 className="w-4 h-4 inline" />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Domains */}
+      {domains.length > 0 && (
+        <div className="space-y-4">
+          <div>
+            <h4 className="text-md font-medium text-gray-900">
+              Sender Domains
+            </h4>
+            <p className="mt-1 text-sm text-gray-600">
+              Records are looked up by this server. Enter the DKIM selector
+              your SMTP provider signs with (the part before ._domainkey).
+            </p>
+          </div>
+          {domains.map((domain) => (
+            <div
+              key={domain.domain}
+              className="p-4 border border-gray-200 rounded-lg space-y-4"
+            >
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold text-gray-900">
+                    {domain.domain}
+                  </span>
+                  <span
+                    className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                      domain.verified
+                        ? "bg-green-100 text-green-800"
+                        : "bg-yellow-100 text-yellow-800"
+                    }`}
+                  >
+                    {domain.verified ? "Verified" : "Not verified"}
+                  </span>
+                  {domain.checkedAt && (
+                    <span className="text-xs text-gray-500">
+                      Checked {new Date(domain.checkedAt).toLocaleString()}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={selectors[domain.domain] ?? domain.dkimSelector}
+                    onChange={(e) =>
+                      setSelectors((prev) => ({
+                        ...prev,
+                        [domain.domain]: e.target.value,
+                      }))
+                    }
+                    placeholder="DKIM selector"
+                    className={`${inputClassName} md:w-40`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleCheckDomain(domain)}
+                    disabled={checkingDomain === domain.domain}
+                    className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 whitespace-nowrap"
+                  >
+                    <RefreshCw
+                      className={`w-4 h-4 mr-2 ${
+                        checkingDomain === domain.domain ? "animate-spin" : ""
+                      }`}
+                    />
+                    Check Records
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <RecordCheck label="SPF" check={domain.spf} />
+                <RecordCheck label="DKIM" check={domain.dkim} />
+                <RecordCheck label="DMARC" check={domain.dmarc} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,517 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  AlertTriangle,
+  Download,
+  Plus,
+  Search,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import {
+  SuppressionEntry,
+  SuppressionReason,
+  SuppressionStats,
+} from "../../types";
+
+interface SuppressionListSettingsProps {
+  onNotify: (type: "success" | "error" | "info", message: string) => void;
+}
+
+const reasons: { value: SuppressionReason; label: string }[] = [
+  { value: "bounced", label: "Bounced" },
+  { value: "unsubscribed", label: "Unsubscribed" },
+  { value: "complained", label: "Complained" },
+  { value: "manual", label: "Manual" },
+];
+
+const reasonColors: Record<SuppressionReason, string> = {
+  bounced: "bg-red-100 text-red-800",
+  unsubscribed: "bg-yellow-100 text-yellow-800",
+  complained: "bg-orange-100 text-orange-800",
+  manual: "bg-gray-100 text-gray-800",
+};
+
+const PAGE_SIZE = 50;
+
+const inputClassName =
+  "block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Addresses that are never sent to. Bounces, unsubscribes and complaints are
+ * added automatically; admins can add, import, export and remove addresses.
+ */
+export const SuppressionListSettings: React.FC<
+  SuppressionListSettingsProps
+> = ({ onNotify }) => {
+  const [entries, setEntries] = useState<SuppressionEntry[]>([]);
+  const [stats, setStats] = useState<SuppressionStats | null>(null);
+  const [enabled, setEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [search, setSearch] = useState("");
+  const [reasonFilter, setReasonFilter] = useState("");
+  const [newEmails, setNewEmails] = useState("");
+  const [newReason, setNewReason] = useState<SuppressionReason>("manual");
+  const [newNote, setNewNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      const response = await apiClient.getSuppressions({
+        page,
+        limit: PAGE_SIZE,
+        search: search.trim() || undefined,
+        reason: reasonFilter || undefined,
+      });
+      setEntries(response.entries || []);
+      setStats(response.stats || null);
+      setPages(Math.max(1, response.pagination?.pages || 1));
+    } catch (error) {
+      console.error("Failed to load suppression list:", error);
+      setLoadError(getErrorMessage(error, "Failed to load suppression list"));
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search, reasonFilter]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  useEffect(() => {
+    const loadConfig = async () => {
+      try {
+        const { apiClient } = await import("../../utils/apiClient");
+        const response = await apiClient.get<{
+          config: { suppressionEnabled?: boolean };
+        }>("/api/settings/suppression");
+        setEnabled(response.config?.suppressionEnabled !== false);
+      } catch (error) {
+        console.error("Failed to load suppression settings:", error);
+      }
+    };
+    loadConfig();
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const emails = newEmails
+      .split(/[\s,;]+/)
+      .map((email) => email.trim())
+      .filter(Boolean);
+    if (emails.length === 0) return;
+
+    setSaving(true);
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      if (emails.length === 1) {
+        await apiClient.addSuppression({
+          email: emails[0],
+          reason: newReason,
+          note: newNote || undefined,
+        });
+        onNotify("success", `${emails[0]} added to the suppression list`);
+      } else {
+        const result = await apiClient.importSuppressions({
+          emails,
+          reason: newReason,
+          note: newNote || undefined,
+        });
+        notifyImport(result);
+      }
+      setNewEmails("");
+      setNewNote("");
+      fetchEntries();
+    } catch (error) {
+      onNotify("error", getErrorMessage(error, "Failed to suppress email"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const notifyImport = (result: {
+    added: number;
+    alreadySuppressed: number;
+    invalid: string[];
+  }) => {
+    const parts = [`${result.added} added`];
+    if (result.alreadySuppressed > 0) {
+      parts.push(`${result.alreadySuppressed} already suppressed`);
+    }
+    if (result.invalid.length > 0) {
+      parts.push(`${result.invalid.length} invalid`);
+    }
+    onNotify(
+      result.invalid.length > 0 ? "info" : "success",
+      `Import finished: ${parts.join(", ")}`
+    );
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("reason", newReason);
+
+    setSaving(true);
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      notifyImport(await apiClient.importSuppressions(formData));
+      fetchEntries();
+    } catch (error) {
+      onNotify("error", getErrorMessage(error, "Failed to import addresses"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      const blob = await apiClient.exportSuppressions({
+        search: search.trim() || undefined,
+        reason: reasonFilter || undefined,
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `suppression_list_${
+        new Date().toISOString().split("T")[0]
+      }.csv`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export suppression list:", error);
+      onNotify("error", "Failed to export suppression list");
+    }
+  };
+
+  const handleReasonChange = async (
+    entry: SuppressionEntry,
+    reason: SuppressionReason
+  ) => {
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      await apiClient.updateSuppression(entry.id, { reason });
+      fetchEntries();
+    } catch (error) {
+      onNotify("error", getErrorMessage(error, "Failed to update entry"));
+    }
+  };
+
+  const handleRemove = async (entry: SuppressionEntry) => {
+    if (
+      !confirm(
+        `Remove ${entry.email} from the suppression list? Campaigns will be able to send to it again.`
+      )
+    ) {
+      return;
+    }
+    try {
+      const { apiClient } = await import("../../utils/apiClient");
+      await apiClient.deleteSuppression(entry.id);
+      onNotify("success", `${entry.email} removed from the suppression list`);
+      fetchEntries();
+    } catch (error) {
+      onNotify("error", getErrorMessage(error, "Failed to remove entry"));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Suppression List</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Campaigns never send to these addresses, whatever the contact's
+          status. Hard bounces, unsubscribes and complaints are added
+          automatically.
+        </p>
+      </div>
+
+      {!enabled && (
+        <div className="flex items-start p-4 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+          Suppression is turned off in Email Settings, so these addresses are
+          currently sent to.
+        </div>
+      )}
+
+      {/* Stats */}
+      {stats && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <div className="text-2xl font-semibold text-gray-900">
+              {stats.total.toLocaleString()}
+            </div>
+            <div className="text-sm text-gray-600">Total</div>
+          </div>
+          {reasons.map(({ value, label }) => (
+            <div key={value} className="p-4 bg-gray-50 rounded-lg">
+              <div className="text-2xl font-semibold text-gray-900">
+                {(stats.byReason[value] || 0).toLocaleString()}
+              </div>
+              <div className="text-sm text-gray-600">{label}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add addresses */}
+      <form
+        onSubmit={handleAdd}
+        className="p-4 border border-gray-200 rounded-lg space-y-4"
+      >
+        <h4 className="text-sm font-semibold text-gray-900">Add addresses</h4>
+        <textarea
+          value={newEmails}
+          onChange={(e) => setNewEmails(e.target.value)}
+          rows={3}
+          placeholder="One or more email addresses, separated by commas or new lines"
+          className={inputClassName}
+        />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <select
+              value={newReason}
+              onChange={(e) =>
+                setNewReason(e.target.value as SuppressionReason)
+              }
+              className={inputClassName}
+            >
+              {reasons.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Note
+            </label>
+            <input
+              type="text"
+              value={newNote}
+              onChange={(e) => setNewNote(e.target.value)}
+              placeholder="Optional"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="submit"
+            disabled={saving || !newEmails.trim()}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Suppress
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={saving}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import File
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,.xls,.xlsx"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+          <p className="self-center text-xs text-gray-500">
+            CSV or Excel with an email column, and optional reason and note
+            columns, or one address per line. Imported addresses without a
+            reason use the one selected above.
+          </p>
+        </div>
+      </form>
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search email addresses"
+            className={`${inputClassName} pl-9`}
+          />
+        </div>
+        <select
+          value={reasonFilter}
+          onChange={(e) => {
+            setReasonFilter(e.target.value);
+            setPage(1);
+          }}
+          className={`${inputClassName} md:w-48`}
+        >
+          <option value="">All reasons</option>
+          {reasons.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleExport}
+          className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </button>
+      </div>
+
+      {/* Entries */}
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Email
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Reason
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Source
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Added
+              </th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {loading ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center">
+                  <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                </td>
+              </tr>
+            ) : loadError ? (
+              <tr>
+                <td
+                  colSpan={5}
+                  className="px-4 py-8 text-center text-sm text-red-600"
+                >
+                  {loadError}
+                </td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={5}
+                  className="px-4 py-8 text-center text-sm text-gray-500"
+                >
+                  No suppressed addresses
+                </td>
+              </tr>
+            ) : (
+              entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {entry.email}
+                    {entry.note && (
+                      <div className="text-xs text-gray-500">{entry.note}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={entry.reason}
+                      onChange={(e) =>
+                        handleReasonChange(
+                          entry,
+                          e.target.value as SuppressionReason
+                        )
+                      }
+                      className={`text-xs font-medium rounded-full border-0 py-1 pl-2 pr-7 ${
+                        reasonColors[entry.reason]
+                      }`}
+                    >
+                      {reasons.map(({ value, label }) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {entry.campaign
+                      ? `Campaign: ${entry.campaign.name}`
+                      : entry.addedBy || "-"}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                    {new Date(entry.addedAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(entry)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove from suppression list"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {pages > 1 && (
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>
+            Page {page} of {pages}
+          </span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+              disabled={page === 1}
+              className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              type="button"
+              onClick={() => setPage((prev) => Math.min(pages, prev + 1))}
+              disabled={page === pages}
+              className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
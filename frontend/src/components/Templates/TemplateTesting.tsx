@@ -18,6 +18,7 @@ import {
   Download,
   Settings,
 } from "lucide-react";
+import { previewMergeTags } from "../../utils/mergeTags";
 
 interface TestResult {
   score: number;
@@ -73,13 +74,10 @@ export const TemplateTesting: React.FC<TemplateTestingProps> = ({
     { id: "aol", name: "AOL Mail", supported: false },
   ];
 
-  const processTemplate = (content: string) => {
-    let processed = content;
-    Object.entries(variables).forEach(([key, value]) => {
-      processed = processed.replace(new RegExp(`{{${key}}}`, "g"), value);
-    });
-    return processed;
-  };
+  const processTemplate = (
+    content: string,
+    format: "html" | "text" = "html"
+  ) => previewMergeTags(content, variables, { format });
 
   const sendTestEmail = async () => {
     if (!testEmails.trim() || !onSendTest) return;
@@ -190,7 +188,7 @@ export const TemplateTesting: React.FC<TemplateTestingProps> = ({
               Subject Line Preview
             </label>
             <div className="p-3 bg-gray-50 border border-gray-300 rounded-lg text-gray-900">
-              {processTemplate(templateSubject) || "No subject line"}
+              {processTemplate(templateSubject, "text") || "No subject line"}
             </div>
           </div>
 
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { BrandKit, DEFAULT_BRAND_KIT, mergeBrandKit } from "../utils/brandKit";
+
+// The brand kit is loaded once and shared by every editor component
+
+let cachedBrandKit: BrandKit | null = null;
+let pendingRequest: Promise<BrandKit> | null = null;
+const listeners = new Set<(brandKit: BrandKit) => void>();
+
+/**
+ * Replace the shared brand kit, e.g. after it was saved in Settings
+ */
+export function setBrandKit(brandKit: BrandKit) {
+  cachedBrandKit = brandKit;
+  listeners.forEach((listener) => listener(brandKit));
+}
+
+/**
+ * Fetch the brand kit from the server, reusing the cached copy
+ */
+export async function loadBrandKit(): Promise<BrandKit> {
+  if (cachedBrandKit) return cachedBrandKit;
+
+  if (!pendingRequest) {
+    pendingRequest = (async () => {
+      try {
+        const { apiClient } = await import("../utils/apiClient");
+        const brandKit = mergeBrandKit(await apiClient.getBrandKit());
+        setBrandKit(brandKit);
+        return brandKit;
+      } catch (error) {
+        console.error("Failed to load brand kit:", error);
+        return DEFAULT_BRAND_KIT;
+      } finally {
+        pendingRequest = null;
+      }
+    })();
+  }
+  return pendingRequest;
+}
+
+/**
+ * Current brand kit. Renders with the defaults until the real one loads.
+ */
+export function useBrandKit(): BrandKit {
+  const [brandKit, setState] = useState<BrandKit>(
+    cachedBrandKit || DEFAULT_BRAND_KIT
+  );
+
+  useEffect(() => {
+    listeners.add(setState);
+    loadBrandKit();
+    return () => {
+      listeners.delete(setState);
+    };
+  }, []);
+
+  return brandKit;
+}
@@ -0,0 +1,132 @@
+import { useCallback, useReducer } from "react";
+
+// Undo/redo history shared by the email editors
+
+export interface HistoryOptions {
+  limit?: number; // Maximum number of undo steps kept
+  coalesceMs?: number; // Edits with the same key inside this window merge
+}
+
+export interface RecordOptions {
+  // Consecutive changes with the same key (e.g. typing into one property
+  // field) become a single undo step
+  coalesceKey?: string;
+}
+
+type Updater<T> = T | ((previous: T) => T);
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastAt: number;
+}
+
+type HistoryAction<T> =
+  | { type: "set"; updater: Updater<T>; options: RecordOptions; at: number }
+  | { type: "reset"; value: T }
+  | { type: "undo" }
+  | { type: "redo" };
+
+const resolve = <T>(updater: Updater<T>, previous: T): T =>
+  typeof updater === "function"
+    ? (updater as (previous: T) => T)(previous)
+    : updater;
+
+function createReducer<T>(limit: number, coalesceMs: number) {
+  return (state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+    switch (action.type) {
+      case "set": {
+        const next = resolve(action.updater, state.present);
+        if (next === state.present) return state;
+
+        const key = action.options.coalesceKey || null;
+        const coalesce =
+          key !== null &&
+          key === state.lastKey &&
+          action.at - state.lastAt < coalesceMs;
+
+        return {
+          past: coalesce
+            ? state.past
+            : [...state.past, state.present].slice(-limit),
+          present: next,
+          future: [],
+          lastKey: key,
+          lastAt: action.at,
+        };
+      }
+
+      case "reset":
+        return {
+          past: [],
+          present: action.value,
+          future: [],
+          lastKey: null,
+          lastAt: 0,
+        };
+
+      case "undo": {
+        if (state.past.length === 0) return state;
+        return {
+          past: state.past.slice(0, -1),
+          present: state.past[state.past.length - 1],
+          future: [state.present, ...state.future],
+          lastKey: null,
+          lastAt: 0,
+        };
+      }
+
+      case "redo": {
+        if (state.future.length === 0) return state;
+        return {
+          past: [...state.past, state.present],
+          present: state.future[0],
+          future: state.future.slice(1),
+          lastKey: null,
+          lastAt: 0,
+        };
+      }
+
+      default:
+        return state;
+    }
+  };
+}
+
+/**
+ * Keep a value with an undo/redo history. `set` works like a state setter
+ * and records an undo step; `reset` replaces the value and clears history.
+ */
+export function useEditorHistory<T>(
+  initial: T,
+  { limit = 100, coalesceMs = 1000 }: HistoryOptions = {}
+) {
+  const [state, dispatch] = useReducer(createReducer<T>(limit, coalesceMs), {
+    past: [],
+    present: initial,
+    future: [],
+    lastKey: null,
+    lastAt: 0,
+  });
+
+  const set = useCallback(
+    (updater: Updater<T>, options: RecordOptions = {}) =>
+      dispatch({ type: "set", updater, options, at: Date.now() }),
+    []
+  );
+  const reset = useCallback((value: T) => dispatch({ type: "reset", value }), []);
+  const undo = useCallback(() => dispatch({ type: "undo" }), []);
+  const redo = useCallback(() => dispatch({ type: "redo" }), []);
+
+  return {
+    state: state.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
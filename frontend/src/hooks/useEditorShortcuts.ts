@@ -0,0 +1,68 @@
+import { useEffect, useRef } from "react";
+
+// Keyboard shortcuts shared by the email editors
+
+export interface EditorShortcutHandlers {
+  onUndo?: () => void; // Ctrl/Cmd+Z
+  onRedo?: () => void; // Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y
+  onDuplicate?: () => void; // Ctrl/Cmd+D
+  onMoveUp?: () => void; // Arrow Up
+  onMoveDown?: () => void; // Arrow Down
+}
+
+/**
+ * Whether a key event comes from a field that handles its own editing keys,
+ * so text fields keep their native undo and cursor movement
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
+
+/**
+ * Bind the editor shortcuts to the window while the component is mounted
+ */
+export function useEditorShortcuts(
+  handlers: EditorShortcutHandlers,
+  enabled: boolean = true
+) {
+  // Read the latest handlers without re-binding the listener every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+
+      const current = handlersRef.current;
+      const modifier = event.ctrlKey || event.metaKey;
+      const key = event.key.toLowerCase();
+
+      let handler: (() => void) | undefined;
+      if (modifier && key === "z") {
+        handler = event.shiftKey ? current.onRedo : current.onUndo;
+      } else if (modifier && key === "y") {
+        handler = current.onRedo;
+      } else if (modifier && key === "d") {
+        handler = current.onDuplicate;
+      } else if (!modifier && !event.altKey && key === "arrowup") {
+        handler = current.onMoveUp;
+      } else if (!modifier && !event.altKey && key === "arrowdown") {
+        handler = current.onMoveDown;
+      }
+
+      if (handler) {
+        event.preventDefault();
+        handler();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { MERGE_TAG_CATALOG, MergeTag } from "../utils/mergeTags";
+
+// The merge tag catalog (with the custom fields used by contacts) is loaded
+// once and shared by every editor field
+
+let cachedTags: MergeTag[] | null = null;
+let pendingRequest: Promise<MergeTag[]> | null = null;
+const listeners = new Set<(tags: MergeTag[]) => void>();
+
+/**
+ * Fetch the merge tag catalog from the server, reusing the cached copy
+ */
+export async function loadMergeTags(): Promise<MergeTag[]> {
+  if (cachedTags) return cachedTags;
+
+  if (!pendingRequest) {
+    pendingRequest = (async () => {
+      try {
+        const { apiClient } = await import("../utils/apiClient");
+        const { tags } = await apiClient.getMergeTags();
+        cachedTags = tags as MergeTag[];
+        listeners.forEach((listener) => listener(tags));
+        return cachedTags;
+      } catch (error) {
+        console.error("Failed to load merge tags:", error);
+        return MERGE_TAG_CATALOG;
+      } finally {
+        pendingRequest = null;
+      }
+    })();
+  }
+  return pendingRequest;
+}
+
+/**
+ * Known merge tags. Renders with the built-in catalog until the server's
+ * copy, which adds custom fields, loads.
+ */
+export function useMergeTags(): MergeTag[] {
+  const [tags, setTags] = useState<MergeTag[]>(
+    cachedTags || MERGE_TAG_CATALOG
+  );
+
+  useEffect(() => {
+    listeners.add(setTags);
+    loadMergeTags();
+    return () => {
+      listeners.delete(setTags);
+    };
+  }, []);
+
+  return tags;
+}
@@ -8,8 +8,11 @@ import {
   Copy,
   Edit,
   Trash2,
+  Clock,
+  CalendarX,
 } from "lucide-react";
 import { Campaign } from "../types";
+import { formatInTimeZone } from "../utils/timeZone";
 import { CreateCampaignModal } from "../components/Campaigns/CreateCampaignModal";
 import { EditCampaignModal } from "../components/Campaigns/EditCampaignModal";
 import { DeleteCampaignModal } from "../components/Campaigns/DeleteCampaignModal";
@@ -102,6 +105,32 @@ export const Campaigns: React.FC = () => {
     setShowSendModal(true);
   };
 
+  const handleCancelSchedule = async (campaign: Campaign) => {
+    if (
+      !confirm(
+        `Cancel the schedule for "${campaign.name}"? It goes back to drafts.`
+      )
+    ) {
+      return;
+    }
+    try {
+      const updated = await (
+        await import("../utils/apiClient")
+      ).apiClient.cancelCampaignSchedule(campaign.id);
+      handleCampaignUpdated({
+        ...updated,
+        id: updated._id || updated.id || campaign.id,
+      });
+    } catch (error) {
+      console.error("Failed to cancel schedule:", error);
+      alert(
+        `Failed to cancel schedule: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  };
+
   const handleDuplicateCampaign = (campaign: Campaign) => {
     setSelectedCampaign(campaign);
     setShowDuplicateModal(true);
@@ -333,9 +362,14 @@ export const Campaigns: React.FC = () => {
                             campaign.sentAt
                           ).toLocaleDateString()}`
                         : campaign.scheduledAt
-                        ? `Scheduled ${new Date(
-                            campaign.scheduledAt
-                          ).toLocaleDateString()}`
+                        ? `Scheduled ${formatInTimeZone(
+                            campaign.scheduledAt,
+                            campaign.scheduledTimezone
+                          )}${
+                            campaign.scheduledTimezone
+                              ? ` (${campaign.scheduledTimezone})`
+                              : ""
+                          }`
                         : `Created ${new Date(
                             campaign.createdAt
                           ).toLocaleDateString()}`}
@@ -351,6 +385,24 @@ export const Campaigns: React.FC = () => {
                             <Send className="h-4 w-4" />
                           </button>
                         )}
+                        {campaign.status === "scheduled" && (
+                          <>
+                            <button
+                              onClick={() => handleSendCampaign(campaign)}
+                              className="text-blue-600 hover:text-blue-900 transition-colors"
+                              title="Reschedule Campaign"
+                            >
+                              <Clock className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleCancelSchedule(campaign)}
+                              className="text-orange-600 hover:text-orange-900 transition-colors"
+                              title="Cancel Schedule"
+                            >
+                              <CalendarX className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
                         <button
                           onClick={() => handlePreviewCampaign(campaign)}
                           className="text-blue-600 hover:text-blue-900 transition-colors"
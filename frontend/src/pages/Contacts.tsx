@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   Plus,
   Upload,
@@ -10,22 +10,54 @@ import {
   Trash2,
   Tag,
   List,
+  Columns,
 } from "lucide-react";
-import { Contact } from "../types";
+import { Contact, CustomFieldDefinition, Segment } from "../types";
+import { formatCustomFieldValue } from "../utils/customFields";
 import { ContactFormDialog } from "../components/Contact/ContactFormDialog";
-import { ImportContactsModal } from "../components/Contact/ImportContactsModal";
+import {
+  ImportContactsModal,
+  ImportOptions,
+} from "../components/Contact/ImportContactsModal";
 import { DeleteContactModal } from "../components/Contact/DeleteContactModal";
 import {
   ExportContactsModal,
   ExportOptions,
 } from "../components/Contact/ExportContactsModal";
 import { ContactListManagerModal } from "../components/Contact/ContactListManagerModal";
+import { SegmentManagerModal } from "../components/Contact/SegmentManagerModal";
+
+// Custom fields shown as table columns, remembered per browser
+const COLUMNS_STORAGE_KEY = "emmisor-contact-columns";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
 
 export const Contacts: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedFilter, setSelectedFilter] = useState("all");
 
+  const [listFilter, setListFilter] = useState("");
+  const [segmentFilter, setSegmentFilter] = useState("");
+  const [lists, setLists] = useState<{ _id: string; name: string }[]>([]);
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [customFieldDefinitions, setCustomFieldDefinitions] = useState<
+    CustomFieldDefinition[]
+  >([]);
+  const [customColumns, setCustomColumns] = useState<string[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY) || "[]");
+    } catch {
+      return [];
+    }
+  });
+  const [showColumnPicker, setShowColumnPicker] = useState(false);
+
   const [contacts, setContacts] = useState<Contact[]>([]);
+  // Server totals: all contacts, and those in the list/segment filter
+  const [allContactsCount, setAllContactsCount] = useState(0);
+  const [matchingCount, setMatchingCount] = useState(0);
   const [loading, setLoading] = useState<boolean>(true);
   const [deleteModal, setDeleteModal] = useState<{
     isOpen: boolean;
@@ -41,34 +73,74 @@ export const Contacts: React.FC = () => {
     contactId: string;
   }>({ open: false, contactId: "" });
   const [showContactListManager, setShowContactListManager] = useState(false);
+  const [showSegmentManager, setShowSegmentManager] = useState(false);
+
+  const fetchContacts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await (
+        await import("../utils/apiClient")
+      ).apiClient.getContacts(1, 100, {
+        listId: listFilter || undefined,
+        segmentId: segmentFilter || undefined,
+      });
+      // response.contacts is array, response.pagination is object
+      const mappedContacts =
+        response && response.contacts
+          ? response.contacts.map((contact: any) => ({
+              ...contact,
+              id: contact._id || contact.id,
+              listIds: contact.lists || contact.listIds || [],
+              customFields: contact.customFields || {},
+            }))
+          : [];
+      setContacts(mappedContacts);
+      setSelectedIds([]);
+
+      const total = response?.pagination?.total ?? mappedContacts.length;
+      setMatchingCount(total);
+      if (!listFilter && !segmentFilter) setAllContactsCount(total);
+    } catch (error) {
+      console.error("Failed to fetch contacts:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [listFilter, segmentFilter]);
 
   useEffect(() => {
-    const fetchContacts = async () => {
-      setLoading(true);
-      try {
-        const response = await (
-          await import("../utils/apiClient")
-        ).apiClient.getContacts(1, 100);
-        // response.contacts is array, response.pagination is object
-        const mappedContacts =
-          response && response.contacts
-            ? response.contacts.map((contact: any) => ({
-                ...contact,
-                id: contact._id || contact.id,
-                listIds: contact.lists || contact.listIds || [],
-                customFields: contact.customFields || {},
-              }))
-            : [];
-        setContacts(mappedContacts);
-      } catch (error) {
-        console.error("Failed to fetch contacts:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
     fetchContacts();
+  }, [fetchContacts]);
+
+  // Lists and segments for the filters, and the custom field definitions
+  useEffect(() => {
+    const fetchFilterOptions = async () => {
+      const apiClient = (await import("../utils/apiClient")).apiClient;
+      const [listResponse, segmentResponse, fieldResponse] = await Promise.all([
+        apiClient.getContactLists().catch(() => ({ lists: [] })),
+        apiClient.getSegments().catch(() => ({ segments: [] })),
+        apiClient.getCustomFields().catch(() => ({ fields: [] })),
+      ]);
+      setLists(listResponse.lists || []);
+      setSegments(segmentResponse.segments || []);
+      setCustomFieldDefinitions(fieldResponse.fields || []);
+    };
+    fetchFilterOptions();
   }, []);
 
+  const shownColumns = customFieldDefinitions.filter((definition) =>
+    customColumns.includes(definition.key)
+  );
+
+  const toggleColumn = (key: string) => {
+    setCustomColumns((prev) => {
+      const next = prev.includes(key)
+        ? prev.filter((column) => column !== key)
+        : [...prev, key];
+      localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
   const handleSaveContact = async (
     contactData: Omit<Contact, "id" | "createdAt" | "updatedAt">
   ) => {
@@ -86,7 +158,7 @@ export const Contacts: React.FC = () => {
       setAddContactOpen(false); // Close the add dialog
     } catch (error) {
       console.error("Failed to create contact:", error);
-      alert("Failed to create contact. Please try again.");
+      alert(getErrorMessage(error, "Failed to create contact. Please try again."));
     }
   };
 
@@ -111,7 +183,7 @@ export const Contacts: React.FC = () => {
       setEditContactOpen({ open: false, contactId: "" }); // Close the edit dialog
     } catch (error) {
       console.error("Failed to update contact:", error);
-      alert("Failed to update contact. Please try again.");
+      alert(getErrorMessage(error, "Failed to update contact. Please try again."));
     }
   };
 
@@ -150,7 +222,14 @@ export const Contacts: React.FC = () => {
   const handleExportContacts = async (options: ExportOptions) => {
     try {
       const apiClient = (await import("../utils/apiClient")).apiClient;
-      const blob = await apiClient.exportContacts(options);
+      const blob = await apiClient.exportContacts({
+        ...options,
+        selectedIds,
+        search: searchTerm || undefined,
+        status: selectedFilter !== "all" ? selectedFilter : undefined,
+        listId: listFilter || undefined,
+        segmentId: segmentFilter || undefined,
+      });
 
       // Create download link
       const url = window.URL.createObjectURL(blob);
@@ -178,34 +257,20 @@ export const Contacts: React.FC = () => {
     }
   };
 
-  const handleImportContacts = async (file: File) => {
+  // Starts an import job; the modal polls it until it finishes
+  const handleImportContacts = async (file: File, options: ImportOptions) => {
     try {
       const apiClient = (await import("../utils/apiClient")).apiClient;
 
       // Create FormData to send the file
       const formData = new FormData();
       formData.append("file", file);
+      formData.append("mapping", JSON.stringify(options.mapping));
+      formData.append("strategy", options.strategy);
+      formData.append("dryRun", String(options.dryRun));
+      if (options.listId) formData.append("listId", options.listId);
 
-      // Use the correct method name: importContacts (not importContact)
-      const result = await apiClient.importContacts(formData);
-
-      // Refresh the contacts list
-      const updatedResponse = await apiClient.getContacts(1, 100);
-      const mappedUpdatedContacts =
-        updatedResponse && updatedResponse.contacts
-          ? updatedResponse.contacts.map((contact: any) => ({
-              ...contact,
-              id: contact._id || contact.id,
-              listIds: contact.lists || contact.listIds || [],
-              customFields: contact.customFields || {},
-            }))
-          : [];
-      setContacts(mappedUpdatedContacts);
-
-      console.log(`Successfully imported ${result.importedCount} contacts`);
-
-      // Return the result so the modal can access it
-      return result;
+      return await apiClient.importContacts(formData);
     } catch (error) {
       console.error("Failed to import contacts:", error);
       throw error; // Re-throw to let the modal handle the error display
@@ -225,6 +290,30 @@ export const Contacts: React.FC = () => {
     return matchesSearch && matchesFilter;
   });
 
+  const filtersActive = Boolean(
+    searchTerm || selectedFilter !== "all" || listFilter || segmentFilter
+  );
+  const allVisibleSelected =
+    filteredContacts.length > 0 &&
+    filteredContacts.every((contact) => selectedIds.includes(contact.id));
+
+  const toggleSelected = (contactId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(contactId)
+        ? prev.filter((id) => id !== contactId)
+        : [...prev, contactId]
+    );
+  };
+
+  const toggleAllVisible = () => {
+    const visibleIds = filteredContacts.map((contact) => contact.id);
+    setSelectedIds((prev) =>
+      allVisibleSelected
+        ? prev.filter((id) => !visibleIds.includes(id))
+        : [...new Set([...prev, ...visibleIds])]
+    );
+  };
+
   const getStatusBadge = (status: Contact["status"]) => {
     const colors = {
       active: "bg-green-100 text-green-800",
@@ -260,8 +349,16 @@ export const Contacts: React.FC = () => {
               <List className="h-4 w-4 mr-2" />
               Manage Lists
             </button>
+            <button
+              onClick={() => setShowSegmentManager(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Filter className="h-4 w-4 mr-2" />
+              Segments
+            </button>
             <ImportContactsModal
               onImport={handleImportContacts}
+              onImported={fetchContacts}
               trigger={
                 <button className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
                   <Download className="h-4 w-4 mr-2" />
@@ -278,6 +375,7 @@ export const Contacts: React.FC = () => {
             </button>
             <ContactFormDialog
               onSave={handleSaveContact}
+              customFieldDefinitions={customFieldDefinitions}
               open={addContactOpen}
               onOpenChange={setAddContactOpen}
               trigger={
@@ -318,11 +416,69 @@ export const Contacts: React.FC = () => {
                 <option value="bounced">Bounced</option>
                 <option value="complained">Complained</option>
               </select>
+              <select
+                className="block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                value={listFilter}
+                onChange={(e) => setListFilter(e.target.value)}
+              >
+                <option value="">All Lists</option>
+                {lists.map((list) => (
+                  <option key={list._id} value={list._id}>
+                    {list.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                value={segmentFilter}
+                onChange={(e) => setSegmentFilter(e.target.value)}
+              >
+                <option value="">All Segments</option>
+                {segments.map((segment) => (
+                  <option key={segment._id} value={segment._id}>
+                    {segment.name}
+                  </option>
+                ))}
+              </select>
+              {customFieldDefinitions.length > 0 && (
+                <div className="relative">
+                  <button
+                    type="button"
+                    onClick={() => setShowColumnPicker((prev) => !prev)}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+                    title="Custom field columns"
+                  >
+                    <Columns className="h-4 w-4" />
+                  </button>
+                  {showColumnPicker && (
+                    <div className="absolute z-10 mt-2 w-56 bg-white border border-gray-200 rounded-md shadow-lg p-3 space-y-2">
+                      <p className="text-xs font-medium text-gray-500 uppercase">
+                        Columns
+                      </p>
+                      {customFieldDefinitions.map((definition) => (
+                        <label
+                          key={definition._id}
+                          className="flex items-center space-x-2 text-sm text-gray-700"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={customColumns.includes(definition.key)}
+                            onChange={() => toggleColumn(definition.key)}
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                          />
+                          <span>{definition.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
             <div className="text-sm text-gray-500">
               {loading
                 ? "Loading..."
                 : `${filteredContacts.length} of ${contacts.length} contacts`}
+              {selectedIds.length > 0 && ` · ${selectedIds.length} selected`}
             </div>
           </div>
         </div>
@@ -331,12 +487,29 @@ export const Contacts: React.FC = () => {
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <th className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allVisibleSelected}
+                    onChange={toggleAllVisible}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    title="Select all shown contacts"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Contact
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Company
                 </th>
+                {shownColumns.map((definition) => (
+                  <th
+                    key={definition._id}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {definition.label}
+                  </th>
+                ))}
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Tags
                 </th>
@@ -354,19 +527,27 @@ export const Contacts: React.FC = () => {
             <tbody className="bg-white divide-y divide-gray-200">
               {loading ? (
                 <tr>
-                  <td colSpan={6} className="text-center py-8 text-gray-400">
+                  <td colSpan={7 + shownColumns.length} className="text-center py-8 text-gray-400">
                     Loading contacts...
                   </td>
                 </tr>
               ) : filteredContacts.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="text-center py-8 text-gray-400">
+                  <td colSpan={7 + shownColumns.length} className="text-center py-8 text-gray-400">
                     No contacts found.
                   </td>
                 </tr>
               ) : (
                 filteredContacts.map((contact) => (
                   <tr key={contact.id} className="hover:bg-gray-50">
+                    <td className="pl-6 py-4 w-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(contact.id)}
+                        onChange={() => toggleSelected(contact.id)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div>
                         <div className="text-sm font-medium text-gray-900">
@@ -395,6 +576,17 @@ export const Contacts: React.FC = () => {
                         )}
                       </div>
                     </td>
+                    {shownColumns.map((definition) => (
+                      <td
+                        key={definition._id}
+                        className="px-6 py-4 whitespace-nowrap text-sm text-gray-700"
+                      >
+                        {formatCustomFieldValue(
+                          contact.customFields?.[definition.key],
+                          definition.type
+                        )}
+                      </td>
+                    ))}
                     <td className="px-6 py-4">
                       <div className="w-full max-w-xs">
                         {/* First row - up to 3 tags */}
@@ -433,6 +625,7 @@ export const Contacts: React.FC = () => {
                       <div className="flex items-center space-x-2">
                         <ContactFormDialog
                           contact={contact}
+                          customFieldDefinitions={customFieldDefinitions}
                           open={
                             editContactOpen.open &&
                             editContactOpen.contactId === contact.id
@@ -499,12 +692,15 @@ export const Contacts: React.FC = () => {
         isOpen={exportModal.isOpen}
         onClose={closeExportModal}
         onExport={handleExportContacts}
-        totalContacts={contacts.length}
+        totalContacts={allContactsCount}
         filteredContacts={
-          filteredContacts.length !== contacts.length
+          !filtersActive
+            ? undefined
+            : searchTerm || selectedFilter !== "all"
             ? filteredContacts.length
-            : undefined
+            : matchingCount
         }
+        selectedContacts={selectedIds.length}
       />
 
       {/* Contact List Manager Modal */}
@@ -513,6 +709,12 @@ export const Contacts: React.FC = () => {
         onClose={() => setShowContactListManager(false)}
         mode="manage"
       />
+
+      {/* Segment Manager Modal */}
+      <SegmentManagerModal
+        isOpen={showSegmentManager}
+        onClose={() => setShowSegmentManager(false)}
+      />
     </div>
   );
 };
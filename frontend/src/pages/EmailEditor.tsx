@@ -27,6 +27,9 @@ import {
   LinkIcon,
   MinusIcon,
 } from "@heroicons/react/24/outline";
+import { MergeTagField } from "../components/EmailEditor/MergeTagField";
+import { MergeTagUsage } from "../components/EmailEditor/MergeTagUsage";
+import { extractVariablesFromContent } from "../utils/templateVariables";
 
 // Sortable item component for @dnd-kit
 const SortableItem: React.FC<{
@@ -82,7 +85,8 @@ const TextBlock: React.FC<{
   block: EmailBlock;
   onUpdate: (block: EmailBlock) => void;
   onDelete: () => void;
-}> = ({ block, onUpdate, onDelete }) => {
+  variables?: string[];
+}> = ({ block, onUpdate, onDelete, variables }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [content, setContent] = useState(
     block.content?.text || "Enter your text here..."
@@ -109,9 +113,11 @@ const TextBlock: React.FC<{
 
       {isEditing ? (
         <div className="space-y-2">
-          <textarea
+          <MergeTagField
+            multiline
             value={content}
-            onChange={(e) => setContent(e.target.value)}
+            onChange={setContent}
+            variables={variables}
             className="w-full p-2 border rounded resize-none"
             rows={3}
             autoFocus
@@ -260,7 +266,8 @@ const ButtonBlock: React.FC<{
   block: EmailBlock;
   onUpdate: (block: EmailBlock) => void;
   onDelete: () => void;
-}> = ({ block, onUpdate, onDelete }) => {
+  variables?: string[];
+}> = ({ block, onUpdate, onDelete, variables }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [text, setText] = useState(block.content?.text || "Click here");
   const [url, setUrl] = useState(block.content?.url || "");
@@ -300,10 +307,10 @@ const ButtonBlock: React.FC<{
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Button Text
             </label>
-            <input
-              type="text"
+            <MergeTagField
               value={text}
-              onChange={(e) => setText(e.target.value)}
+              onChange={setText}
+              variables={variables}
               className="w-full p-2 border rounded"
             />
           </div>
@@ -311,10 +318,11 @@ const ButtonBlock: React.FC<{
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Link URL
             </label>
-            <input
+            <MergeTagField
               type="url"
               value={url}
-              onChange={(e) => setUrl(e.target.value)}
+              onChange={setUrl}
+              variables={variables}
               className="w-full p-2 border rounded"
               placeholder="https://example.com"
             />
@@ -415,59 +423,41 @@ export const EmailEditor: React.FC = () => {
   const [editingVariable, setEditingVariable] =
     useState<TemplateVariable | null>(null);
 
-  // Function to automatically detect variables in content
-  const detectVariables = (content: string): string[] => {
-    const variableRegex = /\{\{([^}]+)\}\}/g;
-    const matches = content.match(variableRegex);
-    if (!matches) return [];
+  const variableNames = variables.map((variable) => variable.name);
 
-    return [
-      ...new Set(matches.map((match) => match.replace(/[{}]/g, "").trim())),
-    ];
-  };
+  // Everything the template renders, for the merge tag checks
+  const renderedContent = [
+    emailSubject,
+    ...blocks.map((block) => {
+      if (block.type === "text") {
+        return block.content?.text || "";
+      } else if (block.type === "button") {
+        return `${block.content?.text || ""} ${block.content?.url || ""}`;
+      }
+      return "";
+    }),
+  ].join("\n");
 
   // Function to extract all variables from all blocks
-  const extractAllVariables = (): string[] => {
-    const allContent = blocks
-      .map((block) => {
-        if (block.type === "text") {
-          return block.content?.text || "";
-        } else if (block.type === "button") {
-          return `${block.content?.text || ""} ${block.content?.url || ""}`;
-        }
-        return "";
-      })
-      .join(" ");
-
-    return detectVariables(`${emailSubject} ${allContent}`);
-  };
-
-  // Function to sync detected variables with managed variables
-  const syncVariables = () => {
-    const detectedVars = extractAllVariables();
-    const currentVarNames = variables.map((v) => v.name);
-
-    // Add new detected variables
-    const newVariables = detectedVars
-      .filter((varName) => !currentVarNames.includes(varName))
-      .map((varName) => ({
-        name: varName,
-        type: "text" as const,
+  const extractAllVariables = (): string[] =>
+    extractVariablesFromContent(renderedContent).map(({ name }) => name);
+
+  // Declare a variable that campaigns fill in (tags that are not contact,
+  // custom or system fields)
+  const declareVariable = (name: string) => {
+    if (variables.some((variable) => variable.name === name)) return;
+    setVariables((prev) => [
+      ...prev,
+      {
+        name,
+        type: "text",
         defaultValue: "",
         description: "",
         required: false,
-      }));
-
-    if (newVariables.length > 0) {
-      setVariables((prev) => [...prev, ...newVariables]);
-    }
+      },
+    ]);
   };
 
-  // Auto-sync variables when blocks or subject change
-  useEffect(() => {
-    syncVariables();
-  }, [blocks, emailSubject]);
-
   // Function to insert variable into text
   const insertVariableIntoText = (variableName: string) => {
     const variableText = `{{${variableName}}}`;
@@ -759,6 +749,7 @@ export const EmailEditor: React.FC = () => {
             key={block.id}
             block={block}
             onUpdate={(updatedBlock) => updateBlock(index, updatedBlock)}
+            variables={variableNames}
             {...commonProps}
           />
         );
@@ -777,6 +768,7 @@ export const EmailEditor: React.FC = () => {
             key={block.id}
             block={block}
             onUpdate={(updatedBlock) => updateBlock(index, updatedBlock)}
+            variables={variableNames}
             {...commonProps}
           />
         );
@@ -953,8 +945,10 @@ export const EmailEditor: React.FC = () => {
             </div>
           ) : (
             <div className="text-xs text-gray-500 text-center py-4 border border-dashed border-gray-300 rounded">
-              <p>No variables detected</p>
-              <p className="mt-1">Use {`{{variable_name}}`} in your content</p>
+              <p>No variables declared</p>
+              <p className="mt-1">
+                Declare variables that each campaign fills in
+              </p>
             </div>
           )}
 
@@ -986,6 +980,18 @@ export const EmailEditor: React.FC = () => {
             </div>
           )}
         </div>
+
+        {/* Merge tags used by the content */}
+        <div className="mt-6 border-t pt-6">
+          <h3 className="text-md font-semibold text-gray-800 mb-4">
+            Used in this email
+          </h3>
+          <MergeTagUsage
+            content={renderedContent}
+            variables={variableNames}
+            onDeclare={declareVariable}
+          />
+        </div>
       </div>
 
       {/* Main Editor Area */}
@@ -994,10 +1000,10 @@ export const EmailEditor: React.FC = () => {
         <div className="bg-white shadow-sm p-4 border-b">
           <div className="flex items-center justify-between">
             <div className="flex-1 max-w-md">
-              <input
-                type="text"
+              <MergeTagField
                 value={emailSubject}
-                onChange={(e) => setEmailSubject(e.target.value)}
+                onChange={setEmailSubject}
+                variables={variableNames}
                 placeholder="Email Subject"
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
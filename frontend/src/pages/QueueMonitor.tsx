@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   Clock,
   Play,
@@ -7,33 +7,16 @@ import {
   AlertTriangle,
   CheckCircle,
   XCircle,
+  MinusCircle,
   Settings,
   Activity,
 } from "lucide-react";
-
-interface QueueStats {
-  queued: number;
-  sending: number;
-  sent: number;
-  failed: number;
-  retrying: number;
-  total: number;
-}
-
-interface QueueJob {
-  id: string;
-  email: string;
-  status: "queued" | "sending" | "sent" | "failed" | "retrying";
-  attemptCount: number;
-  lastAttemptAt?: string;
-  errorMessage?: string;
-  sentAt?: string;
-  createdAt: string;
-  campaigns: {
-    name: string;
-    subject: string;
-  };
-}
+import {
+  EmailJob,
+  QueueCampaignProgress,
+  QueueStats,
+  QueueWorkerStatus,
+} from "../types";
 
 interface QueueConfig {
   isPaused: boolean;
@@ -41,126 +24,161 @@ interface QueueConfig {
   maxRetryAttempts: number;
 }
 
+const emptyStats: QueueStats = {
+  queued: 0,
+  sending: 0,
+  sent: 0,
+  failed: 0,
+  skipped: 0,
+  retrying: 0,
+  total: 0,
+};
+
+// Pending jobs that failed before are shown as retrying
+const getJobStatus = (job: EmailJob) =>
+  job.status === "pending" && job.retryCount > 0 ? "retrying" : job.status;
+
+// A pending job has made one attempt per retry it is waiting for
+const getAttemptCount = (job: EmailJob) =>
+  job.status === "pending" ? job.retryCount : job.retryCount + 1;
+
+// Pending jobs wait for a retry and for the recipient's optimized send time
+const getNextAttempt = (job: EmailJob) => {
+  if (job.status !== "pending") return null;
+  const times = [job.nextAttemptAt, job.notBefore]
+    .filter((time): time is string => Boolean(time))
+    .map((time) => new Date(time).getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+};
+
+// How the server classified the last SMTP error (see smtpErrorService.js)
+const errorClasses = {
+  transient: {
+    label: "Transient",
+    title: "Temporary failure, retried with backoff",
+    className: "bg-orange-100 text-orange-800",
+  },
+  policy: {
+    label: "Rate limited",
+    title: "The provider is rate limiting sends, retried more slowly",
+    className: "bg-purple-100 text-purple-800",
+  },
+  permanent: {
+    label: "Permanent",
+    title: "Not retried. Unknown recipients are added to the suppression list",
+    className: "bg-red-100 text-red-800",
+  },
+};
+
 export const QueueMonitor: React.FC = () => {
-  const [stats, setStats] = useState<QueueStats>({
-    queued: 0,
-    sending: 0,
-    sent: 0,
-    failed: 0,
-    retrying: 0,
-    total: 0,
-  });
-  const [jobs, setJobs] = useState<QueueJob[]>([]);
+  const [stats, setStats] = useState<QueueStats>(emptyStats);
+  const [jobs, setJobs] = useState<EmailJob[]>([]);
+  const [campaigns, setCampaigns] = useState<QueueCampaignProgress[]>([]);
+  const [worker, setWorker] = useState<QueueWorkerStatus | null>(null);
   const [config, setConfig] = useState<QueueConfig>({
     isPaused: false,
-    rateLimitPerMinute: 100,
+    rateLimitPerMinute: 5,
     maxRetryAttempts: 3,
   });
+  const [configDraft, setConfigDraft] = useState<QueueConfig | null>(null);
   const [processingRate, setProcessingRate] = useState(0);
   const [selectedStatus, setSelectedStatus] = useState("all");
   const [loading, setLoading] = useState(true);
   const [showConfig, setShowConfig] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
 
-  useEffect(() => {
-    const fetchQueueData = async () => {
-      setLoading(true);
-      try {
-        const apiClient = (await import("../utils/apiClient")).apiClient;
-        // Fetch queue stats
-        const statsResponse = (await apiClient.get("/api/queue/stats")) as {
-          stats?: QueueStats;
-          processingRate?: number;
-        };
-        setStats(
-          statsResponse.stats ?? {
-            queued: 0,
-            sending: 0,
-            sent: 0,
-            failed: 0,
-            retrying: 0,
-            total: 0,
-          }
-        );
-
-        // Fetch jobs
-        const jobsResponse = (await apiClient.get("/api/queue/jobs")) as {
-          jobs?: QueueJob[];
-        };
-        setJobs(jobsResponse.jobs ?? []);
+  const fetchQueueData = useCallback(async () => {
+    try {
+      const { apiClient } = await import("../utils/apiClient");
+      const [statsResponse, jobsResponse, configResponse] = await Promise.all([
+        apiClient.getQueueStats(),
+        apiClient.getQueueJobs({ status: selectedStatus }),
+        apiClient.getQueueConfig(),
+      ]);
 
-        // Fetch config
-        const configResponse = (await apiClient.get("/api/queue/config")) as {
-          config?: QueueConfig;
-        };
-        setConfig(
-          configResponse.config ?? {
-            isPaused: false,
-            rateLimitPerMinute: 100,
-            maxRetryAttempts: 3,
-          }
-        );
+      setStats(statsResponse.stats ?? emptyStats);
+      setProcessingRate(statsResponse.processingRate ?? 0);
+      setCampaigns(statsResponse.campaigns ?? []);
+      setWorker(statsResponse.worker ?? null);
+      setJobs(
+        (jobsResponse.jobs ?? []).map(
+          (job: EmailJob & { _id?: string }) => ({
+            ...job,
+            id: job._id || job.id,
+          })
+        )
+      );
+      setConfig(configResponse);
+    } catch (error) {
+      console.error("Failed to fetch queue data:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedStatus]);
 
-        setProcessingRate(statsResponse.processingRate ?? 0);
-      } catch (error) {
-        console.error("Failed to fetch queue data:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
+  useEffect(() => {
     fetchQueueData();
     const interval = setInterval(fetchQueueData, 5000); // Refresh every 5 seconds
     return () => clearInterval(interval);
-  }, [selectedStatus]);
+  }, [fetchQueueData]);
 
   const toggleQueueProcessing = async () => {
+    setActionError(null);
     try {
-      const newPausedState = !config.isPaused;
-      setConfig((prev) => ({ ...prev, isPaused: newPausedState }));
-      // TODO: Make actual API call to toggle queue
-      console.log(newPausedState ? "Pausing queue..." : "Resuming queue...");
+      const { apiClient } = await import("../utils/apiClient");
+      if (config.isPaused) {
+        await apiClient.resumeQueue();
+      } else {
+        await apiClient.pauseQueue();
+      }
+      setConfig((prev) => ({ ...prev, isPaused: !prev.isPaused }));
     } catch (error) {
       console.error("Failed to toggle queue processing:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to update the queue"
+      );
     }
   };
 
   const retryFailedJobs = async () => {
+    setActionError(null);
     try {
-      // TODO: Make actual API call to retry failed jobs
-      console.log("Retrying failed jobs...");
-      // Refresh data after retry
-      const apiClient = (await import("../utils/apiClient")).apiClient;
-      const statsResponse = (await apiClient.get("/api/queue/stats")) as {
-        stats?: QueueStats;
-        processingRate?: number;
-      };
-      setStats(
-        statsResponse.stats ?? {
-          queued: 0,
-          sending: 0,
-          sent: 0,
-          failed: 0,
-          retrying: 0,
-          total: 0,
-        }
-      );
+      const { apiClient } = await import("../utils/apiClient");
+      await apiClient.retryQueueJobs();
+      await fetchQueueData();
     } catch (error) {
       console.error("Failed to retry jobs:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to retry jobs"
+      );
     }
   };
 
-  const updateConfig = async (newConfig: Partial<QueueConfig>) => {
+  const saveConfig = async () => {
+    if (!configDraft) return;
+    setActionError(null);
     try {
-      setConfig((prev) => ({ ...prev, ...newConfig }));
-      // Simulate API call
-      console.log("Updating queue configuration...", newConfig);
+      const { apiClient } = await import("../utils/apiClient");
+      await apiClient.updateQueueConfig({
+        rateLimitPerMinute: configDraft.rateLimitPerMinute,
+        maxRetryAttempts: configDraft.maxRetryAttempts,
+      });
+      setConfig(configDraft);
+      setConfigDraft(null);
+      setShowConfig(false);
     } catch (error) {
       console.error("Failed to update configuration:", error);
+      setActionError(
+        error instanceof Error
+          ? error.message
+          : "Failed to update configuration"
+      );
     }
   };
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case "queued":
+      case "pending":
         return <Clock className="h-4 w-4 text-blue-500" />;
       case "sending":
         return <Activity className="h-4 w-4 text-yellow-500 animate-pulse" />;
@@ -170,6 +188,8 @@ export const QueueMonitor: React.FC = () => {
         return <XCircle className="h-4 w-4 text-red-500" />;
       case "retrying":
         return <RefreshCw className="h-4 w-4 text-orange-500 animate-spin" />;
+      case "skipped":
+        return <MinusCircle className="h-4 w-4 text-gray-500" />;
       default:
         return <Clock className="h-4 w-4 text-gray-500" />;
     }
@@ -177,11 +197,13 @@ export const QueueMonitor: React.FC = () => {
 
   const getStatusBadge = (status: string) => {
     const colors = {
-      queued: "bg-blue-100 text-blue-800",
+      pending: "bg-blue-100 text-blue-800",
       sending: "bg-yellow-100 text-yellow-800",
       sent: "bg-green-100 text-green-800",
       failed: "bg-red-100 text-red-800",
       retrying: "bg-orange-100 text-orange-800",
+      bounced: "bg-red-100 text-red-800",
+      skipped: "bg-gray-100 text-gray-800",
     };
 
     return (
@@ -191,7 +213,9 @@ export const QueueMonitor: React.FC = () => {
         }`}
       >
         {getStatusIcon(status)}
-        <span className="ml-1 capitalize">{status}</span>
+        <span className="ml-1 capitalize">
+          {status === "pending" ? "queued" : status}
+        </span>
       </span>
     );
   };
@@ -224,7 +248,10 @@ export const QueueMonitor: React.FC = () => {
           </div>
           <div className="flex items-center space-x-3">
             <button
-              onClick={() => setShowConfig(!showConfig)}
+              onClick={() => {
+                setConfigDraft(showConfig ? null : config);
+                setShowConfig(!showConfig);
+              }}
               className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
             >
               <Settings className="h-4 w-4 mr-2" />
@@ -352,11 +379,17 @@ export const QueueMonitor: React.FC = () => {
                 </label>
                 <input
                   type="number"
-                  value={config.rateLimitPerMinute}
+                  min={1}
+                  value={configDraft?.rateLimitPerMinute ?? ""}
                   onChange={(e) =>
-                    updateConfig({
-                      rateLimitPerMinute: parseInt(e.target.value),
-                    })
+                    setConfigDraft((prev) =>
+                      prev
+                        ? {
+                            ...prev,
+                            rateLimitPerMinute: parseInt(e.target.value),
+                          }
+                        : prev
+                    )
                   }
                   className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                 />
@@ -367,14 +400,66 @@ export const QueueMonitor: React.FC = () => {
                 </label>
                 <input
                   type="number"
-                  value={config.maxRetryAttempts}
+                  min={0}
+                  value={configDraft?.maxRetryAttempts ?? ""}
                   onChange={(e) =>
-                    updateConfig({ maxRetryAttempts: parseInt(e.target.value) })
+                    setConfigDraft((prev) =>
+                      prev
+                        ? { ...prev, maxRetryAttempts: parseInt(e.target.value) }
+                        : prev
+                    )
                   }
                   className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                 />
               </div>
             </div>
+            <p className="mt-4 text-sm text-gray-500">
+              The rate limit is shared by all queue workers and is the same
+              setting as the email rate limit in Settings.
+            </p>
+            <div className="mt-4 flex justify-end">
+              <button
+                onClick={saveConfig}
+                disabled={
+                  !configDraft ||
+                  !(configDraft.rateLimitPerMinute > 0) ||
+                  !(configDraft.maxRetryAttempts >= 0)
+                }
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save Configuration
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6 text-sm text-red-700">
+          {actionError}
+        </div>
+      )}
+
+      {/* Worker Status Alert */}
+      {worker && !worker.online && stats.queued + stats.sending > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+          <div className="flex">
+            <AlertTriangle className="h-5 w-5 text-red-400" />
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">
+                No Queue Worker Running
+              </h3>
+              <div className="mt-2 text-sm text-red-700">
+                <p>
+                  Emails are waiting but no worker has checked in
+                  {worker.lastSeenAt
+                    ? ` since ${new Date(worker.lastSeenAt).toLocaleString()}`
+                    : ""}
+                  . Start one with <code>npm run worker</code> in the server
+                  directory.
+                </p>
+              </div>
+            </div>
           </div>
         </div>
       )}
@@ -399,6 +484,67 @@ export const QueueMonitor: React.FC = () => {
         </div>
       )}
 
+      {/* Campaign Progress */}
+      {campaigns.length > 0 && (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 mb-8">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">
+              Sending Now
+            </h3>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {campaigns.map((campaign) => {
+              const done =
+                campaign.sentCount +
+                campaign.failedCount +
+                (campaign.skippedCount || 0);
+              const percent =
+                campaign.totalRecipients > 0
+                  ? Math.min(
+                      100,
+                      Math.round((done / campaign.totalRecipients) * 100)
+                    )
+                  : 0;
+              const remaining = Math.max(campaign.totalRecipients - done, 0);
+              return (
+                <li key={campaign._id} className="px-6 py-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">
+                        {campaign.name}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {campaign.sentCount.toLocaleString()} sent
+                        {campaign.failedCount > 0 &&
+                          `, ${campaign.failedCount.toLocaleString()} failed`}
+                        {campaign.skippedCount > 0 &&
+                          `, ${campaign.skippedCount.toLocaleString()} skipped`}
+                        {" of "}
+                        {campaign.totalRecipients.toLocaleString()}
+                        {processingRate > 0 &&
+                          remaining > 0 &&
+                          ` · about ${Math.ceil(
+                            remaining / processingRate
+                          )} min left`}
+                      </div>
+                    </div>
+                    <span className="text-sm font-medium text-gray-700">
+                      {percent}%
+                    </span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-2 bg-blue-500 transition-all"
+                      style={{ width: `${percent}%` }}
+                    />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* Jobs Table */}
       <div className="bg-white shadow-sm rounded-lg border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -411,11 +557,13 @@ export const QueueMonitor: React.FC = () => {
                 className="block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
               >
                 <option value="all">All Status</option>
-                <option value="queued">Queued</option>
+                <option value="pending">Queued</option>
                 <option value="sending">Sending</option>
                 <option value="sent">Sent</option>
                 <option value="failed">Failed</option>
                 <option value="retrying">Retrying</option>
+                <option value="bounced">Bounced</option>
+                <option value="skipped">Skipped</option>
               </select>
             </div>
           </div>
@@ -440,6 +588,9 @@ export const QueueMonitor: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Last Attempt
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Next Attempt
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Error
                 </th>
@@ -448,7 +599,7 @@ export const QueueMonitor: React.FC = () => {
             <tbody className="bg-white divide-y divide-gray-200">
               {jobs.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="text-center py-8 text-gray-400">
+                  <td colSpan={7} className="text-center py-8 text-gray-400">
                     No queue jobs found.
                   </td>
                 </tr>
@@ -463,31 +614,47 @@ export const QueueMonitor: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div>
                         <div className="text-sm font-medium text-gray-900">
-                          {job.campaigns.name}
+                          {job.campaignId?.name ?? "Deleted campaign"}
                         </div>
                         <div className="text-sm text-gray-500">
-                          {job.campaigns.subject}
+                          {job.campaignId?.subject}
                         </div>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      {getStatusBadge(job.status)}
+                      {getStatusBadge(getJobStatus(job))}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {job.attemptCount}
+                      {getAttemptCount(job)} / {job.maxRetries + 1}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {job.lastAttemptAt
                         ? new Date(job.lastAttemptAt).toLocaleString()
                         : "-"}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {getNextAttempt(job)?.toLocaleString() || "-"}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {job.errorMessage ? (
-                        <div
-                          className="text-sm text-red-600 max-w-xs truncate"
-                          title={job.errorMessage}
-                        >
-                          {job.errorMessage}
+                        <div className="flex items-center gap-2">
+                          {job.errorClass && (
+                            <span
+                              className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                                errorClasses[job.errorClass].className
+                              }`}
+                              title={errorClasses[job.errorClass].title}
+                            >
+                              {errorClasses[job.errorClass].label}
+                              {job.responseCode ? ` ${job.responseCode}` : ""}
+                            </span>
+                          )}
+                          <div
+                            className="text-sm text-red-600 max-w-xs truncate"
+                            title={job.errorMessage}
+                          >
+                            {job.errorMessage}
+                          </div>
                         </div>
                       ) : (
                         <span className="text-sm text-gray-500">-</span>
@@ -52,14 +52,16 @@ export const Reports: React.FC = () => {
       try {
         const apiClient = (await import("../utils/apiClient")).apiClient;
         // Fetch dashboard stats
-        const statsResponse = await apiClient.getReports();
+        const statsResponse = await apiClient.getReports(selectedPeriod);
         setStats(statsResponse.stats || statsResponse || null);
 
         // Fetch daily performance (if separate endpoint, adjust accordingly)
         setDailyPerformance(statsResponse.dailyPerformance || []);
 
         // Fetch campaign performance
-        const campaignsResponse = await apiClient.getCampaignStats();
+        const campaignsResponse = await apiClient.getCampaignStats(
+          selectedPeriod
+        );
         setCampaigns(campaignsResponse.campaigns || campaignsResponse || []);
       } catch (error) {
         console.error("Failed to fetch reports data:", error);
@@ -288,8 +290,12 @@ export const Reports: React.FC = () => {
             ) : (
               <div className="flex items-end justify-between h-64 space-x-2">
                 {dailyPerformance.map((data, index) => {
+                  // Days can have opens and clicks without sends
                   const maxValue = Math.max(
-                    ...dailyPerformance.map((d) => d.sent)
+                    1,
+                    ...dailyPerformance.map((d) =>
+                      Math.max(d.sent, d.opened, d.clicked)
+                    )
                   );
                   const sentHeight = (data.sent / maxValue) * 240;
                   const openedHeight = (data.opened / maxValue) * 240;
@@ -10,7 +10,15 @@ import {
   // Upload,
   AlertTriangle,
   CheckCircle,
+  Palette,
+  Ban,
+  BadgeCheck,
+  ListPlus,
 } from "lucide-react";
+import { BrandKitSettings } from "../components/Settings/BrandKitSettings";
+import { SuppressionListSettings } from "../components/Settings/SuppressionListSettings";
+import { SenderIdentitiesSettings } from "../components/Settings/SenderIdentitiesSettings";
+import { CustomFieldsSettings } from "../components/Settings/CustomFieldsSettings";
 
 interface SMTPConfig {
   host: string;
@@ -239,9 +247,13 @@ export const Settings: React.FC = () => {
   const tabs = [
     { id: "smtp", name: "SMTP Configuration", icon: Mail },
     { id: "email", name: "Email Settings", icon: SettingsIcon },
+    { id: "senders", name: "Sender Identities", icon: BadgeCheck },
+    { id: "fields", name: "Custom Fields", icon: ListPlus },
     { id: "queue", name: "Queue Settings", icon: Server },
     { id: "security", name: "Security", icon: Shield },
     { id: "general", name: "General", icon: SettingsIcon },
+    { id: "brand", name: "Brand Kit", icon: Palette },
+    { id: "suppression", name: "Suppression List", icon: Ban },
   ];
 
   if (loading) {
@@ -522,6 +534,22 @@ export const Settings: React.FC = () => {
             </div>
           )}
 
+          {activeTab === "brand" && (
+            <BrandKitSettings onNotify={addNotification} />
+          )}
+
+          {activeTab === "senders" && (
+            <SenderIdentitiesSettings onNotify={addNotification} />
+          )}
+
+          {activeTab === "fields" && (
+            <CustomFieldsSettings onNotify={addNotification} />
+          )}
+
+          {activeTab === "suppression" && (
+            <SuppressionListSettings onNotify={addNotification} />
+          )}
+
           {["email", "queue", "security", "general"].includes(activeTab) && (
             <div className="space-y-6">
               <div>
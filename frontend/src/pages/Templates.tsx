@@ -14,6 +14,7 @@ import {
 } from "lucide-react";
 import { EmailTemplate } from "../types";
 import TemplateLibrary from "../components/Templates/TemplateLibrary";
+import { PlainTextEditor } from "../components/EmailEditor/PlainTextEditor";
 
 // Variable detection utility
 const detectVariables = (
@@ -807,6 +808,18 @@ export const Templates: React.FC = () => {
                     placeholder="Enter HTML content for the email template"
                   />
                 </div>
+
+                <PlainTextEditor
+                  html={
+                    editingTemplate.content || editingTemplate.htmlContent || ""
+                  }
+                  value={editingTemplate.textContent || ""}
+                  onChange={(textContent) =>
+                    setEditingTemplate((prev) =>
+                      prev ? { ...prev, textContent } : null
+                    )
+                  }
+                />
               </div>
 
               <div className="mt-6 flex justify-end space-x-3">
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Mail, CheckCircle, AlertTriangle } from "lucide-react";
+import { UnsubscribePreferences } from "../types";
+
+/**
+ * Public preference center, opened from the {{unsubscribe_url}} link in
+ * every email. The signed token in the link identifies the contact, so no
+ * login is needed.
+ */
+export const Unsubscribe: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+
+  const [preferences, setPreferences] =
+    useState<UnsubscribePreferences | null>(null);
+  const [keptLists, setKeptLists] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const showPreferences = (data: UnsubscribePreferences) => {
+    setPreferences(data);
+    setKeptLists(data.lists.map((list) => list.id));
+  };
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      if (!token) {
+        setError("This unsubscribe link is invalid or has expired");
+        setIsLoading(false);
+        return;
+      }
+      try {
+        const { apiClient } = await import("../utils/apiClient");
+        showPreferences(await apiClient.getUnsubscribePreferences(token));
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to load preferences"
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadPreferences();
+  }, [token]);
+
+  const save = async (
+    changes: { leaveLists?: string[]; unsubscribeAll?: boolean },
+    successMessage: string
+  ) => {
+    setIsSaving(true);
+    setError("");
+    setMessage("");
+    try {
+      const { apiClient } = await import("../utils/apiClient");
+      showPreferences(
+        await apiClient.updateUnsubscribePreferences(token, changes)
+      );
+      setMessage(successMessage);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update preferences"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveLists = () => {
+    const leaveLists = (preferences?.lists || [])
+      .map((list) => list.id)
+      .filter((id) => !keptLists.includes(id));
+    save({ leaveLists }, "Your preferences have been saved.");
+  };
+
+  const toggleList = (id: string) =>
+    setKeptLists((prev) =>
+      prev.includes(id) ? prev.filter((listId) => listId !== id) : [...prev, id]
+    );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6">
+        <div>
+          <div className="flex justify-center">
+            <Mail className="w-12 h-12 text-blue-600" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Email Preferences
+          </h2>
+          {preferences && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              For {preferences.email}
+            </p>
+          )}
+        </div>
+
+        {isLoading && (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-300 text-red-700 px-4 py-3 rounded-md flex items-start">
+            <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border border-green-300 text-green-700 px-4 py-3 rounded-md flex items-start">
+            <CheckCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+            <span>{message}</span>
+          </div>
+        )}
+
+        {preferences && preferences.status === "unsubscribed" && (
+          <div className="bg-white shadow rounded-lg p-6 space-y-4">
+            <p className="text-sm text-gray-700">
+              You are unsubscribed and will not receive any more emails from
+              us.
+            </p>
+            <button
+              type="button"
+              onClick={() =>
+                save(
+                  { unsubscribeAll: false },
+                  "You have been resubscribed."
+                )
+              }
+              disabled={isSaving}
+              className="w-full py-2 px-4 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 disabled:opacity-50"
+            >
+              Resubscribe
+            </button>
+          </div>
+        )}
+
+        {preferences && preferences.status === "bounced" && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <p className="text-sm text-gray-700">
+              Emails to this address could not be delivered, so we no longer
+              send to it.
+            </p>
+          </div>
+        )}
+
+        {preferences && preferences.status === "complained" && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <p className="text-sm text-gray-700">
+              One of our emails to this address was reported as spam, so we no
+              longer send to it.
+            </p>
+          </div>
+        )}
+
+        {preferences &&
+          preferences.status !== "unsubscribed" &&
+          preferences.status !== "bounced" &&
+          preferences.status !== "complained" && (
+            <div className="bg-white shadow rounded-lg p-6 space-y-6">
+              {preferences.lists.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium text-gray-900">
+                    Lists you are subscribed to
+                  </h3>
+                  {preferences.lists.map((list) => (
+                    <label key={list.id} className="flex items-start">
+                      <input
+                        type="checkbox"
+                        checked={keptLists.includes(list.id)}
+                        onChange={() => toggleList(list.id)}
+                        className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <span className="ml-3">
+                        <span className="block text-sm text-gray-900">
+                          {list.name}
+                        </span>
+                        {list.description && (
+                          <span className="block text-xs text-gray-500">
+                            {list.description}
+                          </span>
+                        )}
+                      </span>
+                    </label>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={handleSaveLists}
+                    disabled={isSaving}
+                    className="w-full py-2 px-4 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {isSaving ? "Saving..." : "Save preferences"}
+                  </button>
+                </div>
+              )}
+
+              <div
+                className={
+                  preferences.lists.length > 0
+                    ? "pt-6 border-t border-gray-200"
+                    : ""
+                }
+              >
+                <p className="text-sm text-gray-600 mb-3">
+                  Stop all emails to this address.
+                </p>
+                <button
+                  type="button"
+                  onClick={() =>
+                    save(
+                      { unsubscribeAll: true },
+                      "You have been unsubscribed from all emails."
+                    )
+                  }
+                  disabled={isSaving}
+                  className="w-full py-2 px-4 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 disabled:opacity-50"
+                >
+                  Unsubscribe from all emails
+                </button>
+              </div>
+            </div>
+          )}
+      </div>
+    </div>
+  );
+};
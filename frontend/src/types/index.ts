@@ -16,27 +16,72 @@ export interface Contact {
   firstName?: string;
   lastName?: string;
   phone?: string;
+  timezone?: string; // IANA name, for send-time optimization
+  engagement?: ContactEngagement;
   tags: string[];
-  customFields: {
-    company?: string;
-    position?: string;
-    // [key: string]: string | undefined;
-  };
+  // Values of the CustomFieldDefinitions by key (dates as ISO strings), or
+  // text for keys without a definition
+  customFields: Record<string, CustomFieldValue | undefined>;
   status: 'active' | 'unsubscribed' | 'bounced' | 'complained';
   listIds: string[];
   createdAt: string;
   updatedAt: string;
 }
 
+export type CustomFieldType =
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'boolean'
+  | 'select'
+  | 'multiselect';
+
+export type CustomFieldValue = string | number | boolean | string[];
+
+// Admin-defined contact field. Its key and type cannot change once created.
+export interface CustomFieldDefinition {
+  _id: string;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[]; // Choices of select and multiselect fields
+  required: boolean;
+  defaultValue?: CustomFieldValue | null;
+  min?: number | null;
+  max?: number | null;
+  maxLength?: number | null;
+  pattern?: string | null;
+  order: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Tracked opens per UTC hour ("0" to "23"), used to pick send times
+export interface ContactEngagement {
+  openCount: number;
+  lastOpenedAt?: string;
+  openHours?: Record<string, number>;
+}
+
 export interface ContactList {
   id: string;
   name: string;
   description?: string;
+  defaultTimezone?: string; // For contacts without a timezone
   contactCount: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// "optimized" sends to each recipient at the hour they usually open
+export type DeliveryMode = 'immediate' | 'optimized';
+
+// Local hours recipients may receive an optimized campaign (end exclusive)
+export interface DeliveryWindow {
+  startHour: number;
+  endHour: number;
+}
+
 export interface Campaign {
   id: string;
   name: string;
@@ -44,10 +89,15 @@ export interface Campaign {
   fromName: string;
   fromEmail: string;
   replyToEmail: string;
+  senderIdentityId?: string; // Approved identity the From fields came from
   preheader?: string;
   htmlContent: string;
+  textContent?: string; // Custom plain-text version, generated when empty
   status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'paused';
   scheduledAt?: string;
+  scheduledTimezone?: string; // Timezone the schedule was picked in
+  deliveryMode?: DeliveryMode;
+  deliveryWindow?: DeliveryWindow;
   sentAt?: string;
   listIds: string[];
   totalRecipients: number;
@@ -57,10 +107,24 @@ export interface Campaign {
   clickedCount: number;
   bouncedCount: number;
   unsubscribedCount: number;
+  complainedCount?: number; // Spam complaints from feedback loops
   createdAt: string;
   updatedAt: string;
 }
 
+// Merge tags that some recipients have no value for (removed when sent)
+export interface MergeTagReport {
+  totalRecipients: number;
+  affectedRecipients: number;
+  tags: {
+    tag: string;
+    parts: ('subject' | 'html' | 'text')[];
+    count: number;
+    emails: string[];
+  }[];
+  syntaxError: string | null;
+}
+
 export interface TemplateVariable {
   name: string;
   type: 'text' | 'email' | 'url' | 'date' | 'number';
@@ -77,6 +141,7 @@ export interface EmailTemplate {
   description?: string;
   htmlContent: string;
   content?: string; // Backend field that maps to htmlContent
+  textContent?: string; // Custom plain-text version, generated when empty
   category: 'welcome' | 'newsletter' | 'promotional' | 'transactional' | 'announcement' | 'reminder' | 'survey' | 'other';
   tags: string[];
   type: 'html' | 'text';
@@ -97,33 +162,97 @@ export interface EmailTemplate {
     estimatedSize?: number;
     wordCount?: number;
     imageCount?: number;
+    imageSize?: number; // KB of media library images
     linkCount?: number;
   };
   createdAt?: string; // Made optional for delete operations
   updatedAt?: string; // Made optional for delete operations
 }
 
+export interface MediaAsset {
+  _id: string;
+  name: string;
+  alt: string;
+  tags: string[];
+  mimeType: string;
+  size: number; // Bytes
+  width?: number;
+  height?: number;
+  storage: 'local' | 's3';
+  url: string;
+  thumbnail?: {
+    url?: string;
+    width?: number;
+    height?: number;
+  };
+  createdAt: string;
+}
+
 export interface EmailJob {
   id: string;
-  campaignId: string;
+  campaignId: { _id: string; name: string; subject: string } | null;
   contactId: string;
   email: string;
-  status: 'queued' | 'sending' | 'sent' | 'failed' | 'retrying';
-  attemptCount: number;
+  status: 'pending' | 'sending' | 'sent' | 'failed' | 'bounced' | 'skipped';
+  retryCount: number;
+  maxRetries: number;
   lastAttemptAt?: string;
+  nextAttemptAt?: string; // When a job waiting to retry is sent again
+  notBefore?: string; // Recipient's optimized send time
   errorMessage?: string;
+  errorClass?: 'transient' | 'permanent' | 'policy';
+  responseCode?: number;
   sentAt?: string;
   createdAt: string;
+  updatedAt: string;
+}
+
+export interface QueueStats {
+  queued: number;
+  sending: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  retrying: number;
+  total: number;
+}
+
+// Campaign that the queue worker is sending
+export interface QueueCampaignProgress {
+  _id: string;
+  name: string;
+  subject: string;
+  totalRecipients: number;
+  sentCount: number;
+  failedCount: number;
+  skippedCount: number;
+  sentAt?: string;
+}
+
+export interface QueueWorkerStatus {
+  online: boolean;
+  lastSeenAt: string | null;
 }
 
 export interface EmailEvent {
   id: string;
+  campaignId: string;
+  contactId?: string;
   jobId: string;
+  email?: string;
   type: 'delivered' | 'opened' | 'clicked' | 'bounced' | 'unsubscribed' | 'complained';
+  url?: string; // Link that was clicked
   details?: Record<string, any>;
   createdAt: string;
 }
 
+// What the public preference center shows for an unsubscribe link
+export interface UnsubscribePreferences {
+  email: string;
+  status: Contact['status'];
+  lists: { id: string; name: string; description: string }[];
+}
+
 export interface AuditLog {
   id: string;
   userId: string;
@@ -136,12 +265,154 @@ export interface AuditLog {
   createdAt: string;
 }
 
+export type SuppressionReason =
+  | 'bounced'
+  | 'unsubscribed'
+  | 'complained'
+  | 'manual';
+
+// An address that is never sent to
 export interface SuppressionEntry {
+  id: string;
   email: string;
-  reason: 'bounced' | 'unsubscribed' | 'complained' | 'manual';
+  reason: SuppressionReason;
+  note?: string;
+  campaign?: { id: string; name: string } | null; // That bounced or unsubscribed it
+  addedBy?: string | null;
   addedAt: string;
 }
 
+export interface SuppressionStats {
+  total: number;
+  byReason: Record<SuppressionReason, number>;
+}
+
+// A From address campaigns may send as, once approved
+export interface SenderIdentity {
+  id: string;
+  name: string;
+  email: string;
+  replyToEmail: string;
+  domain: string;
+  domainVerified: boolean;
+  approved: boolean;
+  approvedAt?: string;
+  isDefault: boolean;
+  hasSmtpProfile: boolean;
+  smtp?: SenderSmtpProfile; // Admins only
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Dedicated SMTP server of an identity; the password comes back as "***"
+export interface SenderSmtpProfile {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  secure: boolean;
+}
+
+export type DnsCheckStatus = 'valid' | 'missing' | 'invalid' | 'error';
+
+export interface DnsRecordCheck {
+  status: DnsCheckStatus;
+  record?: string;
+  message?: string;
+}
+
+// SPF, DKIM and DMARC records last found for a sender domain
+export interface SenderDomain {
+  domain: string;
+  dkimSelector: string;
+  spf: DnsRecordCheck | null;
+  dkim: DnsRecordCheck | null;
+  dmarc: DnsRecordCheck | null;
+  verified: boolean;
+  checkedAt: string | null;
+}
+
+export type SegmentField =
+  | 'email'
+  | 'firstName'
+  | 'lastName'
+  | 'phone'
+  | 'customField'
+  | 'status'
+  | 'tags'
+  | 'list'
+  | 'createdAt'
+  | 'opened'
+  | 'clicked';
+
+// One condition of a segment. customField rules name the field in key;
+// opened/clicked rules take an optional campaignId and days window.
+export interface SegmentRule {
+  type: 'rule';
+  field: SegmentField;
+  operator: string;
+  value?: string | number;
+  key?: string;
+  campaignId?: string;
+  days?: number;
+}
+
+export interface SegmentRuleGroup {
+  type: 'group';
+  combinator: 'and' | 'or';
+  rules: (SegmentRule | SegmentRuleGroup)[];
+}
+
+// Saved contact filter, evaluated when a campaign targeting it is queued
+export interface Segment {
+  _id: string;
+  name: string;
+  description: string;
+  rules: SegmentRuleGroup;
+  contactCount: number;
+  countedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SegmentPreview {
+  total: number;
+  active: number;
+  sample: Pick<Contact, 'email' | 'firstName' | 'lastName' | 'status'>[];
+}
+
+// What an import does with rows whose email already belongs to a contact
+export type ImportStrategy = 'skip' | 'overwrite' | 'fill_blanks' | 'merge_tags';
+
+// Background contact import; the counters grow as batches are written
+export interface ImportJob {
+  _id: string;
+  fileName: string;
+  fileSize: number;
+  mapping: Record<string, string>;
+  listId?: string;
+  strategy: ImportStrategy;
+  dryRun: boolean;
+  status: 'running' | 'completed' | 'failed';
+  bytesRead: number;
+  processed: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  duplicates: number;
+  invalid: number;
+  error?: string;
+  finishedAt?: string;
+  createdAt: string;
+}
+
+// File row an import rejected; row is the line in the file
+export interface ImportRowError {
+  row: number;
+  email?: string;
+  reason: string;
+}
+
 export interface SystemConfig {
   id: string;
   key: string;
@@ -1,6 +1,22 @@
 // API client for Emmisor backend communication
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://csemail-backend.vercel.app';
 
+// Custom field definition as sent to the server; key and type are only
+// read on create
+interface CustomFieldInput {
+  key: string;
+  label: string;
+  type: string;
+  options?: string[];
+  required?: boolean;
+  defaultValue?: unknown;
+  min?: number | null;
+  max?: number | null;
+  maxLength?: number | null;
+  pattern?: string | null;
+  order?: number;
+}
+
 class ApiClient {
   private baseURL: string;
   private token: string | null = null;
@@ -173,8 +189,15 @@ class ApiClient {
   }
 
   // Contact methods
-  async getContacts(page: number = 1, limit: number = 20): Promise<any> {
-    return this.get(`/api/contacts?page=${page}&limit=${limit}`);
+  async getContacts(
+    page: number = 1,
+    limit: number = 20,
+    filters: { listId?: string; segmentId?: string } = {}
+  ): Promise<any> {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    if (filters.listId) params.set('listId', filters.listId);
+    if (filters.segmentId) params.set('segmentId', filters.segmentId);
+    return this.get(`/api/contacts?${params}`);
   }
 
   async createContact(contact: any): Promise<any> {
@@ -214,22 +237,99 @@ class ApiClient {
   }
 
 
+  // Custom field methods
+  async getCustomFields(): Promise<any> {
+    return this.get('/api/custom-fields');
+  }
+
+  async createCustomField(field: CustomFieldInput): Promise<any> {
+    return this.post('/api/custom-fields', field);
+  }
+
+  async updateCustomField(id: string, changes: Partial<CustomFieldInput>): Promise<any> {
+    return this.put(`/api/custom-fields/${id}`, changes);
+  }
+
+  async deleteCustomField(id: string): Promise<any> {
+    return this.delete(`/api/custom-fields/${id}`);
+  }
+
+  // Segment methods
+  async getSegments(): Promise<any> {
+    return this.get('/api/segments');
+  }
+
+  async getSegmentFields(): Promise<any> {
+    return this.get('/api/segments/fields');
+  }
+
+  async previewSegment(rules: object): Promise<any> {
+    return this.post('/api/segments/preview', { rules });
+  }
+
+  async createSegment(segment: { name: string; description?: string; rules: object }): Promise<any> {
+    return this.post('/api/segments', segment);
+  }
+
+  async updateSegment(id: string, changes: { name?: string; description?: string; rules?: object }): Promise<any> {
+    return this.put(`/api/segments/${id}`, changes);
+  }
+
+  async deleteSegment(id: string): Promise<any> {
+    return this.delete(`/api/segments/${id}`);
+  }
+
   // Import contacts method - make sure this exists and is correctly named
   async importContacts(formData: FormData): Promise<any> {
     return this.post('/api/contacts/import', formData);
   }
 
+  async getImportJob(id: string): Promise<any> {
+    return this.get(`/api/contacts/import/${id}`);
+  }
+
+  // CSV of every row an import rejected, with the reason
+  async downloadImportErrors(id: string): Promise<Blob> {
+    const response = await fetch(`${this.baseURL}/api/contacts/import/${id}/errors`, {
+      method: 'GET',
+      headers: {
+        ...(this.token && { authorization: `Bearer ${this.token}` }),
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response.blob();
+  }
+
   // Export contacts method
   async exportContacts(options: {
     format: string;
     includeFields: string[];
     filterType: string;
+    selectedIds?: string[];
+    search?: string;
+    status?: string;
+    listId?: string;
+    segmentId?: string;
   }): Promise<Blob> {
     const params = new URLSearchParams({
       format: options.format,
       fields: options.includeFields.join(','),
       filterType: options.filterType,
     });
+    if (options.filterType === 'selected') {
+      params.set('ids', (options.selectedIds || []).join(','));
+    }
+    if (options.filterType === 'filtered') {
+      if (options.search) params.set('search', options.search);
+      if (options.status) params.set('status', options.status);
+      if (options.listId) params.set('listId', options.listId);
+      if (options.segmentId) params.set('segmentId', options.segmentId);
+    }
 
     const response = await fetch(`${this.baseURL}/api/contacts/export?${params}`, {
       method: 'GET',
@@ -271,8 +371,16 @@ class ApiClient {
     return this.post(`/api/campaigns/${id}/duplicate`);
   }
 
-  async sendCampaign(id: string): Promise<any> {
-    return this.post(`/api/campaigns/${id}/send`);
+  async sendCampaign(id: string, delivery: { deliveryMode?: string; deliveryWindow?: { startHour: number; endHour: number } } = {}): Promise<any> {
+    return this.post(`/api/campaigns/${id}/send`, delivery);
+  }
+
+  async scheduleCampaign(id: string, sendAt: string, delivery: { deliveryMode?: string; deliveryWindow?: { startHour: number; endHour: number } } = {}): Promise<any> {
+    return this.post(`/api/campaigns/${id}/schedule`, { sendAt, ...delivery });
+  }
+
+  async cancelCampaignSchedule(id: string): Promise<any> {
+    return this.delete(`/api/campaigns/${id}/schedule`);
   }
 
   async pauseCampaign(id: string): Promise<any> {
@@ -287,6 +395,14 @@ class ApiClient {
     return this.get(`/api/campaigns/${id}/report`);
   }
 
+  async previewCampaign(id: string, data: { variables?: Record<string, string>; sampleContact?: Record<string, string> } = {}): Promise<any> {
+    return this.post(`/api/campaigns/${id}/preview`, data);
+  }
+
+  async getMergeTagReport(id: string): Promise<any> {
+    return this.get(`/api/campaigns/${id}/merge-tags/report`);
+  }
+
   // Template methods
   async getTemplates(): Promise<any> {
     return this.get('/api/templates');
@@ -317,19 +433,210 @@ class ApiClient {
     return this.post('/api/templates/seed', { force });
   }
 
+  async generatePlainText(html: string): Promise<{ text: string }> {
+    return this.post('/api/templates/plain-text', { html });
+  }
+
+  async getMergeTags(): Promise<any> {
+    return this.get('/api/templates/merge-tags');
+  }
+
+  // Snippet methods
+  async getSnippets(category?: string): Promise<any> {
+    const endpoint = category ? `/api/snippets?category=${category}` : '/api/snippets';
+    return this.get(endpoint);
+  }
+
+  async createSnippet(snippet: any): Promise<any> {
+    return this.post('/api/snippets', snippet);
+  }
+
+  async updateSnippet(id: string, snippet: any): Promise<any> {
+    return this.put(`/api/snippets/${id}`, snippet);
+  }
+
+  async deleteSnippet(id: string): Promise<any> {
+    return this.delete(`/api/snippets/${id}`);
+  }
+
+  // Media library methods
+  async getAssets(params: { page?: number; limit?: number; search?: string } = {}): Promise<any> {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') query.append(key, String(value));
+    });
+    const queryString = query.toString();
+    return this.get(`/api/assets${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async uploadAssets(files: File[], tags?: string): Promise<any> {
+    const formData = new FormData();
+    files.forEach((file) => formData.append('files', file));
+    if (tags) formData.append('tags', tags);
+    return this.post('/api/assets', formData);
+  }
+
+  async updateAsset(id: string, asset: any): Promise<any> {
+    return this.put(`/api/assets/${id}`, asset);
+  }
+
+  async deleteAsset(id: string): Promise<any> {
+    return this.delete(`/api/assets/${id}`);
+  }
+
+  // Brand kit methods
+  async getBrandKit(): Promise<any> {
+    return this.get('/api/settings/brand-kit');
+  }
+
+  async updateBrandKit(brandKit: any): Promise<any> {
+    return this.put('/api/settings/brand-kit', brandKit);
+  }
+
+  // Queue methods
+  async getQueueStats(): Promise<any> {
+    return this.get('/api/queue/stats');
+  }
+
+  async getQueueJobs(params: { page?: number; limit?: number; status?: string; campaignId?: string } = {}): Promise<any> {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') query.append(key, String(value));
+    });
+    const queryString = query.toString();
+    return this.get(`/api/queue/jobs${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async retryQueueJobs(options: { jobIds?: string[]; campaignId?: string } = {}): Promise<any> {
+    return this.post('/api/queue/retry', options);
+  }
+
+  async pauseQueue(): Promise<any> {
+    return this.post('/api/queue/pause');
+  }
+
+  async resumeQueue(): Promise<any> {
+    return this.post('/api/queue/resume');
+  }
+
+  async getQueueConfig(): Promise<any> {
+    return this.get('/api/queue/config');
+  }
+
+  async updateQueueConfig(config: { rateLimitPerMinute?: number; maxRetryAttempts?: number }): Promise<any> {
+    return this.put('/api/queue/config', config);
+  }
+
+  // Suppression list methods
+  async getSuppressions(params: { page?: number; limit?: number; search?: string; reason?: string } = {}): Promise<any> {
+    const query = new URLSearchParams();
+    if (params.page) query.append('page', params.page.toString());
+    if (params.limit) query.append('limit', params.limit.toString());
+    if (params.search) query.append('search', params.search);
+    if (params.reason) query.append('reason', params.reason);
+    return this.get(`/api/suppression?${query}`);
+  }
+
+  async addSuppression(entry: { email: string; reason?: string; note?: string }): Promise<any> {
+    return this.post('/api/suppression', entry);
+  }
+
+  async updateSuppression(id: string, changes: { reason?: string; note?: string }): Promise<any> {
+    return this.put(`/api/suppression/${id}`, changes);
+  }
+
+  async deleteSuppression(id: string): Promise<any> {
+    return this.delete(`/api/suppression/${id}`);
+  }
+
+  async importSuppressions(data: FormData | { emails: string[]; reason?: string; note?: string }): Promise<any> {
+    return this.post('/api/suppression/import', data);
+  }
+
+  async exportSuppressions(params: { search?: string; reason?: string } = {}): Promise<Blob> {
+    const query = new URLSearchParams();
+    if (params.search) query.append('search', params.search);
+    if (params.reason) query.append('reason', params.reason);
+
+    const response = await fetch(`${this.baseURL}/api/suppression/export?${query}`, {
+      method: 'GET',
+      headers: {
+        ...(this.token && { authorization: `Bearer ${this.token}` }),
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response.blob();
+  }
+
+  // Sender identity methods
+  async getSenderIdentities(params: { approved?: boolean } = {}): Promise<any> {
+    return this.get(`/api/senders${params.approved ? '?approved=true' : ''}`);
+  }
+
+  async createSenderIdentity(identity: {
+    name: string;
+    email: string;
+    replyToEmail?: string;
+    isDefault?: boolean;
+    smtp?: { host: string; port?: number; user?: string; password?: string; secure?: boolean };
+  }): Promise<any> {
+    return this.post('/api/senders', identity);
+  }
+
+  async updateSenderIdentity(id: string, changes: {
+    name?: string;
+    email?: string;
+    replyToEmail?: string;
+    approved?: boolean;
+    isDefault?: boolean;
+    smtp?: { host: string; port?: number; user?: string; password?: string; secure?: boolean };
+  }): Promise<any> {
+    return this.put(`/api/senders/${id}`, changes);
+  }
+
+  async deleteSenderIdentity(id: string): Promise<any> {
+    return this.delete(`/api/senders/${id}`);
+  }
+
+  async testSenderSmtp(id: string): Promise<any> {
+    return this.post(`/api/senders/${id}/smtp/test`);
+  }
+
+  async getSenderDomains(): Promise<any> {
+    return this.get('/api/senders/domains');
+  }
+
+  async checkSenderDomain(domain: string, dkimSelector?: string): Promise<any> {
+    return this.post(`/api/senders/domains/${encodeURIComponent(domain)}/check`, { dkimSelector });
+  }
+
   // Reports methods
-  async getReports(): Promise<any> {
-    return this.get('/api/reports/dashboard');
+  async getReports(period: string = '30'): Promise<any> {
+    return this.get(`/api/reports/dashboard?period=${period}`);
   }
 
-  async getCampaignStats(): Promise<any> {
-    return this.get('/api/reports/campaigns');
+  async getCampaignStats(period: string = '30'): Promise<any> {
+    return this.get(`/api/reports/campaigns?period=${period}`);
   }
 
   // Activity methods
   async getRecentActivity(): Promise<any> {
     return this.get('/api/activity/recent');
   }
+
+  // Preference center methods, authenticated by the link's token
+  async getUnsubscribePreferences(token: string): Promise<any> {
+    return this.get(`/api/unsubscribe/${encodeURIComponent(token)}`);
+  }
+
+  async updateUnsubscribePreferences(token: string, changes: { leaveLists?: string[]; unsubscribeAll?: boolean }): Promise<any> {
+    return this.put(`/api/unsubscribe/${encodeURIComponent(token)}`, changes);
+  }
 }
 
 // Create and export a singleton instance
@@ -0,0 +1,423 @@
+// Tree helpers for drag-and-drop editor documents.
+// Blocks live in containers: the document root, or one column of a columns
+// block. Every helper returns a new tree and leaves the input untouched.
+
+import { v4 as uuidv4 } from "uuid";
+import {
+  EmailColumn,
+  EmailComponent,
+  EmailSnippet,
+  blockConfigs,
+  BlockTypes,
+} from "../components/EmailEditor/BlockToolbox";
+
+type BlockType = (typeof BlockTypes)[keyof typeof BlockTypes];
+
+export const ROOT_CONTAINER_ID = "root";
+
+export interface BlockLocation {
+  containerId: string;
+  index: number;
+}
+
+// Column layouts offered in the property editor, as relative widths
+export const columnLayouts: { label: string; ratios: number[] }[] = [
+  { label: "1 column", ratios: [1] },
+  { label: "2 columns (50/50)", ratios: [1, 1] },
+  { label: "2 columns (67/33)", ratios: [2, 1] },
+  { label: "2 columns (33/67)", ratios: [1, 2] },
+  { label: "3 columns", ratios: [1, 1, 1] },
+  { label: "3 columns (25/50/25)", ratios: [1, 2, 1] },
+  { label: "4 columns", ratios: [1, 1, 1, 1] },
+];
+
+/**
+ * Create a column with no blocks
+ */
+export function createColumn(): EmailColumn {
+  return { id: uuidv4(), components: [] };
+}
+
+/**
+ * Create a new block of the given type with its default content
+ */
+export function createBlock(type: BlockType): EmailComponent {
+  const config = blockConfigs[type];
+  const component: EmailComponent = {
+    id: uuidv4(),
+    type,
+    content: JSON.parse(JSON.stringify(config.defaultContent)),
+  };
+
+  if (type === BlockTypes.COLUMNS) {
+    component.columns = component.content.ratios.map(() => createColumn());
+  }
+
+  return component;
+}
+
+/**
+ * Adjust a columns block to the given number of columns. Blocks from removed
+ * columns are moved into the last remaining column so nothing is lost.
+ */
+export function resizeColumns(
+  columns: EmailColumn[] = [],
+  count: number
+): EmailColumn[] {
+  if (columns.length === count) return columns;
+
+  if (columns.length < count) {
+    return [
+      ...columns,
+      ...Array.from({ length: count - columns.length }, createColumn),
+    ];
+  }
+
+  const kept = columns.slice(0, count);
+  const overflow = columns.slice(count).flatMap((column) => column.components);
+  const last = kept[count - 1];
+  kept[count - 1] = {
+    ...last,
+    components: [...last.components, ...overflow],
+  };
+  return kept;
+}
+
+/**
+ * Find a block anywhere in the tree
+ */
+export function findComponent(
+  tree: EmailComponent[],
+  id: string
+): EmailComponent | null {
+  for (const component of tree) {
+    if (component.id === id) return component;
+    for (const column of component.columns || []) {
+      const found = findComponent(column.components, id);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find which container holds a block and at what position
+ */
+export function locateComponent(
+  tree: EmailComponent[],
+  id: string,
+  containerId: string = ROOT_CONTAINER_ID
+): BlockLocation | null {
+  for (let index = 0; index < tree.length; index++) {
+    const component = tree[index];
+    if (component.id === id) return { containerId, index };
+    for (const column of component.columns || []) {
+      const found = locateComponent(column.components, id, column.id);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether an id names a container (the root or a column)
+ */
+export function isContainerId(tree: EmailComponent[], id: string): boolean {
+  return id === ROOT_CONTAINER_ID || getContainer(tree, id) !== null;
+}
+
+/**
+ * Get the blocks held by a container
+ */
+export function getContainer(
+  tree: EmailComponent[],
+  containerId: string
+): EmailComponent[] | null {
+  if (containerId === ROOT_CONTAINER_ID) return tree;
+
+  for (const component of tree) {
+    for (const column of component.columns || []) {
+      if (column.id === containerId) return column.components;
+      const found = getContainer(column.components, containerId);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Replace the blocks of a container
+ */
+export function updateContainer(
+  tree: EmailComponent[],
+  containerId: string,
+  update: (components: EmailComponent[]) => EmailComponent[]
+): EmailComponent[] {
+  if (containerId === ROOT_CONTAINER_ID) return update(tree);
+
+  return tree.map((component) => {
+    if (!component.columns) return component;
+    return {
+      ...component,
+      columns: component.columns.map((column) =>
+        column.id === containerId
+          ? { ...column, components: update(column.components) }
+          : {
+              ...column,
+              components: updateContainer(column.components, containerId, update),
+            }
+      ),
+    };
+  });
+}
+
+/**
+ * Replace a block (matched by id) anywhere in the tree
+ */
+export function updateComponent(
+  tree: EmailComponent[],
+  updated: EmailComponent
+): EmailComponent[] {
+  const location = locateComponent(tree, updated.id);
+  if (!location) return tree;
+
+  return updateContainer(tree, location.containerId, (components) =>
+    components.map((component) =>
+      component.id === updated.id ? updated : component
+    )
+  );
+}
+
+/**
+ * Remove a block (and anything nested inside it) from the tree
+ */
+export function removeComponent(
+  tree: EmailComponent[],
+  id: string
+): EmailComponent[] {
+  const location = locateComponent(tree, id);
+  if (!location) return tree;
+
+  return updateContainer(tree, location.containerId, (components) =>
+    components.filter((component) => component.id !== id)
+  );
+}
+
+/**
+ * Insert a block into a container at the given position
+ */
+export function insertComponent(
+  tree: EmailComponent[],
+  containerId: string,
+  index: number,
+  component: EmailComponent
+): EmailComponent[] {
+  return updateContainer(tree, containerId, (components) => {
+    const next = [...components];
+    next.splice(Math.max(0, Math.min(index, next.length)), 0, component);
+    return next;
+  });
+}
+
+/**
+ * Ids of every block and column nested inside a block, excluding itself
+ */
+export function collectNestedIds(component: EmailComponent): Set<string> {
+  const ids = new Set<string>();
+  for (const column of component.columns || []) {
+    ids.add(column.id);
+    for (const child of column.components) {
+      ids.add(child.id);
+      collectNestedIds(child).forEach((id) => ids.add(id));
+    }
+  }
+  return ids;
+}
+
+/**
+ * Move a block onto a drop target. The target is either another block (the
+ * moved block takes its position) or a container (the block is appended).
+ */
+export function moveComponent(
+  tree: EmailComponent[],
+  id: string,
+  targetId: string
+): EmailComponent[] {
+  const component = findComponent(tree, id);
+  const source = locateComponent(tree, id);
+  if (!component || !source || id === targetId) return tree;
+
+  // A block can never be dropped inside itself
+  if (collectNestedIds(component).has(targetId)) return tree;
+
+  if (isContainerId(tree, targetId)) {
+    const withoutComponent = removeComponent(tree, id);
+    const container = getContainer(withoutComponent, targetId) || [];
+    return insertComponent(
+      withoutComponent,
+      targetId,
+      container.length,
+      component
+    );
+  }
+
+  const target = locateComponent(tree, targetId);
+  if (!target) return tree;
+
+  if (target.containerId === source.containerId) {
+    return updateContainer(tree, source.containerId, (components) => {
+      const next = [...components];
+      next.splice(source.index, 1);
+      next.splice(target.index, 0, component);
+      return next;
+    });
+  }
+
+  const withoutComponent = removeComponent(tree, id);
+  const targetLocation = locateComponent(withoutComponent, targetId);
+  if (!targetLocation) return tree;
+  return insertComponent(
+    withoutComponent,
+    targetLocation.containerId,
+    targetLocation.index,
+    component
+  );
+}
+
+/**
+ * Deep-copy a block, giving it and everything nested inside it new ids
+ */
+export function cloneWithNewIds(component: EmailComponent): EmailComponent {
+  return {
+    ...component,
+    id: uuidv4(),
+    content: JSON.parse(JSON.stringify(component.content)),
+    ...(component.columns && {
+      columns: component.columns.map((column) => ({
+        id: uuidv4(),
+        components: column.components.map(cloneWithNewIds),
+      })),
+    }),
+  };
+}
+
+/**
+ * Insert a copy of a block directly after it. Returns the new tree and the
+ * copy so the caller can select it.
+ */
+export function duplicateComponent(
+  tree: EmailComponent[],
+  id: string
+): { tree: EmailComponent[]; copy: EmailComponent | null } {
+  const component = findComponent(tree, id);
+  const location = locateComponent(tree, id);
+  if (!component || !location) return { tree, copy: null };
+
+  const copy = cloneWithNewIds(component);
+  return {
+    tree: insertComponent(tree, location.containerId, location.index + 1, copy),
+    copy,
+  };
+}
+
+/**
+ * Move a block up (-1) or down (+1) within its container
+ */
+export function shiftComponent(
+  tree: EmailComponent[],
+  id: string,
+  offset: number
+): EmailComponent[] {
+  const location = locateComponent(tree, id);
+  if (!location) return tree;
+
+  const container = getContainer(tree, location.containerId) || [];
+  const targetIndex = location.index + offset;
+  if (targetIndex < 0 || targetIndex >= container.length) return tree;
+
+  return updateContainer(tree, location.containerId, (components) => {
+    const next = [...components];
+    const [moved] = next.splice(location.index, 1);
+    next.splice(targetIndex, 0, moved);
+    return next;
+  });
+}
+
+/**
+ * Replace one block with any number of blocks at the same position
+ */
+export function replaceComponent(
+  tree: EmailComponent[],
+  id: string,
+  replacements: EmailComponent[]
+): EmailComponent[] {
+  const location = locateComponent(tree, id);
+  if (!location) return tree;
+
+  return updateContainer(tree, location.containerId, (components) => [
+    ...components.slice(0, location.index),
+    ...replacements,
+    ...components.slice(location.index + 1),
+  ]);
+}
+
+/**
+ * Create a block that shows a snippet and follows updates to its master
+ */
+export function createLinkedSnippet(snippet: EmailSnippet): EmailComponent {
+  return {
+    id: uuidv4(),
+    type: "snippet",
+    content: {
+      snippetId: snippet._id,
+      name: snippet.name,
+      version: snippet.version,
+      components: snippet.components,
+    },
+  };
+}
+
+/**
+ * Bring linked snippet blocks up to date with their masters. Returns the
+ * input tree unchanged when every linked block is already current.
+ */
+export function syncLinkedSnippets(
+  tree: EmailComponent[],
+  snippets: EmailSnippet[]
+): EmailComponent[] {
+  let changed = false;
+
+  const sync = (components: EmailComponent[]): EmailComponent[] =>
+    components.map((component) => {
+      if (component.type === "snippet") {
+        const snippet = snippets.find(
+          (item) => item._id === component.content.snippetId
+        );
+        if (!snippet || snippet.version === component.content.version) {
+          return component;
+        }
+        changed = true;
+        return {
+          ...component,
+          content: {
+            ...component.content,
+            name: snippet.name,
+            version: snippet.version,
+            components: snippet.components,
+          },
+        };
+      }
+
+      if (!component.columns) return component;
+      return {
+        ...component,
+        columns: component.columns.map((column) => ({
+          ...column,
+          components: sync(column.components),
+        })),
+      };
+    });
+
+  const next = sync(tree);
+  return changed ? next : tree;
+}
@@ -0,0 +1,81 @@
+import {
+  BRAND_TOKEN_PREFIX,
+  brandTokenValues,
+} from "../../../shared/brandKit.mjs";
+import type { BrandKit } from "../../../shared/brandKit.mjs";
+import { EmailComponent } from "../components/EmailEditor/BlockToolbox";
+
+// Brand kit tokens in the editors. The brand kit itself and the token
+// values are shared with the server (shared/brandKit.mjs). A block property
+// set to "brand:<token>" follows the brand kit: it is resolved when the
+// block is rendered or compiled, and the server restyles saved templates
+// that use it whenever the brand kit changes.
+
+export type { BrandKit } from "../../../shared/brandKit.mjs";
+export {
+  BRAND_TOKEN_PREFIX,
+  DEFAULT_BRAND_KIT,
+  brandTokenValues,
+  mergeBrandKit,
+} from "../../../shared/brandKit.mjs";
+
+// Font stacks offered in the brand kit settings
+export const fontStacks: { label: string; value: string }[] = [
+  { label: "Arial", value: "Arial, Helvetica, sans-serif" },
+  { label: "Helvetica", value: "Helvetica, Arial, sans-serif" },
+  { label: "Verdana", value: "Verdana, Geneva, sans-serif" },
+  { label: "Tahoma", value: "Tahoma, Verdana, sans-serif" },
+  { label: "Trebuchet MS", value: "'Trebuchet MS', Helvetica, sans-serif" },
+  { label: "Georgia", value: "Georgia, 'Times New Roman', serif" },
+  { label: "Times New Roman", value: "'Times New Roman', Times, serif" },
+  { label: "Courier New", value: "'Courier New', Courier, monospace" },
+];
+
+// Color tokens offered in the property editor
+export const brandColorTokens: { token: string; label: string }[] = [
+  { token: "primary", label: "Primary" },
+  { token: "secondary", label: "Secondary" },
+  { token: "accent", label: "Accent" },
+  { token: "text", label: "Text" },
+  { token: "muted", label: "Muted" },
+  { token: "background", label: "Background" },
+  { token: "surface", label: "Surface" },
+  { token: "link", label: "Link" },
+  { token: "buttonBackground", label: "Button" },
+  { token: "buttonText", label: "Button text" },
+];
+
+/**
+ * Reference a brand kit token from a block property
+ */
+export const brandToken = (token: string) => `${BRAND_TOKEN_PREFIX}${token}`;
+
+/**
+ * Check whether a block property value references the brand kit
+ */
+export function isBrandToken(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(BRAND_TOKEN_PREFIX);
+}
+
+/**
+ * Resolve a block property value, leaving non-token values unchanged
+ */
+export function resolveBrandValue<T>(value: T, brandKit: BrandKit): T | string {
+  if (!isBrandToken(value)) return value;
+  return brandTokenValues(brandKit)[value.slice(BRAND_TOKEN_PREFIX.length)] ?? "";
+}
+
+/**
+ * Resolve every token in a block's content
+ */
+export function resolveBrandContent(
+  content: EmailComponent["content"],
+  brandKit: BrandKit
+): EmailComponent["content"] {
+  return Object.fromEntries(
+    Object.entries(content || {}).map(([key, value]) => [
+      key,
+      resolveBrandValue(value, brandKit),
+    ])
+  );
+}
@@ -0,0 +1,123 @@
+// Display and form helpers for typed contact custom fields, matching
+// services/customFieldService.js on the server
+import {
+  CustomFieldDefinition,
+  CustomFieldType,
+  CustomFieldValue,
+} from "../types";
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  boolean: "Yes/No",
+  select: "Single choice",
+  multiselect: "Multiple choice",
+};
+
+// Dates arrive as ISO strings; date-only values are stored at UTC midnight
+const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}(T|$)/.test(value);
+
+/**
+ * Text of a custom field value, e.g. for table cells
+ */
+export const formatCustomFieldValue = (
+  value: CustomFieldValue | null | undefined,
+  type?: CustomFieldType
+): string => {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (type === "date" && isIsoDate(String(value))) {
+    return String(value).slice(0, 10);
+  }
+  return String(value);
+};
+
+/**
+ * Whether a value counts as missing for a required field
+ */
+export const isBlankCustomFieldValue = (
+  value: CustomFieldValue | null | undefined
+): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Value of a field as its form input expects it
+ */
+export const toCustomFieldFormValue = (
+  definition: CustomFieldDefinition,
+  value: CustomFieldValue | null | undefined
+): CustomFieldValue | undefined => {
+  if (value === undefined || value === null) return undefined;
+  switch (definition.type) {
+    case "date":
+      return String(value).slice(0, 10);
+    case "multiselect":
+      return Array.isArray(value) ? value : [String(value)];
+    default:
+      return value;
+  }
+};
+
+const TRUE_FALSE_VALUES = ["true", "yes", "y", "1", "false", "no", "n", "0"];
+
+/**
+ * Problem with a text value (e.g. an import cell) for a field, or null.
+ * Same checks as the server makes before storing it.
+ */
+export const checkCustomFieldText = (
+  definition: CustomFieldDefinition,
+  value: string
+): string | null => {
+  const text = value.trim();
+  const { label, options } = definition;
+  const hasOption = (item: string) =>
+    options.some((option) => option.toLowerCase() === item.toLowerCase());
+
+  switch (definition.type) {
+    case "number": {
+      const number = Number(text);
+      if (!Number.isFinite(number)) return `${label} must be a number`;
+      if (typeof definition.min === "number" && number < definition.min) {
+        return `${label} must be at least ${definition.min}`;
+      }
+      if (typeof definition.max === "number" && number > definition.max) {
+        return `${label} must be at most ${definition.max}`;
+      }
+      return null;
+    }
+    case "date":
+      return Number.isNaN(new Date(text).getTime())
+        ? `${label} must be a date`
+        : null;
+    case "boolean":
+      return TRUE_FALSE_VALUES.includes(text.toLowerCase())
+        ? null
+        : `${label} must be yes or no`;
+    case "select":
+      return hasOption(text)
+        ? null
+        : `${label} must be one of: ${options.join(", ")}`;
+    case "multiselect": {
+      const unknown = text
+        .split(/[,;]/)
+        .map((item) => item.trim())
+        .filter((item) => item && !hasOption(item));
+      return unknown.length > 0
+        ? `Unknown ${label} options: ${unknown.join(", ")}`
+        : null;
+    }
+    default:
+      if (definition.maxLength && text.length > definition.maxLength) {
+        return `${label} must be at most ${definition.maxLength} characters`;
+      }
+      if (definition.pattern && !new RegExp(definition.pattern).test(text)) {
+        return `${label} has an invalid format`;
+      }
+      return null;
+  }
+};
@@ -0,0 +1,616 @@
+// Compiler for drag-and-drop editor documents.
+// Serializes a list of editor blocks into table-based, inline-styled email
+// HTML and embeds the block JSON so the document can be reopened as blocks.
+
+import { v4 as uuidv4 } from "uuid";
+import { EmailComponent } from "../components/EmailEditor/BlockToolbox";
+import {
+  BRAND_TOKEN_PREFIX,
+  BrandKit,
+  DEFAULT_BRAND_KIT,
+  brandToken,
+  brandTokenValues,
+  isBrandToken,
+} from "./brandKit";
+
+export interface EmailDocument {
+  version: number;
+  subject?: string;
+  components: EmailComponent[];
+}
+
+export interface CompileOptions {
+  subject?: string;
+  brandKit?: BrandKit;
+}
+
+export const EMAIL_DOCUMENT_VERSION = 1;
+
+const BLOCKS_MARKER = "csemail:blocks";
+const BLOCKS_COMMENT_REGEX = /<!--\s*csemail:blocks\s+v(\d+)\s+([A-Za-z0-9+/=]+)\s*-->/;
+
+/**
+ * Escape text for use inside HTML element content
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Escape text for use inside a double-quoted HTML attribute
+ */
+export function escapeAttribute(value: unknown): string {
+  return escapeHtml(value).replace(/"/g, "&quot;");
+}
+
+// Brand kit values available while compiling
+interface CompileContext {
+  tokens: Record<string, string>;
+}
+
+type Declarations = Record<string, string | number | undefined>;
+
+const createContext = (brandKit: BrandKit = DEFAULT_BRAND_KIT): CompileContext => ({
+  tokens: brandTokenValues(brandKit),
+});
+
+/**
+ * Build an inline style string, skipping empty values
+ */
+function style(declarations: Declarations): string {
+  return Object.entries(declarations)
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([property, value]) => `${property}: ${value}`)
+    .join("; ");
+}
+
+/**
+ * Build the attributes of an element from plain HTML attributes and inline
+ * styles. Brand kit tokens are resolved, and each one is recorded in a
+ * data-brand attribute ("@attribute:token" or "property:token") so the
+ * server can restyle saved HTML when the brand kit changes.
+ */
+function attributes(
+  html: Declarations,
+  css: Declarations,
+  context: CompileContext
+): string {
+  const references: string[] = [];
+  const resolve = (name: string, value: string | number | undefined) => {
+    if (!isBrandToken(value)) return value;
+    const token = value.slice(BRAND_TOKEN_PREFIX.length);
+    references.push(`${name}:${token}`);
+    return context.tokens[token] ?? "";
+  };
+
+  const htmlAttributes = Object.entries(html)
+    .map(([name, value]) => {
+      const resolved = resolve(`@${name}`, value);
+      // Size attributes take bare pixel numbers
+      return [
+        name,
+        ["width", "height"].includes(name)
+          ? String(resolved ?? "").replace(/px$/, "")
+          : resolved,
+      ] as const;
+    })
+    // Images always get an alt attribute, even an empty one
+    .filter(
+      ([name, value]) => value !== undefined && (value !== "" || name === "alt")
+    )
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+    .join("");
+
+  const inlineStyle = style(
+    Object.fromEntries(
+      Object.entries(css).map(([property, value]) => [
+        property,
+        resolve(property, value),
+      ])
+    )
+  );
+
+  return `${htmlAttributes}${
+    inlineStyle ? ` style="${escapeAttribute(inlineStyle)}"` : ""
+  }${references.length ? ` data-brand="${references.join(";")}"` : ""}`;
+}
+
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function decodeBase64(encoded: string): string {
+  const binary = atob(encoded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+const COLUMN_CLASS = "csemail-column";
+
+const RESPONSIVE_STYLES = `<style type="text/css">
+@media only screen and (max-width: 620px) {
+  .${COLUMN_CLASS} { display: block !important; width: 100% !important; padding-left: 0 !important; padding-right: 0 !important; }
+}
+</style>`;
+
+// Link color from the brand kit; the id lets the server restyle it
+const LINK_STYLES_ID = "csemail-links";
+
+/**
+ * Compile a list of blocks into table rows
+ */
+function compileRows(components: EmailComponent[], context: CompileContext): string {
+  return components
+    .map((component) => compileBlock(component, context))
+    .join("\n");
+}
+
+/**
+ * Compile a columns block into a nested table with one cell per column
+ */
+function compileColumns(component: EmailComponent, context: CompileContext): string {
+  const { content } = component;
+  const columns = component.columns || [];
+  const ratios: number[] = columns.map(
+    (_, index) => Number(content.ratios?.[index]) || 1
+  );
+  const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+  const halfGap = Math.round((parseInt(content.gap, 10) || 0) / 2);
+  const valign = ["top", "middle", "bottom"].includes(content.verticalAlign)
+    ? content.verticalAlign
+    : "top";
+
+  const cells = columns
+    .map((column, index) => {
+      const width = `${Math.round((ratios[index] / total) * 10000) / 100}%`;
+      return `<td${attributes(
+        {
+          class: content.stackOnMobile !== false ? COLUMN_CLASS : undefined,
+          width,
+          valign,
+        },
+        {
+          width,
+          "padding-left": index === 0 ? "0" : `${halfGap}px`,
+          "padding-right": index === columns.length - 1 ? "0" : `${halfGap}px`,
+          "vertical-align": valign,
+        },
+        context
+      )}><table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+${compileRows(column.components, context)}
+</table></td>`;
+    })
+    .join("");
+
+  return `<tr><td${attributes(
+    {},
+    { padding: content.padding, "background-color": content.backgroundColor },
+    context
+  )}><table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"><tr>${cells}</tr></table></td></tr>`;
+}
+
+/**
+ * Compile a single block into one or more table rows
+ */
+function compileBlock(component: EmailComponent, context: CompileContext): string {
+  const { type, content } = component;
+
+  switch (type) {
+    case "text":
+      return `<tr><td${attributes(
+        { align: content.textAlign || "left" },
+        {
+          padding: "0 0 16px 0",
+          "font-family": content.fontFamily || brandToken("bodyFont"),
+          "font-size": content.fontSize,
+          "font-weight": content.fontWeight,
+          color: content.color,
+          "text-align": content.textAlign,
+          "line-height": "1.5",
+        },
+        context
+      )}>${escapeHtml(content.text).replace(/\n/g, "<br />")}</td></tr>`;
+
+    case "heading": {
+      const level = /^h[1-6]$/.test(content.level) ? content.level : "h2";
+      return `<tr><td${attributes(
+        { align: content.textAlign || "left" },
+        { padding: "0 0 16px 0" },
+        context
+      )}><${level}${attributes(
+        {},
+        {
+          margin: "0",
+          "font-family": content.fontFamily || brandToken("headingFont"),
+          "font-size": content.fontSize,
+          "font-weight": content.fontWeight,
+          color: content.color,
+          "text-align": content.textAlign,
+          "line-height": "1.25",
+        },
+        context
+      )}>${escapeHtml(content.text)}</${level}></td></tr>`;
+    }
+
+    case "image": {
+      const src = isBrandToken(content.src)
+        ? context.tokens[content.src.slice(BRAND_TOKEN_PREFIX.length)]
+        : content.src;
+      if (!src) return "";
+      // Outlook ignores CSS widths on images, so fixed widths also go in the
+      // width attribute
+      const fixedWidth =
+        isBrandToken(content.width) || /^\d+px$/.test(content.width || "");
+      return `<tr><td${attributes(
+        { align: content.alignment || "center" },
+        { padding: "16px 0" },
+        context
+      )}><img${attributes(
+        {
+          src: content.src,
+          alt: content.alt,
+          width: fixedWidth ? content.width : undefined,
+        },
+        {
+          width: content.width,
+          height: content.height,
+          "max-width": "100%",
+          border: "0",
+          outline: "none",
+          "text-decoration": "none",
+        },
+        context
+      )} /></td></tr>`;
+    }
+
+    case "button":
+      return `<tr><td${attributes(
+        { align: content.alignment || "center" },
+        { padding: "16px 0" },
+        context
+      )}><table role="presentation" cellpadding="0" cellspacing="0" border="0"><tr><td${attributes(
+        { align: "center", bgcolor: content.backgroundColor },
+        {
+          "background-color": content.backgroundColor,
+          "border-radius": content.borderRadius,
+        },
+        context
+      )}><a href="${escapeAttribute(content.link)}" target="_blank"${attributes(
+        {},
+        {
+          display: "inline-block",
+          padding: content.padding,
+          "font-family": content.fontFamily || brandToken("bodyFont"),
+          "font-size": "14px",
+          color: content.textColor,
+          "text-decoration": "none",
+          "border-radius": content.borderRadius,
+        },
+        context
+      )}>${escapeHtml(content.text)}</a></td></tr></table></td></tr>`;
+
+    case "divider":
+      return `<tr><td${attributes(
+        {},
+        { padding: content.margin },
+        context
+      )}><table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"><tr><td${attributes(
+        {},
+        {
+          "border-top-width": content.height,
+          "border-top-style": "solid",
+          "border-top-color": content.color,
+          "font-size": "0",
+          "line-height": "0",
+        },
+        context
+      )}>&nbsp;</td></tr></table></td></tr>`;
+
+    case "spacer":
+      return `<tr><td${attributes(
+        { height: parseInt(content.height, 10) || 20 },
+        { height: content.height, "font-size": "0", "line-height": "0" },
+        context
+      )}>&nbsp;</td></tr>`;
+
+    case "columns":
+      return compileColumns(component, context);
+
+    case "snippet":
+      // Markers let the server swap in the latest rows when the master changes
+      return `<!-- csemail:snippet ${content.snippetId} -->
+${compileRows(content.components || [], context)}
+<!-- /csemail:snippet ${content.snippetId} -->`;
+
+    default:
+      return "";
+  }
+}
+
+/**
+ * Serialize the block document into an HTML comment that survives saving,
+ * copying and exporting the template
+ */
+export function encodeBlockDocument(emailDocument: EmailDocument): string {
+  return `<!-- ${BLOCKS_MARKER} v${emailDocument.version} ${encodeBase64(
+    JSON.stringify(emailDocument)
+  )} -->`;
+}
+
+/**
+ * Read the embedded block document from compiled HTML, if present
+ */
+export function extractBlockDocument(html: string): EmailDocument | null {
+  if (!html) return null;
+
+  const match = html.match(BLOCKS_COMMENT_REGEX);
+  if (!match) return null;
+
+  try {
+    const emailDocument = JSON.parse(decodeBase64(match[2])) as EmailDocument;
+    if (!Array.isArray(emailDocument.components)) return null;
+    return emailDocument;
+  } catch (error) {
+    console.error("Failed to decode embedded block document:", error);
+    return null;
+  }
+}
+
+/**
+ * Remove the embedded block document from compiled HTML
+ */
+export function stripBlockDocument(html: string): string {
+  return html.replace(new RegExp(BLOCKS_COMMENT_REGEX.source, "g"), "");
+}
+
+/**
+ * Compile blocks into bare table rows, as stored with a snippet
+ */
+export function compileEmailRows(
+  components: EmailComponent[],
+  options: Pick<CompileOptions, "brandKit"> = {}
+): string {
+  return compileRows(components, createContext(options.brandKit));
+}
+
+/**
+ * Compile editor blocks into a complete email HTML document
+ */
+export function compileEmailHtml(
+  components: EmailComponent[],
+  options: CompileOptions = {}
+): string {
+  const context = createContext(options.brandKit);
+  const subject = options.subject || "";
+
+  const rows = compileRows(components, context);
+
+  const blockDocument = encodeBlockDocument({
+    version: EMAIL_DOCUMENT_VERSION,
+    subject,
+    components,
+  });
+
+  const background = { "background-color": brandToken("background") };
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta http-equiv="X-UA-Compatible" content="IE=edge">
+<title>${escapeHtml(subject)}</title>
+${RESPONSIVE_STYLES}
+<style type="text/css" id="${LINK_STYLES_ID}">a { color: ${context.tokens.link}; }</style>
+</head>
+<body${attributes({}, { margin: "0", padding: "0", ...background }, context)}>
+${blockDocument}
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"${attributes({}, background, context)}>
+<tr><td align="center" style="padding: 20px">
+<table role="presentation"${attributes(
+    { width: brandToken("contentWidth") },
+    {
+      width: "100%",
+      "max-width": brandToken("contentWidth"),
+      "background-color": brandToken("surface"),
+    },
+    context
+  )} cellpadding="0" cellspacing="0" border="0">
+<tr><td style="padding: 20px">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+${rows}
+</table>
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+const SKIPPED_TAGS = ["style", "script", "head", "title", "meta"];
+
+const STRUCTURAL_SELECTOR =
+  "p, div, table, h1, h2, h3, h4, h5, h6, img, hr, li, blockquote, a[style*='background']";
+
+/**
+ * Read the visible text of an element, collapsing source whitespace and
+ * keeping explicit line breaks
+ */
+function readText(element: Element): string {
+  const clone = element.cloneNode(true) as Element;
+  const walker = element.ownerDocument.createTreeWalker(clone, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode;
+    node.textContent = (node.textContent || "").replace(/\s+/g, " ");
+  }
+  clone.querySelectorAll("br").forEach((br) => br.replaceWith("\n"));
+  return (clone.textContent || "")
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .trim();
+}
+
+/**
+ * Best-effort conversion of HTML that was not produced by the block editor.
+ * Recognisable elements become the matching block; anything else is kept as
+ * a text block so no content is silently dropped.
+ */
+export function htmlToComponents(html: string): EmailComponent[] {
+  const parsed = new DOMParser().parseFromString(html, "text/html");
+  const components: EmailComponent[] = [];
+
+  const pushText = (element: HTMLElement) => {
+    const text = readText(element);
+    if (!text) return;
+    components.push({
+      id: uuidv4(),
+      type: "text",
+      content: {
+        text,
+        fontSize: element.style.fontSize || "14px",
+        color: element.style.color || "#333333",
+        textAlign: element.style.textAlign || element.getAttribute("align") || "left",
+        fontWeight: element.style.fontWeight || "normal",
+      },
+    });
+  };
+
+  const visit = (element: Element) => {
+    const tag = element.tagName.toLowerCase();
+    const htmlElement = element as HTMLElement;
+
+    if (SKIPPED_TAGS.includes(tag)) return;
+
+    if (/^h[1-6]$/.test(tag)) {
+      components.push({
+        id: uuidv4(),
+        type: "heading",
+        content: {
+          text: readText(element),
+          fontSize: htmlElement.style.fontSize || "24px",
+          color: htmlElement.style.color || "#333333",
+          textAlign: htmlElement.style.textAlign || "left",
+          fontWeight: htmlElement.style.fontWeight || "bold",
+          level: ["h1", "h2", "h3", "h4"].includes(tag) ? tag : "h4",
+        },
+      });
+      return;
+    }
+
+    if (tag === "img") {
+      components.push({
+        id: uuidv4(),
+        type: "image",
+        content: {
+          src: element.getAttribute("src") || "",
+          alt: element.getAttribute("alt") || "",
+          width: htmlElement.style.width || element.getAttribute("width") || "100%",
+          height: htmlElement.style.height || "auto",
+          alignment: element.parentElement?.getAttribute("align") || "center",
+        },
+      });
+      return;
+    }
+
+    if (tag === "hr") {
+      components.push({
+        id: uuidv4(),
+        type: "divider",
+        content: { height: "1px", color: "#e2e8f0", margin: "20px 0" },
+      });
+      return;
+    }
+
+    if (tag === "a" && htmlElement.style.backgroundColor) {
+      components.push({
+        id: uuidv4(),
+        type: "button",
+        content: {
+          text: readText(element),
+          link: element.getAttribute("href") || "",
+          backgroundColor: htmlElement.style.backgroundColor,
+          textColor: htmlElement.style.color || "#ffffff",
+          borderRadius: htmlElement.style.borderRadius || "6px",
+          padding: htmlElement.style.padding || "12px 24px",
+          alignment: element.parentElement?.getAttribute("align") || "center",
+        },
+      });
+      return;
+    }
+
+    // Elements without block-level descendants become a single text block
+    if (!element.querySelector(STRUCTURAL_SELECTOR)) {
+      pushText(htmlElement);
+      return;
+    }
+
+    // Loose text and inline elements between block-level children are
+    // collected into text blocks of their own
+    let inline: Node[] = [];
+    const flushInline = () => {
+      const nodes = inline;
+      inline = [];
+      const elements = nodes.filter(
+        (node): node is Element => node.nodeType === Node.ELEMENT_NODE
+      );
+      const hasLooseText = nodes.some(
+        (node) =>
+          node.nodeType === Node.TEXT_NODE && node.textContent?.trim()
+      );
+      // A lone inline element keeps its own styles
+      if (!hasLooseText) {
+        elements.forEach(visit);
+        return;
+      }
+      const wrapper = parsed.createElement("div");
+      nodes.forEach((node) => wrapper.appendChild(node.cloneNode(true)));
+      pushText(wrapper);
+    };
+
+    element.childNodes.forEach((node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        inline.push(node);
+      } else if (node.nodeType === Node.ELEMENT_NODE) {
+        const child = node as Element;
+        if (SKIPPED_TAGS.includes(child.tagName.toLowerCase())) return;
+        if (
+          child.matches(STRUCTURAL_SELECTOR) ||
+          child.querySelector(STRUCTURAL_SELECTOR)
+        ) {
+          flushInline();
+          visit(child);
+        } else {
+          inline.push(child);
+        }
+      }
+    });
+    flushInline();
+  };
+
+  visit(parsed.body);
+  return components;
+}
+
+/**
+ * Load template HTML back into editor blocks. Templates saved by the block
+ * editor reopen exactly; other HTML is converted on a best-effort basis.
+ */
+export function parseEmailHtml(html: string): EmailDocument {
+  const embedded = extractBlockDocument(html);
+  if (embedded) return embedded;
+
+  return {
+    version: EMAIL_DOCUMENT_VERSION,
+    components: html ? htmlToComponents(html) : [],
+  };
+}
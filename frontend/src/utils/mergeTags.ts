@@ -0,0 +1,95 @@
+// Merge tag previews in the browser. Rendering is shared with the email
+// sender (shared/mergeTags.mjs), so previews match what recipients get.
+import {
+  buildMergeContext,
+  buildSystemVariables,
+  renderMergeTags,
+} from '../../../shared/mergeTags.mjs';
+import { TemplateSyntaxError } from '../../../shared/templateLanguage.mjs';
+
+export type {
+  MergeTag,
+  MergeTagGroup,
+  MergeTagLint,
+} from '../../../shared/mergeTags.mjs';
+export {
+  MERGE_TAG_CATALOG,
+  MERGE_TAG_GROUPS,
+  lintMergeTags,
+} from '../../../shared/mergeTags.mjs';
+
+// Recipient shown in previews that are not tied to a real contact
+export const SAMPLE_CONTACT = {
+  firstName: 'John',
+  lastName: 'Doe',
+  email: 'john@example.com',
+  phone: '+1 (555) 123-4567',
+  customFields: { company: 'Sample Company' },
+};
+
+interface PreviewOptions {
+  format?: 'html' | 'text';
+  contact?: Record<string, unknown>;
+}
+
+/**
+ * Render merge tags for a preview. Tags without a value stay visible as
+ * {{name}}, and malformed templates are returned as-is.
+ */
+export function previewMergeTags(
+  content: string,
+  variables: Record<string, unknown> = {},
+  { format = 'html', contact = {} }: PreviewOptions = {}
+): string {
+  const context = buildMergeContext({
+    contact,
+    variables,
+    system: buildSystemVariables({
+      email: String(contact.email ?? ''),
+      appUrl: window.location.origin,
+    }),
+  });
+
+  try {
+    return renderMergeTags(content, context, { format, mode: 'preview' });
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    console.warn('Template preview skipped:', error.message);
+    return content;
+  }
+}
+
+/**
+ * The partly typed variable at the caret, e.g. "first" in "Hi {{first" or
+ * "pl" in "{{#if pl". Returns null when the caret is not inside an open tag.
+ */
+export function findMergeTagQuery(
+  text: string,
+  caret: number
+): { start: number; query: string } | null {
+  const match = text
+    .slice(0, caret)
+    .match(/\{\{\s*(?:#(?:if|unless|each)\s+)?([\w.@-]*)$/);
+  if (!match) return null;
+  return { start: caret - match[1].length, query: match[1] };
+}
+
+/**
+ * Replace the partly typed variable between start and the caret with the
+ * chosen name and close the tag, reusing closing braces that are already
+ * there. Returns the new text and the caret position after the tag.
+ */
+export function insertMergeTag(
+  text: string,
+  start: number,
+  caret: number,
+  name: string
+): { text: string; caret: number } {
+  const rest = text.slice(caret).replace(/^[\w.@-]*/, '');
+  const closing = rest.match(/^\s*\}\}/)?.[0];
+  const inserted = closing ? name : `${name}}}`;
+  return {
+    text: text.slice(0, start) + inserted + rest,
+    caret: start + inserted.length + (closing?.length ?? 0),
+  };
+}
@@ -1,4 +1,8 @@
 // Template variable utilities for detecting and managing variables in email templates
+import {
+  TemplateSyntaxError,
+  collectTemplateVariables,
+} from '../../../shared/templateLanguage.mjs';
 
 export interface TemplateVariable {
   name: string;
@@ -10,18 +14,24 @@ export interface TemplateVariable {
 
 /**
  * Extract all template variables from HTML content
- * Looks for patterns like {{variable_name}} or {{variable.subfield}}
+ * Looks for patterns like {{variable_name}}, {{variable.subfield}},
+ * {{name | default: "there"}} and block conditions such as {{#if plan}}
  */
 export function extractVariablesFromContent(content: string): TemplateVariable[] {
   if (!content) return [];
 
-  // Regex to match {{variable_name}} patterns
-  const variableRegex = /\{\{([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)\}\}/g;
   const variables = new Set<string>();
-  let match;
+  try {
+    collectTemplateVariables(content).forEach(name => variables.add(name));
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
 
-  while ((match = variableRegex.exec(content)) !== null) {
-    variables.add(match[1]);
+    // Still offer the plain {{variable_name}} tags while the blocks are broken
+    const variableRegex = /\{\{([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)\}\}/g;
+    let match;
+    while ((match = variableRegex.exec(content)) !== null) {
+      variables.add(match[1]);
+    }
   }
 
   return Array.from(variables).map(name => {
@@ -102,23 +112,6 @@ function generateVariableDescription(name: string): string {
   return `The ${words.join(' ')} field`;
 }
 
-/**
- * Replace variables in content with provided values
- */
-export function replaceVariablesInContent(
-  content: string, 
-  variables: Record<string, string>
-): string {
-  let result = content;
-  
-  Object.entries(variables).forEach(([key, value]) => {
-    const regex = new RegExp(`\\{\\{${key}\\}\\}`, 'g');
-    result = result.replace(regex, value || `{{${key}}}`);
-  });
-  
-  return result;
-}
-
 /**
  * Validate that all required variables have values
  */
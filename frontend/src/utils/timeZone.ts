@@ -0,0 +1,46 @@
+// Date and time helpers for schedules, which are picked and shown in the
+// organization's timezone (Settings.timezone) rather than the browser's
+
+/**
+ * Date ("YYYY-MM-DD") and time ("HH:mm") of an instant in a timezone, in
+ * the formats date and time inputs use
+ */
+export const getZonedDateTime = (
+  date: Date,
+  timeZone: string
+): { date: string; time: string } => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+};
+
+/**
+ * Human readable date and time in a timezone, e.g. "Mar 1, 2025, 9:30 AM"
+ */
+export const formatInTimeZone = (value: string | Date, timeZone?: string) => {
+  const options: Intl.DateTimeFormatOptions = {
+    dateStyle: "medium",
+    timeStyle: "short",
+  };
+  try {
+    return new Date(value).toLocaleString(undefined, { ...options, timeZone });
+  } catch {
+    // Unknown timezone names throw
+    return new Date(value).toLocaleString(undefined, options);
+  }
+};
@@ -6,6 +6,12 @@ import path from 'path';
 export default defineConfig({
   plugins: [react()],
   envDir: path.resolve(__dirname, '../'), // Look for .env files in the root directory
+  server: {
+    fs: {
+      // The template language in ../shared is used by the server as well
+      allow: ['.', path.resolve(__dirname, '../shared')],
+    },
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
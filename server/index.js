@@ -16,6 +16,14 @@ if (process.env.NODE_ENV !== "production") {
 mongoose.set("bufferCommands", false); // Disable buffering in serverless
 mongoose.set("bufferTimeoutMS", 10000); // Set buffer timeout
 
+const {
+  migrateLegacySuppressionList,
+} = require("./services/suppressionService");
+const {
+  migrateDefaultSenderIdentity,
+} = require("./services/senderIdentityService");
+const { backfillCampaignEngagement } = require("./services/segmentService");
+
 // Connect to MongoDB with optimized settings for serverless
 let cachedDb = null;
 
@@ -33,6 +41,37 @@ const connectDB = async () => {
     });
     cachedDb = db;
     console.log("✓ MongoDB connected successfully");
+
+    // Suppressed addresses used to live in Settings.suppressionList
+    const moved = await migrateLegacySuppressionList().catch((error) => {
+      console.error("Suppression list migration failed:", error);
+      return 0;
+    });
+    if (moved > 0) {
+      console.log(`Moved ${moved} addresses to the suppression list`);
+    }
+
+    // Campaigns are sent as an approved sender identity; existing installs
+    // start with the sender from Settings
+    const identity = await migrateDefaultSenderIdentity().catch((error) => {
+      console.error("Sender identity migration failed:", error);
+      return null;
+    });
+    if (identity) {
+      console.log(`Created default sender identity ${identity.email}`);
+    }
+
+    // Segment engagement rules read opens and clicks kept on the contact;
+    // fill them in from older events in the background
+    backfillCampaignEngagement()
+      .then((count) => {
+        if (count > 0) {
+          console.log(`Filled in engagement for ${count} contact campaigns`);
+        }
+      })
+      .catch((error) => {
+        console.error("Segment engagement backfill failed:", error);
+      });
     return db;
   } catch (error) {
     console.error("✗ MongoDB connection error:", error.message);
@@ -47,12 +86,21 @@ const authRoutes = require("./routes/auth");
 const contactRoutes = require("./routes/contacts");
 const campaignRoutes = require("./routes/campaigns");
 const templateRoutes = require("./routes/templates");
+const snippetRoutes = require("./routes/snippets");
+const assetRoutes = require("./routes/assets");
 const reportRoutes = require("./routes/reports");
 const queueRoutes = require("./routes/queue");
 const userRoutes = require("./routes/users");
 const settingsRoutes = require("./routes/settings");
 const auditRoutes = require("./routes/audit");
 const activityRoutes = require("./routes/activity");
+const trackingRoutes = require("./routes/tracking");
+const unsubscribeRoutes = require("./routes/unsubscribe");
+const suppressionRoutes = require("./routes/suppression");
+const inboundRoutes = require("./routes/inbound");
+const senderRoutes = require("./routes/senders");
+const segmentRoutes = require("./routes/segments");
+const customFieldRoutes = require("./routes/customFields");
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -90,6 +138,25 @@ app.use(express.json({ limit: "50mb" }));
 // Static files
 // app.use("/uploads", express.static(path.join(__dirname, "uploads")));
 
+// Media library files kept on local disk. Images are embedded in emails and
+// the editor runs on another origin, so allow cross-origin loading.
+const {
+  LOCAL_ASSET_DIR,
+  LOCAL_ASSET_ROUTE,
+  checkAssetStorage,
+} = require("./services/assetStorage");
+checkAssetStorage();
+app.use(
+  LOCAL_ASSET_ROUTE,
+  express.static(LOCAL_ASSET_DIR, {
+    maxAge: "365d",
+    immutable: true,
+    setHeaders: (res) => {
+      res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+    },
+  })
+);
+
 // Handle preflight requests explicitly for all routes
 app.use((req, res, next) => {
   if (req.method === "OPTIONS") {
@@ -134,12 +201,21 @@ app.use("/api/auth", authRoutes);
 app.use("/api/contacts", contactRoutes);
 app.use("/api/campaigns", campaignRoutes);
 app.use("/api/templates", templateRoutes);
+app.use("/api/snippets", snippetRoutes);
+app.use("/api/assets", assetRoutes);
 app.use("/api/reports", reportRoutes);
 app.use("/api/queue", queueRoutes);
 app.use("/api/users", userRoutes);
 app.use("/api/settings", settingsRoutes);
 app.use("/api/audit", auditRoutes);
 app.use("/api/activity", activityRoutes);
+app.use("/api/track", trackingRoutes);
+app.use("/api/unsubscribe", unsubscribeRoutes);
+app.use("/api/suppression", suppressionRoutes);
+app.use("/api/inbound", inboundRoutes);
+app.use("/api/senders", senderRoutes);
+app.use("/api/segments", segmentRoutes);
+app.use("/api/custom-fields", customFieldRoutes);
 
 // Health check
 app.get("/api/health", (req, res) => {
@@ -148,6 +224,9 @@ app.get("/api/health", (req, res) => {
 
 // Error handling middleware
 app.use((err, req, res, next) => {
+  if (err.type === "entity.parse.failed") {
+    return res.status(400).json({ error: "Malformed JSON body" });
+  }
   console.error(err.stack);
   res.status(500).json({
     error: "Something went wrong!",
@@ -168,6 +247,24 @@ if (process.env.NODE_ENV !== "production") {
   app.listen(PORT, () => {
     console.log(`Emmisor server running on port ${PORT}`);
   });
+
+  // Send queued emails, dispatch scheduled campaigns and read the bounce
+  // mailbox from this process unless a separate worker (npm run worker) is
+  // used
+  if (process.env.RUN_QUEUE_WORKER !== "false") {
+    require("./services/queueService").startQueueWorker();
+    require("./services/schedulerService").startScheduler();
+    require("./services/bounceMailboxService").startBounceProcessor();
+  } else {
+    console.warn(
+      "Queue worker disabled (RUN_QUEUE_WORKER=false): campaigns are only sent while npm run worker is running"
+    );
+  }
+} else {
+  // Serverless functions cannot keep a worker running
+  console.warn(
+    "No queue worker in production: start npm run worker in server/ to send campaigns, dispatch scheduled ones and read bounces"
+  );
 }
 
 // Export for Vercel serverless
@@ -0,0 +1,37 @@
+const mongoose = require("mongoose");
+
+// Uploaded image in the media library
+const assetSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true }, // Original file name
+    alt: { type: String, default: "" },
+    tags: [{ type: String }],
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true }, // Bytes
+    width: { type: Number },
+    height: { type: Number },
+    // Where the file lives: "local" disk or an S3-compatible bucket
+    storage: { type: String, enum: ["local", "s3"], default: "local" },
+    key: { type: String, required: true },
+    url: { type: String, required: true },
+    thumbnail: {
+      key: { type: String },
+      url: { type: String },
+      width: { type: Number },
+      height: { type: Number },
+    },
+    uploadedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+assetSchema.index({ name: "text", alt: "text", tags: "text" });
+assetSchema.index({ createdAt: -1 });
+assetSchema.index({ url: 1 });
+
+const Asset = mongoose.model("Asset", assetSchema);
+module.exports = Asset;
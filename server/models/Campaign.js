@@ -6,11 +6,19 @@ const campaignSchema = new mongoose.Schema(
     subject: { type: String, required: true },
     content: { type: String }, // Make optional since we might use templates
     htmlContent: { type: String }, // Support both content and htmlContent
+    // Custom plain-text alternative. When empty the template's text (or text
+    // generated from the HTML) is used.
+    textContent: { type: String, default: "" },
 
     // Email sender information
     fromName: { type: String, required: true },
     fromEmail: { type: String, required: true },
     replyToEmail: { type: String },
+    // Identity the From fields were copied from (see models/SenderIdentity.js)
+    senderIdentityId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "SenderIdentity",
+    },
     preheader: { type: String },
 
     // Template support
@@ -32,17 +40,41 @@ const campaignSchema = new mongoose.Schema(
       default: "draft",
     },
     scheduledAt: { type: Date },
+    scheduledBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    scheduledTimezone: { type: String }, // Settings.timezone when scheduled
     sentAt: { type: Date },
+    sentBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    // Set once every recipient has a queue job. Null while jobs are still
+    // being created (see services/queueService.js).
+    queuedAt: { type: Date },
+    // When a scheduler process started creating the jobs. Null for a sent
+    // campaign waits for the next scheduler tick (see
+    // services/schedulerService.js).
+    queueingAt: { type: Date },
+    // "optimized" sends to each recipient at the hour they usually open,
+    // within the delivery window (see services/sendTimeService.js)
+    deliveryMode: {
+      type: String,
+      enum: ["immediate", "optimized"],
+      default: "immediate",
+    },
+    deliveryWindow: {
+      startHour: { type: Number, default: 9, min: 0, max: 23 },
+      endHour: { type: Number, default: 17, min: 1, max: 24 },
+    },
 
     // Recipient and delivery tracking
     totalRecipients: { type: Number, default: 0 },
     sentCount: { type: Number, default: 0 },
     failedCount: { type: Number, default: 0 },
+    // Recipients dropped after queueing: inactive or suppressed since
+    skippedCount: { type: Number, default: 0 },
     deliveredCount: { type: Number, default: 0 },
     openedCount: { type: Number, default: 0 },
     clickedCount: { type: Number, default: 0 },
     bouncedCount: { type: Number, default: 0 },
     unsubscribedCount: { type: Number, default: 0 },
+    complainedCount: { type: Number, default: 0 },
 
     // Legacy fields (for backward compatibility)
     recipientCount: { type: Number, default: 0 },
@@ -55,9 +87,14 @@ const campaignSchema = new mongoose.Schema(
       required: true,
     },
     lists: [{ type: mongoose.Schema.Types.ObjectId, ref: "ContactList" }],
+    // Dynamic segments, evaluated when the campaign is queued
+    segments: [{ type: mongoose.Schema.Types.ObjectId, ref: "Segment" }],
   },
   { timestamps: true }
 );
 
+// Finding scheduled campaigns that are due
+campaignSchema.index({ status: 1, scheduledAt: 1 });
+
 const Campaign = mongoose.model("Campaign", campaignSchema);
 module.exports = Campaign;
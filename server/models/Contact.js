@@ -8,7 +8,7 @@ const contactSchema = new mongoose.Schema(
     phone: { type: String },
     status: {
       type: String,
-      enum: ["active", "inactive", "bounced", "unsubscribed"],
+      enum: ["active", "inactive", "bounced", "unsubscribed", "complained"],
       default: "active",
     },
     tags: {
@@ -16,7 +16,25 @@ const contactSchema = new mongoose.Schema(
       enum: ["order", "confirmation", "receipt", "newsletter", "promotion", "ecommerce"],
       default: ["order", "confirmation", "receipt", "newsletter", "promotion", "ecommerce"]
     },
-    customFields: { type: Map, of: String },
+    // Typed by the CustomField definitions, plain text otherwise
+    customFields: { type: Map, of: mongoose.Schema.Types.Mixed },
+    timezone: { type: String }, // IANA name, for send-time optimization
+    // Tracked opens, counted per UTC hour (see services/sendTimeService.js)
+    engagement: {
+      openCount: { type: Number, default: 0 },
+      lastOpenedAt: { type: Date },
+      openHours: { type: Map, of: Number },
+      // Latest open and click per campaign, for segment engagement rules
+      // (see services/segmentService.js). A click counts as an open.
+      campaigns: [
+        {
+          _id: false,
+          campaignId: { type: mongoose.Schema.Types.ObjectId, ref: "Campaign" },
+          lastOpenedAt: { type: Date },
+          lastClickedAt: { type: Date },
+        },
+      ],
+    },
     lists: [{ type: mongoose.Schema.Types.ObjectId, ref: "ContactList" }],
     createdBy: {
       type: mongoose.Schema.Types.ObjectId,
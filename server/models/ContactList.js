@@ -5,6 +5,8 @@ const contactListSchema = new mongoose.Schema(
     name: { type: String, required: true },
     description: { type: String },
     contactCount: { type: Number, default: 0 },
+    // Send-time optimization timezone for contacts without their own
+    defaultTimezone: { type: String },
     createdBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: "User",
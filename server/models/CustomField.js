@@ -0,0 +1,42 @@
+const mongoose = require("mongoose");
+
+// Admin-defined contact field, stored on contacts as customFields.<key>
+// (see services/customFieldService.js). Keys without a definition hold
+// plain text.
+const customFieldSchema = new mongoose.Schema(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      match: /^[\w-]+$/,
+    },
+    label: { type: String, required: true, trim: true },
+    type: {
+      type: String,
+      enum: ["text", "number", "date", "boolean", "select", "multiselect"],
+      default: "text",
+    },
+    // Choices of select and multiselect fields
+    options: [{ type: String, trim: true }],
+    required: { type: Boolean, default: false },
+    // Set on new contacts that have no value
+    defaultValue: { type: mongoose.Schema.Types.Mixed },
+    // Bounds of number fields, and length and pattern of text fields
+    min: { type: Number },
+    max: { type: Number },
+    maxLength: { type: Number },
+    pattern: { type: String },
+    order: { type: Number, default: 0 },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+const CustomField = mongoose.model("CustomField", customFieldSchema);
+module.exports = CustomField;
@@ -0,0 +1,42 @@
+const mongoose = require("mongoose");
+
+// Something a recipient did with a campaign email (see
+// services/trackingService.js). Every open and click is stored; the first
+// one per recipient is also marked on their queue job.
+const emailEventSchema = new mongoose.Schema(
+  {
+    campaignId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Campaign",
+      required: true,
+    },
+    contactId: { type: mongoose.Schema.Types.ObjectId, ref: "Contact" },
+    jobId: { type: mongoose.Schema.Types.ObjectId, ref: "Queue" },
+    email: { type: String },
+    type: {
+      type: String,
+      enum: [
+        "delivered",
+        "opened",
+        "clicked",
+        "bounced",
+        "unsubscribed",
+        "complained",
+      ],
+      required: true,
+    },
+    url: { type: String }, // Link that was clicked
+    linkIndex: { type: Number }, // Its position among the tracked links
+    details: { type: mongoose.Schema.Types.Mixed },
+    ipAddress: { type: String },
+    userAgent: { type: String },
+  },
+  { timestamps: true }
+);
+
+// Campaign reports: events of a type over time, and per recipient
+emailEventSchema.index({ campaignId: 1, type: 1, createdAt: 1 });
+emailEventSchema.index({ jobId: 1, type: 1 });
+
+const EmailEvent = mongoose.model("EmailEvent", emailEventSchema);
+module.exports = EmailEvent;
@@ -0,0 +1,48 @@
+const mongoose = require("mongoose");
+
+// A contact import running in the background (see
+// services/contactImportService.js). The counters are updated after every
+// batch, and rejected rows are kept as ImportRowError documents.
+const importJobSchema = new mongoose.Schema(
+  {
+    fileName: { type: String, required: true },
+    fileSize: { type: Number, default: 0 },
+    // Field to column, e.g. { email: "E-mail" }
+    mapping: { type: mongoose.Schema.Types.Mixed, required: true },
+    listId: { type: mongoose.Schema.Types.ObjectId, ref: "ContactList" },
+    // What happens to contacts whose email already exists
+    strategy: {
+      type: String,
+      enum: ["skip", "overwrite", "fill_blanks", "merge_tags"],
+      default: "skip",
+    },
+    dryRun: { type: Boolean, default: false },
+    status: {
+      type: String,
+      enum: ["running", "completed", "failed"],
+      default: "running",
+    },
+    bytesRead: { type: Number, default: 0 },
+    processed: { type: Number, default: 0 },
+    created: { type: Number, default: 0 },
+    updated: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 },
+    duplicates: { type: Number, default: 0 },
+    invalid: { type: Number, default: 0 },
+    error: { type: String },
+    // Set after every batch; running jobs that stop updating it have died
+    heartbeatAt: { type: Date, default: Date.now },
+    finishedAt: { type: Date },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+importJobSchema.index({ createdBy: 1, createdAt: -1 });
+
+const ImportJob = mongoose.model("ImportJob", importJobSchema);
+module.exports = ImportJob;
@@ -0,0 +1,22 @@
+const mongoose = require("mongoose");
+
+// A file row an import rejected, for the job's downloadable error report
+const importRowErrorSchema = new mongoose.Schema(
+  {
+    jobId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "ImportJob",
+      required: true,
+    },
+    // Line in the file; the header is line 1
+    row: { type: Number, required: true },
+    email: { type: String },
+    reason: { type: String, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+importRowErrorSchema.index({ jobId: 1, row: 1 });
+
+const ImportRowError = mongoose.model("ImportRowError", importRowErrorSchema);
+module.exports = ImportRowError;
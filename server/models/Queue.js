@@ -15,16 +15,47 @@ const queueSchema = new mongoose.Schema(
     email: { type: String, required: true },
     status: {
       type: String,
-      enum: ["pending", "sending", "sent", "failed", "bounced"],
+      // "skipped": the contact became inactive or suppressed after queueing
+      enum: ["pending", "sending", "sent", "failed", "bounced", "skipped"],
       default: "pending",
     },
     sentAt: { type: Date },
+    messageId: { type: String },
     errorMessage: { type: String },
+    // See services/smtpErrorService.js
+    errorClass: { type: String, enum: ["transient", "permanent", "policy"] },
+    responseCode: { type: Number },
     retryCount: { type: Number, default: 0 },
     maxRetries: { type: Number, default: 3 },
+    nextAttemptAt: { type: Date }, // Pending jobs wait until then to retry
+    notBefore: { type: Date }, // Optimized send time for this recipient
+
+    // Worker bookkeeping (see services/queueService.js)
+    queuedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    lockedBy: { type: String }, // Worker that claimed the job
+    lockedAt: { type: Date },
+    lastAttemptAt: { type: Date },
+
+    // First tracked open and click (see services/trackingService.js)
+    openedAt: { type: Date },
+    clickedAt: { type: Date },
+    // Unsubscribe through this email (see services/unsubscribeService.js)
+    unsubscribedAt: { type: Date },
+    // Bounce and complaint reports (see services/feedbackService.js)
+    bouncedAt: { type: Date },
+    complainedAt: { type: Date },
   },
   { timestamps: true }
 );
 
+// A contact is queued at most once per campaign, so enqueueing again only
+// adds the recipients that are missing
+queueSchema.index({ campaignId: 1, contactId: 1 }, { unique: true });
+// Claiming the oldest pending job that is due and measuring the send rate
+queueSchema.index({ status: 1, notBefore: 1, nextAttemptAt: 1, createdAt: 1 });
+queueSchema.index({ lastAttemptAt: 1 });
+// Matching bounce and complaint reports to the email they are about
+queueSchema.index({ messageId: 1 }, { sparse: true });
+
 const Queue = mongoose.model("Queue", queueSchema);
 module.exports = Queue;
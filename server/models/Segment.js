@@ -0,0 +1,25 @@
+const mongoose = require("mongoose");
+
+// A saved contact filter (see services/segmentService.js). Campaigns that
+// target a segment get the contacts matching its rules when they are sent,
+// not when they are created.
+const segmentSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    description: { type: String },
+    // Root rule group: { type: "group", combinator, rules }
+    rules: { type: mongoose.Schema.Types.Mixed, required: true },
+    // Matching contacts when the segment was last saved or counted
+    contactCount: { type: Number, default: 0 },
+    countedAt: { type: Date },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+const Segment = mongoose.model("Segment", segmentSchema);
+module.exports = Segment;
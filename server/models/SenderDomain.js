@@ -0,0 +1,39 @@
+const mongoose = require("mongoose");
+
+// Result of one DNS record check (see services/senderDomainService.js)
+const recordCheckSchema = new mongoose.Schema(
+  {
+    status: {
+      type: String,
+      enum: ["valid", "missing", "invalid", "error"],
+      required: true,
+    },
+    record: { type: String },
+    message: { type: String },
+  },
+  { _id: false }
+);
+
+// The SPF, DKIM and DMARC records last found for a sender domain
+const senderDomainSchema = new mongoose.Schema(
+  {
+    domain: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    dkimSelector: { type: String, default: "default", trim: true },
+    spf: recordCheckSchema,
+    dkim: recordCheckSchema,
+    dmarc: recordCheckSchema,
+    verified: { type: Boolean, default: false },
+    checkedAt: { type: Date },
+    checkedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+const SenderDomain = mongoose.model("SenderDomain", senderDomainSchema);
+module.exports = SenderDomain;
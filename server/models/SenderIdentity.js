@@ -0,0 +1,38 @@
+const mongoose = require("mongoose");
+
+// A From address campaigns may send as (see routes/senders.js). Only
+// approved identities are offered when creating a campaign. Identities with
+// their own SMTP profile send through it instead of the server in Settings.
+const senderIdentitySchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    email: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    replyToEmail: { type: String, lowercase: true, trim: true },
+    // Part of the address after the @, checked in SenderDomain
+    domain: { type: String, required: true, lowercase: true },
+    smtp: {
+      host: { type: String },
+      port: { type: Number },
+      user: { type: String },
+      password: { type: String },
+      secure: { type: Boolean, default: false },
+    },
+    approved: { type: Boolean, default: false },
+    approvedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    approvedAt: { type: Date },
+    isDefault: { type: Boolean, default: false },
+    createdBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+senderIdentitySchema.index({ approved: 1, name: 1 });
+
+const SenderIdentity = mongoose.model("SenderIdentity", senderIdentitySchema);
+module.exports = SenderIdentity;
@@ -16,6 +16,7 @@ const settingsSchema = new mongoose.Schema(
 
     // System Settings
     suppressionEnabled: { type: Boolean, default: true },
+    // Legacy, moved to the Suppression collection on startup
     suppressionList: [{ type: String }],
 
     // Rate Limiting
@@ -31,6 +32,36 @@ const settingsSchema = new mongoose.Schema(
     systemName: { type: String, default: "CSE Mail" },
     timezone: { type: String, default: "UTC" },
 
+    // Brand Kit (defaults live in shared/brandKit.mjs)
+    brandKit: {
+      palette: {
+        primary: { type: String },
+        secondary: { type: String },
+        accent: { type: String },
+        text: { type: String },
+        muted: { type: String },
+        background: { type: String },
+        surface: { type: String },
+      },
+      fonts: {
+        heading: { type: String },
+        body: { type: String },
+      },
+      button: {
+        backgroundColor: { type: String },
+        textColor: { type: String },
+        borderRadius: { type: String },
+        padding: { type: String },
+      },
+      logo: {
+        url: { type: String },
+        alt: { type: String },
+        width: { type: String },
+      },
+      linkColor: { type: String },
+      contentWidth: { type: Number, min: 320, max: 900 },
+    },
+
     // Metadata
     updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
     isDefault: { type: Boolean, default: true }, // Only one default settings doc
@@ -0,0 +1,32 @@
+const mongoose = require("mongoose");
+
+// Reusable group of block editor blocks (header, footer, disclaimer, ...)
+const snippetSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true },
+    description: { type: String },
+    category: {
+      type: String,
+      enum: ["header", "footer", "legal", "content", "other"],
+      default: "other",
+    },
+    // Block editor JSON, as produced by the frontend editor
+    components: { type: [mongoose.Schema.Types.Mixed], default: [] },
+    // Compiled table rows for the blocks, used to update linked templates
+    html: { type: String, default: "" },
+    version: { type: Number, default: 1 },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+snippetSchema.index({ isActive: 1, category: 1, name: 1 });
+
+const Snippet = mongoose.model("Snippet", snippetSchema);
+module.exports = Snippet;
@@ -0,0 +1,31 @@
+const mongoose = require("mongoose");
+
+// An address that is never sent to (see services/suppressionService.js),
+// with why it was added and, for bounces and unsubscribes, the campaign
+// that caused it
+const suppressionSchema = new mongoose.Schema(
+  {
+    email: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    reason: {
+      type: String,
+      enum: ["bounced", "unsubscribed", "complained", "manual"],
+      default: "manual",
+    },
+    campaignId: { type: mongoose.Schema.Types.ObjectId, ref: "Campaign" },
+    contactId: { type: mongoose.Schema.Types.ObjectId, ref: "Contact" },
+    note: { type: String },
+    addedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+suppressionSchema.index({ reason: 1, createdAt: -1 });
+
+const Suppression = mongoose.model("Suppression", suppressionSchema);
+module.exports = Suppression;
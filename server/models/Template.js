@@ -17,6 +17,8 @@ const templateSchema = new mongoose.Schema(
     name: { type: String, required: true },
     subject: { type: String, required: true },
     content: { type: String, required: true },
+    // Custom plain-text alternative. Generated from content when empty.
+    textContent: { type: String, default: "" },
     description: { type: String },
     category: {
       type: String,
@@ -57,6 +59,7 @@ const templateSchema = new mongoose.Schema(
       estimatedSize: { type: Number }, // Email size in KB
       wordCount: { type: Number },
       imageCount: { type: Number },
+      imageSize: { type: Number }, // Size of media library images in KB
       linkCount: { type: Number },
     },
     // Version control fields
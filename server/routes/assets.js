@@ -0,0 +1,239 @@
+const express = require("express");
+const multer = require("multer");
+const Asset = require("../models/Asset");
+const AuditLog = require("../models/AuditLog");
+const { authenticateToken, requireRole } = require("../middleware/auth");
+const {
+  ALLOWED_IMAGE_TYPES,
+  MAX_ASSET_SIZE,
+  storeAsset,
+  removeAssetFiles,
+} = require("../services/assetService");
+
+const router = express.Router();
+
+// Keep uploads in memory: they are measured, thumbnailed and then written to
+// the configured asset storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_ASSET_SIZE,
+    files: 20,
+  },
+  fileFilter: (req, file, cb) => {
+    if (ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(
+        new Error(
+          "Invalid file type. Only JPEG, PNG, GIF and WebP images are allowed."
+        )
+      );
+    }
+  },
+});
+
+// Turn upload errors (size, type) into a 400 instead of a server error
+const uploadImages = (req, res, next) => {
+  upload.array("files", 20)(req, res, (error) => {
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+    next();
+  });
+};
+
+// Public origin of this server, used to build URLs for locally stored files
+const getBaseUrl = (req) =>
+  `${req.get("x-forwarded-proto") || req.protocol}://${req.get("host")}`;
+
+const parseTags = (tags) =>
+  (Array.isArray(tags) ? tags : String(tags || "").split(","))
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+// Get media library assets
+router.get(
+  "/",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const { page = 1, limit = 40, search } = req.query;
+      const offset = (page - 1) * limit;
+
+      const query = {};
+      if (search) {
+        const pattern = new RegExp(
+          search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+          "i"
+        );
+        query.$or = [{ name: pattern }, { alt: pattern }, { tags: pattern }];
+      }
+
+      const assets = await Asset.find(query)
+        .skip(offset)
+        .limit(parseInt(limit))
+        .sort({ createdAt: -1 });
+
+      const count = await Asset.countDocuments(query);
+
+      res.json({
+        assets,
+        pagination: {
+          page: parseInt(page),
+          limit: parseInt(limit),
+          total: count,
+          pages: Math.ceil(count / limit),
+        },
+      });
+    } catch (error) {
+      console.error("Get assets error:", error);
+      res.status(500).json({ error: "Failed to fetch assets" });
+    }
+  }
+);
+
+// Get single asset
+router.get(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const asset = await Asset.findById(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+      res.json(asset);
+    } catch (error) {
+      console.error("Get asset error:", error);
+      res.status(500).json({ error: "Failed to fetch asset" });
+    }
+  }
+);
+
+// Upload images. Each file is stored independently, so one unreadable image
+// does not fail the whole batch.
+router.post(
+  "/",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  uploadImages,
+  async (req, res) => {
+    try {
+      if (!req.files || req.files.length === 0) {
+        return res.status(400).json({ error: "No files uploaded" });
+      }
+
+      const tags = parseTags(req.body.tags);
+      const assets = [];
+      const errors = [];
+
+      for (const file of req.files) {
+        try {
+          assets.push(
+            await storeAsset(file, {
+              userId: req.user._id,
+              baseUrl: getBaseUrl(req),
+              alt: req.body.alt || "",
+              tags,
+            })
+          );
+        } catch (error) {
+          console.error(`Asset upload error (${file.originalname}):`, error);
+          errors.push({ file: file.originalname, error: error.message });
+        }
+      }
+
+      if (assets.length > 0) {
+        await AuditLog.create({
+          userId: req.user._id,
+          action: "assets_uploaded",
+          targetType: "asset",
+          targetId: assets.map((asset) => asset._id),
+          details: {
+            files: assets.map((asset) => asset.name),
+            failed: errors.length,
+          },
+        });
+      }
+
+      res.status(assets.length > 0 ? 201 : 400).json({ assets, errors });
+    } catch (error) {
+      console.error("Upload assets error:", error);
+      res.status(500).json({ error: "Failed to upload assets" });
+    }
+  }
+);
+
+// Update asset details
+router.put(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const { name, alt, tags } = req.body;
+
+      const update = {};
+      if (name !== undefined) update.name = name;
+      if (alt !== undefined) update.alt = alt;
+      if (tags !== undefined) update.tags = parseTags(tags);
+
+      const asset = await Asset.findByIdAndUpdate(req.params.id, update, {
+        new: true,
+      });
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "asset_updated",
+        targetType: "asset",
+        targetId: asset._id,
+        details: update,
+      });
+
+      res.json(asset);
+    } catch (error) {
+      console.error("Update asset error:", error);
+      res.status(500).json({ error: "Failed to update asset" });
+    }
+  }
+);
+
+// Delete asset and its files. Emails that already embed the image will no
+// longer be able to load it.
+router.delete(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const asset = await Asset.findById(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      await removeAssetFiles(asset);
+      await asset.deleteOne();
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "asset_deleted",
+        targetType: "asset",
+        targetId: asset._id,
+        details: { name: asset.name, url: asset.url },
+      });
+
+      res.json({ message: "Asset deleted successfully" });
+    } catch (error) {
+      console.error("Delete asset error:", error);
+      res.status(500).json({ error: "Failed to delete asset" });
+    }
+  }
+);
+
+module.exports = router;
@@ -1,15 +1,99 @@
 const express = require("express");
+const mongoose = require("mongoose");
 const Campaign = require("../models/Campaign");
 const Template = require("../models/Template");
 const Contact = require("../models/Contact");
 const ContactList = require("../models/ContactList");
+const Segment = require("../models/Segment");
 const Queue = require("../models/Queue");
+const EmailEvent = require("../models/EmailEvent");
 const AuditLog = require("../models/AuditLog");
 const emailService = require("../services/emailService");
+const {
+  findTemplateSyntaxError,
+  reportUnresolvedTags,
+} = require("../services/mergeTagService");
+const { hasSendableRecipients } = require("../services/queueService");
+const { getScheduleTimeZone } = require("../services/schedulerService");
+const { parseScheduleTime } = require("../services/timezoneService");
+const { parseDeliveryWindow } = require("../services/sendTimeService");
+const {
+  findApprovedIdentity,
+  campaignSenderFields,
+} = require("../services/senderIdentityService");
+const { buildRecipientQuery } = require("../services/segmentService");
 const { authenticateToken, requireRole } = require("../middleware/auth");
 
 const router = express.Router();
 
+/**
+ * Read a requested send time. Times without a UTC offset are in the
+ * organization timezone (Settings.timezone).
+ * @param {string} sendAt - Requested time
+ * @returns {Promise<object>} { scheduledAt, timeZone } or { error }
+ */
+async function parseRequestedSchedule(sendAt) {
+  const timeZone = await getScheduleTimeZone();
+  const scheduledAt = parseScheduleTime(sendAt, timeZone);
+  if (!scheduledAt) {
+    return { error: "Invalid schedule time" };
+  }
+  if (scheduledAt <= new Date()) {
+    return { error: "Schedule time must be in the future" };
+  }
+  return { scheduledAt, timeZone };
+}
+
+/**
+ * Subject, HTML and text a campaign is sent with. Template campaigns send
+ * the template's subject and HTML.
+ * @param {object} campaign - Campaign
+ * @param {object} template - Its template, if it uses one
+ * @returns {object} { subject, html, text }
+ */
+function getSendContent(campaign, template = null) {
+  return {
+    subject: template ? template.subject : campaign.subject,
+    html: template ? template.content : campaign.htmlContent,
+    text: campaign.textContent || template?.textContent || "",
+  };
+}
+
+/**
+ * Check content for template syntax errors before it is saved or queued,
+ * since the queue worker cannot render it
+ * @param {object} content - { subject, html, text }
+ * @returns {object|null} Body of the 400 response, or null when it parses
+ */
+function checkTemplateSyntax(content) {
+  const syntaxError = findTemplateSyntaxError(content);
+  if (!syntaxError) return null;
+  const { part, message, position } = syntaxError;
+  return {
+    error: `Template error in the ${part} at character ${position}: ${message}`,
+    part,
+    position,
+  };
+}
+
+/**
+ * Read the requested delivery mode. "optimized" sends to each recipient at
+ * their best hour within the delivery window.
+ * @param {object} body - { deliveryMode, deliveryWindow }
+ * @returns {object} { delivery } with the fields to set, or { error }
+ */
+function parseDeliveryOptions({ deliveryMode, deliveryWindow }) {
+  if (deliveryMode === undefined) return { delivery: {} };
+  if (deliveryMode === "immediate") return { delivery: { deliveryMode } };
+  if (deliveryMode !== "optimized") {
+    return { error: "Delivery mode must be immediate or optimized" };
+  }
+
+  const window = parseDeliveryWindow(deliveryWindow);
+  if (window.error) return { error: window.error };
+  return { delivery: { deliveryMode, deliveryWindow: window.deliveryWindow } };
+}
+
 // Get all campaigns
 router.get(
   "/",
@@ -66,23 +150,29 @@ router.post(
       const {
         name,
         subject,
-        fromName,
-        fromEmail,
-        replyToEmail,
+        senderIdentityId,
         preheader,
         htmlContent,
+        textContent = "",
         templateId, // NEW: Support for template-based campaigns
         variables = {}, // NEW: Template variables
         listIds = [],
+        segmentIds = [],
         scheduledAt,
         status,
       } = req.body;
 
       // Validate required fields
-      if (!name || !fromEmail) {
+      if (!name) {
+        return res.status(400).json({ error: "Name is required" });
+      }
+
+      // The From fields come from an approved sender identity
+      const identity = await findApprovedIdentity(senderIdentityId);
+      if (!identity) {
         return res
           .status(400)
-          .json({ error: "Name and from email are required" });
+          .json({ error: "An approved sender identity is required" });
       }
 
       // Check if using template or custom content
@@ -108,9 +198,50 @@ router.post(
           .json({ error: "Subject and content are required" });
       }
 
-      // Get recipient count
+      const syntaxError = checkTemplateSyntax({
+        subject: campaignSubject,
+        html: campaignContent,
+        text: textContent || usedTemplate?.textContent || "",
+      });
+      if (syntaxError) {
+        return res.status(400).json(syntaxError);
+      }
+
+      let schedule = null;
+      if (scheduledAt) {
+        schedule = await parseRequestedSchedule(scheduledAt);
+        if (schedule.error) {
+          return res.status(400).json({ error: schedule.error });
+        }
+      }
+
+      const { delivery, error: deliveryError } = parseDeliveryOptions(
+        req.body
+      );
+      if (deliveryError) {
+        return res.status(400).json({ error: deliveryError });
+      }
+
+      if (!Array.isArray(segmentIds)) {
+        return res.status(400).json({ error: "segmentIds must be an array" });
+      }
+      if (segmentIds.length > 0) {
+        const segmentCount = await Segment.countDocuments({
+          _id: { $in: segmentIds.filter(mongoose.isValidObjectId) },
+        });
+        if (segmentCount !== new Set(segmentIds).size) {
+          return res.status(400).json({ error: "Segment not found" });
+        }
+      }
+
+      // Get recipient count. Segments are counted now, but their contacts
+      // are only fixed when the campaign is queued.
       let totalRecipients = 0;
-      if (listIds.length > 0) {
+      if (segmentIds.length > 0) {
+        totalRecipients = await Contact.countDocuments(
+          await buildRecipientQuery({ lists: listIds, segments: segmentIds })
+        );
+      } else if (listIds.length > 0) {
         const lists = await ContactList.find({
           _id: { $in: listIds },
         });
@@ -123,125 +254,46 @@ router.post(
       const campaign = new Campaign({
         name,
         subject: campaignSubject,
-        fromName,
-        fromEmail,
-        replyToEmail: replyToEmail || fromEmail,
+        ...campaignSenderFields(identity),
         preheader,
         htmlContent: campaignContent,
+        textContent,
         templateId: templateId || null, // Store template reference
         variables: variables, // Store campaign variables
-        status: scheduledAt ? "scheduled" : status || "draft",
-        scheduledAt,
+        status: schedule ? "scheduled" : status || "draft",
+        scheduledAt: schedule?.scheduledAt,
+        scheduledBy: schedule ? req.user._id : undefined,
+        scheduledTimezone: schedule?.timeZone,
+        ...delivery,
         lists: listIds,
+        segments: segmentIds,
         totalRecipients,
         createdBy: req.user._id,
       });
 
-      await campaign.save();
-
-      // If status is "sending", send the campaign immediately
-      if (status === "sending") {
-        try {
-          console.log("Campaign sending - Selected list IDs:", listIds);
-
-          // Get contacts from selected lists
-          const contacts = await Contact.find({
-            lists: { $in: listIds },
-            status: "active",
-          });
-
-          console.log("Found contacts for sending:", contacts.length);
-          console.log(
-            "Contact details:",
-            contacts.map((c) => ({ email: c.email, lists: c.lists }))
-          );
-
-          if (contacts.length === 0) {
-            console.log("No contacts found - returning error");
-            return res
-              .status(400)
-              .json({ error: "No active contacts found in selected lists" });
-          }
-
-          // Send campaign
-          const emailService = require("../services/emailService");
-          let sendResults;
-
-          if (templateId) {
-            // Template-based campaign
-            sendResults = await emailService.sendBulkTemplateEmails({
-              templateId,
-              contacts: contacts.map((contact) => ({
-                email: contact.email,
-                variables: {
-                  first_name: contact.firstName || contact.email.split("@")[0],
-                  last_name: contact.lastName || "",
-                  email: contact.email,
-                  ...contact.customFields,
-                },
-              })),
-              variables: variables,
-              fromName,
-              fromEmail,
-              replyTo: replyToEmail || fromEmail,
-              userId: req.user._id,
-              campaignId: campaign._id,
-            });
-          } else {
-            // Custom HTML campaign
-            sendResults = await emailService.sendBulkTemplateEmails({
-              customTemplate: {
-                subject: campaignSubject,
-                content: campaignContent,
-              },
-              contacts: contacts.map((contact) => ({
-                email: contact.email,
-                variables: {
-                  first_name: contact.firstName || contact.email.split("@")[0],
-                  last_name: contact.lastName || "",
-                  email: contact.email,
-                  ...contact.customFields,
-                },
-              })),
-              variables: variables,
-              fromName,
-              fromEmail,
-              replyTo: replyToEmail || fromEmail,
-              userId: req.user._id,
-              campaignId: campaign._id,
-            });
-          }
-
-          // Update campaign status with send results
-          if (
-            sendResults &&
-            (sendResults.successful?.length > 0 ||
-              sendResults.failed?.length > 0)
-          ) {
-            campaign.status = "sent";
-            campaign.sentAt = new Date();
-            campaign.sentCount = sendResults.successful?.length || 0;
-            campaign.failedCount = sendResults.failed?.length || 0;
-            console.log(
-              `Campaign sent immediately: ${campaign.sentCount} successful, ${campaign.failedCount} failed`
-            );
-          } else {
-            // No results returned, keep as draft for manual sending later
-            campaign.status = "draft";
-            console.log("No send results returned, keeping campaign as draft");
-          }
-          await campaign.save();
-        } catch (sendError) {
-          console.error("Failed to send campaign:", sendError);
-          // Keep campaign as draft if sending fails
-          campaign.status = "draft";
-          await campaign.save();
-          return res.status(500).json({
-            error: "Campaign created but failed to send: " + sendError.message,
-          });
-        }
+      // Campaigns created as "sending" are queued by the worker's scheduler,
+      // like ones sent from the send route. Without anyone to send to they
+      // are kept as drafts.
+      if (
+        campaign.status === "sending" &&
+        !(await hasSendableRecipients(campaign))
+      ) {
+        campaign.status = "draft";
+        await campaign.save();
+        return res.status(400).json({
+          error:
+            "No active, unsuppressed contacts found in selected lists or segments",
+        });
+      }
+      if (campaign.status === "sending") {
+        campaign.sentAt = new Date();
+        campaign.sentBy = req.user._id;
+        campaign.queuedAt = null;
+        campaign.queueingAt = null;
       }
 
+      await campaign.save();
+
       // Log audit event
       await AuditLog.create({
         userId: req.user._id || req.user.userId,
@@ -265,6 +317,86 @@ router.post(
   }
 );
 
+// Update campaign details and content. Campaigns that have started sending
+// keep the content they were sent with.
+router.put(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const campaign = await Campaign.findById(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+
+      if (!["draft", "scheduled", "paused"].includes(campaign.status)) {
+        return res.status(400).json({
+          error: "Only draft, scheduled or paused campaigns can be edited",
+        });
+      }
+
+      // The From fields change with the sender identity only
+      let identity = null;
+      if (req.body.senderIdentityId !== undefined) {
+        identity = await findApprovedIdentity(req.body.senderIdentityId);
+        if (!identity) {
+          return res
+            .status(400)
+            .json({ error: "An approved sender identity is required" });
+        }
+      }
+
+      const editableFields = [
+        "name",
+        "subject",
+        "preheader",
+        "htmlContent",
+        "textContent",
+        "variables",
+      ];
+      const updatedFields = editableFields.filter(
+        (field) => req.body[field] !== undefined
+      );
+      updatedFields.forEach((field) => {
+        campaign[field] = req.body[field];
+      });
+      if (identity) {
+        campaign.set(campaignSenderFields(identity));
+        updatedFields.push("senderIdentityId");
+      }
+
+      const template = campaign.templateId
+        ? await Template.findById(campaign.templateId)
+        : null;
+      const syntaxError = checkTemplateSyntax(
+        getSendContent(campaign, template)
+      );
+      if (syntaxError) {
+        return res.status(400).json(syntaxError);
+      }
+
+      await campaign.save();
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "campaign_updated",
+        targetType: "campaign",
+        targetId: campaign._id,
+        details: { name: campaign.name, fields: updatedFields },
+      });
+
+      res.json(campaign);
+    } catch (error) {
+      console.error("Update campaign error:", error);
+      if (error.name === "ValidationError") {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update campaign" });
+    }
+  }
+);
+
 //Delete campaign
 router.delete(
   "/:id",
@@ -317,139 +449,53 @@ router.post(
         return res.status(400).json({ error: "Campaign cannot be sent" });
       }
 
-      // Update campaign status
-      campaign.status = sendAt ? "scheduled" : "sending";
-      campaign.scheduledAt = sendAt;
-      campaign.sentAt = sendAt ? null : new Date();
-
-      await campaign.save();
+      const syntaxError = checkTemplateSyntax(
+        getSendContent(campaign, campaign.templateId)
+      );
+      if (syntaxError) {
+        return res.status(400).json(syntaxError);
+      }
 
-      // Send emails immediately if not scheduled
-      if (!sendAt) {
-        // Get contacts from lists - contacts have lists field, not ContactList having contacts
-        const contacts = await Contact.find({
-          lists: { $in: campaign.lists },
-          status: "active",
+      // The identity may have been unapproved since the campaign was saved
+      if (!(await findApprovedIdentity(campaign.senderIdentityId))) {
+        return res.status(400).json({
+          error:
+            "The campaign's sender identity is not approved. Choose an approved sender before sending.",
         });
+      }
 
-        console.log(`Found ${contacts.length} contacts for sending`);
+      const { delivery, error: deliveryError } = parseDeliveryOptions(
+        req.body
+      );
+      if (deliveryError) {
+        return res.status(400).json({ error: deliveryError });
+      }
+      campaign.set(delivery);
 
-        if (contacts.length > 0) {
-          // Send emails using EmailService
-          try {
-            let sendResults;
-
-            if (campaign.templateId) {
-              // Template-based campaign
-              sendResults = await emailService.sendBulkTemplateEmails({
-                templateId: campaign.templateId._id,
-                contacts: contacts,
-                variables: campaign.variables || {},
-                fromName: campaign.fromName,
-                fromEmail: campaign.fromEmail,
-                replyTo: campaign.replyToEmail,
-                userId: req.user._id,
-                campaignId: campaign._id,
-                batchSize: 10,
-                delay: 1000, // 1 second delay between batches
-              });
-            } else {
-              // Custom HTML campaign - create temporary template
-              const tempTemplate = {
-                _id: "temp",
-                subject: campaign.subject,
-                content: campaign.htmlContent,
-              };
-
-              // Process each contact individually for custom campaigns
-              sendResults = {
-                successful: [],
-                failed: [],
-                total: contacts.length,
-              };
-
-              for (const contact of contacts) {
-                try {
-                  const result = await emailService.sendTemplateEmail({
-                    templateId: null,
-                    to: contact.email,
-                    variables: campaign.variables || {},
-                    contact: contact,
-                    fromName: campaign.fromName,
-                    fromEmail: campaign.fromEmail,
-                    replyTo: campaign.replyToEmail,
-                    userId: req.user._id,
-                    campaignId: campaign._id,
-                    customTemplate: tempTemplate,
-                  });
-
-                  sendResults.successful.push({
-                    contact: contact.email,
-                    messageId: result.messageId,
-                    subject: result.subject,
-                  });
-                } catch (error) {
-                  sendResults.failed.push({
-                    contact: contact.email,
-                    error: error.message,
-                  });
-                }
-              }
-            }
-
-            // Update campaign with send results
-            campaign.status = "sent";
-            campaign.sentCount = sendResults.successful.length;
-            campaign.failedCount = sendResults.failed.length;
-            campaign.totalRecipients = sendResults.total;
-            await campaign.save();
-
-            // Create queue entries for tracking
-            const queueEntries = [
-              ...sendResults.successful.map((result) => ({
-                campaign: campaign._id,
-                contact: contacts.find((c) => c.email === result.contact)?._id,
-                email: result.contact,
-                status: "sent",
-                messageId: result.messageId,
-                sentAt: new Date(),
-              })),
-              ...sendResults.failed.map((result) => ({
-                campaign: campaign._id,
-                contact: contacts.find((c) => c.email === result.contact)?._id,
-                email: result.contact,
-                status: "failed",
-                error: result.error,
-                sentAt: new Date(),
-              })),
-            ];
-
-            if (queueEntries.length > 0) {
-              await Queue.insertMany(queueEntries);
-            }
-
-            console.log(
-              `Campaign sent: ${sendResults.successful.length} successful, ${sendResults.failed.length} failed`
-            );
-          } catch (error) {
-            console.error("Bulk email send error:", error);
-            campaign.status = "failed";
-            campaign.failedCount = contacts.length;
-            await campaign.save();
-
-            return res.status(500).json({
-              error: "Failed to send campaign emails",
-              details: error.message,
-            });
-          }
-        } else {
-          campaign.status = "sent";
-          campaign.sentCount = 0;
-          campaign.totalRecipients = 0;
-          await campaign.save();
+      // Update campaign status
+      if (sendAt) {
+        const schedule = await parseRequestedSchedule(sendAt);
+        if (schedule.error) {
+          return res.status(400).json({ error: schedule.error });
         }
+        campaign.status = "scheduled";
+        campaign.scheduledAt = schedule.scheduledAt;
+        campaign.scheduledBy = req.user._id;
+        campaign.scheduledTimezone = schedule.timeZone;
+        campaign.sentAt = null;
+      } else {
+        // The worker's scheduler creates one job per recipient on its next
+        // tick, and the queue worker sends them (see
+        // services/schedulerService.js and services/queueService.js)
+        campaign.status = "sending";
+        campaign.sentAt = new Date();
+        campaign.sentBy = req.user._id;
+        campaign.queuedAt = null;
+        campaign.queueingAt = null;
       }
 
+      await campaign.save();
+
       // Log audit event
       await AuditLog.create({
         userId: req.user._id || req.user.userId,
@@ -457,18 +503,23 @@ router.post(
         targetType: "campaign",
         targetId: campaign._id,
         details: {
-          sendAt,
+          sendAt: campaign.scheduledAt,
+          deliveryMode: campaign.deliveryMode,
           recipientCount: campaign.totalRecipients,
           sentCount: campaign.sentCount,
           failedCount: campaign.failedCount,
         },
       });
 
-      res.json({
-        message: sendAt ? "Campaign scheduled" : "Campaign sent",
+      res.status(sendAt ? 200 : 202).json({
+        message: sendAt ? "Campaign scheduled" : "Campaign queued for sending",
         campaign: {
           id: campaign._id,
           status: campaign.status,
+          scheduledAt: campaign.scheduledAt,
+          scheduledTimezone: campaign.scheduledTimezone,
+          deliveryMode: campaign.deliveryMode,
+          deliveryWindow: campaign.deliveryWindow,
           sentCount: campaign.sentCount,
           failedCount: campaign.failedCount,
           totalRecipients: campaign.totalRecipients,
@@ -481,6 +532,129 @@ router.post(
   }
 );
 
+// Schedule or reschedule a campaign
+router.post(
+  "/:id/schedule",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { sendAt } = req.body;
+
+      const existing = await Campaign.findById(id)
+        .select("status subject htmlContent textContent templateId")
+        .populate("templateId");
+      if (!existing) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+
+      const syntaxError = checkTemplateSyntax(
+        getSendContent(existing, existing.templateId)
+      );
+      if (syntaxError) {
+        return res.status(400).json(syntaxError);
+      }
+
+      const schedule = await parseRequestedSchedule(sendAt);
+      if (schedule.error) {
+        return res.status(400).json({ error: schedule.error });
+      }
+
+      const { delivery, error: deliveryError } = parseDeliveryOptions(
+        req.body
+      );
+      if (deliveryError) {
+        return res.status(400).json({ error: deliveryError });
+      }
+
+      // The status check is part of the update, so a campaign the scheduler
+      // started sending in the meantime is left alone
+      const campaign = await Campaign.findOneAndUpdate(
+        { _id: id, status: { $in: ["draft", "scheduled"] } },
+        {
+          $set: {
+            status: "scheduled",
+            scheduledAt: schedule.scheduledAt,
+            scheduledBy: req.user._id,
+            scheduledTimezone: schedule.timeZone,
+            ...delivery,
+          },
+        },
+        { new: true }
+      );
+      if (!campaign) {
+        return res.status(400).json({
+          error: "Only draft or scheduled campaigns can be scheduled",
+        });
+      }
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action:
+          existing.status === "scheduled"
+            ? "campaign_rescheduled"
+            : "campaign_scheduled",
+        targetType: "campaign",
+        targetId: campaign._id,
+        details: {
+          sendAt: campaign.scheduledAt,
+          timezone: campaign.scheduledTimezone,
+          deliveryMode: campaign.deliveryMode,
+        },
+      });
+
+      res.json(campaign);
+    } catch (error) {
+      console.error("Schedule campaign error:", error);
+      res.status(500).json({ error: "Failed to schedule campaign" });
+    }
+  }
+);
+
+// Cancel a campaign's schedule, returning it to draft
+router.delete(
+  "/:id/schedule",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const campaign = await Campaign.findOneAndUpdate(
+        { _id: id, status: "scheduled" },
+        {
+          $set: { status: "draft" },
+          $unset: { scheduledAt: "", scheduledBy: "", scheduledTimezone: "" },
+        },
+        { new: true }
+      );
+
+      if (!campaign) {
+        const exists = await Campaign.exists({ _id: id });
+        return exists
+          ? res.status(400).json({
+              error: "Campaign is not scheduled, it may have started sending",
+            })
+          : res.status(404).json({ error: "Campaign not found" });
+      }
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "campaign_schedule_cancelled",
+        targetType: "campaign",
+        targetId: campaign._id,
+        details: { name: campaign.name },
+      });
+
+      res.json(campaign);
+    } catch (error) {
+      console.error("Cancel campaign schedule error:", error);
+      res.status(500).json({ error: "Failed to cancel schedule" });
+    }
+  }
+);
+
 // Preview campaign with template variables
 router.post(
   "/:id/preview",
@@ -502,11 +676,14 @@ router.post(
           templateId: campaign.templateId._id,
           variables: { ...campaign.variables, ...variables },
           contact: sampleContact,
+          textContent: campaign.textContent,
         });
 
         res.json({
           subject: preview.subject,
           content: preview.content,
+          text: preview.text,
+          isCustomText: preview.isCustomText,
           originalSubject: preview.originalSubject,
           originalContent: preview.originalContent,
           variables: preview.variables,
@@ -517,17 +694,29 @@ router.post(
         const processedSubject = emailService.processTemplateVariables(
           campaign.subject,
           { ...campaign.variables, ...variables },
-          sampleContact
+          sampleContact,
+          { mode: "preview" }
         );
         const processedContent = emailService.processTemplateVariables(
           campaign.htmlContent,
           { ...campaign.variables, ...variables },
-          sampleContact
+          sampleContact,
+          { format: "html", mode: "preview" }
+        );
+
+        const processedText = emailService.processTextContent(
+          campaign.textContent,
+          processedContent,
+          { ...campaign.variables, ...variables },
+          sampleContact,
+          "preview"
         );
 
         res.json({
           subject: processedSubject,
           content: processedContent,
+          text: processedText,
+          isCustomText: Boolean(campaign.textContent?.trim()),
           originalSubject: campaign.subject,
           originalContent: campaign.htmlContent,
           variables: [],
@@ -541,6 +730,36 @@ router.post(
   }
 );
 
+// Merge tags that recipients have no value for. Shown before sending,
+// because unresolved tags are removed from the emails.
+router.get(
+  "/:id/merge-tags/report",
+  authenticateToken,
+  requireRole(["admin", "editor", "viewer"]),
+  async (req, res) => {
+    try {
+      const campaign = await Campaign.findById(req.params.id).populate(
+        "templateId"
+      );
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+
+      // Same content and recipients as the send route
+      const report = await reportUnresolvedTags({
+        content: getSendContent(campaign, campaign.templateId),
+        query: await buildRecipientQuery(campaign),
+        variables: campaign.variables || {},
+      });
+
+      res.json(report);
+    } catch (error) {
+      console.error("Merge tag report error:", error);
+      res.status(500).json({ error: "Failed to check merge tags" });
+    }
+  }
+);
+
 // Send test emails for campaign
 router.post(
   "/:id/test",
@@ -559,7 +778,9 @@ router.post(
         return res.status(400).json({ error: "Test emails are required" });
       }
 
-      const campaign = await Campaign.findById(id).populate("templateId");
+      const campaign = await Campaign.findById(id)
+        .populate("templateId")
+        .populate("senderIdentityId", "smtp");
       if (!campaign) {
         return res.status(404).json({ error: "Campaign not found" });
       }
@@ -573,6 +794,7 @@ router.post(
           testEmails,
           variables: { ...campaign.variables, ...variables },
           userId: req.user._id,
+          textContent: campaign.textContent,
         });
       } else {
         // Custom campaign
@@ -587,10 +809,12 @@ router.post(
               fromName: campaign.fromName,
               fromEmail: campaign.fromEmail,
               replyTo: campaign.replyToEmail,
+              smtp: campaign.senderIdentityId?.smtp,
               userId: req.user._id,
               customTemplate: {
                 subject: campaign.subject,
                 content: campaign.htmlContent,
+                textContent: campaign.textContent,
               },
             });
 
@@ -641,6 +865,158 @@ router.post(
   }
 );
 
+// Get campaign report: rates, engagement over time, the most clicked URLs
+// and clicks per link position for the heatmap, from tracked email events
+router.get(
+  "/:id/report",
+  authenticateToken,
+  requireRole(["admin", "editor", "viewer"]),
+  async (req, res) => {
+    try {
+      const campaign = await Campaign.findById(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+
+      const percentage = (value, total) =>
+        total > 0 ? Number(((value / total) * 100).toFixed(2)) : 0;
+      const delivered = campaign.deliveredCount || 0;
+
+      const [eventCounts, timeline, topLinks, links] = await Promise.all([
+        EmailEvent.aggregate([
+          { $match: { campaignId: campaign._id } },
+          { $group: { _id: "$type", count: { $sum: 1 } } },
+        ]),
+        EmailEvent.aggregate([
+          { $match: { campaignId: campaign._id } },
+          {
+            $group: {
+              _id: {
+                date: {
+                  $dateToString: { format: "%Y-%m-%d", date: "$createdAt" },
+                },
+                type: "$type",
+              },
+              count: { $sum: 1 },
+            },
+          },
+          { $sort: { "_id.date": 1 } },
+        ]),
+        EmailEvent.aggregate([
+          { $match: { campaignId: campaign._id, type: "clicked" } },
+          {
+            $group: {
+              _id: "$url",
+              clicks: { $sum: 1 },
+              recipients: { $addToSet: "$jobId" },
+            },
+          },
+          {
+            $project: {
+              _id: 0,
+              url: "$_id",
+              clicks: 1,
+              uniqueClicks: { $size: "$recipients" },
+            },
+          },
+          { $sort: { clicks: -1 } },
+          { $limit: 10 },
+        ]),
+        // Links to the same URL are counted apart by position. Clicks from
+        // before positions were tracked are grouped by URL.
+        EmailEvent.aggregate([
+          { $match: { campaignId: campaign._id, type: "clicked" } },
+          {
+            $group: {
+              _id: {
+                linkIndex: "$linkIndex",
+                url: {
+                  $cond: [
+                    { $eq: [{ $type: "$linkIndex" }, "missing"] },
+                    "$url",
+                    null,
+                  ],
+                },
+              },
+              url: { $first: "$url" },
+              clicks: { $sum: 1 },
+              recipients: { $addToSet: "$jobId" },
+            },
+          },
+          {
+            $project: {
+              _id: 0,
+              linkIndex: { $ifNull: ["$_id.linkIndex", null] },
+              url: 1,
+              clicks: 1,
+              uniqueClicks: { $size: "$recipients" },
+            },
+          },
+          { $sort: { linkIndex: 1 } },
+        ]),
+      ]);
+
+      const totals = Object.fromEntries(
+        eventCounts.map(({ _id, count }) => [_id, count])
+      );
+      const days = new Map();
+      const eventFields = {
+        opened: "opens",
+        clicked: "clicks",
+        bounced: "bounces",
+        unsubscribed: "unsubscribes",
+      };
+      timeline.forEach(({ _id, count }) => {
+        if (!eventFields[_id.type]) return;
+        if (!days.has(_id.date)) {
+          days.set(_id.date, {
+            date: _id.date,
+            opens: 0,
+            clicks: 0,
+            bounces: 0,
+            unsubscribes: 0,
+          });
+        }
+        days.get(_id.date)[eventFields[_id.type]] = count;
+      });
+
+      res.json({
+        campaign,
+        deliveryRate: percentage(delivered, campaign.sentCount || 0),
+        openRate: percentage(campaign.openedCount || 0, delivered),
+        clickRate: percentage(campaign.clickedCount || 0, delivered),
+        bounceRate: percentage(
+          campaign.bouncedCount || 0,
+          campaign.sentCount || 0
+        ),
+        unsubscribeRate: percentage(campaign.unsubscribedCount || 0, delivered),
+        complaintRate: percentage(campaign.complainedCount || 0, delivered),
+        clickThroughRate: percentage(
+          campaign.clickedCount || 0,
+          campaign.openedCount || 0
+        ),
+        engagement: {
+          totalEngagements: (totals.opened || 0) + (totals.clicked || 0),
+          totalOpens: totals.opened || 0,
+          totalClicks: totals.clicked || 0,
+          uniqueOpens: campaign.openedCount || 0,
+          uniqueClicks: campaign.clickedCount || 0,
+          forwardShares: 0,
+        },
+        timeline: [...days.values()],
+        topLinks,
+        links: links.map((link) => ({
+          ...link,
+          share: percentage(link.clicks, totals.clicked || 0),
+        })),
+      });
+    } catch (error) {
+      console.error("Get campaign report error:", error);
+      res.status(500).json({ error: "Failed to fetch campaign report" });
+    }
+  }
+);
+
 // Get campaign analytics
 router.get(
   "/:id/analytics",
@@ -657,17 +1033,18 @@ router.get(
         return res.status(404).json({ error: "Campaign not found" });
       }
 
-      // Get job statistics
-      const jobStats = await Queue.find({ campaign: id });
-
-      // For now, simplified stats (we'll add email events later)
+      // Opens and clicks are unique per recipient (see
+      // services/trackingService.js)
       const stats = {
-        sent: jobStats.filter((j) => j.status === "sent").length,
-        delivered: jobStats.filter((j) => j.status === "delivered").length,
-        opened: 0, // TODO: Add email events tracking
-        clicked: 0, // TODO: Add email events tracking
-        bounced: jobStats.filter((j) => j.status === "bounced").length,
-        unsubscribed: 0, // TODO: Add email events tracking
+        sent: await Queue.countDocuments({ campaignId: id, status: "sent" }),
+        delivered: campaign.deliveredCount || 0,
+        opened: campaign.openedCount || 0,
+        clicked: campaign.clickedCount || 0,
+        bounced: await Queue.countDocuments({
+          campaignId: id,
+          status: "bounced",
+        }),
+        unsubscribed: campaign.unsubscribedCount || 0,
       };
 
       res.json({
@@ -1,11 +1,31 @@
 const express = require("express");
+const mongoose = require("mongoose");
 const multer = require("multer");
-const csv = require("csv-parser");
-const XLSX = require("xlsx");
 const fs = require("fs");
 const Contact = require("../models/Contact");
 const ContactList = require("../models/ContactList");
 const AuditLog = require("../models/AuditLog");
+const Segment = require("../models/Segment");
+const ImportJob = require("../models/ImportJob");
+const ImportRowError = require("../models/ImportRowError");
+const { isValidTimeZone } = require("../services/timezoneService");
+const {
+  IMPORT_STRATEGIES,
+  readImportHeaders,
+  resolveMapping,
+  runImportJob,
+  failStaleImportJob,
+} = require("../services/contactImportService");
+const {
+  getCustomFieldKeys,
+  buildExportColumns,
+  writeContactExport,
+} = require("../services/contactExportService");
+const { buildSegmentQuery } = require("../services/segmentService");
+const {
+  getCustomFieldDefinitions,
+  applyCustomFields,
+} = require("../services/customFieldService");
 const { authenticateToken, requireRole } = require("../middleware/auth");
 
 const router = express.Router();
@@ -28,6 +48,53 @@ async function updateListContactCount(listId) {
   }
 }
 
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Contact query for the filters of the contacts page: search, status, list
+// and segment
+async function buildContactFilter({ search, status, listId, segmentId }) {
+  const conditions = [];
+
+  if (search) {
+    const pattern = new RegExp(escapeRegex(search), "i");
+    conditions.push({
+      $or: [{ email: pattern }, { firstName: pattern }, { lastName: pattern }],
+    });
+  }
+
+  if (status && status !== "all") {
+    conditions.push({ status });
+  }
+
+  if (listId) {
+    if (!mongoose.isValidObjectId(listId)) {
+      return { error: "Contact list not found" };
+    }
+    conditions.push({ lists: listId });
+  }
+
+  if (segmentId) {
+    const segment = mongoose.isValidObjectId(segmentId)
+      ? await Segment.findById(segmentId).lean()
+      : null;
+    if (!segment) {
+      return { error: "Segment not found" };
+    }
+    conditions.push(await buildSegmentQuery(segment.rules));
+  }
+
+  return { query: conditions.length > 0 ? { $and: conditions } : {} };
+}
+
+// Send-time optimization timezones are optional, but must be IANA names
+function getTimeZoneError(timeZone) {
+  if (!timeZone || isValidTimeZone(timeZone)) return null;
+  return (
+    `Unknown timezone "${timeZone}". ` +
+    'Use an IANA name such as "Africa/Accra"'
+  );
+}
+
 // Get all contacts
 router.get(
   "/",
@@ -35,25 +102,14 @@ router.get(
   requireRole(["admin", "editor"]),
   async (req, res) => {
     try {
-      const { page = 1, limit = 50, search, status, listId } = req.query;
+      const { page = 1, limit = 50 } = req.query;
       const offset = (page - 1) * limit;
 
-      let query = {};
-
-      if (search) {
-        query.$or = [
-          { email: new RegExp(search, "i") },
-          { firstName: new RegExp(search, "i") },
-          { lastName: new RegExp(search, "i") },
-        ];
-      }
-
-      if (status && status !== "all") {
-        query.status = status;
-      }
-
-      if (listId) {
-        query.lists = listId;
+      const { query, error: filterError } = await buildContactFilter(
+        req.query
+      );
+      if (filterError) {
+        return res.status(400).json({ error: filterError });
       }
 
       const contacts = await Contact.find(query)
@@ -92,6 +148,7 @@ router.post(
         firstName,
         lastName,
         phone,
+        timezone,
         tags = [],
         customFields = {},
         listIds = [],
@@ -101,6 +158,22 @@ router.post(
         return res.status(400).json({ error: "Email is required" });
       }
 
+      const timeZoneError = getTimeZoneError(timezone);
+      if (timeZoneError) {
+        return res.status(400).json({ error: timeZoneError });
+      }
+
+      const fields = applyCustomFields(
+        customFields,
+        await getCustomFieldDefinitions(),
+        { isNew: true }
+      );
+      if (fields.errors.length > 0) {
+        return res
+          .status(400)
+          .json({ error: fields.errors[0], details: fields.errors });
+      }
+
       // Check if contact already exists
       const existingContact = await Contact.findOne({
         email: email.toLowerCase(),
@@ -136,6 +209,7 @@ router.post(
         firstName,
         lastName,
         phone,
+        timezone: timezone || undefined,
         tags: [
           "order",
           "confirmation",
@@ -144,7 +218,7 @@ router.post(
           "promotion",
           "ecommerce",
         ],
-        customFields,
+        customFields: fields.customFields,
         status: "active",
         lists: listIds,
         createdBy: req.user._id,
@@ -181,8 +255,9 @@ router.put(
         firstName,
         lastName,
         phone,
+        timezone,
         tags = [],
-        customFields = {},
+        customFields,
         status,
         listIds = [],
       } = req.body;
@@ -192,12 +267,31 @@ router.put(
         return res.status(400).json({ error: "Contact ID is required" });
       }
 
+      const timeZoneError = getTimeZoneError(timezone);
+      if (timeZoneError) {
+        return res.status(400).json({ error: timeZoneError });
+      }
+
       // Find existing contact
       const existingContact = await Contact.findById(id);
       if (!existingContact) {
         return res.status(404).json({ error: "Contact not found" });
       }
 
+      // Custom fields are replaced as a whole when they are sent
+      let fields = null;
+      if (customFields !== undefined) {
+        fields = applyCustomFields(
+          customFields,
+          await getCustomFieldDefinitions()
+        );
+        if (fields.errors.length > 0) {
+          return res
+            .status(400)
+            .json({ error: fields.errors[0], details: fields.errors });
+        }
+      }
+
       // Store old list IDs for comparison
       const oldListIds = existingContact.lists.map((id) => id.toString());
 
@@ -237,8 +331,9 @@ router.put(
         ...(firstName !== undefined && { firstName }),
         ...(lastName !== undefined && { lastName }),
         ...(phone !== undefined && { phone }),
+        ...(timezone !== undefined && { timezone }),
         ...(tags !== undefined && { tags: parsedTags }),
-        ...(customFields && { customFields }),
+        ...(fields && { customFields: fields.customFields }),
         ...(status && { status }),
         ...(listIds && { lists: listIds }),
         updatedAt: new Date(),
@@ -420,6 +515,66 @@ router.get(
   }
 );
 
+// Export contacts as CSV, Excel or JSON. filterType "filtered" applies the
+// search, status, listId and segmentId filters; "selected" exports the
+// contacts in ids (comma separated).
+router.get(
+  "/export",
+  authenticateToken,
+  requireRole(["admin", "editor", "viewer"]),
+  async (req, res) => {
+    try {
+      const {
+        format = "csv",
+        fields = "firstName,lastName,email,phone,company,position,tags,status,createdAt",
+        filterType = "all",
+        ids = "",
+      } = req.query;
+
+      if (!["csv", "xlsx", "json"].includes(format)) {
+        return res.status(400).json({ error: "Unsupported export format" });
+      }
+
+      let query = {};
+      if (filterType === "filtered") {
+        const filter = await buildContactFilter(req.query);
+        if (filter.error) {
+          return res.status(400).json({ error: filter.error });
+        }
+        query = filter.query;
+      } else if (filterType === "selected") {
+        const selectedIds = ids
+          .split(",")
+          .filter((id) => mongoose.isValidObjectId(id.trim()))
+          .map((id) => id.trim());
+        if (selectedIds.length === 0) {
+          return res.status(400).json({ error: "No contacts selected" });
+        }
+        query = { _id: { $in: selectedIds } };
+      } else if (filterType !== "all") {
+        return res.status(400).json({ error: "Unsupported filter type" });
+      }
+
+      const count = await Contact.countDocuments(query);
+      if (count === 0) {
+        return res.status(404).json({ error: "No contacts found" });
+      }
+
+      const columns = buildExportColumns(
+        fields.split(",").map((field) => field.trim()),
+        await getCustomFieldKeys(query),
+        await getCustomFieldDefinitions()
+      );
+      await writeContactExport(res, { format, query, columns });
+    } catch (error) {
+      console.error("Export contacts error:", error);
+      // Streaming may have started before the error
+      if (res.headersSent) return res.end();
+      res.status(500).json({ error: "Failed to export contacts" });
+    }
+  }
+);
+
 // Get single contact
 router.get(
   "/:id",
@@ -457,179 +612,147 @@ router.get(
   }
 );
 
-// Import contacts from CSV/Excel
+// Import contacts from CSV/Excel. mapping (JSON) names the column of each
+// field and strategy what happens to existing contacts; with dryRun=true
+// nothing is written. The import runs as a background job: the response is
+// the job, to poll with GET /import/:jobId.
 router.post(
   "/import",
   authenticateToken,
   requireRole(["admin", "editor"]),
   upload.single("file"),
   async (req, res) => {
+    const file = req.file;
+    let started = false;
     try {
-      const { listId, mapping } = req.body;
-      const file = req.file;
-      // console.log("Uploaded File:", file);
+      const { listId, mapping, strategy = "skip" } = req.body;
+      const dryRun = req.body.dryRun === "true" || req.body.dryRun === true;
 
       if (!file) {
         return res.status(400).json({ error: "File is required" });
       }
-
-      const contacts = [];
-      const errors = [];
-      let processed = 0;
-      let imported = 0;
-      let skipped = 0;
-
-      // Parse file based on extension
-      if (file.originalname.endsWith(".csv")) {
-        // Parse CSV
-        console.log("file is csv");
-        const results = [];
-
-        await new Promise((resolve, reject) => {
-          fs.createReadStream(file.path)
-            .pipe(csv())
-            .on("data", (data) => {
-              console.log("CSV Row:", data);
-              results.push(data);
-            })
-            .on("end", () => {
-              console.log("CSV parsing completed, total rows:", results.length);
-              resolve();
-            })
-            .on("error", reject);
+      if (!IMPORT_STRATEGIES.includes(strategy)) {
+        return res.status(400).json({
+          error: `Strategy must be one of: ${IMPORT_STRATEGIES.join(", ")}`,
         });
-
-        await processContacts(results);
-      } else if (
-        file.originalname.endsWith(".xlsx") ||
-        file.originalname.endsWith(".xls")
+      }
+      if (
+        listId &&
+        !(
+          mongoose.isValidObjectId(listId) &&
+          (await ContactList.exists({ _id: listId }))
+        )
       ) {
-        // Parse Excel
-        console.log("file is excel");
-        const workbook = XLSX.readFile(file.path);
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const results = XLSX.utils.sheet_to_json(worksheet);
-        await processContacts(results);
-      } else {
-        return res.status(400).json({ error: "Unsupported file format" });
+        return res.status(400).json({ error: "Contact list not found" });
       }
 
-      async function processContacts(data) {
-        const mappingObj = JSON.parse(mapping || "{}");
+      const { headers, error: fileError } = await readImportHeaders(file);
+      if (fileError) {
+        return res.status(400).json({ error: fileError });
+      }
+      const { mapping: resolvedMapping, error: mappingError } =
+        resolveMapping(mapping, headers, await getCustomFieldDefinitions());
+      if (mappingError) {
+        return res.status(400).json({ error: mappingError });
+      }
 
-        for (const row of data) {
-          processed++;
+      const job = await ImportJob.create({
+        fileName: file.originalname,
+        fileSize: file.size,
+        mapping: resolvedMapping,
+        listId: listId || undefined,
+        strategy,
+        dryRun,
+        createdBy: req.user._id,
+      });
 
-          try {
-            // Extract fields with proper fallbacks
-            const email =
-              row[mappingObj.email || "email"] || row["Email"] || row["EMAIL"];
-            let firstName =
-              row[mappingObj.firstName || "firstName"] ||
-              row["First Name"] ||
-              row["first_name"] ||
-              row["FIRST_NAME"];
-            let lastName =
-              row[mappingObj.lastName || "lastName"] ||
-              row["Last Name"] ||
-              row["last_name"] ||
-              row["LAST_NAME"];
-            const company =
-              row[mappingObj.company || "company"] ||
-              row["Company"] ||
-              row["COMPANY"];
-            const position =
-              row[mappingObj.position || "position"] ||
-              row["Position"] ||
-              row["POSITION"];
-
-            // Validate email
-            if (!email || !email.includes("@")) {
-              errors.push(`Row ${processed}: Invalid or missing email`);
-              skipped++;
-              continue;
-            }
-
-            // Handle missing required fields
-            if (!firstName) {
-              firstName = "Unknown";
-            }
-            if (!lastName) {
-              lastName = "Contact";
-            }
-
-            console.log("Processing email:", email);
-
-            // Check if contact exists
-            const existingContact = await Contact.findOne({
-              email: email.toLowerCase(),
-            });
-
-            if (existingContact) {
-              console.log("Contact already exists, skipping:", email);
-              skipped++;
-              continue; // Add continue to skip to next iteration
-            }
-
-            // Create contact
-            const contact = new Contact({
-              email: email.toLowerCase(),
-              firstName: firstName.trim(),
-              lastName: lastName.trim(),
-              status: "active",
-              lists: listId ? [listId] : [],
-              customFields: {
-                ...(company && { company: company.trim() }),
-                ...(position && { position: position.trim() }),
-              },
-              createdBy: req.user._id,
-            });
-
-            const savedContact = await contact.save();
-
-            if (savedContact) {
-              console.log("Successfully imported contact:", savedContact.email);
-              imported++; // Increment the imported counter
-            } else {
-              console.log("Failed to save contact:", email);
-              errors.push(`Row ${processed}: Failed to save contact`);
-              skipped++;
-            }
-          } catch (error) {
-            console.error(`Error processing row ${processed}:`, error.message);
-            errors.push(`Row ${processed}: ${error.message}`);
-            skipped++;
-          }
-        }
+      // The job removes the file when it finishes
+      started = true;
+      runImportJob(job._id, file);
 
-        // Clean up uploaded file
-        fs.unlinkSync(file.path);
+      res.status(202).json({
+        message: dryRun ? "Dry run started" : "Import started",
+        job,
+      });
+    } catch (error) {
+      console.error("Import contacts error:", error);
+      res.status(500).json({ error: "Failed to import contacts" });
+    } finally {
+      // Clean up uploaded file
+      if (file && !started) fs.promises.unlink(file.path).catch(() => {});
+    }
+  }
+);
 
-        // Log audit event
-        await AuditLog.create({
-          userId: req.user._id,
-          action: "contacts_imported",
-          targetType: "contact",
-          details: { processed, imported, skipped, errors: errors.length },
-        });
+// Get an import job's progress, with its first rejected rows
+router.get(
+  "/import/:jobId",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.jobId)) {
+        return res.status(404).json({ error: "Import not found" });
+      }
+      const job = await ImportJob.findById(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: "Import not found" });
+      }
+      await failStaleImportJob(job);
 
-        res.json({
-          message: "Import completed",
-          summary: {
-            processed,
-            imported,
-            skipped,
-            errors: errors.length,
-          },
-          errors: errors.slice(0, 10), // Return first 10 errors
-          importedCount: imported, // Add this for frontend compatibility
-          totalCount: processed,
-        });
+      const errors = await ImportRowError.find({ jobId: job._id })
+        .sort({ row: 1 })
+        .limit(20)
+        .select("row email reason")
+        .lean();
+
+      res.json({ job, errors });
+    } catch (error) {
+      console.error("Get import job error:", error);
+      res.status(500).json({ error: "Failed to fetch import" });
+    }
+  }
+);
+
+// Download every row an import rejected, with the reason, as CSV
+router.get(
+  "/import/:jobId/errors",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.jobId)) {
+        return res.status(404).json({ error: "Import not found" });
+      }
+      const job = await ImportJob.findById(req.params.jobId).lean();
+      if (!job) {
+        return res.status(404).json({ error: "Import not found" });
+      }
+
+      const escapeCsv = (value) =>
+        `"${String(value ?? "").replace(/"/g, '""')}"`;
+
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename=import-errors-${job._id}.csv`
+      );
+      res.write("Row,Email,Reason\n");
+
+      const cursor = ImportRowError.find({ jobId: job._id })
+        .sort({ row: 1 })
+        .select("row email reason")
+        .lean()
+        .cursor();
+      for await (const rowError of cursor) {
+        const { row, email, reason } = rowError;
+        res.write(`${row},${escapeCsv(email)},${escapeCsv(reason)}\n`);
       }
+      res.end();
     } catch (error) {
-      console.error("Import contacts error:", error);
-      res.status(500).json({ error: "Failed to import contacts" });
+      console.error("Download import errors error:", error);
+      if (res.headersSent) return res.end();
+      res.status(500).json({ error: "Failed to download import errors" });
     }
   }
 );
@@ -642,15 +765,21 @@ router.post(
   async (req, res) => {
     try {
       console.log("Creating contact list");
-      const { name, description } = req.body;
+      const { name, description, defaultTimezone } = req.body;
 
       if (!name) {
         return res.status(400).json({ error: "List name is required" });
       }
 
+      const timeZoneError = getTimeZoneError(defaultTimezone);
+      if (timeZoneError) {
+        return res.status(400).json({ error: timeZoneError });
+      }
+
       const list = new ContactList({
         name,
         description,
+        defaultTimezone: defaultTimezone || undefined,
         createdBy: req.user._id,
         contactCount: 0,
       });
@@ -684,7 +813,7 @@ router.put(
   async (req, res) => {
     try {
       const { id } = req.params;
-      const { name, description } = req.body;
+      const { name, description, defaultTimezone } = req.body;
       // console.log("Request Body:", req.body);
 
       console.log("Update ContactList Request:", { id, body: req.body });
@@ -694,6 +823,11 @@ router.put(
         return res.status(400).json({ error: "ContactList ID is required" });
       }
 
+      const timeZoneError = getTimeZoneError(defaultTimezone);
+      if (timeZoneError) {
+        return res.status(400).json({ error: timeZoneError });
+      }
+
       // Find existing contactList
       const existingContactList = await ContactList.findById(id);
       if (!existingContactList) {
@@ -718,6 +852,7 @@ router.put(
       const updateData = {
         ...(name && { name: name.toLowerCase() }),
         ...(description !== undefined && { description }),
+        ...(defaultTimezone !== undefined && { defaultTimezone }),
 
         updatedAt: new Date(),
         updatedBy: req.user._id,
@@ -839,159 +974,6 @@ router.delete(
   }
 );
 
-// Export contacts
-router.get(
-  "/export",
-  authenticateToken,
-  requireRole(["admin", "editor", "viewer"]),
-  async (req, res) => {
-    try {
-      const {
-        format = "csv",
-        fields = "firstName,lastName,email,phone,company,position,tags,status,createdAt",
-        filterType = "all",
-      } = req.query;
-
-      console.log("Export Contacts Request:", { format, fields, filterType });
-
-      // Parse fields
-      const includeFields = fields.split(",").filter((field) => field.trim());
-
-      // Build query based on filterType
-      let query = {};
-      // For now, we'll export all contacts. In the future, you can add filter logic here
-
-      // Fetch contacts
-      const contacts = await Contact.find(query).sort({ createdAt: -1 });
-
-      if (!contacts || contacts.length === 0) {
-        return res.status(404).json({ error: "No contacts found" });
-      }
-
-      console.log(`Exporting ${contacts.length} contacts in ${format} format`);
-
-      // Map contacts to include only requested fields
-      const mappedContacts = contacts.map((contact) => {
-        const contactObj = {};
-
-        includeFields.forEach((field) => {
-          switch (field.trim()) {
-            case "firstName":
-              contactObj["First Name"] = contact.firstName || "";
-              break;
-            case "lastName":
-              contactObj["Last Name"] = contact.lastName || "";
-              break;
-            case "email":
-              contactObj["Email"] = contact.email || "";
-              break;
-            case "phone":
-              contactObj["Phone"] = contact.phone || "";
-              break;
-            case "company":
-              contactObj["Company"] = contact.customFields?.company || "";
-              break;
-            case "position":
-              contactObj["Position"] = contact.customFields?.position || "";
-              break;
-            case "tags":
-              contactObj["Tags"] = contact.tags ? contact.tags.join(", ") : "";
-              break;
-            case "status":
-              contactObj["Status"] = contact.status || "";
-              break;
-            case "createdAt":
-              contactObj["Date Added"] = contact.createdAt
-                ? new Date(contact.createdAt).toLocaleDateString()
-                : "";
-              break;
-            case "lastActivity":
-              contactObj["Last Activity"] = contact.lastActivity
-                ? new Date(contact.lastActivity).toLocaleDateString()
-                : "";
-              break;
-          }
-        });
-
-        return contactObj;
-      });
-
-      // Generate export based on format
-      if (format === "json") {
-        res.setHeader("Content-Type", "application/json");
-        res.setHeader(
-          "Content-Disposition",
-          `attachment; filename=contacts_${Date.now()}.json`
-        );
-        return res.json(mappedContacts);
-      } else if (format === "csv") {
-        // Generate CSV
-        const csv = require("csv-parser");
-        let csvContent = "";
-
-        // Headers
-        if (mappedContacts.length > 0) {
-          csvContent = Object.keys(mappedContacts[0]).join(",") + "\n";
-
-          // Data rows
-          mappedContacts.forEach((contact) => {
-            const row = Object.values(contact)
-              .map((value) => {
-                // Escape commas and quotes in CSV
-                if (
-                  typeof value === "string" &&
-                  (value.includes(",") || value.includes('"'))
-                ) {
-                  return `"${value.replace(/"/g, '""')}"`;
-                }
-                return value;
-              })
-              .join(",");
-            csvContent += row + "\n";
-          });
-        }
-
-        res.setHeader("Content-Type", "text/csv");
-        res.setHeader(
-          "Content-Disposition",
-          `attachment; filename=contacts_${Date.now()}.csv`
-        );
-        return res.send(csvContent);
-      } else if (format === "xlsx") {
-        const XLSX = require("xlsx");
-
-        // Create workbook and worksheet
-        const workbook = XLSX.utils.book_new();
-        const worksheet = XLSX.utils.json_to_sheet(mappedContacts);
-
-        // Add worksheet to workbook
-        XLSX.utils.book_append_sheet(workbook, worksheet, "Contacts");
-
-        // Generate Excel file buffer
-        const excelBuffer = XLSX.write(workbook, {
-          type: "buffer",
-          bookType: "xlsx",
-        });
-
-        res.setHeader(
-          "Content-Type",
-          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
-        );
-        res.setHeader(
-          "Content-Disposition",
-          `attachment; filename=contacts_${Date.now()}.xlsx`
-        );
-        return res.send(excelBuffer);
-      } else {
-        return res.status(400).json({ error: "Unsupported export format" });
-      }
-    } catch (error) {
-      console.error("Export contacts error:", error);
-      res.status(500).json({ error: "Failed to export contacts" });
-    }
-  }
-);
-
 // Update the "Add contact to list" route
 router.post(
   "/lists/:listId/contacts/:contactId",
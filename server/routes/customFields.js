@@ -0,0 +1,138 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const CustomField = require("../models/CustomField");
+const AuditLog = require("../models/AuditLog");
+const { authenticateToken, requireRole } = require("../middleware/auth");
+const {
+  getCustomFieldDefinitions,
+  parseCustomFieldDefinition,
+  convertExistingValues,
+} = require("../services/customFieldService");
+
+const router = express.Router();
+
+// Get field definitions
+router.get(
+  "/",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const fields = await getCustomFieldDefinitions();
+      res.json({ fields });
+    } catch (error) {
+      console.error("Get custom fields error:", error);
+      res.status(500).json({ error: "Failed to fetch custom fields" });
+    }
+  }
+);
+
+// Create a field. Values contacts already hold for its key are converted
+// to its type.
+router.post("/", authenticateToken, requireRole(["admin"]), async (req, res) => {
+  try {
+    const { definition, error } = parseCustomFieldDefinition(req.body || {});
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    if (await CustomField.exists({ key: definition.key })) {
+      return res
+        .status(400)
+        .json({ error: `A field with the key "${definition.key}" exists` });
+    }
+
+    const field = await CustomField.create({
+      ...definition,
+      createdBy: req.user._id,
+    });
+    const conversion = await convertExistingValues(definition);
+
+    await AuditLog.create({
+      userId: req.user._id,
+      action: "custom_field_created",
+      targetType: "custom_field",
+      targetId: field._id,
+      details: { key: field.key, type: field.type, ...conversion },
+    });
+
+    res.status(201).json({ field, conversion });
+  } catch (error) {
+    console.error("Create custom field error:", error);
+    res.status(500).json({ error: "Failed to create custom field" });
+  }
+});
+
+// Update a field. Its key and type stay as they are.
+router.put(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ error: "Custom field not found" });
+      }
+      const field = await CustomField.findById(req.params.id);
+      if (!field) {
+        return res.status(404).json({ error: "Custom field not found" });
+      }
+
+      const { definition, error } = parseCustomFieldDefinition(
+        req.body || {},
+        field.toObject()
+      );
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      field.set(definition);
+      await field.save();
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "custom_field_updated",
+        targetType: "custom_field",
+        targetId: field._id,
+        details: { key: field.key },
+      });
+
+      res.json(field);
+    } catch (error) {
+      console.error("Update custom field error:", error);
+      res.status(500).json({ error: "Failed to update custom field" });
+    }
+  }
+);
+
+// Delete a field. Contacts keep their values, shown as plain text.
+router.delete(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ error: "Custom field not found" });
+      }
+      const field = await CustomField.findByIdAndDelete(req.params.id);
+      if (!field) {
+        return res.status(404).json({ error: "Custom field not found" });
+      }
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "custom_field_deleted",
+        targetType: "custom_field",
+        targetId: field._id,
+        details: { key: field.key, label: field.label },
+      });
+
+      res.json({ message: "Custom field deleted" });
+    } catch (error) {
+      console.error("Delete custom field error:", error);
+      res.status(500).json({ error: "Failed to delete custom field" });
+    }
+  }
+);
+
+module.exports = router;
@@ -0,0 +1,141 @@
+const express = require("express");
+const crypto = require("crypto");
+const {
+  processFeedbackReport,
+  processFeedbackMessage,
+} = require("../services/feedbackService");
+
+const router = express.Router();
+
+// Raw bounce and complaint emails, e.g. from an MTA pipe or a mail relay
+const rawMessage = express.text({
+  type: ["message/rfc822", "text/plain"],
+  limit: "10mb",
+});
+
+/**
+ * Check the shared secret sent as the X-Webhook-Secret header or the
+ * secret query parameter against INBOUND_WEBHOOK_SECRET
+ */
+const verifySecret = (req, res, next) => {
+  const secret = process.env.INBOUND_WEBHOOK_SECRET;
+  if (!secret) {
+    return res
+      .status(503)
+      .json({ error: "Inbound webhook is not configured" });
+  }
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(
+    String(req.get("x-webhook-secret") || req.query.secret || "")
+  );
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return res.status(401).json({ error: "Invalid webhook secret" });
+  }
+  next();
+};
+
+const isObject = (value) =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Optional text fields of reports and bounced recipients
+const isOptionalString = (value) => value == null || typeof value === "string";
+
+/**
+ * Check the shape of a JSON report
+ * @param {*} report - Posted report
+ * @returns {string|null} What is wrong with it, or null when it is valid
+ */
+function checkReport(report) {
+  if (!isObject(report)) return "Report must be an object";
+  if (!["bounce", "complaint"].includes(report.type)) {
+    return 'Report type must be "bounce" or "complaint"';
+  }
+  if (
+    !isOptionalString(report.messageId) ||
+    !isOptionalString(report.campaignId)
+  ) {
+    return "messageId and campaignId must be strings";
+  }
+
+  if (report.type === "complaint") {
+    return ["email", "contactEmail", "feedbackType"].every((key) =>
+      isOptionalString(report[key])
+    )
+      ? null
+      : "email and feedbackType must be strings";
+  }
+
+  if (!Array.isArray(report.recipients) || report.recipients.length === 0) {
+    return "Bounce recipients must be a non-empty array";
+  }
+  const valid = report.recipients.every(
+    (recipient) =>
+      isObject(recipient) &&
+      typeof recipient.email === "string" &&
+      isOptionalString(recipient.status) &&
+      isOptionalString(recipient.diagnosticCode) &&
+      (recipient.permanent == null || typeof recipient.permanent === "boolean")
+  );
+  return valid
+    ? null
+    : "Each bounce recipient needs an email; status and diagnosticCode must be strings and permanent a boolean";
+}
+
+/**
+ * Receive bounce and complaint reports. Accepts a raw report email as the
+ * body (message/rfc822 or text/plain), JSON { message } with the raw email,
+ * or JSON reports that are already parsed:
+ *   { type: "bounce", messageId, campaignId,
+ *     recipients: [{ email, status, diagnosticCode, permanent }] }
+ *   { type: "complaint", messageId, campaignId, email, feedbackType }
+ * JSON bodies may also be an array of reports.
+ */
+router.post("/feedback", verifySecret, rawMessage, async (req, res) => {
+  try {
+    let outcomes;
+    if (typeof req.body === "string") {
+      outcomes = await processFeedbackMessage(req.body, { source: "webhook" });
+    } else if (typeof req.body?.message === "string") {
+      outcomes = await processFeedbackMessage(req.body.message, {
+        source: "webhook",
+      });
+    } else {
+      const reports = Array.isArray(req.body) ? req.body : [req.body];
+      if (reports.length === 0) {
+        return res.status(400).json({ error: "Invalid feedback report" });
+      }
+      for (const [index, report] of reports.entries()) {
+        const problem = checkReport(report);
+        if (problem) {
+          return res.status(400).json({
+            error: `Invalid feedback report${
+              reports.length > 1 ? ` ${index + 1}` : ""
+            }: ${problem}`,
+          });
+        }
+      }
+      outcomes = [];
+      for (const report of reports) {
+        outcomes.push(
+          ...(await processFeedbackReport(report, { source: "webhook" }))
+        );
+      }
+    }
+
+    if (!outcomes) {
+      return res
+        .status(422)
+        .json({ error: "Message is not a bounce or complaint report" });
+    }
+    res.json({ processed: outcomes.length, results: outcomes });
+  } catch (error) {
+    console.error("Inbound feedback error:", error);
+    res.status(500).json({ error: "Failed to process feedback" });
+  }
+});
+
+module.exports = router;
@@ -2,55 +2,34 @@ const express = require("express");
 const Queue = require("../models/Queue");
 const Campaign = require("../models/Campaign");
 const SystemConfig = require("../models/SystemConfig");
+const Settings = require("../models/Settings");
 const AuditLog = require("../models/AuditLog");
 const { authenticateToken, requireRole } = require("../middleware/auth");
+const { getQueueStats, requeueJobs } = require("../services/queueService");
 
 const router = express.Router();
 
-// Get queue statistics
+// Get queue statistics, campaign progress and worker status
 router.get(
   "/stats",
   authenticateToken,
   requireRole(["admin"]),
   async (req, res) => {
     try {
-      // Get job statistics by status
-      const jobStats = await Queue.find();
+      const { stats, processingRate, campaigns, worker } =
+        await getQueueStats();
 
       // Get recent jobs
       const recentJobs = await Queue.find()
         .populate("campaignId", "name subject")
-        .sort({ createdAt: -1 })
+        .sort({ updatedAt: -1 })
         .limit(50);
 
-      // Calculate statistics
-      const stats = {
-        queued: jobStats?.filter((job) => job.status === "pending").length || 0,
-        sending:
-          jobStats?.filter((job) => job.status === "sending").length || 0,
-        sent: jobStats?.filter((job) => job.status === "sent").length || 0,
-        failed: jobStats?.filter((job) => job.status === "failed").length || 0,
-        retrying:
-          jobStats?.filter(
-            (job) => job.retryCount > 0 && job.status === "pending"
-          ).length || 0,
-        total: jobStats?.length || 0,
-      };
-
-      // Get processing rate (jobs per minute in last hour)
-      const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-      const recentSentJobs = await Queue.find({
-        status: "sent",
-        sentAt: { $gte: oneHourAgo },
-      });
-
-      const processingRate = recentSentJobs
-        ? Math.round(recentSentJobs.length / 60)
-        : 0;
-
       res.json({
         stats,
         processingRate,
+        campaigns,
+        worker,
         recentJobs: recentJobs || [],
       });
     } catch (error) {
@@ -70,34 +49,27 @@ router.get(
       const { page = 1, limit = 50, status, campaignId } = req.query;
       const offset = (page - 1) * limit;
 
-      let query = Queue.find()
-        .populate("campaignId", "name subject")
-        .sort({ createdAt: -1 })
-        .skip(offset)
-        .limit(parseInt(limit));
+      const filter = {};
 
-      if (status && status !== "all") {
-        query = query.where("status").equals(status);
+      // "retrying" jobs are pending jobs that failed before
+      if (status === "retrying") {
+        filter.status = "pending";
+        filter.retryCount = { $gt: 0 };
+      } else if (status && status !== "all") {
+        filter.status = status;
       }
 
       if (campaignId) {
-        query = query.where("campaignId").equals(campaignId);
-      }
-
-      const jobs = await query;
-
-      // Get total count
-      let countQuery = Queue.find();
-
-      if (status && status !== "all") {
-        countQuery = countQuery.where("status").equals(status);
+        filter.campaignId = campaignId;
       }
 
-      if (campaignId) {
-        countQuery = countQuery.where("campaignId").equals(campaignId);
-      }
+      const jobs = await Queue.find(filter)
+        .populate("campaignId", "name subject")
+        .sort({ updatedAt: -1 })
+        .skip(offset)
+        .limit(parseInt(limit));
 
-      const count = await countQuery.countDocuments();
+      const count = await Queue.countDocuments(filter);
 
       res.json({
         jobs: jobs || [],
@@ -124,32 +96,16 @@ router.post(
     try {
       const { jobIds, campaignId } = req.body;
 
-      let query = Queue.find();
+      let filter = {};
 
       if (jobIds && jobIds.length > 0) {
-        query = query.where("_id").in(jobIds);
+        filter = { _id: { $in: jobIds } };
       } else if (campaignId) {
-        query = query
-          .where("campaignId")
-          .equals(campaignId)
-          .where("status")
-          .equals("failed");
-      } else {
-        query = query.where("status").equals("failed");
+        filter = { campaignId };
       }
 
-      const jobsToRetry = await query;
-      const retriedCount = jobsToRetry.length;
-
-      // Update jobs to pending status
-      await Queue.updateMany(
-        { _id: { $in: jobsToRetry.map((job) => job._id) } },
-        {
-          status: "pending",
-          errorMessage: null,
-          retryCount: 0,
-        }
-      );
+      // Failed jobs go back to pending and the worker sends them again
+      const retriedCount = await requeueJobs(filter);
 
       // Log audit event
       await AuditLog.create({
@@ -245,9 +201,7 @@ router.get(
   async (req, res) => {
     try {
       const configs = await SystemConfig.find({
-        key: {
-          $in: ["queue_paused", "rate_limit_per_minute", "max_retry_attempts"],
-        },
+        key: { $in: ["queue_paused", "max_retry_attempts"] },
       });
 
       const configMap = {};
@@ -255,9 +209,12 @@ router.get(
         configMap[config.key] = config.value;
       });
 
+      // The worker sends at the rate from the email settings
+      const settings = await Settings.findOne({ isDefault: true });
+
       res.json({
         isPaused: configMap.queue_paused === "true",
-        rateLimitPerMinute: parseInt(configMap.rate_limit_per_minute || "100"),
+        rateLimitPerMinute: settings?.emailRateLimit || 5,
         maxRetryAttempts: parseInt(configMap.max_retry_attempts || "3"),
       });
     } catch (error) {
@@ -279,11 +236,17 @@ router.put(
       const updates = [];
 
       if (rateLimitPerMinute !== undefined) {
-        updates.push({
-          key: "rate_limit_per_minute",
-          value: rateLimitPerMinute.toString(),
-          description: "Maximum emails to send per minute",
-        });
+        const rate = parseInt(rateLimitPerMinute);
+        if (!(rate > 0)) {
+          return res
+            .status(400)
+            .json({ error: "Rate limit must be a positive number" });
+        }
+        await Settings.findOneAndUpdate(
+          { isDefault: true },
+          { emailRateLimit: rate, updatedBy: req.user._id },
+          { upsert: true }
+        );
       }
 
       if (maxRetryAttempts !== undefined) {
@@ -294,13 +257,13 @@ router.put(
         });
       }
 
-      if (updates.length > 0) {
-        for (const update of updates) {
-          await SystemConfig.findOneAndUpdate({ key: update.key }, update, {
-            upsert: true,
-          });
-        }
+      for (const update of updates) {
+        await SystemConfig.findOneAndUpdate({ key: update.key }, update, {
+          upsert: true,
+        });
+      }
 
+      if (rateLimitPerMinute !== undefined || updates.length > 0) {
         // Log audit event
         await AuditLog.create({
           userId: req.user.id,
@@ -3,6 +3,7 @@ const { format, subDays, startOfDay, endOfDay } = require("date-fns");
 const Campaign = require("../models/Campaign");
 const Queue = require("../models/Queue");
 const Contact = require("../models/Contact");
+const Suppression = require("../models/Suppression");
 const { authenticateToken, requireRole } = require("../middleware/auth");
 
 const router = express.Router();
@@ -34,20 +35,76 @@ router.get(
         status: "active",
       });
 
-      // TODO: Add suppression list when SuppressionList model is implemented
-      const suppressedContacts = 0;
+      const suppressedContacts = await Suppression.countDocuments();
+      // Active contacts that will still be skipped when sending
+      const [suppressedActive] = await Suppression.aggregate([
+        {
+          $lookup: {
+            from: "contacts",
+            localField: "email",
+            foreignField: "email",
+            as: "contact",
+          },
+        },
+        { $match: { "contact.status": "active" } },
+        { $count: "count" },
+      ]);
 
       // Calculate metrics
       const totalCampaigns = campaigns?.length || 0;
       const emailsSent =
         emailJobs?.filter((job) => job.status === "sent").length || 0;
-      // TODO: Add email events tracking
-      const emailsDelivered = 0;
-      const emailsOpened = 0;
-      const emailsClicked = 0;
+      // Accepted by the SMTP server, until bounce processing says otherwise
+      const emailsDelivered = emailsSent;
+      // First tracked open and click per recipient
+      const emailsOpened = emailJobs.filter((job) => job.openedAt).length;
+      const emailsClicked = emailJobs.filter((job) => job.clickedAt).length;
       const emailsBounced =
         emailJobs?.filter((job) => job.status === "bounced").length || 0;
-      const activeContacts = totalContacts - suppressedContacts;
+      const activeContacts = totalContacts - (suppressedActive?.count || 0);
+
+      const rates = {
+        deliveryRate:
+          emailsSent > 0
+            ? ((emailsDelivered / emailsSent) * 100).toFixed(2)
+            : "0.00",
+        openRate:
+          emailsDelivered > 0
+            ? ((emailsOpened / emailsDelivered) * 100).toFixed(2)
+            : "0.00",
+        clickRate:
+          emailsDelivered > 0
+            ? ((emailsClicked / emailsDelivered) * 100).toFixed(2)
+            : "0.00",
+        bounceRate:
+          emailsSent > 0
+            ? ((emailsBounced / emailsSent) * 100).toFixed(2)
+            : "0.00",
+      };
+
+      // Sends, first opens and first clicks per day
+      const performanceByDay = new Map();
+      const countDay = (date, field) => {
+        if (!date) return;
+        const day = format(date, "yyyy-MM-dd");
+        if (!performanceByDay.has(day)) {
+          performanceByDay.set(day, {
+            date: day,
+            sent: 0,
+            opened: 0,
+            clicked: 0,
+          });
+        }
+        performanceByDay.get(day)[field]++;
+      };
+      emailJobs.forEach((job) => {
+        if (job.status === "sent") countDay(job.sentAt, "sent");
+        countDay(job.openedAt, "opened");
+        countDay(job.clickedAt, "clicked");
+      });
+      const dailyPerformance = [...performanceByDay.values()].sort((a, b) =>
+        a.date.localeCompare(b.date)
+      );
 
       res.json({
         period: {
@@ -68,28 +125,28 @@ router.get(
           opened: emailsOpened,
           clicked: emailsClicked,
           bounced: emailsBounced,
-          deliveryRate:
-            emailsSent > 0
-              ? ((emailsDelivered / emailsSent) * 100).toFixed(2)
-              : "0.00",
-          openRate:
-            emailsDelivered > 0
-              ? ((emailsOpened / emailsDelivered) * 100).toFixed(2)
-              : "0.00",
-          clickRate:
-            emailsDelivered > 0
-              ? ((emailsClicked / emailsDelivered) * 100).toFixed(2)
-              : "0.00",
-          bounceRate:
-            emailsSent > 0
-              ? ((emailsBounced / emailsSent) * 100).toFixed(2)
-              : "0.00",
+          ...rates,
         },
         contacts: {
           total: totalContacts,
           active: activeContacts,
           suppressed: suppressedContacts,
         },
+        // Flat summary used by the Reports page
+        stats: {
+          totalCampaigns,
+          emailsSent,
+          emailsDelivered,
+          emailsOpened,
+          emailsClicked,
+          emailsBounced,
+          totalContacts,
+          suppressedContacts,
+          openRate: rates.openRate,
+          clickRate: rates.clickRate,
+          bounceRate: rates.bounceRate,
+        },
+        dailyPerformance,
       });
     } catch (error) {
       console.error("Get dashboard statistics error:", error);
@@ -215,9 +272,9 @@ router.get(
           email: recipient.email,
           status: recipient.status,
           sentAt: recipient.sentAt,
-          deliveredAt: null, // TODO: Add email events tracking
-          openedAt: null, // TODO: Add email events tracking
-          clickedAt: null, // TODO: Add email events tracking
+          deliveredAt: recipient.status === "sent" ? recipient.sentAt : null,
+          openedAt: recipient.openedAt || null,
+          clickedAt: recipient.clickedAt || null,
           bouncedAt: recipient.status === "bounced" ? recipient.sentAt : null,
           unsubscribedAt: null, // TODO: Add email events tracking
         })) || [];
@@ -232,8 +289,8 @@ router.get(
         summary: {
           totalRecipients: csvData.length,
           delivered: csvData.filter((r) => r.status === "sent").length, // Simplified for now
-          opened: 0, // TODO: Add email events tracking
-          clicked: 0, // TODO: Add email events tracking
+          opened: csvData.filter((r) => r.openedAt).length,
+          clicked: csvData.filter((r) => r.clickedAt).length,
           bounced: csvData.filter((r) => r.status === "bounced").length,
           unsubscribed: 0, // TODO: Add email events tracking
         },
@@ -0,0 +1,280 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const Segment = require("../models/Segment");
+const Contact = require("../models/Contact");
+const Campaign = require("../models/Campaign");
+const AuditLog = require("../models/AuditLog");
+const { authenticateToken, requireRole } = require("../middleware/auth");
+const {
+  validateRules,
+  buildSegmentQuery,
+  countSegment,
+} = require("../services/segmentService");
+const {
+  getCustomFieldDefinitions,
+} = require("../services/customFieldService");
+
+const router = express.Router();
+
+const SAMPLE_SIZE = 10;
+
+const formatSegment = (segment) => ({
+  _id: segment._id,
+  name: segment.name,
+  description: segment.description || "",
+  rules: segment.rules,
+  contactCount: segment.contactCount || 0,
+  countedAt: segment.countedAt,
+  createdAt: segment.createdAt,
+  updatedAt: segment.updatedAt,
+});
+
+// Get saved segments
+router.get(
+  "/",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const segments = await Segment.find().sort({ name: 1 }).lean();
+      res.json({ segments: segments.map(formatSegment) });
+    } catch (error) {
+      console.error("Get segments error:", error);
+      res.status(500).json({ error: "Failed to fetch segments" });
+    }
+  }
+);
+
+// Get the custom field names in use and the field definitions, for the
+// rule builder
+router.get(
+  "/fields",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const [[result], definitions] = await Promise.all([
+        Contact.aggregate([
+          { $match: { customFields: { $exists: true } } },
+          { $project: { fields: { $objectToArray: "$customFields" } } },
+          { $unwind: "$fields" },
+          { $group: { _id: null, keys: { $addToSet: "$fields.k" } } },
+        ]),
+        getCustomFieldDefinitions(),
+      ]);
+      res.json({ customFields: (result?.keys || []).sort(), definitions });
+    } catch (error) {
+      console.error("Get segment fields error:", error);
+      res.status(500).json({ error: "Failed to fetch segment fields" });
+    }
+  }
+);
+
+// Count and sample the contacts matching rules, without saving them
+router.post(
+  "/preview",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const { rules } = req.body;
+      const rulesError = validateRules(
+        rules,
+        await getCustomFieldDefinitions()
+      );
+      if (rulesError) {
+        return res.status(400).json({ error: rulesError });
+      }
+
+      const query = await buildSegmentQuery(rules);
+      const [total, active, sample] = await Promise.all([
+        Contact.countDocuments(query),
+        Contact.countDocuments({ $and: [query, { status: "active" }] }),
+        Contact.find(query)
+          .select("email firstName lastName status")
+          .sort({ createdAt: -1 })
+          .limit(SAMPLE_SIZE)
+          .lean(),
+      ]);
+
+      res.json({ total, active, sample });
+    } catch (error) {
+      console.error("Preview segment error:", error);
+      res.status(500).json({ error: "Failed to preview segment" });
+    }
+  }
+);
+
+// Create a segment
+router.post(
+  "/",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const { name, description, rules } = req.body;
+      if (!name?.trim()) {
+        return res.status(400).json({ error: "Segment name is required" });
+      }
+      const rulesError = validateRules(
+        rules,
+        await getCustomFieldDefinitions()
+      );
+      if (rulesError) {
+        return res.status(400).json({ error: rulesError });
+      }
+
+      const { total } = await countSegment(rules);
+      const segment = await Segment.create({
+        name: name.trim(),
+        description,
+        rules,
+        contactCount: total,
+        countedAt: new Date(),
+        createdBy: req.user._id,
+      });
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "segment_created",
+        targetType: "segment",
+        targetId: segment._id,
+        details: { name: segment.name, contactCount: total },
+      });
+
+      res.status(201).json(formatSegment(segment));
+    } catch (error) {
+      console.error("Create segment error:", error);
+      res.status(500).json({ error: "Failed to create segment" });
+    }
+  }
+);
+
+// Get a segment with a fresh count
+router.get(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ error: "Segment not found" });
+      }
+      const segment = await Segment.findById(req.params.id);
+      if (!segment) {
+        return res.status(404).json({ error: "Segment not found" });
+      }
+
+      segment.contactCount = (await countSegment(segment.rules)).total;
+      segment.countedAt = new Date();
+      await segment.save();
+
+      res.json(formatSegment(segment));
+    } catch (error) {
+      console.error("Get segment error:", error);
+      res.status(500).json({ error: "Failed to fetch segment" });
+    }
+  }
+);
+
+// Update a segment
+router.put(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ error: "Segment not found" });
+      }
+      const segment = await Segment.findById(req.params.id);
+      if (!segment) {
+        return res.status(404).json({ error: "Segment not found" });
+      }
+
+      const { name, description, rules } = req.body;
+      if (name !== undefined && !name.trim()) {
+        return res.status(400).json({ error: "Segment name is required" });
+      }
+      if (rules !== undefined) {
+        const rulesError = validateRules(
+          rules,
+          await getCustomFieldDefinitions()
+        );
+        if (rulesError) {
+          return res.status(400).json({ error: rulesError });
+        }
+        segment.rules = rules;
+        segment.markModified("rules");
+      }
+      if (name !== undefined) segment.name = name.trim();
+      if (description !== undefined) segment.description = description;
+
+      segment.contactCount = (await countSegment(segment.rules)).total;
+      segment.countedAt = new Date();
+      await segment.save();
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "segment_updated",
+        targetType: "segment",
+        targetId: segment._id,
+        details: {
+          name: segment.name,
+          contactCount: segment.contactCount,
+          fields: Object.keys(req.body),
+        },
+      });
+
+      res.json(formatSegment(segment));
+    } catch (error) {
+      console.error("Update segment error:", error);
+      res.status(500).json({ error: "Failed to update segment" });
+    }
+  }
+);
+
+// Delete a segment that no unsent campaign targets
+router.delete(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ error: "Segment not found" });
+      }
+      // Scheduled campaigns evaluate their segments when they are queued
+      const inUse = await Campaign.exists({
+        segments: req.params.id,
+        status: { $in: ["scheduled", "sending", "paused"] },
+      });
+      if (inUse) {
+        return res.status(400).json({
+          error:
+            "This segment is used by scheduled or sending campaigns and cannot be deleted",
+        });
+      }
+
+      const segment = await Segment.findByIdAndDelete(req.params.id);
+      if (!segment) {
+        return res.status(404).json({ error: "Segment not found" });
+      }
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "segment_deleted",
+        targetType: "segment",
+        targetId: segment._id,
+        details: { name: segment.name },
+      });
+
+      res.json({ message: "Segment deleted" });
+    } catch (error) {
+      console.error("Delete segment error:", error);
+      res.status(500).json({ error: "Failed to delete segment" });
+    }
+  }
+);
+
+module.exports = router;
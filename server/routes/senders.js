@@ -0,0 +1,418 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const SenderIdentity = require("../models/SenderIdentity");
+const SenderDomain = require("../models/SenderDomain");
+const Campaign = require("../models/Campaign");
+const AuditLog = require("../models/AuditLog");
+const { authenticateToken, requireRole } = require("../middleware/auth");
+const {
+  isValidEmail,
+  domainOf,
+  serializeIdentity,
+} = require("../services/senderIdentityService");
+const { checkDomain } = require("../services/senderDomainService");
+const emailService = require("../services/emailService");
+
+const router = express.Router();
+
+const DOMAIN_REGEX = /^(?=.{1,253}$)([a-z0-9-]+\.)+[a-z]{2,}$/i;
+const SELECTOR_REGEX = /^[a-z0-9][a-z0-9._-]*$/i;
+
+/**
+ * Validate the SMTP profile of an identity. An empty host removes the
+ * profile, so the identity sends through the server in Settings.
+ * @param {object} smtp - { host, port, user, password, secure }
+ * @param {object} current - The identity's current profile, whose password
+ *   is kept when "***" or nothing is sent
+ * @returns {object} { smtp } or { error }
+ */
+function parseSmtpProfile(smtp, current = {}) {
+  if (!smtp?.host?.trim()) return { smtp: undefined };
+
+  const port = parseInt(smtp.port) || 587;
+  if (port < 1 || port > 65535) {
+    return { error: "SMTP port must be between 1 and 65535" };
+  }
+  const password =
+    smtp.password === undefined || smtp.password === "***"
+      ? current.password
+      : smtp.password;
+
+  return {
+    smtp: {
+      host: smtp.host.trim(),
+      port,
+      user: (smtp.user || "").trim(),
+      password,
+      secure: Boolean(smtp.secure),
+    },
+  };
+}
+
+// Check a domain the first time an identity uses it
+async function checkNewDomain(domain, userId) {
+  if (await SenderDomain.exists({ domain })) return;
+  await checkDomain(domain, { checkedBy: userId }).catch((error) =>
+    console.error(`Sender domain check for ${domain} failed:`, error)
+  );
+}
+
+// Make an identity the default, so it is preselected for new campaigns
+async function setDefaultIdentity(identity) {
+  await SenderIdentity.updateMany(
+    { _id: { $ne: identity._id }, isDefault: true },
+    { $set: { isDefault: false } }
+  );
+  identity.isDefault = true;
+}
+
+// Get sender identities, with the approved ones only for campaign forms
+router.get(
+  "/",
+  authenticateToken,
+  requireRole(["admin", "editor", "viewer"]),
+  async (req, res) => {
+    try {
+      const isAdmin = req.user.role === "admin";
+      const query =
+        req.query.approved === "true" || !isAdmin ? { approved: true } : {};
+
+      const identities = await SenderIdentity.find(query)
+        .sort({ isDefault: -1, name: 1 })
+        .lean();
+      const domains = await SenderDomain.find({
+        domain: { $in: identities.map((identity) => identity.domain) },
+      }).lean();
+      const domainByName = new Map(
+        domains.map((domain) => [domain.domain, domain])
+      );
+
+      res.json({
+        identities: identities.map((identity) =>
+          serializeIdentity(identity, {
+            includeSmtp: isAdmin,
+            domain: domainByName.get(identity.domain),
+          })
+        ),
+      });
+    } catch (error) {
+      console.error("Get sender identities error:", error);
+      res.status(500).json({ error: "Failed to fetch sender identities" });
+    }
+  }
+);
+
+// Get the domains of all identities with their last record checks
+router.get(
+  "/domains",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      const names = await SenderIdentity.distinct("domain");
+      const domains = await SenderDomain.find({
+        domain: { $in: names },
+      }).lean();
+      const domainByName = new Map(
+        domains.map((domain) => [domain.domain, domain])
+      );
+
+      res.json({
+        domains: names.sort().map((name) => {
+          const domain = domainByName.get(name);
+          return {
+            domain: name,
+            dkimSelector: domain?.dkimSelector || "default",
+            spf: domain?.spf || null,
+            dkim: domain?.dkim || null,
+            dmarc: domain?.dmarc || null,
+            verified: Boolean(domain?.verified),
+            checkedAt: domain?.checkedAt || null,
+          };
+        }),
+      });
+    } catch (error) {
+      console.error("Get sender domains error:", error);
+      res.status(500).json({ error: "Failed to fetch sender domains" });
+    }
+  }
+);
+
+// Look up a domain's SPF, DKIM and DMARC records again
+router.post(
+  "/domains/:domain/check",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      const domain = req.params.domain.toLowerCase();
+      const { dkimSelector } = req.body;
+      if (!DOMAIN_REGEX.test(domain)) {
+        return res.status(400).json({ error: "Invalid domain" });
+      }
+      if (dkimSelector !== undefined && !SELECTOR_REGEX.test(dkimSelector)) {
+        return res.status(400).json({ error: "Invalid DKIM selector" });
+      }
+
+      const result = await checkDomain(domain, {
+        dkimSelector,
+        checkedBy: req.user._id,
+      });
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "sender_domain_checked",
+        targetType: "sender_domain",
+        targetId: result._id,
+        details: {
+          domain,
+          dkimSelector: result.dkimSelector,
+          verified: result.verified,
+        },
+      });
+
+      res.json({
+        domain: result.domain,
+        dkimSelector: result.dkimSelector,
+        spf: result.spf,
+        dkim: result.dkim,
+        dmarc: result.dmarc,
+        verified: result.verified,
+        checkedAt: result.checkedAt,
+      });
+    } catch (error) {
+      console.error("Check sender domain error:", error);
+      res.status(500).json({ error: "Failed to check sender domain" });
+    }
+  }
+);
+
+// Add a sender identity. New identities need approval before use.
+router.post(
+  "/",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      const { name, email, replyToEmail, isDefault } = req.body;
+      if (!name?.trim() || !isValidEmail(email)) {
+        return res
+          .status(400)
+          .json({ error: "Name and a valid email are required" });
+      }
+      if (replyToEmail && !isValidEmail(replyToEmail)) {
+        return res.status(400).json({ error: "Invalid reply-to email" });
+      }
+      const { smtp, error: smtpError } = parseSmtpProfile(req.body.smtp);
+      if (smtpError) {
+        return res.status(400).json({ error: smtpError });
+      }
+      if (await SenderIdentity.exists({ email: email.trim().toLowerCase() })) {
+        return res
+          .status(400)
+          .json({ error: "A sender identity with this email already exists" });
+      }
+
+      const identity = new SenderIdentity({
+        name: name.trim(),
+        email,
+        replyToEmail: replyToEmail || undefined,
+        domain: domainOf(email),
+        smtp,
+        createdBy: req.user._id,
+      });
+      if (isDefault) await setDefaultIdentity(identity);
+      await identity.save();
+      await checkNewDomain(identity.domain, req.user._id);
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "sender_identity_created",
+        targetType: "sender_identity",
+        targetId: identity._id,
+        details: { name: identity.name, email: identity.email },
+      });
+
+      res.status(201).json(serializeIdentity(identity, { includeSmtp: true }));
+    } catch (error) {
+      console.error("Create sender identity error:", error);
+      res.status(500).json({ error: "Failed to create sender identity" });
+    }
+  }
+);
+
+// Update a sender identity. Approving it requires a verified domain, and
+// changing its address withdraws the approval.
+router.put(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ error: "Sender identity not found" });
+      }
+      const identity = await SenderIdentity.findById(req.params.id);
+      if (!identity) {
+        return res.status(404).json({ error: "Sender identity not found" });
+      }
+
+      const { name, email, replyToEmail, approved, isDefault } = req.body;
+      if (name !== undefined && !name.trim()) {
+        return res.status(400).json({ error: "Name is required" });
+      }
+      if (email !== undefined && !isValidEmail(email)) {
+        return res.status(400).json({ error: "Valid email is required" });
+      }
+      if (replyToEmail && !isValidEmail(replyToEmail)) {
+        return res.status(400).json({ error: "Invalid reply-to email" });
+      }
+
+      if (name !== undefined) identity.name = name.trim();
+      if (replyToEmail !== undefined) {
+        identity.replyToEmail = replyToEmail || undefined;
+      }
+      if (email !== undefined && email.trim().toLowerCase() !== identity.email) {
+        const normalized = email.trim().toLowerCase();
+        if (await SenderIdentity.exists({ email: normalized })) {
+          return res.status(400).json({
+            error: "A sender identity with this email already exists",
+          });
+        }
+        identity.email = normalized;
+        identity.domain = domainOf(normalized);
+        identity.approved = false;
+      }
+      if (req.body.smtp !== undefined) {
+        const { smtp, error: smtpError } = parseSmtpProfile(
+          req.body.smtp,
+          identity.smtp
+        );
+        if (smtpError) {
+          return res.status(400).json({ error: smtpError });
+        }
+        identity.smtp = smtp;
+      }
+
+      if (approved === true && !identity.approved) {
+        const domain = await SenderDomain.findOne({
+          domain: identity.domain,
+        }).lean();
+        if (!domain?.verified) {
+          return res.status(400).json({
+            error: `Check the SPF, DKIM and DMARC records of ${identity.domain} before approving this identity`,
+          });
+        }
+        identity.approved = true;
+        identity.approvedBy = req.user._id;
+        identity.approvedAt = new Date();
+      } else if (approved === false) {
+        identity.approved = false;
+      }
+      if (isDefault === true) await setDefaultIdentity(identity);
+      else if (isDefault === false) identity.isDefault = false;
+
+      await identity.save();
+      await checkNewDomain(identity.domain, req.user._id);
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "sender_identity_updated",
+        targetType: "sender_identity",
+        targetId: identity._id,
+        details: {
+          name: identity.name,
+          email: identity.email,
+          approved: identity.approved,
+          fields: Object.keys(req.body),
+        },
+      });
+
+      res.json(serializeIdentity(identity, { includeSmtp: true }));
+    } catch (error) {
+      console.error("Update sender identity error:", error);
+      res.status(500).json({ error: "Failed to update sender identity" });
+    }
+  }
+);
+
+// Check an identity's SMTP profile by connecting to the server
+router.post(
+  "/:id/smtp/test",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ error: "Sender identity not found" });
+      }
+      const identity = await SenderIdentity.findById(req.params.id).lean();
+      if (!identity) {
+        return res.status(404).json({ error: "Sender identity not found" });
+      }
+      if (!identity.smtp?.host) {
+        return res
+          .status(400)
+          .json({ error: "This identity has no SMTP profile" });
+      }
+
+      try {
+        await emailService.getTransporter(identity.smtp).verify();
+        res.json({ success: true, message: "SMTP connection successful" });
+      } catch (smtpError) {
+        res.status(400).json({
+          success: false,
+          error: `SMTP connection failed: ${smtpError.message}`,
+        });
+      }
+    } catch (error) {
+      console.error("Test sender SMTP error:", error);
+      res.status(500).json({ error: "Failed to test SMTP profile" });
+    }
+  }
+);
+
+// Delete a sender identity that no unsent campaign uses
+router.delete(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ error: "Sender identity not found" });
+      }
+      // Their SMTP profile is looked up when each email is sent
+      const inUse = await Campaign.exists({
+        senderIdentityId: req.params.id,
+        status: { $in: ["scheduled", "sending", "paused"] },
+      });
+      if (inUse) {
+        return res.status(400).json({
+          error:
+            "This identity is used by scheduled or sending campaigns and cannot be deleted",
+        });
+      }
+
+      const identity = await SenderIdentity.findByIdAndDelete(req.params.id);
+      if (!identity) {
+        return res.status(404).json({ error: "Sender identity not found" });
+      }
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "sender_identity_deleted",
+        targetType: "sender_identity",
+        targetId: identity._id,
+        details: { name: identity.name, email: identity.email },
+      });
+
+      res.json({ message: "Sender identity deleted" });
+    } catch (error) {
+      console.error("Delete sender identity error:", error);
+      res.status(500).json({ error: "Failed to delete sender identity" });
+    }
+  }
+);
+
+module.exports = router;
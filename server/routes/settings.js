@@ -2,6 +2,16 @@ const express = require("express");
 const Settings = require("../models/Settings");
 const AuditLog = require("../models/AuditLog");
 const { authenticateToken, requireRole } = require("../middleware/auth");
+const {
+  mergeBrandKit,
+  validateBrandKit,
+  restyleTemplates,
+} = require("../services/brandKitService");
+const {
+  isValidTimeZone,
+  resolveTimeZone,
+} = require("../services/timezoneService");
+const { getSuppressionStats } = require("../services/suppressionService");
 const path = require("path");
 
 // Ensure environment variables are loaded
@@ -158,6 +168,14 @@ router.put("/", authenticateToken, requireRole(["admin"]), async (req, res) => {
       return res.status(400).json({ error: "Settings array is required" });
     }
 
+    // Campaign schedules are read in this timezone, so it must be valid
+    const timezone = settingsArray.find(({ key }) => key === "timezone");
+    if (timezone && !isValidTimeZone(timezone.value)) {
+      return res.status(400).json({
+        error: `Unknown timezone "${timezone.value}". Use an IANA name such as "Africa/Accra"`,
+      });
+    }
+
     const settings = await getOrCreateSettings();
 
     // Update settings based on key-value pairs
@@ -231,6 +249,8 @@ router.get(
         fromEmail: settings.fromEmail || "noreply@example.com",
         replyToEmail:
           settings.replyToEmail || settings.fromEmail || "noreply@example.com",
+        // Schedule times are entered in this timezone
+        timezone: resolveTimeZone(settings.timezone),
       };
 
       res.json(defaults);
@@ -437,21 +457,11 @@ router.get(
     try {
       const settings = await getOrCreateSettings();
 
+      // The addresses themselves are served by /api/suppression
       const config = {
         suppressionEnabled: settings.suppressionEnabled,
-        suppressionList: settings.suppressionList || [],
-      };
-
-      // TODO: Get suppression list statistics when SuppressionList model is implemented
-      const stats = {
-        total: settings.suppressionList?.length || 0,
-        byReason: {
-          bounced: 0,
-          unsubscribed: 0,
-          complained: 0,
-          manual: settings.suppressionList?.length || 0,
-        },
       };
+      const stats = await getSuppressionStats();
 
       res.json({ config, stats });
     } catch (error) {
@@ -461,6 +471,71 @@ router.get(
   }
 );
 
+// Get the organization brand kit used by the email editors
+router.get(
+  "/brand-kit",
+  authenticateToken,
+  requireRole(["admin", "editor", "viewer"]),
+  async (req, res) => {
+    try {
+      const settings = await getOrCreateSettings();
+      res.json(mergeBrandKit(settings.toObject().brandKit));
+    } catch (error) {
+      console.error("Get brand kit error:", error);
+      res.status(500).json({ error: "Failed to fetch brand kit" });
+    }
+  }
+);
+
+// Update the brand kit and restyle templates that use its tokens
+router.put(
+  "/brand-kit",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      const settings = await getOrCreateSettings();
+      const current = mergeBrandKit(settings.toObject().brandKit);
+      const { palette, fonts, button, logo, linkColor, contentWidth } =
+        req.body;
+      const brandKit = mergeBrandKit({
+        palette: { ...current.palette, ...palette },
+        fonts: { ...current.fonts, ...fonts },
+        button: { ...current.button, ...button },
+        logo: { ...current.logo, ...logo },
+        linkColor: linkColor ?? current.linkColor,
+        contentWidth: contentWidth ?? current.contentWidth,
+      });
+
+      const invalid = validateBrandKit(brandKit);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      settings.brandKit = brandKit;
+      settings.updatedBy = req.user._id;
+      await settings.save();
+
+      const restyledTemplates = await restyleTemplates(brandKit);
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "brand_kit_updated",
+        targetType: "system",
+        details: { brandKit, restyledTemplates },
+      });
+
+      res.json({ brandKit, restyledTemplates });
+    } catch (error) {
+      console.error("Update brand kit error:", error);
+      if (error.name === "ValidationError") {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update brand kit" });
+    }
+  }
+);
+
 // Export system configuration
 router.get(
   "/export",
@@ -487,6 +562,7 @@ router.get(
         maxLoginAttempts: settings.maxLoginAttempts,
         systemName: settings.systemName,
         timezone: settings.timezone,
+        brandKit: mergeBrandKit(settings.toObject().brandKit),
         // Don't export password and suppression list for security
       };
 
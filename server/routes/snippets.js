@@ -0,0 +1,211 @@
+const express = require("express");
+const Snippet = require("../models/Snippet");
+const AuditLog = require("../models/AuditLog");
+const { authenticateToken, requireRole } = require("../middleware/auth");
+const {
+  propagateSnippet,
+  countLinkedTemplates,
+} = require("../services/snippetService");
+
+const router = express.Router();
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Get all snippets
+router.get(
+  "/",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const { search, category } = req.query;
+
+      const query = { isActive: true };
+      if (category && category !== "all") {
+        query.category = category;
+      }
+      if (search) {
+        query.name = new RegExp(escapeRegex(String(search)), "i");
+      }
+
+      const snippets = await Snippet.find(query).sort({ name: 1 });
+      res.json(snippets);
+    } catch (error) {
+      console.error("Get snippets error:", error);
+      res.status(500).json({ error: "Failed to fetch snippets" });
+    }
+  }
+);
+
+// Get single snippet, with the number of templates linked to it
+router.get(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const snippet = await Snippet.findById(req.params.id);
+      if (!snippet || !snippet.isActive) {
+        return res.status(404).json({ error: "Snippet not found" });
+      }
+
+      const linkedTemplates = await countLinkedTemplates(snippet._id);
+      res.json({ ...snippet.toObject(), linkedTemplates });
+    } catch (error) {
+      console.error("Get snippet error:", error);
+      res.status(500).json({ error: "Failed to fetch snippet" });
+    }
+  }
+);
+
+// Create snippet
+router.post(
+  "/",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const { name, description, category, components, html } = req.body;
+
+      if (!name || !Array.isArray(components) || components.length === 0) {
+        return res
+          .status(400)
+          .json({ error: "Name and at least one block are required" });
+      }
+      if (typeof html !== "string" || !html.trim()) {
+        return res
+          .status(400)
+          .json({ error: "The compiled HTML of the blocks is required" });
+      }
+
+      const snippet = new Snippet({
+        name,
+        description,
+        category,
+        components,
+        html,
+        createdBy: req.user._id,
+      });
+      await snippet.save();
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "snippet_created",
+        targetType: "snippet",
+        targetId: snippet._id,
+        details: { name, category, blockCount: components.length },
+      });
+
+      res.status(201).json(snippet);
+    } catch (error) {
+      console.error("Create snippet error:", error);
+      if (error.name === "ValidationError") {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create snippet" });
+    }
+  }
+);
+
+// Update snippet. Changing the blocks bumps the version and updates every
+// template that keeps a linked copy of the snippet.
+router.put(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const { name, description, category, components, html } = req.body;
+
+      const snippet = await Snippet.findById(req.params.id);
+      if (!snippet || !snippet.isActive) {
+        return res.status(404).json({ error: "Snippet not found" });
+      }
+
+      if (name !== undefined) snippet.name = name;
+      if (description !== undefined) snippet.description = description;
+      if (category !== undefined) snippet.category = category;
+
+      const blocksChanged = Array.isArray(components);
+      if (blocksChanged) {
+        if (components.length === 0) {
+          return res
+            .status(400)
+            .json({ error: "A snippet must contain at least one block" });
+        }
+        // Linked templates are updated from this HTML
+        if (typeof html !== "string" || !html.trim()) {
+          return res.status(400).json({
+            error: "The compiled HTML is required when the blocks change",
+          });
+        }
+        snippet.components = components;
+        snippet.html = html;
+        snippet.version += 1;
+      }
+
+      snippet.updatedBy = req.user._id;
+      await snippet.save();
+
+      const updatedTemplates =
+        blocksChanged || name !== undefined
+          ? await propagateSnippet(snippet)
+          : 0;
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "snippet_updated",
+        targetType: "snippet",
+        targetId: snippet._id,
+        details: {
+          name: snippet.name,
+          version: snippet.version,
+          updatedTemplates,
+        },
+      });
+
+      res.json({ ...snippet.toObject(), updatedTemplates });
+    } catch (error) {
+      console.error("Update snippet error:", error);
+      if (error.name === "ValidationError") {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update snippet" });
+    }
+  }
+);
+
+// Delete snippet. It is only deactivated, and templates keep their last
+// linked copy of the blocks.
+router.delete(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const snippet = await Snippet.findOneAndUpdate(
+        { _id: req.params.id, isActive: true },
+        { $set: { isActive: false } },
+        { new: true }
+      );
+      if (!snippet) {
+        return res.status(404).json({ error: "Snippet not found" });
+      }
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "snippet_deleted",
+        targetType: "snippet",
+        targetId: snippet._id,
+        details: { name: snippet.name },
+      });
+
+      res.json({ message: "Snippet deleted successfully", snippet });
+    } catch (error) {
+      console.error("Delete snippet error:", error);
+      res.status(500).json({ error: "Failed to delete snippet" });
+    }
+  }
+);
+
+module.exports = router;
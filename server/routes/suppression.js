@@ -0,0 +1,342 @@
+const express = require("express");
+const multer = require("multer");
+const XLSX = require("xlsx");
+const mongoose = require("mongoose");
+const Suppression = require("../models/Suppression");
+const AuditLog = require("../models/AuditLog");
+const { authenticateToken, requireRole } = require("../middleware/auth");
+const {
+  SUPPRESSION_REASONS,
+  normalizeEmail,
+  isValidEmail,
+  importSuppressions,
+  getSuppressionStats,
+} = require("../services/suppressionService");
+
+const router = express.Router();
+
+// Import files are small lists of addresses, so keep them in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 },
+});
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const escapeCsv = (value) => {
+  let text = value === undefined || value === null ? "" : String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Rows of a CSV or Excel import. Files with a header row may have email,
+ * reason and note columns; files without one are read as one address per
+ * line.
+ * @param {object} file - Uploaded file from multer
+ * @returns {object[]} { email, reason, note }
+ */
+function parseImportFile(file) {
+  const workbook = XLSX.read(file.buffer, { type: "buffer" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = sheet
+    ? XLSX.utils.sheet_to_json(sheet, { header: 1, defval: "" })
+    : [];
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => String(cell).trim().toLowerCase());
+  const emailColumn = header.findIndex((cell) =>
+    ["email", "e-mail", "email address"].includes(cell)
+  );
+  if (emailColumn === -1) {
+    return rows.map((row) => ({ email: String(row[0] || "") }));
+  }
+
+  const reasonColumn = header.indexOf("reason");
+  const noteColumn = header.indexOf("note");
+  return rows.slice(1).map((row) => ({
+    email: String(row[emailColumn] || ""),
+    reason: reasonColumn === -1 ? undefined : String(row[reasonColumn] || ""),
+    note: noteColumn === -1 ? undefined : String(row[noteColumn] || ""),
+  }));
+}
+
+// Query for the list and export filters
+function buildQuery({ search, reason }) {
+  const query = {};
+  if (search) {
+    query.email = new RegExp(escapeRegex(String(search)), "i");
+  }
+  if (reason && SUPPRESSION_REASONS.includes(reason)) {
+    query.reason = reason;
+  }
+  return query;
+}
+
+// Get suppressed addresses
+router.get("/", authenticateToken, requireRole(["admin"]), async (req, res) => {
+  try {
+    const { page = 1, limit = 50 } = req.query;
+    const offset = (page - 1) * limit;
+    const query = buildQuery(req.query);
+
+    const [entries, count, stats] = await Promise.all([
+      Suppression.find(query)
+        .populate("campaignId", "name")
+        .populate("addedBy", "firstName lastName email")
+        .sort({ createdAt: -1 })
+        .skip(offset)
+        .limit(parseInt(limit))
+        .lean(),
+      Suppression.countDocuments(query),
+      getSuppressionStats(),
+    ]);
+
+    res.json({
+      entries: entries.map((entry) => ({
+        id: entry._id,
+        email: entry.email,
+        reason: entry.reason,
+        note: entry.note || "",
+        campaign: entry.campaignId
+          ? { id: entry.campaignId._id, name: entry.campaignId.name }
+          : null,
+        addedBy: entry.addedBy
+          ? `${entry.addedBy.firstName || ""} ${
+              entry.addedBy.lastName || ""
+            }`.trim() || entry.addedBy.email
+          : null,
+        addedAt: entry.createdAt,
+      })),
+      stats,
+      pagination: {
+        page: parseInt(page),
+        limit: parseInt(limit),
+        total: count,
+        pages: Math.ceil(count / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Get suppression list error:", error);
+    res.status(500).json({ error: "Failed to fetch suppression list" });
+  }
+});
+
+// Export suppressed addresses as CSV
+router.get(
+  "/export",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      const entries = await Suppression.find(buildQuery(req.query))
+        .populate("campaignId", "name")
+        .sort({ createdAt: -1 })
+        .lean();
+
+      const lines = [
+        "email,reason,note,campaign,addedAt",
+        ...entries.map((entry) =>
+          [
+            entry.email,
+            entry.reason,
+            entry.note,
+            entry.campaignId?.name,
+            entry.createdAt?.toISOString(),
+          ]
+            .map(escapeCsv)
+            .join(",")
+        ),
+      ];
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "suppression_list_exported",
+        targetType: "suppression",
+        details: { count: entries.length },
+      });
+
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename=suppression_list_${Date.now()}.csv`
+      );
+      res.send(`${lines.join("\n")}\n`);
+    } catch (error) {
+      console.error("Export suppression list error:", error);
+      res.status(500).json({ error: "Failed to export suppression list" });
+    }
+  }
+);
+
+// Import addresses from a CSV or Excel file, or a pasted list of addresses
+router.post(
+  "/import",
+  authenticateToken,
+  requireRole(["admin"]),
+  upload.single("file"),
+  async (req, res) => {
+    try {
+      const reason = req.body.reason || "manual";
+      if (!SUPPRESSION_REASONS.includes(reason)) {
+        return res.status(400).json({ error: "Invalid suppression reason" });
+      }
+
+      let rows;
+      if (req.file) {
+        rows = parseImportFile(req.file);
+      } else if (Array.isArray(req.body.emails)) {
+        rows = req.body.emails.map((email) => ({
+          email: String(email),
+          note: req.body.note,
+        }));
+      } else {
+        return res
+          .status(400)
+          .json({ error: "A file or a list of emails is required" });
+      }
+      rows = rows.filter((row) => row.email.trim());
+      if (rows.length === 0) {
+        return res.status(400).json({ error: "No email addresses found" });
+      }
+
+      const result = await importSuppressions(rows, {
+        reason,
+        addedBy: req.user._id,
+      });
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "suppression_list_imported",
+        targetType: "suppression",
+        details: {
+          reason,
+          added: result.added,
+          alreadySuppressed: result.alreadySuppressed,
+          invalid: result.invalid.length,
+        },
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("Import suppression list error:", error);
+      res.status(500).json({ error: "Failed to import suppression list" });
+    }
+  }
+);
+
+// Suppress one address
+router.post(
+  "/",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      const { reason = "manual", note } = req.body;
+      const email = normalizeEmail(req.body.email);
+
+      if (!isValidEmail(email)) {
+        return res.status(400).json({ error: "Valid email is required" });
+      }
+      if (!SUPPRESSION_REASONS.includes(reason)) {
+        return res.status(400).json({ error: "Invalid suppression reason" });
+      }
+      if (await Suppression.exists({ email })) {
+        return res.status(400).json({ error: "Email is already suppressed" });
+      }
+
+      const entry = await Suppression.create({
+        email,
+        reason,
+        note,
+        addedBy: req.user._id,
+      });
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "suppression_added",
+        targetType: "suppression",
+        targetId: entry._id,
+        details: { email, reason },
+      });
+
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Add suppression error:", error);
+      res.status(500).json({ error: "Failed to suppress email" });
+    }
+  }
+);
+
+// Change the reason or note of a suppressed address
+router.put(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ error: "Suppression entry not found" });
+      }
+      const { reason, note } = req.body;
+      if (reason !== undefined && !SUPPRESSION_REASONS.includes(reason)) {
+        return res.status(400).json({ error: "Invalid suppression reason" });
+      }
+
+      const entry = await Suppression.findById(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Suppression entry not found" });
+      }
+      if (reason !== undefined) entry.reason = reason;
+      if (note !== undefined) entry.note = note;
+      await entry.save();
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "suppression_updated",
+        targetType: "suppression",
+        targetId: entry._id,
+        details: { email: entry.email, reason: entry.reason },
+      });
+
+      res.json(entry);
+    } catch (error) {
+      console.error("Update suppression error:", error);
+      res.status(500).json({ error: "Failed to update suppression entry" });
+    }
+  }
+);
+
+// Remove an address from the suppression list, so it can be sent to again
+router.delete(
+  "/:id",
+  authenticateToken,
+  requireRole(["admin"]),
+  async (req, res) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ error: "Suppression entry not found" });
+      }
+      const entry = await Suppression.findByIdAndDelete(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Suppression entry not found" });
+      }
+
+      await AuditLog.create({
+        userId: req.user._id,
+        action: "suppression_removed",
+        targetType: "suppression",
+        targetId: entry._id,
+        details: { email: entry.email, reason: entry.reason },
+      });
+
+      res.json({ message: "Email removed from the suppression list" });
+    } catch (error) {
+      console.error("Remove suppression error:", error);
+      res.status(500).json({ error: "Failed to remove suppression entry" });
+    }
+  }
+);
+
+module.exports = router;
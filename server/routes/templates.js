@@ -4,6 +4,12 @@ const Template = require("../models/Template");
 const Campaign = require("../models/Campaign");
 const AuditLog = require("../models/AuditLog");
 const { authenticateToken, requireRole } = require("../middleware/auth");
+const { findContentAssets } = require("../services/assetService");
+const { htmlToPlainText } = require("../services/plainTextService");
+const {
+  renderForContact,
+  getMergeTagCatalog,
+} = require("../services/mergeTagService");
 const {
   seedTemplates,
   getTemplatesByCategory,
@@ -73,6 +79,26 @@ router.get(
   }
 );
 
+// Generate the plain-text version of email HTML
+router.post(
+  "/plain-text",
+  authenticateToken,
+  requireRole(["admin", "editor"]),
+  async (req, res) => {
+    try {
+      const { html } = req.body;
+      if (typeof html !== "string") {
+        return res.status(400).json({ error: "HTML content is required" });
+      }
+
+      res.json({ text: htmlToPlainText(html) });
+    } catch (error) {
+      console.error("Generate plain text error:", error);
+      res.status(500).json({ error: "Failed to generate plain text" });
+    }
+  }
+);
+
 // Seed predefined templates
 router.post(
   "/seed",
@@ -143,6 +169,22 @@ router.get("/library", authenticateToken, async (req, res) => {
   }
 });
 
+// Variables available as merge tags, including the custom fields in use
+router.get(
+  "/merge-tags",
+  authenticateToken,
+  requireRole(["admin", "editor", "viewer"]),
+  async (req, res) => {
+    try {
+      const tags = await getMergeTagCatalog();
+      res.json({ tags });
+    } catch (error) {
+      console.error("Get merge tags error:", error);
+      res.status(500).json({ error: "Failed to fetch merge tags" });
+    }
+  }
+);
+
 // Get single template by ID
 router.get(
   "/:id",
@@ -253,13 +295,9 @@ router.post(
       }
 
       // Process template variables
-      let processedContent = template.content;
-      let processedSubject = template.subject;
-
-      Object.entries(variables).forEach(([key, value]) => {
-        const regex = new RegExp(`{{${key}}}`, "g");
-        processedContent = processedContent.replace(regex, value);
-        processedSubject = processedSubject.replace(regex, value);
+      const processedSubject = renderForContact(template.subject, {
+        contact: { email: testEmails[0] },
+        variables,
       });
 
       // Here you would integrate with your email service (SendGrid, AWS SES, etc.)
@@ -307,14 +345,13 @@ router.post(
         return res.status(404).json({ error: "Template not found" });
       }
 
-      // Process template variables
-      let processedContent = template.content;
-      let processedSubject = template.subject;
-
-      Object.entries(variables).forEach(([key, value]) => {
-        const regex = new RegExp(`{{${key}}}`, "g");
-        processedContent = processedContent.replace(regex, value);
-        processedSubject = processedSubject.replace(regex, value);
+      // Process template variables the way they are sent
+      const processedContent = renderForContact(template.content, {
+        variables,
+        format: "html",
+      });
+      const processedSubject = renderForContact(template.subject, {
+        variables,
       });
 
       // Perform spam analysis (this would integrate with SpamAssassin, MailTester, etc.)
@@ -498,6 +535,28 @@ function analyzeCompatibility(content) {
   };
 }
 
+// Helper function for template size and content metadata. Images from the
+// media library count with their real file size.
+async function buildTemplateMetadata(content) {
+  const { sources, assets } = await findContentAssets(content);
+  const imageBytes = assets.reduce((total, asset) => total + asset.size, 0);
+  const text = content
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<[^>]*>/g, " ");
+  const links = content.match(/<a[^>]*href/gi);
+
+  return {
+    estimatedSize:
+      Math.round(((Buffer.byteLength(content) + imageBytes) / 1024) * 100) /
+      100,
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+    imageCount: sources.length,
+    imageSize: Math.round((imageBytes / 1024) * 100) / 100,
+    linkCount: links ? links.length : 0,
+  };
+}
+
 // Create template
 router.post(
   "/",
@@ -513,6 +572,7 @@ router.post(
         subject,
         content,
         htmlContent, // Support both field names
+        textContent = "",
         description,
         category = "other",
         tags = [],
@@ -551,12 +611,14 @@ router.post(
         name,
         subject,
         content: templateContent, // Always save to content field
+        textContent,
         description,
         category,
         tags,
         variables,
         thumbnailUrl,
         isDefault,
+        metadata: await buildTemplateMetadata(templateContent),
         createdBy: req.user._id,
       });
 
@@ -592,6 +654,7 @@ router.put(
         subject,
         content,
         htmlContent, // Support both field names
+        textContent,
         description,
         category,
         tags,
@@ -609,12 +672,16 @@ router.put(
           name,
           subject,
           content: templateContent, // Always save to content field
+          textContent,
           description,
           category,
           tags,
           variables,
           thumbnailUrl,
           isDefault,
+          ...(templateContent && {
+            metadata: await buildTemplateMetadata(templateContent),
+          }),
           updatedAt: new Date(),
         },
         { new: true }
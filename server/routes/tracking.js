@@ -0,0 +1,69 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const {
+  PIXEL,
+  verifyOpen,
+  verifyClick,
+  trackOpen,
+  trackClick,
+} = require("../services/trackingService");
+
+// Public endpoints that email clients call. They are authenticated by the
+// signature in the URL instead of a login (see services/trackingService.js).
+const router = express.Router();
+
+const getRequestMeta = (req) => ({
+  ipAddress: req.ip,
+  userAgent: req.get("user-agent"),
+});
+
+// Open tracking pixel. The image is always returned, so a bad or expired
+// link never shows a broken image.
+router.get("/open/:jobId/:signature", async (req, res) => {
+  const { jobId, signature } = req.params;
+
+  if (mongoose.isValidObjectId(jobId) && verifyOpen(jobId, signature)) {
+    try {
+      await trackOpen(jobId, getRequestMeta(req));
+    } catch (error) {
+      console.error("Track open error:", error);
+    }
+  }
+
+  res.set({
+    "Content-Type": "image/gif",
+    "Content-Length": PIXEL.length,
+    "Cache-Control": "no-store, no-cache, must-revalidate, private",
+    "Cross-Origin-Resource-Policy": "cross-origin",
+  });
+  res.end(PIXEL);
+});
+
+// Click redirect. Only links we signed are followed, so this cannot be
+// used as an open redirect.
+router.get("/click/:jobId/:signature", async (req, res) => {
+  const { jobId, signature } = req.params;
+  const { url, n } = req.query;
+  const linkIndex = /^\d+$/.test(n) ? Number(n) : undefined;
+
+  if (
+    typeof url !== "string" ||
+    !/^https?:\/\//i.test(url) ||
+    !mongoose.isValidObjectId(jobId) ||
+    !verifyClick(jobId, url, signature, linkIndex)
+  ) {
+    return res.status(400).json({ error: "Invalid tracking link" });
+  }
+
+  try {
+    await trackClick(jobId, url, { ...getRequestMeta(req), linkIndex });
+  } catch (error) {
+    // The recipient still gets where they were going
+    console.error("Track click error:", error);
+  }
+
+  res.set("Cache-Control", "no-store");
+  res.redirect(302, url);
+});
+
+module.exports = router;
@@ -0,0 +1,83 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const {
+  getPreferences,
+  updatePreferences,
+  unsubscribeAll,
+} = require("../services/unsubscribeService");
+
+// Public preference center endpoints. They are authenticated by the signed
+// token in the URL instead of a login (see services/unsubscribeService.js).
+const router = express.Router();
+
+const INVALID_LINK = "This unsubscribe link is invalid or has expired";
+
+// Preferences for the contact the link was sent to
+router.get("/:token", async (req, res) => {
+  try {
+    const preferences = await getPreferences(req.params.token);
+    if (!preferences) {
+      return res.status(404).json({ error: INVALID_LINK });
+    }
+    res.json(preferences);
+  } catch (error) {
+    console.error("Get unsubscribe preferences error:", error);
+    res.status(500).json({ error: "Failed to load preferences" });
+  }
+});
+
+// Save the preference center
+router.put("/:token", async (req, res) => {
+  try {
+    const { leaveLists = [], unsubscribeAll: all } = req.body;
+
+    if (
+      !Array.isArray(leaveLists) ||
+      !leaveLists.every((id) => mongoose.isObjectIdOrHexString(id))
+    ) {
+      return res.status(400).json({ error: "Invalid list selection" });
+    }
+    if (all !== undefined && typeof all !== "boolean") {
+      return res.status(400).json({ error: "unsubscribeAll must be a boolean" });
+    }
+
+    const preferences = await updatePreferences(req.params.token, {
+      leaveLists: leaveLists.map(String),
+      unsubscribeAll: all,
+    });
+    if (!preferences) {
+      return res.status(404).json({ error: INVALID_LINK });
+    }
+    res.json({ message: "Preferences updated", ...preferences });
+  } catch (error) {
+    console.error("Update unsubscribe preferences error:", error);
+    res.status(500).json({ error: "Failed to update preferences" });
+  }
+});
+
+// RFC 8058 one-click unsubscribe, posted by mail clients from the
+// List-Unsubscribe header
+router.post("/:token/one-click", async (req, res) => {
+  try {
+    if (!(await unsubscribeAll(req.params.token))) {
+      return res.status(404).json({ error: INVALID_LINK });
+    }
+    res.json({ message: "Unsubscribed" });
+  } catch (error) {
+    console.error("One-click unsubscribe error:", error);
+    res.status(500).json({ error: "Failed to unsubscribe" });
+  }
+});
+
+// Clients without one-click support open the header link in a browser.
+// RFC 8058 forbids unsubscribing on GET, so show the preference center.
+router.get("/:token/one-click", (req, res) => {
+  res.redirect(
+    302,
+    `${process.env.FRONTEND_URL || ""}/unsubscribe?token=${encodeURIComponent(
+      req.params.token
+    )}`
+  );
+});
+
+module.exports = router;
@@ -0,0 +1,142 @@
+const crypto = require("crypto");
+const sharp = require("sharp");
+const Asset = require("../models/Asset");
+const { getStorage } = require("./assetStorage");
+
+// Image types accepted into the media library. SVG is left out on purpose:
+// most email clients block it and it can carry scripts.
+const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+// Stored extension and Content-Type by the format sharp detects. The type
+// and file name the client sends are never trusted.
+const IMAGE_FORMATS = {
+  jpeg: { extension: ".jpg", mimeType: "image/jpeg" },
+  png: { extension: ".png", mimeType: "image/png" },
+  gif: { extension: ".gif", mimeType: "image/gif" },
+  webp: { extension: ".webp", mimeType: "image/webp" },
+};
+
+const MAX_ASSET_SIZE = 10 * 1024 * 1024; // 10MB
+const THUMBNAIL_SIZE = 320; // Longest edge in pixels
+
+/**
+ * Detect the format of an image and its displayed dimensions, accounting
+ * for EXIF rotation. Anything but JPEG, PNG, GIF and WebP is rejected.
+ * @param {Buffer} buffer - Image data
+ * @returns {Promise<{format: object, width: number, height: number}>}
+ */
+async function readImage(buffer) {
+  let metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new Error("File is not a readable image");
+  }
+  const format = IMAGE_FORMATS[metadata.format];
+  if (!format) {
+    throw new Error(`Unsupported image type: ${metadata.format}`);
+  }
+
+  // Orientations 5-8 are rotated by 90 degrees
+  const rotated = metadata.orientation >= 5;
+  // Animated images report the height of the whole strip
+  const height = metadata.pageHeight || metadata.height;
+  return rotated
+    ? { format, width: height, height: metadata.width }
+    : { format, width: metadata.width, height };
+}
+
+/**
+ * Store an uploaded image with its thumbnail and create its library entry
+ * @param {object} file - Multer file (memory storage)
+ * @param {object} options - { userId, baseUrl, alt, tags }
+ * @returns {Promise<object>} The created asset
+ */
+async function storeAsset(file, { userId, baseUrl, alt = "", tags = [] }) {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+    throw new Error(`Unsupported image type: ${file.mimetype}`);
+  }
+
+  const { format, width, height } = await readImage(file.buffer);
+  const thumbnail = await sharp(file.buffer)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .webp({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+
+  // Group files by month so no single folder grows too large
+  const now = new Date();
+  const folder = `${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, "0")}`;
+  const id = crypto.randomUUID();
+  const key = `${folder}/${id}${format.extension}`;
+  const thumbnailKey = `${folder}/${id}_thumb.webp`;
+
+  const storage = getStorage();
+  await storage.put(key, file.buffer, format.mimeType);
+  await storage.put(thumbnailKey, thumbnail.data, "image/webp");
+
+  return Asset.create({
+    name: file.originalname,
+    alt,
+    tags,
+    mimeType: format.mimeType,
+    size: file.size,
+    width,
+    height,
+    storage: storage.name,
+    key,
+    url: storage.url(key, baseUrl),
+    thumbnail: {
+      key: thumbnailKey,
+      url: storage.url(thumbnailKey, baseUrl),
+      width: thumbnail.info.width,
+      height: thumbnail.info.height,
+    },
+    uploadedBy: userId,
+  });
+}
+
+/**
+ * Remove an asset's files from storage. Missing files are not an error.
+ * @param {object} asset - Asset document
+ */
+async function removeAssetFiles(asset) {
+  const storage = getStorage(asset.storage);
+  await storage.remove(asset.key);
+  if (asset.thumbnail?.key) {
+    await storage.remove(asset.thumbnail.key);
+  }
+}
+
+/**
+ * Find the library images used in an HTML document
+ * @param {string} html - Email HTML
+ * @returns {Promise<{sources: string[], assets: object[]}>} Every image source and the library assets among them
+ */
+async function findContentAssets(html = "") {
+  const sources = [];
+  const imgRegex = /<img\b[^>]*?\bsrc\s*=\s*["']([^"']+)["']/gi;
+  let match;
+  while ((match = imgRegex.exec(html)) !== null) {
+    sources.push(match[1].replace(/&amp;/g, "&"));
+  }
+
+  const assets = sources.length
+    ? await Asset.find({ url: { $in: [...new Set(sources)] } }).select(
+        "url size width height"
+      )
+    : [];
+
+  return { sources, assets };
+}
+
+module.exports = {
+  ALLOWED_IMAGE_TYPES,
+  MAX_ASSET_SIZE,
+  storeAsset,
+  removeAssetFiles,
+  findContentAssets,
+};
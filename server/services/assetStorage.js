@@ -0,0 +1,136 @@
+const fs = require("fs/promises");
+const path = require("path");
+
+// Storage backends for media library files. ASSET_STORAGE selects where new
+// uploads go ("local" by default, or "s3" for any S3-compatible store); each
+// asset records its backend so files can still be removed after a switch.
+
+// Images stay linked from emails that were already sent, so they must be
+// kept somewhere that outlives the server (see checkAssetStorage)
+const LOCAL_ASSET_DIR =
+  process.env.ASSET_UPLOAD_DIR || path.join(__dirname, "../uploads/assets");
+
+// Path the local files are served from (see index.js)
+const LOCAL_ASSET_ROUTE = "/uploads/assets";
+
+const diskStorage = {
+  name: "local",
+
+  async put(key, body) {
+    const filePath = path.join(LOCAL_ASSET_DIR, key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  },
+
+  async remove(key) {
+    await fs.rm(path.join(LOCAL_ASSET_DIR, key), { force: true });
+  },
+
+  /**
+   * Public URL of a stored file
+   * @param {string} key - Storage key
+   * @param {string} baseUrl - Public origin of this server, e.g. https://api.example.com
+   */
+  url(key, baseUrl) {
+    const origin = process.env.ASSET_PUBLIC_URL || `${baseUrl}${LOCAL_ASSET_ROUTE}`;
+    return `${origin.replace(/\/$/, "")}/${key}`;
+  },
+};
+
+let s3Client = null;
+
+// The AWS SDK is only loaded when S3 storage is actually used
+const getS3Client = () => {
+  if (!s3Client) {
+    const { S3Client } = require("@aws-sdk/client-s3");
+    s3Client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined, // MinIO, R2, Spaces, ...
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      credentials: process.env.S3_ACCESS_KEY_ID
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+          }
+        : undefined,
+    });
+  }
+  return s3Client;
+};
+
+const s3Storage = {
+  name: "s3",
+
+  async put(key, body, contentType) {
+    const { PutObjectCommand } = require("@aws-sdk/client-s3");
+    await getS3Client().send(
+      new PutObjectCommand({
+        Bucket: process.env.S3_BUCKET,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: "public, max-age=31536000, immutable",
+      })
+    );
+  },
+
+  async remove(key) {
+    const { DeleteObjectCommand } = require("@aws-sdk/client-s3");
+    await getS3Client().send(
+      new DeleteObjectCommand({ Bucket: process.env.S3_BUCKET, Key: key })
+    );
+  },
+
+  url(key) {
+    const bucket = process.env.S3_BUCKET;
+    if (process.env.S3_PUBLIC_URL) {
+      return `${process.env.S3_PUBLIC_URL.replace(/\/$/, "")}/${key}`;
+    }
+    if (process.env.S3_ENDPOINT) {
+      const endpoint = process.env.S3_ENDPOINT.replace(/\/$/, "");
+      return `${endpoint}/${bucket}/${key}`;
+    }
+    const region = process.env.S3_REGION || "us-east-1";
+    return `https://${bucket}.s3.${region}.amazonaws.com/${key}`;
+  },
+};
+
+const storages = { local: diskStorage, s3: s3Storage };
+
+/**
+ * Get a storage backend by name, or the configured one for new uploads
+ * @param {string} [name] - "local" or "s3"
+ * @returns {object} Storage with put(key, body, contentType), remove(key) and url(key, baseUrl)
+ */
+function getStorage(name = process.env.ASSET_STORAGE || "local") {
+  const storage = storages[name];
+  if (!storage) {
+    throw new Error(`Unknown asset storage "${name}"`);
+  }
+  if (storage === s3Storage && !process.env.S3_BUCKET) {
+    throw new Error("S3_BUCKET must be set to store assets in S3");
+  }
+  return storage;
+}
+
+/**
+ * Make sure production stores media library files durably: in S3, or on
+ * local disk only when ASSET_UPLOAD_DIR names a persistent directory.
+ * Called at startup so a misconfigured deploy fails right away.
+ */
+function checkAssetStorage() {
+  if (process.env.NODE_ENV !== "production") return;
+  const storage = getStorage();
+  if (storage === diskStorage && !process.env.ASSET_UPLOAD_DIR) {
+    throw new Error(
+      "Set ASSET_STORAGE=s3 and S3_BUCKET (or ASSET_UPLOAD_DIR to a persistent directory) to store media library files in production"
+    );
+  }
+}
+
+module.exports = {
+  getStorage,
+  checkAssetStorage,
+  LOCAL_ASSET_DIR,
+  LOCAL_ASSET_ROUTE,
+};
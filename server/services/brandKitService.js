@@ -0,0 +1,214 @@
+/**
+ * Brand Kit Service for CSE Mail Platform
+ * Checks brand kit updates and restyles saved template and campaign HTML
+ * when the organization brand kit changes
+ */
+const Template = require("../models/Template");
+const Snippet = require("../models/Snippet");
+const Campaign = require("../models/Campaign");
+const {
+  DEFAULT_BRAND_KIT,
+  mergeBrandKit,
+  brandTokenValues,
+} = require("../../shared/brandKit.mjs");
+
+// Elements compiled from brand kit tokens (see frontend emailCompiler)
+const BRAND_ELEMENT_REGEX = /<[a-zA-Z][^>]*\sdata-brand="([^"]*)"[^>]*>/g;
+const LINK_STYLES_REGEX =
+  /(<style[^>]*id="csemail-links"[^>]*>)[\s\S]*?(<\/style>)/;
+const COLOR_REGEX = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Check the colors and logo URL of a brand kit before it is saved
+ * @param {object} brandKit - Complete brand kit
+ * @returns {string|null} Error message, or null when it is valid
+ */
+function validateBrandKit(brandKit) {
+  const colors = {
+    ...Object.fromEntries(
+      Object.entries(brandKit.palette).map(([name, value]) => [
+        `Palette ${name}`,
+        value,
+      ])
+    ),
+    "Button color": brandKit.button.backgroundColor,
+    "Button text color": brandKit.button.textColor,
+    "Link color": brandKit.linkColor,
+  };
+  for (const [label, value] of Object.entries(colors)) {
+    if (typeof value !== "string" || !COLOR_REGEX.test(value)) {
+      return `${label} must be a hex color such as #3b82f6`;
+    }
+  }
+
+  const { url } = brandKit.logo;
+  if (url) {
+    let parsed = null;
+    try {
+      parsed = new URL(url);
+    } catch {
+      // Reported below
+    }
+    if (!parsed || !["http:", "https:"].includes(parsed.protocol)) {
+      return "Logo URL must be an http or https URL";
+    }
+  }
+  return null;
+}
+
+const escapeAttribute = (value) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const unescapeAttribute = (value) =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+/**
+ * Set (or remove, when empty) a double-quoted attribute on an opening tag
+ */
+function setAttribute(tag, name, value) {
+  const pattern = new RegExp(`\\s${name}="[^"]*"`);
+  const attribute = value === "" ? "" : ` ${name}="${escapeAttribute(value)}"`;
+  if (pattern.test(tag)) {
+    // Images always keep their alt attribute
+    return tag.replace(
+      pattern,
+      attribute || (name === "alt" ? ` alt=""` : "")
+    );
+  }
+  if (!attribute) return tag;
+  return tag.replace(/^<[a-zA-Z][\w-]*/, (open) => `${open}${attribute}`);
+}
+
+/**
+ * Rewrite one element's branded attributes and inline styles
+ */
+function restyleElement(tag, references, tokens) {
+  const styleMatch = tag.match(/\sstyle="([^"]*)"/);
+  const declarations = new Map(
+    (styleMatch ? unescapeAttribute(styleMatch[1]).split(";") : [])
+      .map((declaration) => declaration.split(":"))
+      .filter(([property, ...value]) => property.trim() && value.length)
+      .map(([property, ...value]) => [property.trim(), value.join(":").trim()])
+  );
+
+  let result = tag;
+  let styleChanged = false;
+  for (const reference of references.split(";")) {
+    const separator = reference.lastIndexOf(":");
+    if (separator === -1) continue;
+    const name = reference.slice(0, separator);
+    const value = tokens[reference.slice(separator + 1)] ?? "";
+
+    if (name.startsWith("@")) {
+      const attribute = name.slice(1);
+      result = setAttribute(
+        result,
+        attribute,
+        ["width", "height"].includes(attribute)
+          ? String(value).replace(/px$/, "")
+          : value
+      );
+    } else {
+      if (value === "") declarations.delete(name);
+      else declarations.set(name, value);
+      styleChanged = true;
+    }
+  }
+
+  if (styleChanged) {
+    result = setAttribute(
+      result,
+      "style",
+      Array.from(declarations)
+        .map(([property, value]) => `${property}: ${value}`)
+        .join("; ")
+    );
+  }
+  return result;
+}
+
+/**
+ * Apply a brand kit to compiled HTML. Only values that came from brand kit
+ * tokens are touched; custom colors and fonts stay as they are.
+ * @param {string} html - Compiled template or snippet HTML
+ * @param {object} brandKit - Complete brand kit
+ * @returns {string} Restyled HTML
+ */
+function restyleContent(html, brandKit) {
+  if (!html) return html;
+  const tokens = brandTokenValues(brandKit);
+
+  return html
+    .replace(BRAND_ELEMENT_REGEX, (tag, references) =>
+      restyleElement(tag, references, tokens)
+    )
+    .replace(
+      LINK_STYLES_REGEX,
+      (match, open, close) => `${open}a { color: ${tokens.link}; }${close}`
+    );
+}
+
+/**
+ * Restyle every template, snippet and unsent campaign that uses brand kit
+ * tokens
+ * @param {object} brandKit - Complete brand kit
+ * @returns {Promise<number>} Number of templates updated
+ */
+async function restyleTemplates(brandKit) {
+  const templates = await Template.find({
+    content: { $regex: 'data-brand="' },
+  });
+
+  let updatedCount = 0;
+  for (const template of templates) {
+    const content = restyleContent(template.content, brandKit);
+    if (content !== template.content) {
+      template.content = content;
+      await template.save();
+      updatedCount += 1;
+    }
+  }
+
+  // Snippet HTML is copied into templates when a snippet is updated
+  const snippets = await Snippet.find({ html: { $regex: 'data-brand="' } });
+  for (const snippet of snippets) {
+    const html = restyleContent(snippet.html, brandKit);
+    if (html !== snippet.html) {
+      snippet.html = html;
+      await snippet.save();
+    }
+  }
+
+  // Campaigns keep their own copy of the HTML. Sent ones stay as they
+  // were sent.
+  const campaigns = await Campaign.find({
+    status: { $in: ["draft", "scheduled"] },
+    htmlContent: { $regex: 'data-brand="' },
+  });
+  for (const campaign of campaigns) {
+    const html = restyleContent(campaign.htmlContent, brandKit);
+    if (html !== campaign.htmlContent) {
+      campaign.htmlContent = html;
+      await campaign.save();
+    }
+  }
+
+  return updatedCount;
+}
+
+module.exports = {
+  DEFAULT_BRAND_KIT,
+  mergeBrandKit,
+  validateBrandKit,
+  brandTokenValues,
+  restyleContent,
+  restyleTemplates,
+};
@@ -0,0 +1,172 @@
+/**
+ * Contact Export Service for CSE Mail Platform
+ * Streams contacts matching a query as CSV, Excel or JSON. All three formats
+ * share one column schema: the requested fields, then one column for every
+ * custom field key the exported contacts use. Defined custom fields come
+ * first, in form order and headed by their label, so the file can be
+ * imported again.
+ */
+const ExcelJS = require("exceljs");
+const Contact = require("../models/Contact");
+const { formatCustomFieldValue } = require("./customFieldService");
+
+const formatDate = (date) => (date ? new Date(date).toLocaleDateString() : "");
+
+// Fields that can be requested, with their column headers
+const EXPORT_FIELDS = {
+  firstName: { header: "First Name", value: (contact) => contact.firstName },
+  lastName: { header: "Last Name", value: (contact) => contact.lastName },
+  email: { header: "Email", value: (contact) => contact.email },
+  phone: { header: "Phone", value: (contact) => contact.phone },
+  company: {
+    header: "Company",
+    value: (contact) => formatCustomFieldValue(contact.customFields?.company),
+  },
+  position: {
+    header: "Position",
+    value: (contact) =>
+      formatCustomFieldValue(contact.customFields?.position),
+  },
+  tags: {
+    header: "Tags",
+    value: (contact) => (contact.tags ? contact.tags.join(", ") : ""),
+  },
+  status: { header: "Status", value: (contact) => contact.status },
+  timezone: { header: "Timezone", value: (contact) => contact.timezone },
+  createdAt: {
+    header: "Date Added",
+    value: (contact) => formatDate(contact.createdAt),
+  },
+  lastActivity: {
+    header: "Last Activity",
+    value: (contact) => formatDate(contact.lastActivity),
+  },
+};
+
+// Custom fields that already have their own export field
+const FIELD_CUSTOM_FIELDS = ["company", "position"];
+
+/**
+ * Custom field keys used by the contacts matching a query
+ * @param {object} query - Contact query
+ * @returns {Promise<string[]>} Sorted keys
+ */
+async function getCustomFieldKeys(query) {
+  const [result] = await Contact.aggregate([
+    { $match: { $and: [query, { customFields: { $exists: true } }] } },
+    { $project: { fields: { $objectToArray: "$customFields" } } },
+    { $unwind: "$fields" },
+    { $group: { _id: null, keys: { $addToSet: "$fields.k" } } },
+  ]);
+  return (result?.keys || []).sort();
+}
+
+/**
+ * Columns of an export
+ * @param {string[]} fields - Requested EXPORT_FIELDS keys, in order
+ * @param {string[]} customFieldKeys - Custom field keys to add
+ * @param {object[]} definitions - Custom field definitions, in form order
+ * @returns {object[]} { header, value(contact) }
+ */
+function buildExportColumns(fields, customFieldKeys, definitions = []) {
+  const columns = fields
+    .filter((field) => EXPORT_FIELDS[field])
+    .map((field) => EXPORT_FIELDS[field]);
+  const labels = new Map(
+    definitions.map((definition) => [definition.key, definition.label])
+  );
+  const order = definitions.map((definition) => definition.key);
+  customFieldKeys
+    .filter((key) => !FIELD_CUSTOM_FIELDS.includes(key))
+    .sort(
+      (a, b) =>
+        (labels.has(a) ? order.indexOf(a) : order.length) -
+        (labels.has(b) ? order.indexOf(b) : order.length)
+    )
+    .forEach((key) =>
+      columns.push({
+        header: labels.get(key) || key,
+        value: (contact) => formatCustomFieldValue(contact.customFields?.[key]),
+      })
+    );
+  return columns;
+}
+
+// Quote values holding separators, quotes or line breaks
+const csvValue = (value) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Write a chunk, waiting while the client catches up
+async function writeChunk(res, chunk) {
+  if (res.write(chunk)) return;
+  await new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+/**
+ * Stream the contacts matching a query to a response
+ * @param {object} res - Express response
+ * @param {object} options - { format: "csv" | "xlsx" | "json", query,
+ *   columns }
+ */
+async function writeContactExport(res, { format, query, columns }) {
+  const cursor = Contact.find(query).sort({ createdAt: -1 }).lean().cursor();
+  const rowOf = (contact) =>
+    columns.map((column) => String(column.value(contact) ?? ""));
+  const filename = `contacts_${Date.now()}.${format}`;
+
+  res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+
+  if (format === "csv") {
+    res.setHeader("Content-Type", "text/csv");
+    const headers = columns.map((column) => csvValue(column.header));
+    res.write(headers.join(",") + "\n");
+    for await (const contact of cursor) {
+      if (res.destroyed) break;
+      await writeChunk(res, rowOf(contact).map(csvValue).join(",") + "\n");
+    }
+    res.end();
+  } else if (format === "json") {
+    res.setHeader("Content-Type", "application/json");
+    res.write("[");
+    let first = true;
+    for await (const contact of cursor) {
+      if (res.destroyed) break;
+      const values = rowOf(contact);
+      const record = Object.fromEntries(
+        columns.map((column, i) => [column.header, values[i]])
+      );
+      await writeChunk(res, (first ? "\n" : ",\n") + JSON.stringify(record));
+      first = false;
+    }
+    res.end("\n]\n");
+  } else {
+    res.setHeader(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res });
+    const worksheet = workbook.addWorksheet("Contacts");
+    worksheet.addRow(columns.map((column) => column.header)).commit();
+    for await (const contact of cursor) {
+      if (res.destroyed) break;
+      worksheet.addRow(rowOf(contact)).commit();
+    }
+    worksheet.commit();
+    await workbook.commit();
+  }
+}
+
+module.exports = {
+  EXPORT_FIELDS,
+  getCustomFieldKeys,
+  buildExportColumns,
+  writeContactExport,
+};
@@ -0,0 +1,647 @@
+/**
+ * Contact Import Service for CSE Mail Platform
+ * Imports CSV and Excel files as contacts. A mapping names the column each
+ * contact field comes from:
+ *   { email: "E-mail", firstName: "Given name", "customFields.plan": "Plan" }
+ * Columns that are not mapped are ignored. Without a mapping, columns are
+ * matched by their headers (email, First Name, first_name, ...).
+ * Imports run as background jobs (models/ImportJob.js) that stream the file
+ * and write it in batches, so large files never sit in memory. Every
+ * rejected row is stored with its reason for the job's error report. Dry
+ * runs go through the same steps without writing contacts.
+ * Rows whose email already exists are handled by the job's strategy:
+ *   skip        - leave the contact as it is
+ *   overwrite   - replace the contact's fields with the row's non-empty cells
+ *   fill_blanks - only set fields the contact has no value for
+ *   merge_tags  - only add the row's tags
+ * Existing contacts always keep their status, since a file row should not
+ * resubscribe someone who unsubscribed or bounced. Cells of defined custom
+ * fields are converted to the field's type, and new contacts get the
+ * fields' defaults and need their required ones.
+ */
+const fs = require("fs");
+const csv = require("csv-parser");
+const ExcelJS = require("exceljs");
+const XLSX = require("xlsx");
+const Contact = require("../models/Contact");
+const ContactList = require("../models/ContactList");
+const ImportJob = require("../models/ImportJob");
+const ImportRowError = require("../models/ImportRowError");
+const AuditLog = require("../models/AuditLog");
+const { isValidTimeZone } = require("./timezoneService");
+const {
+  getCustomFieldDefinitions,
+  coerceCustomFieldValue,
+  applyCustomFields,
+  sameCustomFieldValue,
+} = require("./customFieldService");
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CUSTOM_FIELD_PREFIX = "customFields.";
+const CUSTOM_FIELD_KEY_REGEX = /^[\w-]+$/;
+const BATCH_SIZE = 500;
+// Running jobs whose heartbeat is older than this died with their process
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+// Contact fields a column can be mapped to, besides customFields.<key>
+const IMPORT_FIELDS = [
+  "email",
+  "firstName",
+  "lastName",
+  "phone",
+  "status",
+  "tags",
+  "timezone",
+];
+
+const IMPORT_STRATEGIES = ImportJob.schema.path("strategy").enumValues;
+const STATUSES = Contact.schema.path("status").enumValues;
+const TAGS = Contact.schema.path("tags").caster.enumValues;
+
+// Header guesses used when no mapping is sent
+const HEADER_GUESSES = {
+  email: /^e-?mail( address)?$/i,
+  firstName: /^first[ _]?name$/i,
+  lastName: /^last[ _]?name$/i,
+  phone: /^phone( number)?$/i,
+  status: /^status$/i,
+  tags: /^tags$/i,
+  timezone: /^time[ _]?zone$/i,
+  [`${CUSTOM_FIELD_PREFIX}company`]: /^company$/i,
+  [`${CUSTOM_FIELD_PREFIX}position`]: /^position$/i,
+};
+
+const cleanHeader = (header) =>
+  String(header ?? "")
+    .replace(/^\uFEFF/, "")
+    .trim();
+
+// Dates as YYYY-MM-DD, everything else as text
+const cellText = (value) =>
+  value instanceof Date
+    ? value.toISOString().slice(0, 10)
+    : String(value ?? "");
+
+// Plain value of an exceljs cell: rich text, formulas and hyperlinks are
+// objects
+function excelCellValue(value) {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "object" || value instanceof Date) return value;
+  if (Array.isArray(value.richText)) {
+    return value.richText.map((part) => part.text).join("");
+  }
+  if ("result" in value) return excelCellValue(value.result);
+  if ("text" in value) return excelCellValue(value.text);
+  return "";
+}
+
+const isFileType = (file, ...extensions) =>
+  extensions.some((extension) =>
+    file.originalname.toLowerCase().endsWith(extension)
+  );
+
+/**
+ * Stream the rows of an uploaded CSV or Excel file (first sheet). .xls
+ * files cannot be streamed and are read whole.
+ * @param {object} file - Multer file with path and originalname
+ * @yields {object} { line, values, bytesRead }, with line the row number in
+ *   the file and values the cells of the row
+ */
+async function* readImportRows(file) {
+  if (isFileType(file, ".xls")) {
+    const workbook = XLSX.readFile(file.path, { cellDates: true });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    // Raw values: formatted text would turn long phone numbers into
+    // 2.33201E+11
+    const rows = XLSX.utils.sheet_to_json(worksheet, {
+      header: 1,
+      raw: true,
+      defval: "",
+      blankrows: false,
+    });
+    for (let i = 0; i < rows.length; i++) {
+      yield {
+        line: i + 1,
+        values: rows[i].map(cellText),
+        bytesRead: Math.round((file.size * (i + 1)) / rows.length),
+      };
+    }
+    return;
+  }
+
+  const stream = fs.createReadStream(file.path);
+  try {
+    if (isFileType(file, ".csv")) {
+      let line = 0;
+      for await (const record of stream.pipe(csv({ headers: false }))) {
+        line++;
+        yield {
+          line,
+          values: Object.values(record),
+          bytesRead: stream.bytesRead,
+        };
+      }
+      return;
+    }
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookReader(stream, {
+      sharedStrings: "cache",
+      styles: "cache",
+      hyperlinks: "ignore",
+      worksheets: "emit",
+    });
+    for await (const worksheet of workbook) {
+      for await (const row of worksheet) {
+        // row.values starts at index 1, for column A
+        const values = [];
+        for (let i = 1; i < row.values.length; i++) {
+          values.push(cellText(excelCellValue(row.values[i])));
+        }
+        yield { line: row.number, values, bytesRead: stream.bytesRead };
+      }
+      break;
+    }
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Read the column headers of an uploaded file (its first row)
+ * @param {object} file - Multer file with path and originalname
+ * @returns {Promise<object>} { headers }, or { error } for other file types
+ */
+async function readImportHeaders(file) {
+  if (!isFileType(file, ".csv", ".xlsx", ".xls")) {
+    return { error: "Unsupported file format" };
+  }
+  for await (const { values } of readImportRows(file)) {
+    return { headers: values.map(cleanHeader) };
+  }
+  return { headers: [] };
+}
+
+/**
+ * Check a mapping against the file's headers, or guess one from them
+ * @param {object|string} mapping - Field to column, or its JSON
+ * @param {string[]} headers - Column headers of the file
+ * @param {object[]} definitions - Custom field definitions, guessed by key
+ *   or label
+ * @returns {object} { mapping } or { error }
+ */
+function resolveMapping(mapping, headers, definitions = []) {
+  if (mapping === undefined || mapping === null || mapping === "") {
+    const guessed = {};
+    for (const [field, pattern] of Object.entries(HEADER_GUESSES)) {
+      const header = headers.find((candidate) => pattern.test(candidate));
+      if (header) guessed[field] = header;
+    }
+    for (const { key, label } of definitions) {
+      const names = [key.toLowerCase(), label.toLowerCase()];
+      const header = headers.find((candidate) =>
+        names.includes(candidate.toLowerCase())
+      );
+      if (header) guessed[`${CUSTOM_FIELD_PREFIX}${key}`] = header;
+    }
+    // Exact field names, e.g. a "firstName" column, win over guesses
+    for (const field of IMPORT_FIELDS) {
+      if (headers.includes(field)) guessed[field] = field;
+    }
+    if (!guessed.email) {
+      return { error: "The file needs an email column" };
+    }
+    return { mapping: guessed };
+  }
+
+  let parsed = mapping;
+  if (typeof mapping === "string") {
+    try {
+      parsed = JSON.parse(mapping);
+    } catch {
+      return { error: "Invalid mapping" };
+    }
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { error: "Invalid mapping" };
+  }
+
+  const resolved = {};
+  for (const [field, column] of Object.entries(parsed)) {
+    if (!column) continue;
+    const isCustomField = field.startsWith(CUSTOM_FIELD_PREFIX);
+    if (
+      !IMPORT_FIELDS.includes(field) &&
+      !(
+        isCustomField &&
+        CUSTOM_FIELD_KEY_REGEX.test(field.slice(CUSTOM_FIELD_PREFIX.length))
+      )
+    ) {
+      return { error: `Cannot import into "${field}"` };
+    }
+    if (!headers.includes(column)) {
+      return { error: `The file has no "${column}" column` };
+    }
+    resolved[field] = column;
+  }
+  if (!resolved.email) {
+    return { error: "Map a column to email" };
+  }
+  return { mapping: resolved };
+}
+
+// "a, b; c" to ["a", "b", "c"]
+const splitList = (value) =>
+  String(value)
+    .split(/[,;]/)
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Turn a file row into contact fields
+ * @param {object} row - Cells keyed by header
+ * @param {object} mapping - Resolved mapping
+ * @param {object[]} definitions - Custom field definitions
+ * @returns {object} { fields, errors }; fields holds only non-empty cells
+ */
+function mapRow(row, mapping, definitions = []) {
+  const fields = { customFields: {} };
+  const errors = [];
+
+  for (const [field, column] of Object.entries(mapping)) {
+    const value = String(row[column] ?? "").trim();
+    if (!value) continue;
+
+    if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+      const key = field.slice(CUSTOM_FIELD_PREFIX.length);
+      const definition = definitions.find((item) => item.key === key);
+      if (!definition) {
+        fields.customFields[key] = value;
+        continue;
+      }
+      const coerced = coerceCustomFieldValue(definition, value);
+      if (coerced.error) errors.push(coerced.error);
+      else fields.customFields[key] = coerced.value;
+      continue;
+    }
+
+    switch (field) {
+      case "email":
+        fields.email = value.toLowerCase();
+        if (!EMAIL_REGEX.test(fields.email)) {
+          errors.push(`Invalid email "${value}"`);
+        }
+        break;
+      case "status":
+        fields.status = value.toLowerCase();
+        if (!STATUSES.includes(fields.status)) {
+          errors.push(`Unknown status "${value}"`);
+        }
+        break;
+      case "tags": {
+        fields.tags = [...new Set(splitList(value))];
+        const unknown = fields.tags.filter((tag) => !TAGS.includes(tag));
+        if (unknown.length > 0) {
+          errors.push(`Unknown tags: ${unknown.join(", ")}`);
+        }
+        break;
+      }
+      case "timezone":
+        fields.timezone = value;
+        if (!isValidTimeZone(value)) {
+          errors.push(`Unknown timezone "${value}"`);
+        }
+        break;
+      default:
+        fields[field] = value;
+    }
+  }
+
+  if (!fields.email) errors.push("Missing email");
+  return { fields, errors };
+}
+
+/**
+ * Contacts with the given emails, by lowercased email
+ * @param {string[]} emails - Lowercased emails
+ * @returns {Promise<Map>}
+ */
+async function findExistingContacts(emails) {
+  const contacts = await Contact.find({ email: { $in: emails } })
+    .select("email firstName lastName phone tags timezone customFields lists")
+    .lean();
+  return new Map(
+    contacts.map((contact) => [contact.email.toLowerCase(), contact])
+  );
+}
+
+const isBlank = (value) =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Insert operation for a new contact, with the defaults the old importer
+ * used for missing names
+ * @param {object} fields - Mapped row fields
+ * @param {object} options - { listId, userId }
+ * @returns {object} bulkWrite operation
+ */
+function toInsertOperation(fields, { listId, userId }) {
+  const { customFields, tags, status, ...values } = fields;
+  return {
+    insertOne: {
+      document: {
+        ...values,
+        firstName: values.firstName || "Unknown",
+        lastName: values.lastName || "Contact",
+        status: status || "active",
+        ...(tags && { tags }),
+        customFields,
+        lists: listId ? [listId] : [],
+        createdBy: userId,
+      },
+    },
+  };
+}
+
+/**
+ * Update operation for an existing contact under a strategy
+ * @param {object} contact - Existing contact
+ * @param {object} fields - Mapped row fields
+ * @param {object} options - { strategy, listId }
+ * @returns {object|null} bulkWrite operation, or null when nothing changes
+ */
+function toUpdateOperation(contact, fields, { strategy, listId }) {
+  if (strategy === "skip") return null;
+
+  const { customFields, tags, email, status, ...values } = fields;
+  const currentCustomFields = contact.customFields || {};
+  const currentTags = contact.tags || [];
+  const $set = {};
+  const $addToSet = {};
+
+  if (strategy === "overwrite" || strategy === "fill_blanks") {
+    const overwrite = strategy === "overwrite";
+    for (const [field, value] of Object.entries(values)) {
+      if (contact[field] !== value && (overwrite || isBlank(contact[field]))) {
+        $set[field] = value;
+      }
+    }
+    for (const [key, value] of Object.entries(customFields)) {
+      const current = currentCustomFields[key];
+      if (
+        !sameCustomFieldValue(current, value) &&
+        (overwrite || isBlank(current))
+      ) {
+        $set[`${CUSTOM_FIELD_PREFIX}${key}`] = value;
+      }
+    }
+    const tagsChanged =
+      tags && [...currentTags].sort().join() !== [...tags].sort().join();
+    if (tagsChanged && (overwrite || currentTags.length === 0)) {
+      $set.tags = tags;
+    }
+  }
+
+  if (strategy === "merge_tags" && tags) {
+    const newTags = tags.filter((tag) => !currentTags.includes(tag));
+    if (newTags.length > 0) $addToSet.tags = { $each: newTags };
+  }
+
+  if (
+    listId &&
+    !(contact.lists || []).some((id) => id.toString() === listId.toString())
+  ) {
+    $addToSet.lists = listId;
+  }
+
+  if (Object.keys($set).length === 0 && Object.keys($addToSet).length === 0) {
+    return null;
+  }
+  return {
+    updateOne: {
+      filter: { _id: contact._id },
+      update: {
+        ...(Object.keys($set).length > 0 && { $set }),
+        ...(Object.keys($addToSet).length > 0 && { $addToSet }),
+      },
+    },
+  };
+}
+
+/**
+ * Import a batch of rows, updating the job's counters
+ * @param {object} job - ImportJob document
+ * @param {object[]} batch - { line, row } with row the cells keyed by header
+ * @param {Map} seen - Line of the first row of every email so far
+ * @param {object[]} definitions - Custom field definitions
+ */
+async function importBatch(job, batch, seen, definitions) {
+  const rowErrors = [];
+  const valid = [];
+
+  for (const { line, row } of batch) {
+    const { fields, errors } = mapRow(row, job.mapping, definitions);
+    const email = fields.email || "";
+    if (errors.length > 0) {
+      job.invalid++;
+      rowErrors.push({ row: line, email, reason: errors.join("; ") });
+    } else if (seen.has(email)) {
+      job.duplicates++;
+      rowErrors.push({
+        row: line,
+        email,
+        reason: `Same email as row ${seen.get(email)}`,
+      });
+    } else {
+      seen.set(email, line);
+      valid.push({ line, email, fields });
+    }
+  }
+  job.processed += batch.length;
+
+  const existing = await findExistingContacts(valid.map((item) => item.email));
+  const options = {
+    strategy: job.strategy,
+    listId: job.listId,
+    userId: job.createdBy,
+  };
+  const operations = [];
+  const operationRows = [];
+  for (const item of valid) {
+    const contact = existing.get(item.email);
+    if (!contact) {
+      const { customFields, errors } = applyCustomFields(
+        item.fields.customFields,
+        definitions,
+        { isNew: true }
+      );
+      if (errors.length > 0) {
+        job.invalid++;
+        rowErrors.push({
+          row: item.line,
+          email: item.email,
+          reason: errors.join("; "),
+        });
+        continue;
+      }
+      item.fields.customFields = customFields;
+    }
+    const operation = contact
+      ? toUpdateOperation(contact, item.fields, options)
+      : toInsertOperation(item.fields, options);
+    if (!operation) {
+      job.skipped++;
+      continue;
+    }
+    operations.push(operation);
+    operationRows.push(item);
+    if (contact) job.updated++;
+    else job.created++;
+  }
+
+  if (!job.dryRun && operations.length > 0) {
+    try {
+      await Contact.bulkWrite(operations, { ordered: false });
+    } catch (error) {
+      if (!error.writeErrors) throw error;
+      // The other operations of an unordered write still went through
+      for (const writeError of [].concat(error.writeErrors)) {
+        const item = operationRows[writeError.index];
+        if (operations[writeError.index].insertOne) job.created--;
+        else job.updated--;
+        job.invalid++;
+        rowErrors.push({
+          row: item.line,
+          email: item.email,
+          reason:
+            writeError.code === 11000
+              ? "A contact with this email was added during the import"
+              : writeError.errmsg || "Could not be saved",
+        });
+      }
+    }
+  }
+
+  if (rowErrors.length > 0) {
+    await ImportRowError.insertMany(
+      rowErrors.map((rowError) => ({ jobId: job._id, ...rowError }))
+    );
+  }
+}
+
+/**
+ * Run an import job to the end. Called without awaiting by the import
+ * route; the job's document records progress and the outcome, and the
+ * uploaded file is removed when it finishes.
+ * @param {string} jobId - ImportJob id
+ * @param {object} file - Multer file with path and originalname
+ */
+async function runImportJob(jobId, file) {
+  const job = await ImportJob.findById(jobId);
+  if (!job) {
+    await fs.promises.unlink(file.path).catch(() => {});
+    return;
+  }
+
+  try {
+    const seen = new Map();
+    const definitions = await getCustomFieldDefinitions();
+    let headers = null;
+    let batch = [];
+    const flush = async (bytesRead) => {
+      await importBatch(job, batch, seen, definitions);
+      batch = [];
+      job.bytesRead = bytesRead;
+      job.heartbeatAt = new Date();
+      await job.save();
+    };
+
+    for await (const { line, values, bytesRead } of readImportRows(file)) {
+      if (!headers) {
+        headers = values.map(cleanHeader);
+        continue;
+      }
+      // Rows of empty cells, e.g. trailing lines in a CSV
+      if (values.every((value) => !String(value).trim())) continue;
+
+      batch.push({
+        line,
+        row: Object.fromEntries(
+          headers.map((header, i) => [header, values[i] ?? ""])
+        ),
+      });
+      if (batch.length >= BATCH_SIZE) await flush(bytesRead);
+    }
+    if (batch.length > 0) await flush(job.fileSize);
+
+    if (!job.dryRun && job.listId && job.created + job.updated > 0) {
+      const count = await Contact.countDocuments({ lists: job.listId });
+      await ContactList.findByIdAndUpdate(job.listId, { contactCount: count });
+    }
+
+    job.status = "completed";
+    job.bytesRead = job.fileSize;
+    job.finishedAt = new Date();
+    await job.save();
+
+    if (!job.dryRun) {
+      await AuditLog.create({
+        userId: job.createdBy,
+        action: "contacts_imported",
+        targetType: "contact",
+        details: {
+          jobId: job._id,
+          fileName: job.fileName,
+          strategy: job.strategy,
+          listId: job.listId,
+          mapping: job.mapping,
+          processed: job.processed,
+          created: job.created,
+          updated: job.updated,
+          skipped: job.skipped,
+          duplicates: job.duplicates,
+          invalid: job.invalid,
+        },
+      });
+    }
+  } catch (error) {
+    console.error(`Import job ${jobId} error:`, error);
+    job.status = "failed";
+    job.error = error.message || "Import failed";
+    job.finishedAt = new Date();
+    await job.save().catch(() => {});
+  } finally {
+    await fs.promises.unlink(file.path).catch(() => {});
+  }
+}
+
+/**
+ * Mark a running job as failed when its process stopped updating it
+ * @param {object} job - ImportJob document
+ * @returns {Promise<object>} The job
+ */
+async function failStaleImportJob(job) {
+  if (
+    job.status === "running" &&
+    Date.now() - job.heartbeatAt.getTime() > STALE_JOB_MS
+  ) {
+    job.status = "failed";
+    job.error = "The import stopped before it finished";
+    job.finishedAt = new Date();
+    await job.save();
+  }
+  return job;
+}
+
+module.exports = {
+  IMPORT_FIELDS,
+  IMPORT_STRATEGIES,
+  readImportRows,
+  readImportHeaders,
+  resolveMapping,
+  mapRow,
+  runImportJob,
+  failStaleImportJob,
+};
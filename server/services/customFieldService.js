@@ -0,0 +1,323 @@
+/**
+ * Custom Field Service for CSE Mail Platform
+ * Admin-defined contact fields: text, number, date, yes/no, single choice
+ * (select) and multiple choice (multiselect). Values are stored on contacts
+ * as customFields.<key> with their native type: numbers, dates, booleans
+ * and arrays of options. Keys without a definition hold plain text.
+ */
+const CustomField = require("../models/CustomField");
+const Contact = require("../models/Contact");
+
+const FIELD_TYPES = CustomField.schema.path("type").enumValues;
+const KEY_PATTERN = /^[\w-]+$/;
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0"];
+const CONVERT_BATCH_SIZE = 500;
+
+const isBlank = (value) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Field definitions, in form order
+ * @returns {Promise<object[]>} Definitions
+ */
+function getCustomFieldDefinitions() {
+  return CustomField.find().sort({ order: 1, label: 1 }).lean();
+}
+
+/**
+ * Turn a value into the type of its field
+ * @param {object} definition - Field definition
+ * @param {*} raw - Value from a form, an import or the database
+ * @returns {object} { value } or { error }
+ */
+function coerceCustomFieldValue(definition, raw) {
+  const { label, type, options = [] } = definition;
+  const findOption = (value) =>
+    options.find(
+      (option) => option.toLowerCase() === String(value).trim().toLowerCase()
+    );
+
+  switch (type) {
+    case "number": {
+      const value = typeof raw === "number" ? raw : Number(String(raw).trim());
+      if (!Number.isFinite(value)) {
+        return { error: `${label} must be a number` };
+      }
+      if (typeof definition.min === "number" && value < definition.min) {
+        return { error: `${label} must be at least ${definition.min}` };
+      }
+      if (typeof definition.max === "number" && value > definition.max) {
+        return { error: `${label} must be at most ${definition.max}` };
+      }
+      return { value };
+    }
+    case "date": {
+      const value = raw instanceof Date ? raw : new Date(String(raw).trim());
+      if (Number.isNaN(value.getTime())) {
+        return { error: `${label} must be a date` };
+      }
+      return { value };
+    }
+    case "boolean": {
+      if (typeof raw === "boolean") return { value: raw };
+      const text = String(raw).trim().toLowerCase();
+      if (TRUE_VALUES.includes(text)) return { value: true };
+      if (FALSE_VALUES.includes(text)) return { value: false };
+      return { error: `${label} must be yes or no` };
+    }
+    case "select": {
+      const value = findOption(raw);
+      if (!value) {
+        return { error: `${label} must be one of: ${options.join(", ")}` };
+      }
+      return { value };
+    }
+    case "multiselect": {
+      const items = (Array.isArray(raw) ? raw : String(raw).split(/[,;]/))
+        .map((item) => String(item).trim())
+        .filter(Boolean);
+      const unknown = items.filter((item) => !findOption(item));
+      if (unknown.length > 0) {
+        return { error: `Unknown ${label} options: ${unknown.join(", ")}` };
+      }
+      return { value: [...new Set(items.map(findOption))] };
+    }
+    default: {
+      const value = String(raw).trim();
+      if (definition.maxLength && value.length > definition.maxLength) {
+        return {
+          error: `${label} must be at most ${definition.maxLength} characters`,
+        };
+      }
+      if (definition.pattern && !new RegExp(definition.pattern).test(value)) {
+        return { error: `${label} has an invalid format` };
+      }
+      return { value };
+    }
+  }
+}
+
+/**
+ * Check a field definition before it is saved
+ * @param {object} input - Definition from the request
+ * @param {object} current - Saved definition, when updating
+ * @returns {object} { definition } or { error }
+ */
+function parseCustomFieldDefinition(input, current = null) {
+  const pick = (name) => (name in input ? input[name] : current?.[name]);
+
+  if (current && input.key !== undefined && input.key !== current.key) {
+    return { error: "The key of a field cannot be changed" };
+  }
+  if (current && input.type !== undefined && input.type !== current.type) {
+    return { error: "The type of a field cannot be changed" };
+  }
+
+  const key = String(pick("key") ?? "").trim();
+  if (!KEY_PATTERN.test(key)) {
+    return { error: "Keys may only contain letters, numbers, _ and -" };
+  }
+  const type = pick("type") || "text";
+  if (!FIELD_TYPES.includes(type)) {
+    return { error: `Unknown field type "${type}"` };
+  }
+  const label = String(pick("label") ?? "").trim();
+  if (!label) return { error: "Label is required" };
+
+  const definition = {
+    key,
+    label,
+    type,
+    options: [],
+    required: Boolean(pick("required")),
+    defaultValue: null,
+    min: null,
+    max: null,
+    maxLength: null,
+    pattern: null,
+    order: Number(pick("order")) || 0,
+  };
+
+  if (type === "select" || type === "multiselect") {
+    const options = (pick("options") || [])
+      .map((option) => String(option).trim())
+      .filter(Boolean);
+    definition.options = [...new Set(options)];
+    if (definition.options.length === 0) {
+      return { error: "Choice fields need at least one option" };
+    }
+  }
+
+  if (type === "number") {
+    for (const bound of ["min", "max"]) {
+      if (isBlank(pick(bound))) continue;
+      definition[bound] = Number(pick(bound));
+      if (!Number.isFinite(definition[bound])) {
+        return { error: `The ${bound}imum must be a number` };
+      }
+    }
+    if (
+      definition.min !== null &&
+      definition.max !== null &&
+      definition.min > definition.max
+    ) {
+      return { error: "The minimum cannot be above the maximum" };
+    }
+  }
+
+  if (type === "text") {
+    if (!isBlank(pick("maxLength"))) {
+      definition.maxLength = Number(pick("maxLength"));
+      if (!Number.isInteger(definition.maxLength) || definition.maxLength < 1) {
+        return { error: "The maximum length must be a positive whole number" };
+      }
+    }
+    if (!isBlank(pick("pattern"))) {
+      definition.pattern = String(pick("pattern"));
+      try {
+        new RegExp(definition.pattern);
+      } catch {
+        return { error: "The pattern is not a valid regular expression" };
+      }
+    }
+  }
+
+  if (!isBlank(pick("defaultValue"))) {
+    const { value, error } = coerceCustomFieldValue(
+      definition,
+      pick("defaultValue")
+    );
+    if (error) return { error: `Default value: ${error}` };
+    definition.defaultValue = value;
+  }
+
+  return { definition };
+}
+
+/**
+ * Validate the custom fields of a contact
+ * @param {object|Map} input - Values by key
+ * @param {object[]} definitions - Field definitions
+ * @param {object} options - { isNew }: apply defaults for new contacts
+ * @returns {object} { customFields, errors }
+ */
+function applyCustomFields(input, definitions, { isNew = false } = {}) {
+  const values = input instanceof Map ? Object.fromEntries(input) : input || {};
+  const byKey = new Map(
+    definitions.map((definition) => [definition.key, definition])
+  );
+  const customFields = {};
+  const errors = [];
+  const rejected = new Set();
+
+  for (const [key, raw] of Object.entries(values)) {
+    if (!KEY_PATTERN.test(key)) {
+      errors.push(`Invalid custom field name "${key}"`);
+      continue;
+    }
+    if (isBlank(raw)) continue;
+
+    const definition = byKey.get(key);
+    if (!definition) {
+      customFields[key] = formatCustomFieldValue(raw);
+      continue;
+    }
+    const { value, error } = coerceCustomFieldValue(definition, raw);
+    if (error) {
+      errors.push(error);
+      rejected.add(key);
+    } else {
+      customFields[key] = value;
+    }
+  }
+
+  for (const definition of definitions) {
+    if (customFields[definition.key] !== undefined) continue;
+    if (rejected.has(definition.key)) continue;
+    if (isNew && !isBlank(definition.defaultValue)) {
+      customFields[definition.key] = definition.defaultValue;
+    } else if (definition.required) {
+      errors.push(`${definition.label} is required`);
+    }
+  }
+
+  return { customFields, errors };
+}
+
+/**
+ * Text of a custom field value, for exports and lists
+ * @param {*} value - Stored value
+ * @returns {string} Text
+ */
+function formatCustomFieldValue(value) {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+// Whether two stored values are the same
+const sameCustomFieldValue = (a, b) =>
+  formatCustomFieldValue(a) === formatCustomFieldValue(b) &&
+  typeof a === typeof b;
+
+/**
+ * Convert the values contacts already hold for a new field to its type.
+ * Values that do not fit the field are left as they are.
+ * @param {object} definition - Field definition
+ * @returns {Promise<object>} { converted, failed }
+ */
+async function convertExistingValues(definition) {
+  const path = `customFields.${definition.key}`;
+  const cursor = Contact.find({ [path]: { $exists: true } })
+    .select("customFields")
+    .lean()
+    .cursor();
+  let operations = [];
+  let converted = 0;
+  let failed = 0;
+
+  const flush = async () => {
+    if (operations.length === 0) return;
+    await Contact.bulkWrite(operations, { ordered: false });
+    operations = [];
+  };
+
+  for await (const contact of cursor) {
+    const raw = contact.customFields?.[definition.key];
+    if (isBlank(raw)) continue;
+    const { value, error } = coerceCustomFieldValue(definition, raw);
+    if (error) {
+      failed += 1;
+      continue;
+    }
+    if (sameCustomFieldValue(raw, value)) continue;
+    operations.push({
+      updateOne: {
+        filter: { _id: contact._id },
+        update: { $set: { [path]: value } },
+      },
+    });
+    converted += 1;
+    if (operations.length >= CONVERT_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return { converted, failed };
+}
+
+module.exports = {
+  FIELD_TYPES,
+  getCustomFieldDefinitions,
+  coerceCustomFieldValue,
+  parseCustomFieldDefinition,
+  applyCustomFields,
+  formatCustomFieldValue,
+  sameCustomFieldValue,
+  convertExistingValues,
+};
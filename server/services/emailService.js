@@ -6,17 +6,26 @@ const nodemailer = require("nodemailer");
 const Template = require("../models/Template");
 const AuditLog = require("../models/AuditLog");
 const Settings = require("../models/Settings");
+const { htmlToPlainText } = require("./plainTextService");
+const { renderForContact } = require("./mergeTagService");
+const { addTracking } = require("./trackingService");
+const { getUnsubscribeHeaders } = require("./unsubscribeService");
 const path = require("path");
 
 // Ensure environment variables are loaded
 require("dotenv").config({ path: path.join(__dirname, "../../.env") });
 
+// Block editor document embedded in template HTML (see frontend emailCompiler)
+const BLOCK_DOCUMENT_REGEX = /<!--\s*csemail:blocks\s[\s\S]*?-->\s*/g;
+
 /**
  * Email service class for handling email operations
  */
 class EmailService {
   constructor() {
     this.transporter = null;
+    // Transporters for sender identities with their own SMTP server
+    this.profileTransporters = new Map();
     this.initializeTransporter();
   }
 
@@ -101,6 +110,40 @@ class EmailService {
     await this.initializeTransporter();
   }
 
+  /**
+   * Transporter for an SMTP profile of a sender identity, reused while the
+   * profile is unchanged
+   * @param {object} smtp - { host, port, user, password, secure }; without a
+   *   host the transporter from Settings is used
+   * @returns {object} Nodemailer transporter
+   */
+  getTransporter(smtp) {
+    if (!smtp?.host) return this.transporter;
+
+    const key = [smtp.host, smtp.port, smtp.user, smtp.password, smtp.secure]
+      .map(String)
+      .join("|");
+    if (!this.profileTransporters.has(key)) {
+      this.profileTransporters.set(
+        key,
+        nodemailer.createTransport({
+          host: smtp.host,
+          port: smtp.port || 587,
+          secure: Boolean(smtp.secure),
+          requireTLS: !smtp.secure,
+          auth: smtp.user
+            ? { user: smtp.user, pass: smtp.password }
+            : undefined,
+          pool: false,
+          connectionTimeout: 10000,
+          greetingTimeout: 8000,
+          socketTimeout: 10000,
+        })
+      );
+    }
+    return this.profileTransporters.get(key);
+  }
+
   /**
    * Verify SMTP connection
    * @returns {Promise<boolean>} True if connection successful
@@ -116,55 +159,45 @@ class EmailService {
   }
 
   /**
-   * Process template variables by replacing {{variable}} placeholders
+   * Render merge tags, conditionals and loops (see shared/mergeTags.mjs for
+   * the variables and shared/templateLanguage.mjs for the syntax)
    * @param {string} content - Template content with variables
-   * @param {object} variables - Key-value pairs for replacement
+   * @param {object} variables - Campaign variables
    * @param {object} contact - Contact information for personalization
+   * @param {object} options - { format: "html"|"text", mode: "send"|"preview",
+   *   campaignId }
    * @returns {string} Processed content
+   * @throws {TemplateSyntaxError} When the template is malformed
    */
-  processTemplateVariables(content, variables = {}, contact = {}) {
-    let processedContent = content;
-
-    // Process custom variables first
-    Object.entries(variables).forEach(([key, value]) => {
-      const regex = new RegExp(`{{${key}}}`, "g");
-      processedContent = processedContent.replace(regex, value || "");
-    });
-
-    // Process contact-specific variables
-    const contactVariables = {
-      first_name: contact.firstName || contact.first_name || "",
-      last_name: contact.lastName || contact.last_name || "",
-      email: contact.email || "",
-      phone: contact.phone || "",
-      company: contact.company || "",
-      ...(contact.customFields || {}),
-    };
-
-    Object.entries(contactVariables).forEach(([key, value]) => {
-      const regex = new RegExp(`{{${key}}}`, "g");
-      processedContent = processedContent.replace(regex, value || "");
-    });
-
-    // Process system variables
-    const systemVariables = {
-      current_date: new Date().toLocaleDateString(),
-      current_year: new Date().getFullYear().toString(),
-      current_month: new Date().toLocaleDateString("en-US", { month: "long" }),
-      unsubscribe_url: `${
-        process.env.FRONTEND_URL
-      }/unsubscribe?email=${encodeURIComponent(contact.email)}`,
-      company_name: process.env.COMPANY_NAME || "Your Company",
-      support_email: process.env.SUPPORT_EMAIL || "support@example.com",
-      website_url: process.env.WEBSITE_URL || "https://example.com",
-    };
-
-    Object.entries(systemVariables).forEach(([key, value]) => {
-      const regex = new RegExp(`{{${key}}}`, "g");
-      processedContent = processedContent.replace(regex, value);
-    });
+  processTemplateVariables(content, variables = {}, contact = {}, options = {}) {
+    return renderForContact(content, { contact, variables, ...options });
+  }
 
-    return processedContent;
+  /**
+   * Build the plain-text alternative of an email
+   * @param {string} textContent - Custom plain text, if any
+   * @param {string} processedHtml - HTML with variables already replaced
+   * @param {object} variables - Campaign variables
+   * @param {object} contact - Contact information for personalization
+   * @param {string} mode - "send" or "preview"
+   * @param {string} campaignId - Campaign being sent, if any
+   * @returns {string} Plain text
+   */
+  processTextContent(
+    textContent,
+    processedHtml,
+    variables = {},
+    contact = {},
+    mode = "send",
+    campaignId = null
+  ) {
+    if (textContent && textContent.trim()) {
+      return this.processTemplateVariables(textContent, variables, contact, {
+        mode,
+        campaignId,
+      });
+    }
+    return htmlToPlainText(processedHtml);
   }
 
   /**
@@ -183,6 +216,9 @@ class EmailService {
     userId,
     campaignId = null,
     customTemplate = null, // NEW: Support for custom templates
+    textContent = "", // Campaign plain text, overrides the template's
+    trackingId = null, // Queue job id, adds open and click tracking
+    smtp = null, // SMTP profile of the sender identity, if it has one
   }) {
     try {
       let template;
@@ -200,16 +236,27 @@ class EmailService {
         throw new Error("Either templateId or customTemplate must be provided");
       }
 
-      // Process template content and subject
+      // Process template content and subject. The embedded block editor
+      // document is only needed for editing, so it is never sent.
       const processedContent = this.processTemplateVariables(
-        template.content,
+        template.content.replace(BLOCK_DOCUMENT_REGEX, ""),
         variables,
-        contact
+        contact,
+        { format: "html", campaignId }
       );
       const processedSubject = this.processTemplateVariables(
         template.subject,
         variables,
-        contact
+        contact,
+        { campaignId }
+      );
+      const processedText = this.processTextContent(
+        textContent || template.textContent,
+        processedContent,
+        variables,
+        contact,
+        "send",
+        campaignId
       );
 
       // Email options
@@ -220,17 +267,26 @@ class EmailService {
         to: to,
         replyTo: replyTo || fromEmail || process.env.DEFAULT_FROM_EMAIL,
         subject: processedSubject,
-        html: processedContent,
+        // The plain-text part keeps the original links
+        html: trackingId
+          ? addTracking(processedContent, trackingId)
+          : processedContent,
+        text: processedText,
         // Add tracking headers if needed
         headers: {
           "X-Campaign-ID": campaignId,
           "X-Template-ID": templateId || "custom",
           "X-Contact-Email": contact.email,
+          ...getUnsubscribeHeaders({
+            contactId: contact._id,
+            email: contact.email || to,
+            campaignId,
+          }),
         },
       };
 
       // Send email
-      const result = await this.transporter.sendMail(mailOptions);
+      const result = await this.getTransporter(smtp).sendMail(mailOptions);
 
       // Log successful send
       if (userId) {
@@ -293,6 +349,7 @@ class EmailService {
     replyTo,
     userId,
     campaignId = null,
+    textContent = "",
     batchSize = 1, // Send one at a time to avoid connection issues
     delay = 2000, // Increased delay between emails
   }) {
@@ -318,6 +375,7 @@ class EmailService {
           replyTo,
           userId,
           campaignId,
+          textContent,
         });
 
         results.successful.push({
@@ -350,7 +408,13 @@ class EmailService {
    * @param {object} options - Test email options
    * @returns {Promise} Test results
    */
-  async testTemplate({ templateId, testEmails, variables = {}, userId }) {
+  async testTemplate({
+    templateId,
+    testEmails,
+    variables = {},
+    userId,
+    textContent = "",
+  }) {
     const results = [];
 
     for (const email of testEmails) {
@@ -363,6 +427,7 @@ class EmailService {
           fromName: "Test Sender",
           fromEmail: process.env.DEFAULT_FROM_EMAIL,
           userId,
+          textContent,
         });
 
         results.push({
@@ -388,26 +453,44 @@ class EmailService {
    * @param {object} options - Preview options
    * @returns {Promise} Processed template
    */
-  async previewTemplate({ templateId, variables = {}, contact = {} }) {
+  async previewTemplate({
+    templateId,
+    variables = {},
+    contact = {},
+    textContent = "",
+  }) {
     const template = await Template.findById(templateId);
     if (!template) {
       throw new Error("Template not found");
     }
 
+    // Previews show what is sent, without the block editor document
     const processedContent = this.processTemplateVariables(
-      template.content,
+      template.content.replace(BLOCK_DOCUMENT_REGEX, ""),
       variables,
-      contact
+      contact,
+      { format: "html", mode: "preview" }
     );
     const processedSubject = this.processTemplateVariables(
       template.subject,
       variables,
-      contact
+      contact,
+      { mode: "preview" }
+    );
+
+    const processedText = this.processTextContent(
+      textContent || template.textContent,
+      processedContent,
+      variables,
+      contact,
+      "preview"
     );
 
     return {
       subject: processedSubject,
       content: processedContent,
+      text: processedText,
+      isCustomText: Boolean((textContent || template.textContent || "").trim()),
       originalSubject: template.subject,
       originalContent: template.content,
       variables: template.variables || [],
@@ -0,0 +1,216 @@
+/**
+ * Feedback Parser for CSE Mail Platform
+ * Reads bounce and complaint reports: RFC 3464 delivery status
+ * notifications (multipart/report; report-type=delivery-status) and RFC
+ * 5965 ARF feedback-loop reports (report-type=feedback-report). Both quote
+ * the original email or its headers, which carry the X-Campaign-ID and
+ * X-Contact-Email headers we add when sending, and its Message-ID.
+ */
+
+// Parts below this depth are not looked at. Reports nest one level (the
+// original message inside the report), forwarded reports two.
+const MAX_DEPTH = 4;
+
+/**
+ * Split a header block into a map of lowercased names to values. Folded
+ * lines are joined and repeated headers keep their first value.
+ * @param {string} block - Header lines
+ * @returns {Map<string, string>}
+ */
+function parseHeaders(block) {
+  const headers = new Map();
+  block
+    .replace(/\r?\n[ \t]+/g, " ")
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const separator = line.indexOf(":");
+      if (separator <= 0) return;
+      const name = line.slice(0, separator).trim().toLowerCase();
+      if (!headers.has(name)) {
+        headers.set(name, line.slice(separator + 1).trim());
+      }
+    });
+  return headers;
+}
+
+/**
+ * Content-Type value and parameters, e.g. the multipart boundary
+ * @param {string} value - Content-Type header
+ * @returns {object} { type, params }
+ */
+function parseContentType(value = "") {
+  const [type, ...rest] = value.split(";");
+  const params = {};
+  rest.forEach((param) => {
+    const match = param.match(/^\s*([^=\s]+)\s*=\s*"?([^"]*)"?\s*$/);
+    if (match) params[match[1].toLowerCase()] = match[2];
+  });
+  return { type: (type || "text/plain").trim().toLowerCase(), params };
+}
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function decodeBody(body, encoding = "") {
+  switch (encoding.trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/\s+/g, ""), "base64").toString("utf8");
+    case "quoted-printable":
+      return body
+        .replace(/=\r?\n/g, "")
+        .replace(/=([0-9A-F]{2})/gi, (match, hex) =>
+          String.fromCharCode(parseInt(hex, 16))
+        );
+    default:
+      return body;
+  }
+}
+
+/**
+ * Parse a message or MIME part into its headers, decoded body and, for
+ * multipart and message/rfc822 parts, its children
+ * @param {string} raw - Message source
+ * @param {number} depth - Nesting level
+ * @returns {object} { headers, type, params, body, parts }
+ */
+function parseMime(raw, depth = 0) {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerBlock = match ? raw.slice(0, match.index) : raw;
+  const rawBody = match ? raw.slice(match.index + match[0].length) : "";
+
+  const headers = parseHeaders(headerBlock);
+  const { type, params } = parseContentType(headers.get("content-type"));
+  const body = decodeBody(rawBody, headers.get("content-transfer-encoding"));
+  const node = { headers, type, params, body, parts: [] };
+  if (depth >= MAX_DEPTH) return node;
+
+  if (type.startsWith("multipart/") && params.boundary) {
+    const delimiter = `--${params.boundary}`;
+    node.parts = rawBody
+      .split(new RegExp(`^${escapeRegex(delimiter)}(?:--)?[ \\t]*\\r?$`, "m"))
+      .slice(1, -1)
+      .map((part) => parseMime(part.replace(/^\r?\n/, ""), depth + 1));
+  } else if (type === "message/rfc822" || type === "text/rfc822-headers") {
+    node.parts = [parseMime(body, depth + 1)];
+  }
+  return node;
+}
+
+// Every part of a message, depth first
+function flatten(node) {
+  return [node, ...node.parts.flatMap(flatten)];
+}
+
+// "rfc822; user@example.com" or "<user@example.com>" to the address
+const parseAddress = (value = "") =>
+  value
+    .slice(value.indexOf(";") + 1)
+    .replace(/[<>]/g, "")
+    .trim()
+    .toLowerCase();
+
+/**
+ * Headers of the email the report is about, from its quoted copy
+ * @param {object} report - Parsed report
+ * @returns {object} { messageId, campaignId, contactEmail }
+ */
+function findOriginal(report) {
+  const quoted = report.parts
+    .filter(
+      (part) =>
+        part.type === "message/rfc822" || part.type === "text/rfc822-headers"
+    )
+    .flatMap((part) => part.parts);
+  const original =
+    quoted.find((part) => part.headers.has("x-campaign-id")) || quoted[0];
+  const headers = original?.headers || new Map();
+
+  return {
+    messageId: headers.get("message-id") || null,
+    campaignId: headers.get("x-campaign-id") || null,
+    contactEmail: parseAddress(headers.get("x-contact-email")) || null,
+  };
+}
+
+/**
+ * Recipients of a delivery status notification
+ * @param {string} body - message/delivery-status part
+ * @returns {object[]} { email, action, status, diagnosticCode, permanent }
+ */
+function parseDeliveryStatus(body) {
+  // The first block describes the reporting MTA, the rest one recipient each
+  return body
+    .split(/\r?\n\s*\r?\n/)
+    .slice(1)
+    .map(parseHeaders)
+    .filter((fields) => fields.has("final-recipient") && fields.has("action"))
+    .map((fields) => {
+      const status = (fields.get("status") || "").split(/\s/)[0];
+      const action = fields.get("action").toLowerCase();
+      return {
+        email: parseAddress(
+          fields.get("original-recipient") || fields.get("final-recipient")
+        ),
+        action,
+        status,
+        diagnosticCode: fields.get("diagnostic-code") || null,
+        permanent: action === "failed" && status.startsWith("5"),
+      };
+    })
+    .filter(
+      (recipient) =>
+        recipient.email &&
+        (recipient.action === "failed" || recipient.action === "delayed")
+    );
+}
+
+/**
+ * Read a bounce or complaint report
+ * @param {string|Buffer} raw - Message source
+ * @returns {object|null} For bounces { type: "bounce", recipients,
+ *   ...original }, for complaints { type: "complaint", feedbackType, email,
+ *   ...original }, or null for other messages
+ */
+function parseFeedbackMessage(raw) {
+  const message = parseMime(String(raw));
+  const report = flatten(message).find(
+    (part) => part.type === "multipart/report"
+  );
+  if (!report) return null;
+
+  const reportType = (report.params["report-type"] || "").toLowerCase();
+  const original = findOriginal(report);
+
+  if (reportType === "delivery-status") {
+    const statusPart = report.parts.find(
+      (part) =>
+        part.type === "message/delivery-status" ||
+        part.type === "message/global-delivery-status"
+    );
+    const recipients = statusPart ? parseDeliveryStatus(statusPart.body) : [];
+    if (recipients.length === 0) return null;
+    return { type: "bounce", recipients, ...original };
+  }
+
+  if (reportType === "feedback-report") {
+    const feedbackPart = report.parts.find(
+      (part) => part.type === "message/feedback-report"
+    );
+    if (!feedbackPart) return null;
+    const fields = parseHeaders(feedbackPart.body);
+    return {
+      type: "complaint",
+      feedbackType: (fields.get("feedback-type") || "abuse").toLowerCase(),
+      email:
+        original.contactEmail ||
+        parseAddress(fields.get("original-rcpt-to")) ||
+        null,
+      ...original,
+    };
+  }
+
+  return null;
+}
+
+module.exports = {
+  parseFeedbackMessage,
+};
@@ -0,0 +1,236 @@
+/**
+ * Feedback Service for CSE Mail Platform
+ * Applies bounce and complaint reports to the email they are about. A hard
+ * bounce turns a sent job into a bounced one and takes it off the
+ * campaign's delivered count; a complaint is counted once per recipient.
+ * Both stop further sending to the address: the contact's status changes
+ * and the address is added to the suppression list. Soft bounces (delayed
+ * deliveries and 4.x.x failures) are logged but change nothing.
+ *
+ * Reports come from the bounce mailbox (see services/bounceMailboxService.js)
+ * or from the inbound webhook (see routes/inbound.js).
+ */
+const mongoose = require("mongoose");
+const Queue = require("../models/Queue");
+const Campaign = require("../models/Campaign");
+const Contact = require("../models/Contact");
+const EmailEvent = require("../models/EmailEvent");
+const { parseFeedbackMessage } = require("./feedbackParser");
+const {
+  normalizeEmail,
+  isValidEmail,
+  suppress,
+} = require("./suppressionService");
+
+// Contact and queue emails are stored in lower case, so an equality match
+// can use the email indexes
+const emailQuery = (email) => email.toLowerCase();
+
+// Message-IDs are stored as nodemailer returns them, in angle brackets
+const normalizeMessageId = (messageId) => {
+  const value = String(messageId || "")
+    .trim()
+    .replace(/^<|>$/g, "");
+  return value ? `<${value}>` : null;
+};
+
+/**
+ * The queue job a report is about: by the Message-ID of the original
+ * email, or else by the X-Campaign-ID and recipient address
+ * @param {object} report - { messageId, campaignId, email }; email is
+ *   lowercased
+ * @returns {Promise<object|null>} Queue job
+ */
+async function findJob({ messageId, campaignId, email }) {
+  const normalizedId = normalizeMessageId(messageId);
+  if (normalizedId) {
+    const job = await Queue.findOne({ messageId: normalizedId });
+    if (job && (!email || normalizeEmail(job.email) === email)) return job;
+  }
+  if (!mongoose.isObjectIdOrHexString(campaignId) || !email) return null;
+  return Queue.findOne({ campaignId, email: emailQuery(email) });
+}
+
+/**
+ * Apply one bounced recipient
+ * @param {object} bounce - { email, status, diagnosticCode, permanent,
+ *   messageId, campaignId }
+ * @param {string} source - Where the report came from, stored on the event
+ * @returns {Promise<object>} { type, email, permanent, matched }
+ */
+async function applyBounce(bounce, source) {
+  const email = normalizeEmail(bounce.email);
+  const outcome = {
+    type: "bounce",
+    email,
+    permanent: bounce.permanent,
+    matched: false,
+  };
+  if (!isValidEmail(email)) return outcome;
+
+  const job = await findJob({ ...bounce, email });
+  outcome.matched = Boolean(job);
+  if (!bounce.permanent) return outcome;
+
+  const errorMessage = [bounce.status, bounce.diagnosticCode]
+    .filter(Boolean)
+    .join(" ");
+
+  // Reports can arrive more than once; only the first changes the counts
+  const bounced =
+    job &&
+    (await Queue.updateOne(
+      { _id: job._id, status: "sent" },
+      {
+        $set: {
+          status: "bounced",
+          bouncedAt: new Date(),
+          errorClass: "permanent",
+          errorMessage: errorMessage || "Bounced after delivery",
+        },
+      }
+    ));
+  if (bounced?.modifiedCount > 0) {
+    await Campaign.updateOne(
+      { _id: job.campaignId },
+      { $inc: { bouncedCount: 1, deliveredCount: -1 } }
+    );
+    await EmailEvent.create({
+      campaignId: job.campaignId,
+      contactId: job.contactId,
+      jobId: job._id,
+      email: job.email,
+      type: "bounced",
+      details: {
+        status: bounce.status,
+        diagnosticCode: bounce.diagnosticCode,
+        source,
+      },
+    });
+  }
+
+  await Contact.updateMany(
+    { email: emailQuery(email) },
+    { $set: { status: "bounced" } }
+  );
+  await suppress(email, {
+    reason: "bounced",
+    campaignId: job?.campaignId,
+    contactId: job?.contactId,
+  });
+  return outcome;
+}
+
+/**
+ * Apply a complaint: the recipient marked the email as spam
+ * @param {object} complaint - { email, feedbackType, messageId, campaignId }
+ * @param {string} source - Where the report came from, stored on the event
+ * @returns {Promise<object>} { type, email, matched }
+ */
+async function applyComplaint(complaint, source) {
+  const reported = normalizeEmail(complaint.email);
+  const job = await findJob({ ...complaint, email: reported });
+  // Providers often redact the recipient, leaving only our own headers
+  const email = reported || normalizeEmail(job?.email);
+  const outcome = { type: "complaint", email, matched: Boolean(job) };
+  if (!isValidEmail(email)) return outcome;
+
+  const first =
+    job &&
+    (await Queue.updateOne(
+      { _id: job._id, complainedAt: { $exists: false } },
+      { $set: { complainedAt: new Date() } }
+    ));
+  if (first?.modifiedCount > 0) {
+    await Campaign.updateOne(
+      { _id: job.campaignId },
+      { $inc: { complainedCount: 1 } }
+    );
+    await EmailEvent.create({
+      campaignId: job.campaignId,
+      contactId: job.contactId,
+      jobId: job._id,
+      email: job.email,
+      type: "complained",
+      details: { feedbackType: complaint.feedbackType, source },
+    });
+  }
+
+  // A bounced address stays bounced
+  await Contact.updateMany(
+    { email: emailQuery(email), status: { $ne: "bounced" } },
+    { $set: { status: "complained" } }
+  );
+  await suppress(email, {
+    reason: "complained",
+    campaignId: job?.campaignId,
+    contactId: job?.contactId,
+  });
+  return outcome;
+}
+
+/**
+ * Apply a report that was already parsed, by services/feedbackParser.js or
+ * by an email provider that posts its own bounce and complaint events
+ * @param {object} report - { type: "bounce", recipients, ... } or
+ *   { type: "complaint", email, feedbackType, ... }, with the messageId and
+ *   campaignId of the original email when known
+ * @param {object} options - { source }
+ * @returns {Promise<object[]>} One outcome per recipient
+ */
+async function processFeedbackReport(report, { source = "webhook" } = {}) {
+  const original = {
+    messageId: report.messageId,
+    campaignId: report.campaignId,
+  };
+
+  if (report.type === "bounce") {
+    const outcomes = [];
+    for (const recipient of report.recipients || []) {
+      outcomes.push(
+        await applyBounce(
+          {
+            ...original,
+            ...recipient,
+            permanent: recipient.permanent !== false,
+          },
+          source
+        )
+      );
+    }
+    return outcomes;
+  }
+
+  if (report.type === "complaint") {
+    return [
+      await applyComplaint(
+        {
+          ...original,
+          email: report.email || report.contactEmail,
+          feedbackType: report.feedbackType || "abuse",
+        },
+        source
+      ),
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Parse and apply a bounce or complaint email
+ * @param {string|Buffer} raw - Message source
+ * @param {object} options - { source }
+ * @returns {Promise<object[]|null>} One outcome per recipient, or null when
+ *   the message is not a bounce or complaint report
+ */
+async function processFeedbackMessage(raw, options = {}) {
+  const report = parseFeedbackMessage(raw);
+  if (!report) return null;
+  return processFeedbackReport(report, options);
+}
+
+module.exports = {
+  processFeedbackReport,
+  processFeedbackMessage,
+};
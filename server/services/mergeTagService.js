@@ -0,0 +1,250 @@
+/**
+ * Merge Tag Service for CSE Mail Platform
+ * Server side of shared/mergeTags.mjs: system variables from the
+ * environment, the variable catalog with the defined custom fields and the
+ * ones in use, and the unresolved-tag report shown before a campaign is sent
+ */
+const Contact = require("../models/Contact");
+const {
+  MERGE_TAG_CATALOG,
+  buildSystemVariables,
+  buildMergeContext,
+  renderMergeTags,
+  findUnresolvedTags,
+} = require("../../shared/mergeTags.mjs");
+const {
+  TemplateSyntaxError,
+  parseTemplate,
+} = require("../../shared/templateLanguage.mjs");
+const { getUnsubscribeUrl } = require("./unsubscribeService");
+const { getCustomFieldDefinitions } = require("./customFieldService");
+
+// Recipient addresses listed per unresolved tag in the report
+const REPORT_SAMPLE_SIZE = 5;
+
+/**
+ * System variables for one recipient, configured through the environment
+ * @param {object} contact - Recipient contact, or at least their address
+ * @param {string} campaignId - Campaign being sent, for the unsubscribe link
+ * @returns {object} System variables
+ */
+function getSystemVariables(contact = {}, campaignId = null) {
+  return buildSystemVariables({
+    email: contact.email || "",
+    appUrl: process.env.FRONTEND_URL || "",
+    unsubscribeUrl: getUnsubscribeUrl({
+      contactId: contact._id,
+      email: contact.email,
+      campaignId,
+    }),
+    companyName: process.env.COMPANY_NAME || undefined,
+    supportEmail: process.env.SUPPORT_EMAIL || undefined,
+    websiteUrl: process.env.WEBSITE_URL || undefined,
+  });
+}
+
+/**
+ * All merge tag values for one recipient
+ * @param {object} contact - Contact document or sample contact
+ * @param {object} variables - Campaign variables
+ * @param {string} campaignId - Campaign being sent, if any
+ * @returns {object} Merge context
+ */
+function getMergeContext(contact = {}, variables = {}, campaignId = null) {
+  return buildMergeContext({
+    contact,
+    variables,
+    system: getSystemVariables(contact, campaignId),
+  });
+}
+
+/**
+ * Substitute merge tags for one recipient
+ * @param {string} content - Subject, HTML or plain text
+ * @param {object} options - { contact, variables, campaignId, format, mode }
+ * @returns {string} Rendered content
+ * @throws {TemplateSyntaxError} When the template is malformed
+ */
+function renderForContact(
+  content,
+  {
+    contact = {},
+    variables = {},
+    campaignId = null,
+    format = "text",
+    mode = "send",
+  } = {}
+) {
+  return renderMergeTags(
+    content,
+    getMergeContext(contact, variables, campaignId),
+    { format, mode }
+  );
+}
+
+/**
+ * Custom field keys stored on contacts
+ * @returns {Promise<string[]>} Sorted keys
+ */
+async function getCustomFieldKeys() {
+  const keys = await Contact.aggregate([
+    { $match: { customFields: { $exists: true } } },
+    { $project: { fields: { $objectToArray: "$customFields" } } },
+    { $unwind: "$fields" },
+    { $group: { _id: "$fields.k" } },
+    { $sort: { _id: 1 } },
+    { $limit: 200 },
+  ]);
+  return keys.map((key) => key._id);
+}
+
+// Catalog descriptions of the custom field types
+const CUSTOM_FIELD_DESCRIPTIONS = {
+  text: "Text custom field",
+  number: "Number custom field",
+  date: "Date custom field (YYYY-MM-DD)",
+  boolean: "Yes/no custom field, for {{#if}}",
+  select: "Choice custom field",
+  multiselect: "Multiple choice custom field, for {{#each}}",
+};
+
+/**
+ * Variable catalog: contact fields, the defined custom fields and the ones
+ * in use, system variables (with their current values) and the given
+ * campaign variables
+ * @param {object} variables - Campaign variables, if any
+ * @returns {Promise<object[]>} Catalog entries
+ */
+async function getMergeTagCatalog(variables = {}) {
+  const system = getSystemVariables({ email: "jane.doe@example.com" });
+  const builtIn = new Set(MERGE_TAG_CATALOG.map((tag) => tag.name));
+
+  const [definitions, keys] = await Promise.all([
+    getCustomFieldDefinitions(),
+    getCustomFieldKeys(),
+  ]);
+  const defined = new Set(definitions.map((definition) => definition.key));
+  const customFields = [
+    ...definitions.map((definition) => ({
+      key: definition.key,
+      label: definition.label,
+      description: CUSTOM_FIELD_DESCRIPTIONS[definition.type],
+    })),
+    ...keys
+      .filter((key) => !defined.has(key))
+      .map((key) => ({ key, label: key, description: "Custom field" })),
+  ]
+    .filter(({ key }) => !builtIn.has(key))
+    .map(({ key, label, description }) => ({
+      name: key,
+      group: "custom",
+      label,
+      description: `${description}, also available as customFields.${key}`,
+      example: "",
+    }));
+
+  const campaignVariables = Object.keys(variables).map((key) => ({
+    name: key,
+    group: "campaign",
+    label: key,
+    description: "Campaign variable",
+    example: String(variables[key] ?? ""),
+  }));
+
+  return [
+    ...MERGE_TAG_CATALOG.map((tag) =>
+      tag.group === "system" ? { ...tag, example: system[tag.name] } : tag
+    ),
+    ...customFields,
+    ...campaignVariables,
+  ];
+}
+
+/**
+ * Find the first template syntax error in a campaign's content
+ * @param {object} content - { subject, html, text }
+ * @returns {object|null} { part, message, position }, or null when every
+ *   part parses
+ */
+function findTemplateSyntaxError(content) {
+  for (const [part, source] of Object.entries(content)) {
+    if (!source) continue;
+    try {
+      parseTemplate(source);
+    } catch (error) {
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      return { part, message: error.message, position: error.position };
+    }
+  }
+  return null;
+}
+
+/**
+ * Find merge tags that will be removed because a recipient has no value
+ * for them
+ * @param {object} options
+ * @param {object} options.content - { subject, html, text }
+ * @param {object} options.query - Contact query for the recipients
+ * @param {object} options.variables - Campaign variables
+ * @returns {Promise<object>} { totalRecipients, affectedRecipients, tags,
+ *   syntaxError }
+ */
+async function reportUnresolvedTags({ content, query, variables = {} }) {
+  const report = {
+    totalRecipients: 0,
+    affectedRecipients: 0,
+    tags: [],
+    syntaxError: null,
+  };
+
+  const syntaxError = findTemplateSyntaxError(content);
+  if (syntaxError) {
+    report.syntaxError = `${syntaxError.part}: ${syntaxError.message}`;
+    return report;
+  }
+
+  const sources = Object.entries(content).filter(([, source]) => source);
+
+  const tags = new Map();
+
+  const cursor = Contact.find(query)
+    .select("email firstName lastName phone customFields")
+    .lean()
+    .cursor();
+
+  for await (const contact of cursor) {
+    report.totalRecipients++;
+    const context = getMergeContext(contact, variables);
+    const missing = new Set();
+
+    for (const [part, source] of sources) {
+      for (const tag of findUnresolvedTags(source, context)) {
+        const entry = tags.get(tag) || { tag, parts: [], count: 0, emails: [] };
+        if (!entry.parts.includes(part)) entry.parts.push(part);
+        tags.set(tag, entry);
+        missing.add(tag);
+      }
+    }
+
+    for (const tag of missing) {
+      const entry = tags.get(tag);
+      entry.count++;
+      if (entry.emails.length < REPORT_SAMPLE_SIZE) {
+        entry.emails.push(contact.email);
+      }
+    }
+    if (missing.size > 0) report.affectedRecipients++;
+  }
+
+  report.tags = Array.from(tags.values()).sort((a, b) => b.count - a.count);
+  return report;
+}
+
+module.exports = {
+  getSystemVariables,
+  getMergeContext,
+  renderForContact,
+  getMergeTagCatalog,
+  findTemplateSyntaxError,
+  reportUnresolvedTags,
+};
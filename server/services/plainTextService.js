@@ -0,0 +1,132 @@
+/**
+ * Plain Text Service for CSE Mail Platform
+ * Builds the text/plain alternative that is sent alongside every HTML email
+ */
+
+const NAMED_ENTITIES = {
+  nbsp: " ",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  zwnj: "",
+};
+
+// Elements that start a new paragraph
+const BLOCK_TAGS =
+  "p|div|table|tr|ul|ol|blockquote|section|article|header|footer|center|pre|address";
+
+/**
+ * Decode HTML entities
+ * @param {string} text - HTML text
+ * @returns {string} Decoded text
+ */
+function decodeEntities(text) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const stripTags = (html) => html.replace(/<[^>]*>/g, "");
+
+const getAttribute = (tag, name) => {
+  const match = tag.match(
+    new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i")
+  );
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : "";
+};
+
+/**
+ * Convert email HTML into a readable plain-text version. Links become
+ * numbered footnotes, headings are underlined and images are replaced by
+ * their alt text.
+ * @param {string} html - Email HTML
+ * @returns {string} Plain text
+ */
+function htmlToPlainText(html) {
+  if (!html) return "";
+
+  const links = [];
+  const footnote = (url) => {
+    const index = links.indexOf(url);
+    if (index !== -1) return index + 1;
+    links.push(url);
+    return links.length;
+  };
+
+  let text = html
+    // Comments (including the embedded block document), head and scripts
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|style|script|title)\b[\s\S]*?<\/\1>/gi, "")
+    // Source formatting is not meaningful in HTML
+    .replace(/\s+/g, " ")
+    // Images are replaced by their alt text
+    .replace(/<img\b[^>]*>/gi, (tag) => {
+      const alt = getAttribute(tag, "alt").trim();
+      return alt ? `[${alt}]` : "";
+    })
+    // Links keep their text and get a footnote with the URL
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (match, attributes, inner) => {
+      const href = getAttribute(`<a${attributes}>`, "href").trim();
+      const label = stripTags(inner).trim();
+      if (!href || href.startsWith("#")) return label;
+      if (/^mailto:/i.test(href)) {
+        const address = href.replace(/^mailto:/i, "").split("?")[0];
+        return label && label !== address ? `${label} (${address})` : address;
+      }
+      if (!label || decodeEntities(label) === href) return href;
+      return `${label} [${footnote(href)}]`;
+    })
+    // Headings are underlined, "=" for the main heading and "-" for the rest
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (match, level, inner) => {
+      const heading = stripTags(inner).trim();
+      if (!heading) return "\n\n";
+      const underline = (level === "1" ? "=" : "-").repeat(
+        Math.min(decodeEntities(heading).length, 76)
+      );
+      return `\n\n${heading}\n${underline}\n\n`;
+    })
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<hr\b[^>]*>/gi, "\n\n--------------------\n\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(new RegExp(`</?(?:${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n\n")
+    // Table cells side by side (columns) each start on a new line
+    .replace(/<\/t[dh]>/gi, "\n");
+
+  text = decodeEntities(stripTags(text))
+    .split("\n")
+    .map((line) => line.replace(/[ \t ]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  if (links.length > 0) {
+    text += `\n\n${links.map((url, index) => `[${index + 1}] ${url}`).join("\n")}`;
+  }
+
+  return text;
+}
+
+module.exports = {
+  htmlToPlainText,
+};
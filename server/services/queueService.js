@@ -0,0 +1,720 @@
+/**
+ * Queue Service for CSE Mail Platform
+ * Persistent send queue: a campaign is enqueued as one Queue job per
+ * recipient, and workers claim jobs one at a time and send them at the
+ * rate set in Settings.emailRateLimit. All state lives in MongoDB, so a
+ * restarted worker picks up where the previous one stopped.
+ */
+const os = require("os");
+const mongoose = require("mongoose");
+const Queue = require("../models/Queue");
+const Campaign = require("../models/Campaign");
+const Contact = require("../models/Contact");
+const ContactList = require("../models/ContactList");
+const Settings = require("../models/Settings");
+const SystemConfig = require("../models/SystemConfig");
+const emailService = require("./emailService");
+const {
+  classifySendError,
+  getRetryDelay,
+  isRetryable,
+} = require("./smtpErrorService");
+const { planSendTime } = require("./sendTimeService");
+const { suppress, findSuppressed } = require("./suppressionService");
+const { buildRecipientQuery } = require("./segmentService");
+const { isValidTimeZone, resolveTimeZone } = require("./timezoneService");
+
+// Jobs written per bulk operation when enqueueing a campaign
+const ENQUEUE_BATCH_SIZE = 500;
+// Wait before looking for work again when the queue is empty or paused
+const IDLE_POLL_MS = 5000;
+// A job left in "sending" for longer belongs to a worker that stopped
+// mid-send, and is handed to the next worker
+const LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+// How often settings and campaign content are re-read while sending
+const CACHE_TTL_MS = 30 * 1000;
+// Workers record when they were last seen so the monitor can tell whether
+// anything is processing the queue
+const HEARTBEAT_KEY = "queue_worker_heartbeat";
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const WORKER_OFFLINE_AFTER_MS = 60 * 1000;
+const DEFAULT_RATE_LIMIT = 5;
+const DEFAULT_MAX_RETRIES = 3;
+
+const worker = {
+  id: `${os.hostname()}:${process.pid}`,
+  running: false,
+  loop: null,
+  lastHeartbeatAt: 0,
+  lastRecoveryAt: 0,
+  settings: null,
+  maxRetries: DEFAULT_MAX_RETRIES,
+  settingsLoadedAt: 0,
+  throttledUntil: 0, // Set when the SMTP provider rate limits us
+  campaigns: new Map(),
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Queue a job for every active contact in the campaign's lists or matching
+ * its segments, except suppressed addresses. Contacts that are already queued for the campaign
+ * are skipped, so calling this again after an interruption is safe. Callers set the campaign to
+ * "sending" with queuedAt null first; queuedAt is set once all jobs exist.
+ * Optimized campaigns give each job the recipient's notBefore time.
+ * @param {object} campaign - Campaign document
+ * @param {string} userId - User who started the send
+ * @returns {Promise<object>} { totalRecipients, queued, suppressed }
+ */
+async function enqueueCampaign(campaign, userId) {
+  const planner =
+    campaign.deliveryMode === "optimized"
+      ? await createSendTimePlanner(campaign)
+      : null;
+
+  const cursor = Contact.find(await buildRecipientQuery(campaign))
+    .select(planner ? "_id email lists timezone engagement" : "_id email")
+    .lean()
+    .cursor();
+
+  let queued = 0;
+  let suppressed = 0;
+  let batch = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const suppressedEmails = await findSuppressed(
+      batch.map((contact) => contact.email)
+    );
+    const operations = batch
+      .filter(
+        (contact) => !suppressedEmails.has(contact.email.toLowerCase())
+      )
+      .map((contact) => ({
+        updateOne: {
+          filter: { campaignId: campaign._id, contactId: contact._id },
+          update: {
+            $setOnInsert: {
+              email: contact.email,
+              status: "pending",
+              queuedBy: userId,
+              ...(planner && { notBefore: planner(contact) }),
+            },
+          },
+          upsert: true,
+        },
+      }));
+    suppressed += batch.length - operations.length;
+    batch = [];
+
+    if (operations.length === 0) return;
+    const result = await Queue.bulkWrite(operations, { ordered: false });
+    queued += result.upsertedCount;
+  };
+
+  for await (const contact of cursor) {
+    batch.push(contact);
+    if (batch.length >= ENQUEUE_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  const totalRecipients = await Queue.countDocuments({
+    campaignId: campaign._id,
+  });
+  await Campaign.updateOne(
+    { _id: campaign._id },
+    { $set: { totalRecipients, queuedAt: new Date() } }
+  );
+  // The worker may already have sent every job, or there were none
+  await finishCampaignIfDone(campaign._id);
+
+  return { totalRecipients, queued, suppressed };
+}
+
+/**
+ * Whether a campaign has at least one active, unsuppressed recipient.
+ * Stops reading contacts at the first one found.
+ * @param {object} campaign - { lists, segments } with ids
+ * @returns {Promise<boolean>}
+ */
+async function hasSendableRecipients(campaign) {
+  const cursor = Contact.find(await buildRecipientQuery(campaign))
+    .select("email")
+    .lean()
+    .batchSize(ENQUEUE_BATCH_SIZE)
+    .cursor();
+
+  let batch = [];
+  const check = async () => {
+    const suppressedEmails = await findSuppressed(
+      batch.map((contact) => contact.email)
+    );
+    const found = batch.some(
+      (contact) => !suppressedEmails.has(contact.email.toLowerCase())
+    );
+    batch = [];
+    return found;
+  };
+
+  try {
+    for await (const contact of cursor) {
+      batch.push(contact);
+      if (batch.length >= ENQUEUE_BATCH_SIZE && (await check())) return true;
+    }
+    return batch.length > 0 && (await check());
+  } finally {
+    await cursor.close();
+  }
+}
+
+/**
+ * Send time for each recipient of an optimized campaign. Contacts without
+ * a timezone of their own use their list's default, then the
+ * organization's.
+ * @param {object} campaign - Campaign document
+ * @returns {Promise<Function>} contact => notBefore Date
+ */
+async function createSendTimePlanner(campaign) {
+  const now = new Date();
+  const settings = await Settings.findOne({ isDefault: true })
+    .select("timezone")
+    .lean();
+  const defaultTimeZone = resolveTimeZone(settings?.timezone);
+
+  const lists = await ContactList.find({ _id: { $in: campaign.lists } })
+    .select("defaultTimezone")
+    .lean();
+  const listTimeZones = new Map(
+    lists
+      .filter((list) => list.defaultTimezone)
+      .map((list) => [String(list._id), list.defaultTimezone])
+  );
+
+  return (contact) => {
+    const listTimeZone = (contact.lists || [])
+      .map((listId) => listTimeZones.get(String(listId)))
+      .find(Boolean);
+    return planSendTime({
+      engagement: contact.engagement,
+      timeZone:
+        [contact.timezone, listTimeZone].find(isValidTimeZone) ||
+        defaultTimeZone,
+      deliveryWindow: campaign.deliveryWindow,
+      now,
+    });
+  };
+}
+
+/**
+ * Put failed jobs back in the queue and take them off their campaign's
+ * failed count. Campaigns that had finished go back to "sending". Bounced
+ * jobs stay as they are, since their addresses are suppressed.
+ * @param {object} filter - Queue query selecting the jobs
+ * @returns {Promise<number>} Number of jobs requeued
+ */
+async function requeueJobs(filter) {
+  const jobs = await Queue.find({ ...filter, status: "failed" })
+    .select("_id campaignId")
+    .lean();
+  if (jobs.length === 0) return 0;
+
+  await Queue.updateMany(
+    { _id: { $in: jobs.map((job) => job._id) } },
+    {
+      $set: { status: "pending", errorMessage: null, retryCount: 0 },
+      $unset: {
+        lockedBy: "",
+        lockedAt: "",
+        nextAttemptAt: "",
+        errorClass: "",
+        responseCode: "",
+      },
+    }
+  );
+
+  const perCampaign = new Map();
+  jobs.forEach((job) => {
+    const id = String(job.campaignId);
+    perCampaign.set(id, (perCampaign.get(id) || 0) + 1);
+  });
+
+  for (const [campaignId, count] of perCampaign) {
+    await Campaign.updateOne(
+      { _id: campaignId },
+      { $inc: { failedCount: -count } }
+    );
+    await Campaign.updateOne(
+      { _id: campaignId, status: { $in: ["sent", "failed"] } },
+      { $set: { status: "sending" } }
+    );
+  }
+
+  return jobs.length;
+}
+
+/**
+ * Release jobs whose worker stopped while sending them
+ * @returns {Promise<number>} Number of jobs released
+ */
+async function recoverStaleJobs() {
+  const cutoff = new Date(Date.now() - LOCK_TIMEOUT_MS);
+  const result = await Queue.updateMany(
+    {
+      status: "sending",
+      $or: [{ lockedAt: { $lt: cutoff } }, { lockedAt: { $exists: false } }],
+    },
+    {
+      $set: { status: "pending" },
+      $unset: { lockedBy: "", lockedAt: "" },
+    }
+  );
+  if (result.modifiedCount > 0) {
+    console.log(`Queue: released ${result.modifiedCount} stale jobs`);
+  }
+  return result.modifiedCount;
+}
+
+/**
+ * Claim the oldest pending job that is not waiting for a retry or its
+ * recipient's send time. The status change is a single atomic update, so
+ * two workers can never claim the same job.
+ * @returns {Promise<object|null>} Claimed job
+ */
+async function claimNextJob() {
+  const now = new Date();
+  return Queue.findOneAndUpdate(
+    {
+      status: "pending",
+      notBefore: { $not: { $gt: now } },
+      nextAttemptAt: { $not: { $gt: now } },
+    },
+    {
+      $set: {
+        status: "sending",
+        lockedBy: worker.id,
+        lockedAt: now,
+        lastAttemptAt: now,
+      },
+    },
+    { sort: { createdAt: 1 }, new: true }
+  );
+}
+
+/**
+ * Whether an admin paused the queue from the Queue Monitor
+ * @returns {Promise<boolean>}
+ */
+async function isQueuePaused() {
+  const config = await SystemConfig.findOne({ key: "queue_paused" }).lean();
+  return config?.value === "true";
+}
+
+/**
+ * Reload the rate limit and retry settings when the cached copy is old
+ */
+async function refreshSettings() {
+  if (worker.settings && Date.now() - worker.settingsLoadedAt < CACHE_TTL_MS) {
+    return;
+  }
+  worker.settings = await Settings.findOne({ isDefault: true }).lean();
+  const maxRetries = await SystemConfig.findOne({
+    key: "max_retry_attempts",
+  }).lean();
+  worker.maxRetries = maxRetries
+    ? Math.max(0, parseInt(maxRetries.value) || 0)
+    : DEFAULT_MAX_RETRIES;
+  worker.settingsLoadedAt = Date.now();
+}
+
+/**
+ * Emails per minute from the system settings
+ * @returns {Promise<number>}
+ */
+async function getRateLimit() {
+  await refreshSettings();
+  return Math.max(1, worker.settings?.emailRateLimit || DEFAULT_RATE_LIMIT);
+}
+
+/**
+ * Campaign with its template, cached while its jobs are being sent
+ * @param {string} campaignId
+ * @returns {Promise<object|null>}
+ */
+async function loadCampaign(campaignId) {
+  const key = String(campaignId);
+  const cached = worker.campaigns.get(key);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.campaign;
+  }
+
+  const campaign = await Campaign.findById(campaignId)
+    .populate("templateId")
+    .populate("senderIdentityId", "smtp")
+    .lean();
+  worker.campaigns.set(key, { campaign, loadedAt: Date.now() });
+  return campaign;
+}
+
+/**
+ * Update a claimed job, unless its lock expired and another worker has it
+ * @param {object} job - Claimed job
+ * @param {object} update - Update operators
+ * @returns {Promise<boolean>} Whether the job was updated
+ */
+async function releaseJob(job, update) {
+  const result = await Queue.updateOne(
+    { _id: job._id, lockedBy: worker.id },
+    {
+      ...update,
+      $unset: { ...update.$unset, lockedBy: "", lockedAt: "" },
+    }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Record a sent job on the job and on its campaign
+ * @param {object} job - Claimed job
+ * @param {string} messageId - Message-ID of the sent email
+ */
+async function completeJob(job, messageId) {
+  const released = await releaseJob(job, {
+    $set: { status: "sent", sentAt: new Date(), messageId, errorMessage: null },
+    $unset: { nextAttemptAt: "", errorClass: "", responseCode: "" },
+  });
+  if (!released) return;
+
+  // Accepted by the SMTP server counts as delivered until a bounce says
+  // otherwise
+  await Campaign.updateOne(
+    { _id: job.campaignId },
+    { $inc: { sentCount: 1, deliveredCount: 1 } }
+  );
+  await finishCampaignIfDone(job.campaignId);
+}
+
+/**
+ * Record a failed attempt. Transient and policy errors are retried after a
+ * backoff until the job runs out of retries; anything else fails the job.
+ * @param {object} job - Claimed job
+ * @param {Error} error - Send error
+ */
+async function failJob(job, error) {
+  const { errorClass, responseCode, suppress } = classifySendError(error);
+  const details = {
+    errorMessage: error.message,
+    errorClass,
+    responseCode,
+    maxRetries: worker.maxRetries,
+  };
+
+  if (isRetryable(errorClass) && job.retryCount < worker.maxRetries) {
+    const delay = getRetryDelay(errorClass, job.retryCount);
+    if (errorClass === "policy") {
+      worker.throttledUntil = Date.now() + delay;
+    }
+    await releaseJob(job, {
+      $set: {
+        ...details,
+        status: "pending",
+        nextAttemptAt: new Date(Date.now() + delay),
+      },
+      $inc: { retryCount: 1 },
+    });
+    return;
+  }
+
+  const released = await releaseJob(job, {
+    $set: { ...details, status: suppress ? "bounced" : "failed" },
+    $unset: { nextAttemptAt: "" },
+  });
+  if (!released) return;
+
+  if (suppress) await suppressAddress(job);
+  await Campaign.updateOne(
+    { _id: job.campaignId },
+    {
+      $inc: suppress
+        ? { failedCount: 1, bouncedCount: 1 }
+        : { failedCount: 1 },
+    }
+  );
+  await finishCampaignIfDone(job.campaignId);
+}
+
+/**
+ * Drop a job whose recipient should no longer get the campaign. Skipped
+ * jobs are neither sent nor failed, and are not retried.
+ * @param {object} job - Claimed job
+ * @param {string} reason - Why it was skipped
+ */
+async function skipJob(job, reason) {
+  const released = await releaseJob(job, {
+    $set: { status: "skipped", errorMessage: reason },
+    $unset: { nextAttemptAt: "", errorClass: "", responseCode: "" },
+  });
+  if (!released) return;
+
+  await Campaign.updateOne(
+    { _id: job.campaignId },
+    { $inc: { skippedCount: 1 } }
+  );
+  await finishCampaignIfDone(job.campaignId);
+}
+
+/**
+ * Stop sending to an address the receiving server says does not exist
+ * @param {object} job - Job that hard bounced
+ */
+async function suppressAddress(job) {
+  await Contact.updateOne(
+    { email: job.email },
+    { $set: { status: "bounced" } }
+  );
+  await suppress(job.email, {
+    reason: "bounced",
+    campaignId: job.campaignId,
+    contactId: job.contactId,
+  });
+}
+
+/**
+ * Mark a sending campaign as finished once none of its jobs are left.
+ * Campaigns whose jobs are still being created are skipped.
+ * @param {string} campaignId
+ */
+async function finishCampaignIfDone(campaignId) {
+  const remaining = await Queue.exists({
+    campaignId,
+    status: { $in: ["pending", "sending"] },
+  });
+  if (remaining) return;
+
+  const campaign = await Campaign.findOne({
+    _id: campaignId,
+    status: "sending",
+    queuedAt: { $not: { $type: "null" } },
+  });
+  if (!campaign) return;
+
+  // A campaign fails only when nothing could be delivered
+  campaign.status =
+    campaign.sentCount > 0 || campaign.failedCount === 0 ? "sent" : "failed";
+  await campaign.save();
+  worker.campaigns.delete(String(campaignId));
+  console.log(
+    `Campaign ${campaign.name} finished: ${campaign.sentCount} sent, ${campaign.failedCount} failed`
+  );
+}
+
+/**
+ * Send one claimed job
+ * @param {object} job - Claimed job
+ */
+async function processJob(job) {
+  const campaign = await loadCampaign(job.campaignId);
+  if (!campaign) {
+    await failJob(job, new Error("Campaign not found"));
+    return;
+  }
+
+  const contact = await Contact.findById(job.contactId).lean();
+  if (!contact || contact.status !== "active") {
+    await skipJob(job, "Contact is no longer active");
+    return;
+  }
+  // Suppressed after the campaign was queued
+  if ((await findSuppressed([contact.email])).size > 0) {
+    await skipJob(job, "Address is on the suppression list");
+    return;
+  }
+
+  try {
+    const template = campaign.templateId;
+    const result = await emailService.sendTemplateEmail({
+      templateId: template?._id || null,
+      customTemplate: template
+        ? null
+        : {
+            _id: "temp",
+            subject: campaign.subject,
+            content: campaign.htmlContent,
+            textContent: campaign.textContent,
+          },
+      to: contact.email,
+      variables: campaign.variables || {},
+      contact,
+      fromName: campaign.fromName,
+      fromEmail: campaign.fromEmail,
+      replyTo: campaign.replyToEmail,
+      smtp: campaign.senderIdentityId?.smtp,
+      userId: job.queuedBy,
+      campaignId: campaign._id,
+      textContent: campaign.textContent,
+      trackingId: job._id,
+    });
+    await completeJob(job, result.messageId);
+  } catch (error) {
+    await failJob(job, error);
+  }
+}
+
+/**
+ * Let the Queue Monitor know this worker is alive
+ */
+async function recordHeartbeat() {
+  if (Date.now() - worker.lastHeartbeatAt < HEARTBEAT_INTERVAL_MS) return;
+  worker.lastHeartbeatAt = Date.now();
+  await SystemConfig.findOneAndUpdate(
+    { key: HEARTBEAT_KEY },
+    {
+      key: HEARTBEAT_KEY,
+      value: new Date().toISOString(),
+      description: `Last seen queue worker ${worker.id}`,
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Worker loop: claim a job, send it and wait long enough to stay within
+ * the rate limit. The limit is also checked against the attempts of all
+ * workers in the last minute, so extra workers do not raise it.
+ */
+async function runWorker() {
+  while (worker.running) {
+    try {
+      if (mongoose.connection.readyState !== 1) {
+        await sleep(IDLE_POLL_MS);
+        continue;
+      }
+
+      await recordHeartbeat();
+      if (Date.now() - worker.lastRecoveryAt > LOCK_TIMEOUT_MS / 2) {
+        worker.lastRecoveryAt = Date.now();
+        await recoverStaleJobs();
+      }
+
+      if (await isQueuePaused()) {
+        await sleep(IDLE_POLL_MS);
+        continue;
+      }
+
+      // Back off after the provider rate limited us
+      if (Date.now() < worker.throttledUntil) {
+        await sleep(Math.min(IDLE_POLL_MS, worker.throttledUntil - Date.now()));
+        continue;
+      }
+
+      const rateLimit = await getRateLimit();
+      const interval = 60000 / rateLimit;
+      const attemptsLastMinute = await Queue.countDocuments({
+        lastAttemptAt: { $gte: new Date(Date.now() - 60000) },
+      });
+      if (attemptsLastMinute >= rateLimit) {
+        await sleep(interval);
+        continue;
+      }
+
+      const job = await claimNextJob();
+      if (!job) {
+        await sleep(IDLE_POLL_MS);
+        continue;
+      }
+
+      const startedAt = Date.now();
+      await processJob(job);
+      await sleep(Math.max(0, interval - (Date.now() - startedAt)));
+    } catch (error) {
+      console.error("Queue worker error:", error);
+      await sleep(IDLE_POLL_MS);
+    }
+  }
+}
+
+/**
+ * Start processing the queue in this process
+ */
+function startQueueWorker() {
+  if (worker.running) return;
+  worker.running = true;
+  worker.loop = runWorker();
+  console.log(`✓ Queue worker ${worker.id} started`);
+}
+
+/**
+ * Stop after the job in progress, if any, has been recorded
+ * @returns {Promise<void>}
+ */
+async function stopQueueWorker() {
+  if (!worker.running) return;
+  worker.running = false;
+  await worker.loop;
+  console.log(`Queue worker ${worker.id} stopped`);
+}
+
+/**
+ * Queue counts, send rate, progress of campaigns that are sending and
+ * whether a worker is running
+ * @returns {Promise<object>}
+ */
+async function getQueueStats() {
+  const counts = await Queue.aggregate([
+    {
+      $group: {
+        _id: "$status",
+        count: { $sum: 1 },
+        retrying: { $sum: { $cond: [{ $gt: ["$retryCount", 0] }, 1, 0] } },
+      },
+    },
+  ]);
+  const byStatus = Object.fromEntries(counts.map((row) => [row._id, row]));
+
+  const stats = {
+    queued: byStatus.pending?.count || 0,
+    sending: byStatus.sending?.count || 0,
+    sent: byStatus.sent?.count || 0,
+    failed: byStatus.failed?.count || 0,
+    skipped: byStatus.skipped?.count || 0,
+    retrying: byStatus.pending?.retrying || 0,
+    total: counts.reduce((total, row) => total + row.count, 0),
+  };
+
+  // Emails sent per minute, averaged over the last five minutes
+  const sentRecently = await Queue.countDocuments({
+    status: "sent",
+    sentAt: { $gte: new Date(Date.now() - 5 * 60000) },
+  });
+
+  const campaigns = await Campaign.find({ status: "sending" })
+    .select(
+      "name subject totalRecipients sentCount failedCount skippedCount sentAt"
+    )
+    .sort({ sentAt: 1 })
+    .lean();
+
+  const heartbeat = await SystemConfig.findOne({ key: HEARTBEAT_KEY }).lean();
+  const lastSeenAt = heartbeat ? new Date(heartbeat.value) : null;
+
+  return {
+    stats,
+    processingRate: Math.round(sentRecently / 5),
+    campaigns,
+    worker: {
+      lastSeenAt,
+      online:
+        !!lastSeenAt &&
+        Date.now() - lastSeenAt.getTime() < WORKER_OFFLINE_AFTER_MS,
+    },
+  };
+}
+
+module.exports = {
+  enqueueCampaign,
+  hasSendableRecipients,
+  requeueJobs,
+  recoverStaleJobs,
+  startQueueWorker,
+  stopQueueWorker,
+  getQueueStats,
+};
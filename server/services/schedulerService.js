@@ -0,0 +1,229 @@
+/**
+ * Scheduler Service for CSE Mail Platform
+ * Finds scheduled campaigns that are due, and campaigns sent from the app,
+ * and queues them for sending.
+ * Schedules are stored on the campaign, so nothing is lost when the server
+ * restarts: campaigns that came due while it was down are sent on the first
+ * tick. Any number of processes can run the scheduler, since a campaign is
+ * claimed with an atomic status change before it is queued.
+ */
+const mongoose = require("mongoose");
+const Campaign = require("../models/Campaign");
+const Settings = require("../models/Settings");
+const AuditLog = require("../models/AuditLog");
+const { enqueueCampaign } = require("./queueService");
+const { findApprovedIdentity } = require("./senderIdentityService");
+const { resolveTimeZone } = require("./timezoneService");
+
+const TICK_INTERVAL_MS = 30 * 1000;
+// A campaign still without queuedAt this long after queueing started was
+// interrupted while its jobs were created, and is queued again
+const STALLED_QUEUEING_MS = 10 * 60 * 1000;
+
+const scheduler = {
+  timer: null,
+  ticking: false,
+};
+
+/**
+ * Timezone that schedule times without a UTC offset are read in
+ * @returns {Promise<string>} IANA timezone from Settings.timezone
+ */
+async function getScheduleTimeZone() {
+  const settings = await Settings.findOne({ isDefault: true })
+    .select("timezone")
+    .lean();
+  return resolveTimeZone(settings?.timezone);
+}
+
+/**
+ * Queue a claimed campaign
+ * @param {object} campaign - Campaign in "sending" status
+ * @param {string} userId - User the campaign is sent for
+ * @returns {Promise<object>} { totalRecipients, queued, suppressed }
+ */
+async function queueCampaign(campaign, userId) {
+  const result = await enqueueCampaign(campaign, userId);
+  const { totalRecipients, queued, suppressed } = result;
+  console.log(
+    `Campaign ${campaign.name} queued: ${queued} new jobs, ${totalRecipients} recipients, ${suppressed} suppressed`
+  );
+  return result;
+}
+
+/**
+ * Queue a scheduled campaign and log who it was sent for
+ * @param {object} campaign - Campaign in "sending" status
+ */
+async function queueScheduledCampaign(campaign) {
+  const userId = campaign.scheduledBy || campaign.createdBy;
+  const { totalRecipients, suppressed } = await queueCampaign(
+    campaign,
+    userId
+  );
+
+  await AuditLog.create({
+    userId,
+    action: "campaign_sent",
+    targetType: "campaign",
+    targetId: campaign._id,
+    details: {
+      scheduledAt: campaign.scheduledAt,
+      recipientCount: totalRecipients,
+      suppressedCount: suppressed,
+      dispatchedBy: "scheduler",
+    },
+  });
+}
+
+/**
+ * Return a due campaign to draft because its sender identity is no longer
+ * approved, and log why it was not sent
+ * @param {string} campaignId - Due campaign
+ */
+async function holdUnapprovedCampaign(campaignId) {
+  const held = await Campaign.findOneAndUpdate(
+    { _id: campaignId, status: "scheduled" },
+    {
+      $set: { status: "draft" },
+      $unset: { scheduledAt: "", scheduledBy: "", scheduledTimezone: "" },
+    }
+  );
+  if (!held) return;
+
+  await AuditLog.create({
+    userId: held.scheduledBy || held.createdBy,
+    action: "campaign_schedule_cancelled",
+    targetType: "campaign",
+    targetId: held._id,
+    details: {
+      name: held.name,
+      reason: "Sender identity is not approved",
+      dispatchedBy: "scheduler",
+    },
+  });
+  console.warn(
+    `Scheduled campaign ${held.name} returned to draft: its sender identity is not approved`
+  );
+}
+
+/**
+ * Queue every scheduled campaign that is due and every campaign sent from
+ * the app, and finish queueing campaigns that were interrupted
+ * @param {Date} now - Current time
+ * @returns {Promise<number>} Number of campaigns queued
+ */
+async function dispatchDueCampaigns(now = new Date()) {
+  const due = await Campaign.find({
+    status: "scheduled",
+    scheduledAt: { $lte: now },
+  })
+    .select("_id senderIdentityId")
+    .sort({ scheduledAt: 1 })
+    .lean();
+
+  let dispatched = 0;
+  for (const { _id, senderIdentityId } of due) {
+    if (!(await findApprovedIdentity(senderIdentityId))) {
+      await holdUnapprovedCampaign(_id);
+      continue;
+    }
+
+    // Cancelled, rescheduled or already claimed campaigns no longer match
+    const campaign = await Campaign.findOneAndUpdate(
+      { _id, status: "scheduled", scheduledAt: { $lte: now } },
+      {
+        $set: {
+          status: "sending",
+          sentAt: new Date(),
+          queuedAt: null,
+          queueingAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!campaign) continue;
+
+    try {
+      await queueScheduledCampaign(campaign);
+      dispatched++;
+    } catch (error) {
+      // Retried as a stalled campaign on a later tick
+      console.error(`Failed to queue campaign ${campaign.name}:`, error);
+    }
+  }
+
+  // Campaigns sent from the app wait here with queueingAt null, and
+  // interrupted ones are retried once STALLED_QUEUEING_MS has passed
+  const waiting = {
+    status: "sending",
+    queuedAt: { $type: "null" },
+    $or: [
+      { queueingAt: null },
+      { queueingAt: { $lt: new Date(now.getTime() - STALLED_QUEUEING_MS) } },
+    ],
+  };
+  const pending = await Campaign.find(waiting).select("_id").lean();
+  for (const { _id } of pending) {
+    // Claimed, so another scheduler process leaves it alone
+    const campaign = await Campaign.findOneAndUpdate(
+      { _id, ...waiting },
+      { $set: { queueingAt: new Date() } },
+      { new: true }
+    );
+    if (!campaign) continue;
+
+    try {
+      await queueCampaign(
+        campaign,
+        campaign.sentBy || campaign.scheduledBy || campaign.createdBy
+      );
+    } catch (error) {
+      console.error(`Failed to queue campaign ${campaign.name}:`, error);
+    }
+  }
+
+  return dispatched;
+}
+
+/**
+ * One scheduler run. Skipped while the previous run is still going, so
+ * slow runs never overlap.
+ */
+async function tick() {
+  if (scheduler.ticking || mongoose.connection.readyState !== 1) return;
+  scheduler.ticking = true;
+  try {
+    await dispatchDueCampaigns();
+  } catch (error) {
+    console.error("Campaign scheduler error:", error);
+  } finally {
+    scheduler.ticking = false;
+  }
+}
+
+/**
+ * Check for due campaigns now and every TICK_INTERVAL_MS
+ */
+function startScheduler() {
+  if (scheduler.timer) return;
+  scheduler.timer = setInterval(tick, TICK_INTERVAL_MS);
+  tick();
+  console.log("✓ Campaign scheduler started");
+}
+
+/**
+ * Stop checking for due campaigns
+ */
+function stopScheduler() {
+  if (!scheduler.timer) return;
+  clearInterval(scheduler.timer);
+  scheduler.timer = null;
+}
+
+module.exports = {
+  getScheduleTimeZone,
+  dispatchDueCampaigns,
+  startScheduler,
+  stopScheduler,
+};
@@ -0,0 +1,588 @@
+/**
+ * Segment Service for CSE Mail Platform
+ * Turns segment rules into contact queries. Rules are nested groups:
+ *   { type: "group", combinator: "and" | "or", rules: [...] }
+ * whose rules are groups or conditions:
+ *   { type: "rule", field, operator, value, key, campaignId, days }
+ * Conditions cover contact fields, custom fields (key), tags, status, list
+ * membership, creation date and engagement: whether the contact opened or
+ * clicked a campaign (campaignId, or any) in the last days (or ever). A
+ * click counts as an open, as it does in the campaign's open count.
+ * Custom fields take the operators of their definition's type; fields
+ * without a definition are compared as text.
+ */
+const mongoose = require("mongoose");
+const Contact = require("../models/Contact");
+const EmailEvent = require("../models/EmailEvent");
+const Segment = require("../models/Segment");
+const SystemConfig = require("../models/SystemConfig");
+const { getCustomFieldDefinitions } = require("./customFieldService");
+
+const MAX_DEPTH = 4;
+const MAX_RULES = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BACKFILL_BATCH_SIZE = 500;
+const ENGAGEMENT_BACKFILL_KEY = "segment_engagement_backfilled";
+
+const TEXT_OPERATORS = [
+  "equals",
+  "not_equals",
+  "contains",
+  "not_contains",
+  "starts_with",
+  "ends_with",
+  "is_empty",
+  "is_not_empty",
+];
+
+// Operators per field, and the contact path of the plain fields
+const SEGMENT_FIELDS = {
+  email: { path: "email", operators: TEXT_OPERATORS },
+  firstName: { path: "firstName", operators: TEXT_OPERATORS },
+  lastName: { path: "lastName", operators: TEXT_OPERATORS },
+  phone: { path: "phone", operators: TEXT_OPERATORS },
+  customField: { operators: TEXT_OPERATORS },
+  status: { path: "status", operators: ["is", "is_not"] },
+  tags: { path: "tags", operators: ["has", "has_not"] },
+  list: { path: "lists", operators: ["in", "not_in"] },
+  createdAt: {
+    path: "createdAt",
+    operators: ["before", "after", "in_last_days", "not_in_last_days"],
+  },
+  opened: { operators: ["did", "did_not"] },
+  clicked: { operators: ["did", "did_not"] },
+};
+
+const EMPTY_OPERATORS = ["is_empty", "is_not_empty"];
+
+// Operators of custom fields, per type of their definition
+const CUSTOM_FIELD_OPERATORS = {
+  text: TEXT_OPERATORS,
+  number: [
+    "equals",
+    "not_equals",
+    "greater_than",
+    "less_than",
+    ...EMPTY_OPERATORS,
+  ],
+  date: [
+    "before",
+    "after",
+    "in_last_days",
+    "not_in_last_days",
+    ...EMPTY_OPERATORS,
+  ],
+  boolean: ["is_true", "is_false"],
+  select: ["is", "is_not", ...EMPTY_OPERATORS],
+  multiselect: ["has", "has_not", ...EMPTY_OPERATORS],
+};
+
+// Operators that take no value
+const VALUELESS_OPERATORS = [
+  ...EMPTY_OPERATORS,
+  "did",
+  "did_not",
+  "is_true",
+  "is_false",
+];
+
+const CONTACT_STATUSES = [
+  "active",
+  "inactive",
+  "bounced",
+  "unsubscribed",
+  "complained",
+];
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const isPositiveNumber = (value) =>
+  Number.isFinite(Number(value)) && Number(value) > 0;
+
+// Option of a choice field matching a value, whatever its case
+const findOption = (definition, value) =>
+  definition.options.find(
+    (option) => option.toLowerCase() === String(value).trim().toLowerCase()
+  );
+
+/**
+ * Check the value of a custom field condition against its definition
+ * @param {object} rule - Condition
+ * @param {object} definition - Field definition
+ * @returns {string|null} What is wrong with it
+ */
+function validateCustomFieldValue(rule, definition) {
+  if (VALUELESS_OPERATORS.includes(rule.operator)) return null;
+  switch (definition.type) {
+    case "number":
+      if (!Number.isFinite(Number(rule.value))) {
+        return `${definition.label} must be compared with a number`;
+      }
+      break;
+    case "date":
+      if (rule.operator.endsWith("_days")) {
+        if (!isPositiveNumber(rule.value)) return "Days must be a number";
+      } else if (Number.isNaN(new Date(rule.value).getTime())) {
+        return "Invalid date";
+      }
+      break;
+    case "select":
+    case "multiselect":
+      if (!findOption(definition, rule.value)) {
+        return `"${rule.value}" is not an option of ${definition.label}`;
+      }
+      break;
+  }
+  return null;
+}
+
+/**
+ * Check one condition
+ * @param {object} rule - Condition
+ * @param {Map} fields - Custom field definitions by key
+ * @returns {string|null} What is wrong with it
+ */
+function validateCondition(rule, fields) {
+  const field = SEGMENT_FIELDS[rule.field];
+  if (!field) return `Unknown field "${rule.field}"`;
+  if (rule.field === "customField" && !/^[\w-]+$/.test(rule.key || "")) {
+    return "Custom field conditions need a field name";
+  }
+  const definition =
+    rule.field === "customField" ? fields.get(rule.key) : undefined;
+  const operators = definition
+    ? CUSTOM_FIELD_OPERATORS[definition.type]
+    : field.operators;
+  if (!operators.includes(rule.operator)) {
+    const name = definition ? definition.label : rule.field;
+    return `Operator "${rule.operator}" cannot be used with ${name}`;
+  }
+
+  const needsValue = !VALUELESS_OPERATORS.includes(rule.operator);
+  if (needsValue && (rule.value === undefined || rule.value === "")) {
+    return `A value is required for ${rule.field}`;
+  }
+
+  switch (rule.field) {
+    case "customField":
+      if (definition) return validateCustomFieldValue(rule, definition);
+      break;
+    case "status":
+      if (!CONTACT_STATUSES.includes(rule.value)) {
+        return `Unknown status "${rule.value}"`;
+      }
+      break;
+    case "list":
+      if (!mongoose.isObjectIdOrHexString(rule.value)) {
+        return "Choose a list";
+      }
+      break;
+    case "createdAt":
+      if (rule.operator.endsWith("_days")) {
+        if (!isPositiveNumber(rule.value)) return "Days must be a number";
+      } else if (Number.isNaN(new Date(rule.value).getTime())) {
+        return "Invalid date";
+      }
+      break;
+    case "opened":
+    case "clicked":
+      if (rule.campaignId && !mongoose.isObjectIdOrHexString(rule.campaignId)) {
+        return "Invalid campaign";
+      }
+      if (rule.days && !isPositiveNumber(rule.days)) {
+        return "Days must be a number";
+      }
+      break;
+  }
+  return null;
+}
+
+/**
+ * Check segment rules before they are saved or counted
+ * @param {object} group - Root rule group
+ * @param {object[]} definitions - Custom field definitions
+ * @returns {string|null} What is wrong with them
+ */
+function validateRules(group, definitions = []) {
+  const fields = new Map(
+    definitions.map((definition) => [definition.key, definition])
+  );
+  let count = 0;
+
+  const visit = (node, depth) => {
+    if (node?.type !== "group") return "The rules must start with a group";
+    if (depth > MAX_DEPTH) {
+      return `Groups can be nested at most ${MAX_DEPTH} levels deep`;
+    }
+    if (!["and", "or"].includes(node.combinator)) {
+      return "Groups must match all (and) or any (or) of their rules";
+    }
+    if (!Array.isArray(node.rules) || node.rules.length === 0) {
+      return "Groups need at least one rule";
+    }
+
+    for (const rule of node.rules) {
+      const error =
+        rule?.type === "group"
+          ? visit(rule, depth + 1)
+          : (count += 1) > MAX_RULES
+          ? `Segments can have at most ${MAX_RULES} rules`
+          : validateCondition(rule, fields);
+      if (error) return error;
+    }
+    return null;
+  };
+
+  return visit(group, 1);
+}
+
+/**
+ * Query for a text condition on a contact path
+ * @param {string} path - Contact field path
+ * @param {object} rule - Condition
+ * @returns {object} Query
+ */
+function textQuery(path, { operator, value }) {
+  const text = escapeRegex(String(value ?? ""));
+  switch (operator) {
+    case "equals":
+      return { [path]: new RegExp(`^${text}$`, "i") };
+    case "not_equals":
+      return { [path]: { $not: new RegExp(`^${text}$`, "i") } };
+    case "contains":
+      return { [path]: new RegExp(text, "i") };
+    case "not_contains":
+      return { [path]: { $not: new RegExp(text, "i") } };
+    case "starts_with":
+      return { [path]: new RegExp(`^${text}`, "i") };
+    case "ends_with":
+      return { [path]: new RegExp(`${text}$`, "i") };
+    case "is_empty":
+      return { [path]: { $in: [null, ""] } };
+    default:
+      return { [path]: { $nin: [null, ""] } };
+  }
+}
+
+/**
+ * Query for a condition on a defined custom field
+ * @param {object} rule - Condition
+ * @param {object} definition - Field definition
+ * @param {Date} now - Time the last days are counted back from
+ * @returns {object} Query
+ */
+function customFieldQuery(rule, definition, now) {
+  const path = `customFields.${rule.key}`;
+  const { operator } = rule;
+  if (operator === "is_empty") return { [path]: { $in: [null, "", []] } };
+  if (operator === "is_not_empty") {
+    return { [path]: { $nin: [null, "", []] } };
+  }
+
+  switch (definition.type) {
+    case "number": {
+      const value = Number(rule.value);
+      const conditions = {
+        equals: value,
+        not_equals: { $ne: value },
+        greater_than: { $gt: value },
+        less_than: { $lt: value },
+      };
+      return { [path]: conditions[operator] };
+    }
+    case "date": {
+      if (operator.endsWith("_days")) {
+        const since = new Date(now - Number(rule.value) * DAY_MS);
+        return {
+          [path]:
+            operator === "in_last_days"
+              ? { $gte: since, $lte: now }
+              : { $lt: since },
+        };
+      }
+      return {
+        [path]: {
+          [operator === "before" ? "$lt" : "$gte"]: new Date(rule.value),
+        },
+      };
+    }
+    case "boolean":
+      return { [path]: operator === "is_true" ? true : { $ne: true } };
+    case "select":
+    case "multiselect": {
+      const option = findOption(definition, rule.value);
+      return {
+        [path]: ["is", "has"].includes(operator) ? option : { $ne: option },
+      };
+    }
+    default:
+      return textQuery(path, rule);
+  }
+}
+
+/**
+ * Query for an engagement condition: contacts with (or without) an open or
+ * click, read from the latest engagement per campaign kept on the contact
+ * @param {object} rule - Condition
+ * @param {Date} now - Time the last days are counted back from
+ * @returns {object} Query
+ */
+function engagementQuery(rule, now) {
+  const field = rule.field === "opened" ? "lastOpenedAt" : "lastClickedAt";
+  const engaged = {
+    [field]: rule.days
+      ? { $gte: new Date(now - Number(rule.days) * DAY_MS) }
+      : { $exists: true },
+  };
+  if (rule.campaignId) {
+    engaged.campaignId = new mongoose.Types.ObjectId(String(rule.campaignId));
+  }
+  return {
+    "engagement.campaigns":
+      rule.operator === "did"
+        ? { $elemMatch: engaged }
+        : { $not: { $elemMatch: engaged } },
+  };
+}
+
+/**
+ * Updates that keep a contact's latest engagement on a campaign: the first
+ * moves the dates of an existing entry forward, the second adds the entry
+ * when there is none
+ * @param {string} contactId - Contact that opened or clicked
+ * @param {string} campaignId - Campaign the email belongs to
+ * @param {object} dates - { lastOpenedAt, lastClickedAt }
+ * @returns {object[]} [{ filter, update }, { filter, update }]
+ */
+function engagementUpdates(contactId, campaignId, dates) {
+  const latest = Object.fromEntries(
+    Object.entries(dates).map(([key, date]) => [
+      `engagement.campaigns.$.${key}`,
+      date,
+    ])
+  );
+  return [
+    {
+      filter: { _id: contactId, "engagement.campaigns.campaignId": campaignId },
+      update: { $max: latest },
+    },
+    {
+      filter: {
+        _id: contactId,
+        "engagement.campaigns.campaignId": { $ne: campaignId },
+      },
+      update: { $push: { "engagement.campaigns": { campaignId, ...dates } } },
+    },
+  ];
+}
+
+/**
+ * Record an open or click in the contact's latest engagement per campaign
+ * @param {string} contactId - Contact that opened or clicked
+ * @param {string} campaignId - Campaign the email belongs to
+ * @param {object} dates - { lastOpenedAt, lastClickedAt }
+ */
+async function recordCampaignEngagement(contactId, campaignId, dates) {
+  const [existing, added] = engagementUpdates(contactId, campaignId, dates);
+  // A second try covers another event adding the campaign in between
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const updated = await Contact.updateOne(existing.filter, existing.update);
+    if (updated.matchedCount > 0) return;
+    const pushed = await Contact.updateOne(added.filter, added.update);
+    if (pushed.matchedCount > 0) return;
+  }
+}
+
+/**
+ * Fill in the latest engagement per campaign of each contact from the
+ * tracked events. Runs once: the tracking service keeps it up to date
+ * afterwards.
+ * @returns {Promise<number>} Contact and campaign pairs filled in
+ */
+async function backfillCampaignEngagement() {
+  const done = await SystemConfig.findOne({
+    key: ENGAGEMENT_BACKFILL_KEY,
+  }).lean();
+  if (done) return 0;
+
+  const cursor = EmailEvent.aggregate([
+    { $match: { contactId: { $ne: null } } },
+    {
+      $group: {
+        _id: { contactId: "$contactId", campaignId: "$campaignId" },
+        lastOpenedAt: { $max: "$createdAt" },
+        lastClickedAt: {
+          $max: {
+            $cond: [{ $eq: ["$type", "clicked"] }, "$createdAt", null],
+          },
+        },
+      },
+    },
+  ])
+    .allowDiskUse(true)
+    .cursor({ batchSize: BACKFILL_BATCH_SIZE });
+
+  let count = 0;
+  let operations = [];
+  const flush = async () => {
+    if (operations.length === 0) return;
+    await Contact.bulkWrite(operations);
+    operations = [];
+  };
+  for await (const { _id, lastOpenedAt, lastClickedAt } of cursor) {
+    const dates = { lastOpenedAt };
+    if (lastClickedAt) dates.lastClickedAt = lastClickedAt;
+    // Bulk writes run in order, so the push only adds missing entries
+    for (const updateOne of engagementUpdates(
+      _id.contactId,
+      _id.campaignId,
+      dates
+    )) {
+      operations.push({ updateOne });
+    }
+    count++;
+    if (operations.length >= BACKFILL_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  await SystemConfig.findOneAndUpdate(
+    { key: ENGAGEMENT_BACKFILL_KEY },
+    {
+      key: ENGAGEMENT_BACKFILL_KEY,
+      value: new Date().toISOString(),
+      description: "Segment engagement filled in from tracked events",
+    },
+    { upsert: true }
+  );
+  return count;
+}
+
+/**
+ * Query for one condition
+ * @param {object} rule - Condition
+ * @param {object} context - { now, fields }: current time and custom field
+ *   definitions by key
+ * @returns {Promise<object>} Query
+ */
+async function conditionQuery(rule, { now, fields }) {
+  const field = SEGMENT_FIELDS[rule.field];
+  switch (rule.field) {
+    case "customField": {
+      const definition = fields.get(rule.key);
+      return definition
+        ? customFieldQuery(rule, definition, now)
+        : textQuery(`customFields.${rule.key}`, rule);
+    }
+    case "status":
+    case "tags":
+      return {
+        [field.path]: ["is", "has"].includes(rule.operator)
+          ? rule.value
+          : { $ne: rule.value },
+      };
+    case "list": {
+      const listId = new mongoose.Types.ObjectId(String(rule.value));
+      return {
+        lists: rule.operator === "in" ? listId : { $ne: listId },
+      };
+    }
+    case "createdAt":
+      if (rule.operator.endsWith("_days")) {
+        const since = new Date(now - Number(rule.value) * DAY_MS);
+        return {
+          createdAt:
+            rule.operator === "in_last_days" ? { $gte: since } : { $lt: since },
+        };
+      }
+      return {
+        createdAt: {
+          [rule.operator === "before" ? "$lt" : "$gte"]: new Date(rule.value),
+        },
+      };
+    case "opened":
+    case "clicked":
+      return engagementQuery(rule, now);
+    default:
+      return textQuery(field.path, rule);
+  }
+}
+
+// Query for a rule group
+async function groupQuery(group, context) {
+  const queries = [];
+  for (const rule of group.rules) {
+    queries.push(
+      rule.type === "group"
+        ? await groupQuery(rule, context)
+        : await conditionQuery(rule, context)
+    );
+  }
+  return { [group.combinator === "or" ? "$or" : "$and"]: queries };
+}
+
+/**
+ * Contact query for segment rules. Engagement conditions are looked up
+ * when the query is built, so build it right before it is used.
+ * @param {object} group - Root rule group, already validated
+ * @param {Date} now - Current time
+ * @returns {Promise<object>} Contact query
+ */
+async function buildSegmentQuery(group, now = new Date()) {
+  const definitions = await getCustomFieldDefinitions();
+  const fields = new Map(
+    definitions.map((definition) => [definition.key, definition])
+  );
+  return groupQuery(group, { now, fields });
+}
+
+/**
+ * Number of contacts matching segment rules
+ * @param {object} group - Root rule group, already validated
+ * @returns {Promise<object>} { total, active }
+ */
+async function countSegment(group) {
+  const query = await buildSegmentQuery(group);
+  const [total, active] = await Promise.all([
+    Contact.countDocuments(query),
+    Contact.countDocuments({ $and: [query, { status: "active" }] }),
+  ]);
+  return { total, active };
+}
+
+/**
+ * Query for the contacts a campaign is sent to: active contacts in any of
+ * its lists or matching any of its segments
+ * @param {object} campaign - { lists, segments } with ids
+ * @returns {Promise<object>} Contact query
+ */
+async function buildRecipientQuery({ lists = [], segments = [] }) {
+  const sources = [];
+  if (lists.length > 0) sources.push({ lists: { $in: lists } });
+
+  if (segments.length > 0) {
+    const now = new Date();
+    const saved = await Segment.find({ _id: { $in: segments } })
+      .select("rules")
+      .lean();
+    for (const segment of saved) {
+      sources.push(await buildSegmentQuery(segment.rules, now));
+    }
+  }
+
+  // No lists or segments left matches nobody
+  return {
+    status: "active",
+    $or: sources.length > 0 ? sources : [{ _id: null }],
+  };
+}
+
+module.exports = {
+  SEGMENT_FIELDS,
+  CUSTOM_FIELD_OPERATORS,
+  validateRules,
+  buildSegmentQuery,
+  countSegment,
+  buildRecipientQuery,
+  recordCampaignEngagement,
+  backfillCampaignEngagement,
+};
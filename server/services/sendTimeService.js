@@ -0,0 +1,142 @@
+/**
+ * Send Time Service for CSE Mail Platform
+ * Send-time optimization: campaigns in "optimized" delivery mode give each
+ * recipient's queue job a notBefore time, so the email arrives at the hour
+ * the contact usually opens mail. Open history is kept per contact as a
+ * count of tracked opens per UTC hour (Contact.engagement). Contacts with
+ * too little history get the start of the delivery window in their own
+ * timezone, their list's default timezone or the organization's.
+ */
+const Contact = require("../models/Contact");
+const {
+  getZonedParts,
+  getTimeZoneOffset,
+  zonedTimeToUtc,
+} = require("./timezoneService");
+
+// Opens needed before a contact's history decides the send hour
+const MIN_OPENS_FOR_HISTORY = 3;
+const HOUR_MS = 60 * 60 * 1000;
+
+const DEFAULT_DELIVERY_WINDOW = { startHour: 9, endHour: 17 };
+
+/**
+ * Record a tracked open in the contact's engagement stats
+ * @param {string} contactId - Contact that opened the email
+ * @param {Date} openedAt - When the open was tracked
+ */
+async function recordOpen(contactId, openedAt = new Date()) {
+  await Contact.updateOne(
+    { _id: contactId },
+    {
+      $inc: {
+        "engagement.openCount": 1,
+        [`engagement.openHours.${openedAt.getUTCHours()}`]: 1,
+      },
+      $max: { "engagement.lastOpenedAt": openedAt },
+    }
+  );
+}
+
+/**
+ * Check a delivery window from a request
+ * @param {object} window - { startHour, endHour } in local hours, end
+ *   exclusive
+ * @returns {object} { deliveryWindow } or { error }
+ */
+function parseDeliveryWindow(window = {}) {
+  const startHour = Number(
+    window.startHour ?? DEFAULT_DELIVERY_WINDOW.startHour
+  );
+  const endHour = Number(window.endHour ?? DEFAULT_DELIVERY_WINDOW.endHour);
+
+  if (
+    !Number.isInteger(startHour) ||
+    !Number.isInteger(endHour) ||
+    startHour < 0 ||
+    endHour > 24 ||
+    startHour >= endHour
+  ) {
+    return {
+      error:
+        "Delivery window must be whole hours from 0 to 24, start before end",
+    };
+  }
+  return { deliveryWindow: { startHour, endHour } };
+}
+
+/**
+ * The local hour inside the window that the contact opens most at, or the
+ * start of the window when there is not enough history
+ * @param {object} engagement - Contact.engagement
+ * @param {string} timeZone - Contact's timezone
+ * @param {object} window - { startHour, endHour }
+ * @param {Date} now - Current time, for the timezone's offset
+ * @returns {number} Local hour (0-23)
+ */
+function getPreferredHour(engagement, timeZone, window, now) {
+  const openHours = engagement?.openHours || {};
+  if ((engagement?.openCount || 0) < MIN_OPENS_FOR_HISTORY) {
+    return window.startHour;
+  }
+
+  const offsetMinutes = Math.round(getTimeZoneOffset(now, timeZone) / 60000);
+  const opensAt = (utcHour) => Number(openHours[(utcHour + 24) % 24] || 0);
+
+  let bestHour = window.startHour;
+  let bestOpens = 0;
+  for (let hour = window.startHour; hour < window.endHour; hour++) {
+    // In timezones offset by part of an hour (e.g. +05:30) a local hour
+    // overlaps two UTC hours; each counts for its share of the hour
+    const utcStart = (((hour * 60 - offsetMinutes) % 1440) + 1440) % 1440;
+    const utcHour = Math.floor(utcStart / 60);
+    const share = 1 - (utcStart % 60) / 60;
+    const opens =
+      opensAt(utcHour) * share + opensAt(utcHour + 1) * (1 - share);
+    if (opens > bestOpens) {
+      bestHour = hour;
+      bestOpens = opens;
+    }
+  }
+  return bestHour;
+}
+
+/**
+ * When a recipient's email should go out: the next time it is the
+ * preferred hour in their timezone, or now while that hour is running
+ * @param {object} options - { engagement, timeZone, deliveryWindow, now }
+ * @returns {Date}
+ */
+function planSendTime({ engagement, timeZone, deliveryWindow, now }) {
+  const window = deliveryWindow || DEFAULT_DELIVERY_WINDOW;
+  const hour = getPreferredHour(engagement, timeZone, window, now);
+  const today = getZonedParts(now, timeZone);
+
+  const start = zonedTimeToUtc(
+    { year: today.year, month: today.month, day: today.day, hour },
+    timeZone
+  );
+  if (now < start) return start;
+  if (now.getTime() < start.getTime() + HOUR_MS) return now;
+
+  // The hour has passed today. Date.UTC rolls over month and year ends.
+  const tomorrow = new Date(
+    Date.UTC(today.year, today.month - 1, today.day + 1)
+  );
+  return zonedTimeToUtc(
+    {
+      year: tomorrow.getUTCFullYear(),
+      month: tomorrow.getUTCMonth() + 1,
+      day: tomorrow.getUTCDate(),
+      hour,
+    },
+    timeZone
+  );
+}
+
+module.exports = {
+  DEFAULT_DELIVERY_WINDOW,
+  recordOpen,
+  parseDeliveryWindow,
+  planSendTime,
+};
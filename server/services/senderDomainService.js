@@ -0,0 +1,251 @@
+/**
+ * Sender Domain Service for CSE Mail Platform
+ * Checks the SPF, DKIM and DMARC records of the domains campaigns are sent
+ * from. The records are looked up by this server, through the resolver set
+ * with setResolver: the system DNS resolver by default (or the servers in
+ * DNS_SERVERS), or a fixed set of records from createStaticResolver so
+ * checks can run offline.
+ */
+const dns = require("dns");
+const SenderDomain = require("../models/SenderDomain");
+
+/**
+ * System resolver, or one asking the comma-separated DNS_SERVERS
+ * @returns {object} Resolver with resolveTxt(name)
+ */
+function createDnsResolver() {
+  const resolver = new dns.promises.Resolver({ timeout: 5000, tries: 2 });
+  if (process.env.DNS_SERVERS) {
+    resolver.setServers(
+      process.env.DNS_SERVERS.split(",").map((server) => server.trim())
+    );
+  }
+  return resolver;
+}
+
+/**
+ * Resolver answering from a fixed set of TXT records
+ * @param {object} records - TXT record strings by name, e.g.
+ *   { "_dmarc.example.com": ["v=DMARC1; p=reject"] }
+ * @returns {object} Resolver with resolveTxt(name)
+ */
+function createStaticResolver(records) {
+  return {
+    async resolveTxt(name) {
+      const values = records[name.toLowerCase()];
+      if (!values) {
+        const error = new Error(`queryTxt ENOTFOUND ${name}`);
+        error.code = dns.NOTFOUND;
+        throw error;
+      }
+      return values.map((value) => [value]);
+    },
+  };
+}
+
+let resolver = createDnsResolver();
+
+/**
+ * Use another resolver for the record checks
+ * @param {object} nextResolver - Object with resolveTxt(name) returning
+ *   string[][] like dns.promises.resolveTxt
+ * @returns {object} The resolver that was in use
+ */
+function setResolver(nextResolver) {
+  const previous = resolver;
+  resolver = nextResolver;
+  return previous;
+}
+
+// Names without TXT records, as opposed to lookups that failed
+const NO_RECORD_CODES = [dns.NOTFOUND, dns.NODATA];
+
+/**
+ * TXT records at a name, with their chunks joined
+ * @param {string} name - DNS name
+ * @returns {Promise<string[]>} Empty when there are none
+ */
+async function lookupTxt(name) {
+  try {
+    const records = await resolver.resolveTxt(name);
+    return records.map((chunks) => chunks.join(""));
+  } catch (error) {
+    if (NO_RECORD_CODES.includes(error.code)) return [];
+    throw error;
+  }
+}
+
+// "v=DMARC1; p=reject; rua=..." to { v: "DMARC1", p: "reject", rua: ... }
+const parseTags = (record) =>
+  Object.fromEntries(
+    record
+      .split(";")
+      .map((tag) => tag.trim())
+      .filter(Boolean)
+      .map((tag) => {
+        const separator = tag.indexOf("=");
+        return separator === -1
+          ? [tag.toLowerCase(), ""]
+          : [
+              tag.slice(0, separator).trim().toLowerCase(),
+              tag.slice(separator + 1).trim(),
+            ];
+      })
+  );
+
+/**
+ * Run a record check, turning lookup failures into an "error" result
+ * @param {Function} check - Async check returning { status, record, message }
+ * @returns {Promise<object>} { status, record, message }
+ */
+async function runCheck(check) {
+  try {
+    return await check();
+  } catch (error) {
+    return { status: "error", message: `DNS lookup failed: ${error.message}` };
+  }
+}
+
+/**
+ * The domain's SPF record: exactly one, not allowing every server
+ * @param {string} domain - Sender domain
+ * @returns {Promise<object>} { status, record, message }
+ */
+async function checkSpf(domain) {
+  const records = (await lookupTxt(domain)).filter((record) =>
+    /^v=spf1(\s|$)/i.test(record)
+  );
+  if (records.length === 0) {
+    return { status: "missing", message: `No SPF record at ${domain}` };
+  }
+  if (records.length > 1) {
+    return {
+      status: "invalid",
+      record: records.join(" | "),
+      message: "More than one SPF record; receivers treat this as an error",
+    };
+  }
+
+  const [record] = records;
+  if (/\s\+?all(\s|$)/i.test(record)) {
+    return {
+      status: "invalid",
+      record,
+      message: "The record allows every server to send as this domain",
+    };
+  }
+  return { status: "valid", record, message: "SPF record found" };
+}
+
+/**
+ * The DKIM public key published for a selector
+ * @param {string} domain - Sender domain
+ * @param {string} selector - DKIM selector the SMTP server signs with
+ * @returns {Promise<object>} { status, record, message }
+ */
+async function checkDkim(domain, selector) {
+  const name = `${selector}._domainkey.${domain}`;
+  const records = (await lookupTxt(name)).filter((record) =>
+    /(^|;)\s*(v=DKIM1|p=)/i.test(record)
+  );
+  if (records.length === 0) {
+    return { status: "missing", message: `No DKIM key at ${name}` };
+  }
+
+  const [record] = records;
+  if (!parseTags(record).p) {
+    return {
+      status: "invalid",
+      record,
+      message: "The DKIM key at this selector has been revoked",
+    };
+  }
+  return { status: "valid", record, message: `DKIM key found at ${name}` };
+}
+
+/**
+ * The domain's DMARC policy
+ * @param {string} domain - Sender domain
+ * @returns {Promise<object>} { status, record, message }
+ */
+async function checkDmarc(domain) {
+  const name = `_dmarc.${domain}`;
+  const records = (await lookupTxt(name)).filter((record) =>
+    /^v=DMARC1(\s*;|$)/i.test(record)
+  );
+  if (records.length === 0) {
+    return { status: "missing", message: `No DMARC record at ${name}` };
+  }
+  if (records.length > 1) {
+    return {
+      status: "invalid",
+      record: records.join(" | "),
+      message: "More than one DMARC record; receivers ignore them all",
+    };
+  }
+
+  const [record] = records;
+  const policy = (parseTags(record).p || "").toLowerCase();
+  if (!["none", "quarantine", "reject"].includes(policy)) {
+    return {
+      status: "invalid",
+      record,
+      message: "The record has no valid policy (p=none, quarantine or reject)",
+    };
+  }
+  return {
+    status: "valid",
+    record,
+    message:
+      policy === "none"
+        ? "DMARC policy is none: failures are only reported"
+        : `DMARC policy is ${policy}`,
+  };
+}
+
+/**
+ * Look up a domain's records and store the results
+ * @param {string} domain - Sender domain
+ * @param {object} options - { dkimSelector, checkedBy }; the selector
+ *   defaults to the one stored for the domain
+ * @returns {Promise<object>} SenderDomain document
+ */
+async function checkDomain(domain, { dkimSelector, checkedBy } = {}) {
+  const name = String(domain).trim().toLowerCase();
+  const existing = await SenderDomain.findOne({ domain: name }).lean();
+  const selector = dkimSelector || existing?.dkimSelector || "default";
+
+  const [spf, dkim, dmarc] = await Promise.all([
+    runCheck(() => checkSpf(name)),
+    runCheck(() => checkDkim(name, selector)),
+    runCheck(() => checkDmarc(name)),
+  ]);
+
+  return SenderDomain.findOneAndUpdate(
+    { domain: name },
+    {
+      $set: {
+        dkimSelector: selector,
+        spf,
+        dkim,
+        dmarc,
+        verified: [spf, dkim, dmarc].every(
+          (check) => check.status === "valid"
+        ),
+        checkedAt: new Date(),
+        checkedBy,
+      },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+}
+
+module.exports = {
+  createDnsResolver,
+  createStaticResolver,
+  setResolver,
+  checkSpf,
+  checkDkim,
+  checkDmarc,
+  checkDomain,
+};
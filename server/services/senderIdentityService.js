@@ -0,0 +1,116 @@
+/**
+ * Sender Identity Service for CSE Mail Platform
+ * The From addresses campaigns may send as. Admins add identities and
+ * approve them once their domain's SPF, DKIM and DMARC records check out
+ * (see services/senderDomainService.js); campaigns can only be created
+ * with an approved identity, whose name and addresses are copied onto the
+ * campaign.
+ */
+const mongoose = require("mongoose");
+const SenderIdentity = require("../models/SenderIdentity");
+const Settings = require("../models/Settings");
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isValidEmail = (email) => EMAIL_REGEX.test(String(email || ""));
+
+// Part of an address after the @
+const domainOf = (email) =>
+  String(email || "")
+    .split("@")
+    .pop()
+    .trim()
+    .toLowerCase();
+
+/**
+ * An identity as sent to the client. The SMTP password never leaves the
+ * server, and only admins see the SMTP profile at all.
+ * @param {object} identity - SenderIdentity document
+ * @param {object} options - { includeSmtp, domain: SenderDomain document }
+ * @returns {object}
+ */
+function serializeIdentity(identity, { includeSmtp = false, domain } = {}) {
+  const smtp = identity.smtp || {};
+  return {
+    id: identity._id,
+    name: identity.name,
+    email: identity.email,
+    replyToEmail: identity.replyToEmail || "",
+    domain: identity.domain,
+    domainVerified: Boolean(domain?.verified),
+    approved: identity.approved,
+    approvedAt: identity.approvedAt,
+    isDefault: identity.isDefault,
+    hasSmtpProfile: Boolean(smtp.host),
+    ...(includeSmtp && {
+      smtp: {
+        host: smtp.host || "",
+        port: smtp.port || 587,
+        user: smtp.user || "",
+        password: smtp.password ? "***" : "",
+        secure: Boolean(smtp.secure),
+      },
+    }),
+    createdAt: identity.createdAt,
+    updatedAt: identity.updatedAt,
+  };
+}
+
+/**
+ * An approved identity, for creating or editing a campaign
+ * @param {string} id - SenderIdentity id
+ * @returns {Promise<object|null>} null when there is no such approved
+ *   identity
+ */
+async function findApprovedIdentity(id) {
+  if (!mongoose.isObjectIdOrHexString(id)) return null;
+  return SenderIdentity.findOne({ _id: id, approved: true }).lean();
+}
+
+/**
+ * Campaign From fields for an identity
+ * @param {object} identity - SenderIdentity document
+ * @returns {object} { senderIdentityId, fromName, fromEmail, replyToEmail }
+ */
+const campaignSenderFields = (identity) => ({
+  senderIdentityId: identity._id,
+  fromName: identity.name,
+  fromEmail: identity.email,
+  replyToEmail: identity.replyToEmail || identity.email,
+});
+
+/**
+ * Create an approved default identity from the sender in Settings (or the
+ * DEFAULT_FROM_* environment variables) when there are no identities yet,
+ * so existing installs can keep creating campaigns. Safe to run repeatedly.
+ * @returns {Promise<object|null>} The identity created, if any
+ */
+async function migrateDefaultSenderIdentity() {
+  if (await SenderIdentity.exists({})) return null;
+
+  const settings = await Settings.findOne({ isDefault: true })
+    .select("fromName fromEmail replyToEmail")
+    .lean();
+  const email = settings?.fromEmail || process.env.DEFAULT_FROM_EMAIL;
+  if (!isValidEmail(email)) return null;
+
+  const replyToEmail = settings?.replyToEmail || process.env.SUPPORT_EMAIL;
+  return SenderIdentity.create({
+    name: settings?.fromName || process.env.DEFAULT_FROM_NAME || "CSE Mail",
+    email,
+    replyToEmail: isValidEmail(replyToEmail) ? replyToEmail : undefined,
+    domain: domainOf(email),
+    approved: true,
+    approvedAt: new Date(),
+    isDefault: true,
+  });
+}
+
+module.exports = {
+  isValidEmail,
+  domainOf,
+  serializeIdentity,
+  findApprovedIdentity,
+  campaignSenderFields,
+  migrateDefaultSenderIdentity,
+};
@@ -0,0 +1,118 @@
+/**
+ * SMTP Error Service for CSE Mail Platform
+ * Sorts send failures into the classes the queue acts on:
+ * - transient: 4xx replies, timeouts and connection problems. Retried with
+ *   exponential backoff.
+ * - policy: the provider is rate limiting us (4.7.x replies, rate or sending
+ *   limit wording). Retried with a longer backoff, and the worker slows
+ *   down.
+ * - permanent: 5xx replies and errors that sending again cannot fix. Not
+ *   retried. Rejections of the recipient address (user unknown) suppress it.
+ * A full recipient mailbox only concerns that job: 4.2.2 is retried as
+ * transient and 5.2.2 is permanent, without suppressing the address.
+ */
+
+// Nodemailer error codes for failures before the server replied
+const NETWORK_ERROR_CODES = new Set([
+  "ETIMEDOUT",
+  "ECONNECTION",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ESOCKET",
+  "EDNS",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "EPIPE",
+  "EPROTOCOL",
+  // Credentials are fixed in Settings, so the jobs wait for that
+  "EAUTH",
+]);
+
+// Sender-level throttling only; recipient quotas are matched separately
+const POLICY_PATTERN =
+  /rate.?limit|throttl|too many (messages|emails|mails|connections|recipients)|send(ing)? (quota|limit)|(daily|hourly) (sending |message )?limit|\b4\.7\.\d{1,3}\b|\b5\.7\.28\b|\b[45]\.4\.5\b/i;
+
+// Enhanced status codes and replies meaning the recipient's mailbox is full
+const MAILBOX_FULL_PATTERN =
+  /\b[45]\.2\.2\b|mailbox (is )?full|over quota|quota exceeded|exceeded (the |their |its )?(storage )?quota/i;
+
+// Enhanced status codes and replies meaning the mailbox does not exist
+const UNKNOWN_RECIPIENT_PATTERN =
+  /\b5\.1\.(0|1|2|3|6|10)\b|\b5\.2\.1\b|user unknown|unknown user|no such (user|mailbox|recipient)|does not exist|mailbox (unavailable|not found|disabled)|invalid (recipient|mailbox|address)|recipient (address )?rejected|address rejected/i;
+
+const RETRY_POLICIES = {
+  transient: { baseDelay: 60 * 1000, maxDelay: 60 * 60 * 1000 },
+  policy: { baseDelay: 5 * 60 * 1000, maxDelay: 4 * 60 * 60 * 1000 },
+};
+
+/**
+ * Classify a send error
+ * @param {Error} error - Error thrown while sending
+ * @returns {object} { errorClass, responseCode, suppress }
+ */
+function classifySendError(error) {
+  const responseCode = Number(error?.responseCode) || null;
+  const text = `${error?.response || ""} ${error?.message || ""}`;
+
+  if (POLICY_PATTERN.test(text)) {
+    return { errorClass: "policy", responseCode, suppress: false };
+  }
+
+  if (MAILBOX_FULL_PATTERN.test(text)) {
+    const permanent = responseCode >= 500 || /\b5\.2\.2\b/.test(text);
+    return {
+      errorClass: permanent ? "permanent" : "transient",
+      responseCode,
+      suppress: false,
+    };
+  }
+
+  if (responseCode >= 400 && responseCode < 500) {
+    return { errorClass: "transient", responseCode, suppress: false };
+  }
+
+  if (responseCode >= 500 && responseCode < 600) {
+    return {
+      errorClass: "permanent",
+      responseCode,
+      suppress: UNKNOWN_RECIPIENT_PATTERN.test(text),
+    };
+  }
+
+  if (NETWORK_ERROR_CODES.has(error?.code) || /timed? ?out/i.test(text)) {
+    return { errorClass: "transient", responseCode, suppress: false };
+  }
+
+  // Template and data errors fail the same way on every attempt
+  return { errorClass: "permanent", responseCode, suppress: false };
+}
+
+/**
+ * Exponential backoff with jitter: the delay doubles with every retry, and
+ * a random part spreads retries of jobs that failed together
+ * @param {string} errorClass - "transient" or "policy"
+ * @param {number} retryCount - Retries already made
+ * @param {Function} random - Source of randomness in [0, 1)
+ * @returns {number} Delay in milliseconds
+ */
+function getRetryDelay(errorClass, retryCount, random = Math.random) {
+  const { baseDelay, maxDelay } =
+    RETRY_POLICIES[errorClass] || RETRY_POLICIES.transient;
+  const delay = Math.min(maxDelay, baseDelay * 2 ** retryCount);
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * Whether a failure of this class is worth another attempt
+ * @param {string} errorClass
+ * @returns {boolean}
+ */
+function isRetryable(errorClass) {
+  return errorClass === "transient" || errorClass === "policy";
+}
+
+module.exports = {
+  classifySendError,
+  getRetryDelay,
+  isRetryable,
+};
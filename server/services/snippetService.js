@@ -0,0 +1,124 @@
+/**
+ * Snippet Service for CSE Mail Platform
+ * Keeps templates that use a linked snippet in sync with the snippet master
+ */
+const Template = require("../models/Template");
+
+// Block editor document embedded in template HTML (see frontend emailCompiler)
+const BLOCK_DOCUMENT_REGEX =
+  /<!--\s*csemail:blocks\s+v(\d+)\s+([A-Za-z0-9+/=]+)\s*-->/;
+
+const startMarker = (snippetId) => `<!-- csemail:snippet ${snippetId} -->`;
+const endMarker = (snippetId) => `<!-- /csemail:snippet ${snippetId} -->`;
+
+/**
+ * Replace every linked copy of a snippet's blocks in a block tree
+ * @param {Array} components - Block editor components
+ * @param {object} snippet - Snippet document
+ * @returns {number} Number of linked blocks updated
+ */
+function updateLinkedBlocks(components, snippet) {
+  let updated = 0;
+  const snippetId = snippet._id.toString();
+
+  for (const component of components || []) {
+    if (component.type === "snippet" && component.content?.snippetId === snippetId) {
+      component.content = {
+        ...component.content,
+        name: snippet.name,
+        version: snippet.version,
+        components: snippet.components,
+      };
+      updated += 1;
+    }
+    for (const column of component.columns || []) {
+      updated += updateLinkedBlocks(column.components, snippet);
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Apply the current snippet master to one template's HTML
+ * @param {string} content - Template HTML
+ * @param {object} snippet - Snippet document
+ * @returns {string} Updated template HTML
+ */
+function applySnippetToContent(content, snippet) {
+  const snippetId = snippet._id.toString();
+  const start = startMarker(snippetId);
+  const end = endMarker(snippetId);
+
+  // Compiled rows between the markers
+  let result = "";
+  let cursor = 0;
+  while (cursor < content.length) {
+    const startIndex = content.indexOf(start, cursor);
+    const endIndex =
+      startIndex === -1 ? -1 : content.indexOf(end, startIndex + start.length);
+    if (startIndex === -1 || endIndex === -1) {
+      result += content.slice(cursor);
+      break;
+    }
+    result += `${content.slice(cursor, startIndex)}${start}\n${snippet.html}\n`;
+    cursor = endIndex;
+  }
+
+  // Embedded block document, so the editor reopens with the new blocks
+  return result.replace(BLOCK_DOCUMENT_REGEX, (match, version, encoded) => {
+    try {
+      const document = JSON.parse(
+        Buffer.from(encoded, "base64").toString("utf8")
+      );
+      if (!updateLinkedBlocks(document.components, snippet)) return match;
+      return `<!-- csemail:blocks v${version} ${Buffer.from(
+        JSON.stringify(document),
+        "utf8"
+      ).toString("base64")} -->`;
+    } catch (error) {
+      console.error("Failed to update embedded block document:", error);
+      return match;
+    }
+  });
+}
+
+/**
+ * Push a snippet's current blocks into every template that links to it
+ * @param {object} snippet - Snippet document
+ * @returns {Promise<number>} Number of templates updated
+ */
+async function propagateSnippet(snippet) {
+  const templates = await Template.find({
+    content: { $regex: `csemail:snippet ${snippet._id.toString()}` },
+  });
+
+  let updatedCount = 0;
+  for (const template of templates) {
+    const content = applySnippetToContent(template.content, snippet);
+    if (content !== template.content) {
+      template.content = content;
+      await template.save();
+      updatedCount += 1;
+    }
+  }
+
+  return updatedCount;
+}
+
+/**
+ * Count templates that link to a snippet
+ * @param {string} snippetId - Snippet ID
+ * @returns {Promise<number>} Number of linked templates
+ */
+function countLinkedTemplates(snippetId) {
+  return Template.countDocuments({
+    content: { $regex: `csemail:snippet ${snippetId}` },
+  });
+}
+
+module.exports = {
+  applySnippetToContent,
+  propagateSnippet,
+  countLinkedTemplates,
+};
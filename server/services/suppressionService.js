@@ -0,0 +1,199 @@
+/**
+ * Suppression Service for CSE Mail Platform
+ * The suppression list: addresses that are never sent to, whatever the
+ * status of their contact. Hard bounces, unsubscribes and complaints add
+ * addresses automatically; admins add the rest by hand or by import. The
+ * queue skips suppressed addresses when a campaign is enqueued and checks
+ * again right before each send, unless suppression is turned off in
+ * Settings.
+ */
+const Suppression = require("../models/Suppression");
+const Settings = require("../models/Settings");
+const Contact = require("../models/Contact");
+
+const SUPPRESSION_REASONS = ["bounced", "unsubscribed", "complained", "manual"];
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeEmail = (email) =>
+  String(email || "")
+    .trim()
+    .toLowerCase();
+
+const isValidEmail = (email) => EMAIL_REGEX.test(email);
+
+/**
+ * Whether suppressed addresses are skipped when sending
+ * @returns {Promise<boolean>}
+ */
+async function isSuppressionEnabled() {
+  const settings = await Settings.findOne({ isDefault: true })
+    .select("suppressionEnabled")
+    .lean();
+  return settings?.suppressionEnabled !== false;
+}
+
+/**
+ * Add an address to the suppression list. An address that is already
+ * suppressed keeps its original reason and campaign.
+ * @param {string} email - Address to suppress
+ * @param {object} options - { reason, campaignId, contactId, note, addedBy }
+ * @returns {Promise<object>} Suppression entry
+ */
+async function suppress(
+  email,
+  { reason = "manual", campaignId, contactId, note, addedBy } = {}
+) {
+  return Suppression.findOneAndUpdate(
+    { email: normalizeEmail(email) },
+    { $setOnInsert: { reason, campaignId, contactId, note, addedBy } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+}
+
+/**
+ * Remove an address that was suppressed for the given reason, e.g. when a
+ * contact resubscribes
+ * @param {string} email - Suppressed address
+ * @param {string} reason - Only entries with this reason are removed
+ */
+async function unsuppress(email, reason) {
+  await Suppression.deleteOne({ email: normalizeEmail(email), reason });
+}
+
+/**
+ * The given addresses that must not be sent to
+ * @param {string[]} emails - Addresses about to be sent to
+ * @returns {Promise<Set<string>>} Suppressed addresses, lowercased. Empty
+ *   when suppression is turned off.
+ */
+async function findSuppressed(emails) {
+  if (emails.length === 0 || !(await isSuppressionEnabled())) {
+    return new Set();
+  }
+  const entries = await Suppression.find({
+    email: { $in: emails.map(normalizeEmail) },
+  })
+    .select("email")
+    .lean();
+  return new Set(entries.map((entry) => entry.email));
+}
+
+/**
+ * Add many addresses at once
+ * @param {object[]} rows - { email, reason, note }; reason and note are
+ *   optional
+ * @param {object} options - { reason: default reason, addedBy }
+ * @returns {Promise<object>} { added, alreadySuppressed, invalid }
+ */
+async function importSuppressions(rows, { reason = "manual", addedBy } = {}) {
+  const invalid = [];
+  const seen = new Set();
+  const operations = [];
+
+  for (const row of rows) {
+    const email = normalizeEmail(row.email);
+    const rowReason = row.reason ? String(row.reason).toLowerCase() : reason;
+    if (!isValidEmail(email) || !SUPPRESSION_REASONS.includes(rowReason)) {
+      invalid.push(row.email || "");
+      continue;
+    }
+    if (seen.has(email)) continue;
+    seen.add(email);
+
+    operations.push({
+      updateOne: {
+        filter: { email },
+        update: {
+          $setOnInsert: {
+            reason: rowReason,
+            note: row.note || undefined,
+            addedBy,
+          },
+        },
+        upsert: true,
+      },
+    });
+  }
+
+  const result = operations.length
+    ? await Suppression.bulkWrite(operations, { ordered: false })
+    : { upsertedCount: 0 };
+
+  return {
+    added: result.upsertedCount,
+    alreadySuppressed: operations.length - result.upsertedCount,
+    invalid,
+  };
+}
+
+/**
+ * Number of suppressed addresses, in total and per reason
+ * @returns {Promise<object>} { total, byReason }
+ */
+async function getSuppressionStats() {
+  const counts = await Suppression.aggregate([
+    { $group: { _id: "$reason", count: { $sum: 1 } } },
+  ]);
+  const byReason = Object.fromEntries(
+    SUPPRESSION_REASONS.map((reason) => [reason, 0])
+  );
+  counts.forEach(({ _id, count }) => {
+    byReason[_id] = count;
+  });
+  return {
+    total: counts.reduce((sum, { count }) => sum + count, 0),
+    byReason,
+  };
+}
+
+/**
+ * Move addresses from the old Settings.suppressionList array into the
+ * Suppression collection. The array had no reasons: addresses of contacts
+ * that bounced or unsubscribed get that reason, the rest become manual
+ * entries. Safe to run repeatedly.
+ * @returns {Promise<number>} Addresses moved
+ */
+async function migrateLegacySuppressionList() {
+  const settings = await Settings.findOne({
+    "suppressionList.0": { $exists: true },
+  })
+    .select("suppressionList")
+    .lean();
+  if (!settings) return 0;
+
+  const emails = settings.suppressionList.map(normalizeEmail);
+  const contacts = await Contact.find({
+    email: { $in: settings.suppressionList },
+    status: { $in: ["bounced", "unsubscribed"] },
+  })
+    .select("email status")
+    .lean();
+  const statusByEmail = new Map(
+    contacts.map((contact) => [normalizeEmail(contact.email), contact.status])
+  );
+
+  const { added } = await importSuppressions(
+    emails.map((email) => ({
+      email,
+      reason: statusByEmail.get(email) || "manual",
+      note: "Moved from the settings suppression list",
+    }))
+  );
+  await Settings.updateOne(
+    { _id: settings._id },
+    { $unset: { suppressionList: "" } }
+  );
+  return added;
+}
+
+module.exports = {
+  SUPPRESSION_REASONS,
+  normalizeEmail,
+  isValidEmail,
+  suppress,
+  unsuppress,
+  findSuppressed,
+  importSuppressions,
+  getSuppressionStats,
+  migrateLegacySuppressionList,
+};
@@ -0,0 +1,160 @@
+/**
+ * Timezone Service for CSE Mail Platform
+ * Converts between UTC and wall-clock times in IANA timezones (e.g.
+ * "Africa/Accra") using the Intl API, so schedules follow daylight saving
+ * changes without a timezone database dependency
+ */
+
+const WALL_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * Whether the runtime knows the timezone
+ * @param {string} timeZone - IANA timezone name
+ * @returns {boolean}
+ */
+function isValidTimeZone(timeZone) {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The timezone to use, falling back to UTC for unknown names
+ * @param {string} timeZone - IANA timezone name
+ * @returns {string}
+ */
+function resolveTimeZone(timeZone) {
+  if (isValidTimeZone(timeZone)) return timeZone;
+  if (timeZone) console.warn(`Unknown timezone "${timeZone}", using UTC`);
+  return "UTC";
+}
+
+/**
+ * Calendar fields of an instant as seen in a timezone
+ * @param {Date} date - Instant
+ * @param {string} timeZone - IANA timezone name
+ * @returns {object} { year, month (1-12), day, hour, minute, second,
+ *   weekday (0 is Sunday) }
+ */
+function getZonedParts(date, timeZone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(
+      parts.weekday
+    ),
+  };
+}
+
+/**
+ * Milliseconds the timezone is ahead of UTC at an instant
+ * @param {Date} date - Instant
+ * @param {string} timeZone - IANA timezone name
+ * @returns {number}
+ */
+function getTimeZoneOffset(date, timeZone) {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time in a timezone happens. Times skipped by a
+ * daylight saving change move forward by the size of the gap.
+ * @param {object} wallTime - { year, month (1-12), day, hour, minute, second }
+ * @param {string} timeZone - IANA timezone name
+ * @returns {Date}
+ */
+function zonedTimeToUtc(
+  { year, month, day, hour = 0, minute = 0, second = 0 },
+  timeZone
+) {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  const guess = asUtc - offset;
+  const corrected = getTimeZoneOffset(new Date(guess), timeZone);
+  if (corrected === offset) return new Date(guess);
+
+  // The offset changes between the guess and the answer
+  const retry = asUtc - corrected;
+  if (getTimeZoneOffset(new Date(retry), timeZone) === corrected) {
+    return new Date(retry);
+  }
+  // Neither instant shows this wall time, so it falls in a gap
+  return new Date(Math.max(guess, retry));
+}
+
+/**
+ * Parse a schedule time. Times with a UTC offset (ISO 8601 with "Z" or
+ * "+01:00") are absolute; times without one, like "2025-03-01T09:30" from
+ * a date and time picker, are read in the given timezone.
+ * @param {string|Date} value - Time to parse
+ * @param {string} timeZone - IANA timezone for times without an offset
+ * @returns {Date|null} The instant, or null when the value is not a time
+ */
+function parseScheduleTime(value, timeZone) {
+  if (!value) return null;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+
+  const match = String(value).trim().match(WALL_TIME_PATTERN);
+  if (match) {
+    const [, year, month, day, hour, minute, second = "0"] = match;
+    return zonedTimeToUtc(
+      {
+        year: Number(year),
+        month: Number(month),
+        day: Number(day),
+        hour: Number(hour),
+        minute: Number(minute),
+        second: Number(second),
+      },
+      resolveTimeZone(timeZone)
+    );
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+module.exports = {
+  isValidTimeZone,
+  resolveTimeZone,
+  getZonedParts,
+  getTimeZoneOffset,
+  zonedTimeToUtc,
+  parseScheduleTime,
+};
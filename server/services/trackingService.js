@@ -0,0 +1,271 @@
+/**
+ * Tracking Service for CSE Mail Platform
+ * Open and click tracking for campaign emails. Each email gets a 1x1 pixel
+ * and has its links rewritten through the redirect endpoint, both carrying
+ * the recipient's queue job id and an HMAC signature so tracking URLs
+ * cannot be forged or turned into an open redirect. Click URLs also carry
+ * the link's position among the email's tracked links, so reports can tell
+ * apart links to the same URL. Set TRACKING_BASE_URL to the public origin
+ * of the API, e.g. https://api.example.com.
+ */
+const crypto = require("crypto");
+const Queue = require("../models/Queue");
+const Campaign = require("../models/Campaign");
+const EmailEvent = require("../models/EmailEvent");
+const { recordOpen } = require("./sendTimeService");
+const { recordCampaignEngagement } = require("./segmentService");
+
+const TRACKING_ROUTE = "/api/track";
+const SIGNATURE_LENGTH = 22;
+
+// Anchor tags with an absolute http(s) link. Links marked data-no-track
+// are left alone.
+const LINK_REGEX =
+  /<a\b([^>]*?)\bhref\s*=\s*(["'])(https?:\/\/[^"']+)\2([^>]*)>/gi;
+const NO_TRACK_REGEX = /\bdata-no-track\b/i;
+// Preference center and one-click unsubscribe links (see
+// services/unsubscribeService.js), which must not count as clicks
+const UNSUBSCRIBE_LINK_REGEX = /\/unsubscribe\?token=|\/api\/unsubscribe\//i;
+const BODY_CLOSE_REGEX = /<\/body\s*>/i;
+
+// Transparent 1x1 GIF
+const PIXEL = Buffer.from(
+  "R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7",
+  "base64"
+);
+
+const getSecret = () =>
+  process.env.TRACKING_SECRET || process.env.JWT_SECRET || "your-secret-key";
+
+const getBaseUrl = () =>
+  (
+    process.env.TRACKING_BASE_URL ||
+    `http://localhost:${process.env.PORT || 3001}`
+  ).replace(/\/$/, "");
+
+/**
+ * Signature of a tracking payload
+ * @param {string} value - Job id, plus the URL for clicks
+ * @returns {string} URL-safe signature
+ */
+function sign(value) {
+  return crypto
+    .createHmac("sha256", getSecret())
+    .update(value)
+    .digest("base64url")
+    .slice(0, SIGNATURE_LENGTH);
+}
+
+/**
+ * Whether a signature from a tracking URL matches its payload
+ * @param {string} value - Job id, plus the URL for clicks
+ * @param {string} signature - Signature from the URL
+ * @returns {boolean}
+ */
+function verify(value, signature) {
+  const expected = Buffer.from(sign(value));
+  const actual = Buffer.from(String(signature || ""));
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
+
+// Links sent before positions were tracked were signed without one
+const clickPayload = (jobId, url, linkIndex) =>
+  linkIndex === undefined
+    ? `${jobId}|${url}`
+    : `${jobId}|${linkIndex}|${url}`;
+
+/**
+ * Whether an open pixel URL was issued by us
+ * @param {string} jobId - Queue job id from the URL
+ * @param {string} signature - Signature from the URL
+ * @returns {boolean}
+ */
+const verifyOpen = (jobId, signature) => verify(String(jobId), signature);
+
+/**
+ * Whether a click URL was issued by us for this link
+ * @param {string} jobId - Queue job id from the URL
+ * @param {string} url - Link from the URL
+ * @param {string} signature - Signature from the URL
+ * @param {number} linkIndex - Link position from the URL, if any
+ * @returns {boolean}
+ */
+const verifyClick = (jobId, url, signature, linkIndex) =>
+  verify(clickPayload(jobId, url, linkIndex), signature);
+
+/**
+ * Open pixel URL for a queue job
+ * @param {string} jobId - Queue job id
+ * @returns {string}
+ */
+function getOpenUrl(jobId) {
+  return `${getBaseUrl()}${TRACKING_ROUTE}/open/${jobId}/${sign(
+    String(jobId)
+  )}`;
+}
+
+/**
+ * Redirect URL that records a click before sending the recipient on
+ * @param {string} jobId - Queue job id
+ * @param {string} url - Original link
+ * @param {number} linkIndex - Position among the email's tracked links
+ * @returns {string}
+ */
+function getClickUrl(jobId, url, linkIndex) {
+  return `${getBaseUrl()}${TRACKING_ROUTE}/click/${jobId}/${sign(
+    clickPayload(jobId, url, linkIndex)
+  )}?n=${linkIndex}&url=${encodeURIComponent(url)}`;
+}
+
+const decodeHref = (href) =>
+  href.replace(/&amp;/g, "&").replace(/&#0?39;/g, "'");
+const encodeHref = (href) => href.replace(/&/g, "&amp;");
+
+/**
+ * Add the open pixel and rewrite links for click tracking. Links are
+ * numbered in document order, the same order the report heatmap uses.
+ * Unsubscribe links and links marked data-no-track are left alone.
+ * @param {string} html - Rendered email HTML for one recipient
+ * @param {string} jobId - Recipient's queue job id
+ * @returns {string}
+ */
+function addTracking(html, jobId) {
+  let linkIndex = 0;
+  const tracked = html.replace(
+    LINK_REGEX,
+    (match, before, quote, href, after) => {
+      if (
+        NO_TRACK_REGEX.test(before) ||
+        NO_TRACK_REGEX.test(after) ||
+        UNSUBSCRIBE_LINK_REGEX.test(href)
+      ) {
+        return match;
+      }
+      const clickUrl = encodeHref(
+        getClickUrl(jobId, decodeHref(href), linkIndex++)
+      );
+      return `<a${before}href=${quote}${clickUrl}${quote}${after}>`;
+    }
+  );
+
+  const pixel =
+    `<img src="${getOpenUrl(jobId)}" width="1" height="1" alt="" ` +
+    'style="display:block;border:0;width:1px;height:1px;" />';
+  return BODY_CLOSE_REGEX.test(tracked)
+    ? tracked.replace(BODY_CLOSE_REGEX, (close) => `${pixel}${close}`)
+    : `${tracked}${pixel}`;
+}
+
+/**
+ * Store an event and return the job it belongs to
+ * @param {string} jobId - Queue job id
+ * @param {string} type - "opened" or "clicked"
+ * @param {object} meta - { url, linkIndex, ipAddress, userAgent }
+ * @returns {Promise<object|null>} Job, or null when it no longer exists
+ */
+async function createEvent(
+  jobId,
+  type,
+  { url, linkIndex, ipAddress, userAgent }
+) {
+  const job = await Queue.findById(jobId)
+    .select("campaignId contactId email")
+    .lean();
+  if (!job) return null;
+
+  await EmailEvent.create({
+    campaignId: job.campaignId,
+    contactId: job.contactId,
+    jobId: job._id,
+    email: job.email,
+    type,
+    url,
+    linkIndex,
+    ipAddress,
+    userAgent,
+  });
+  return job;
+}
+
+/**
+ * Count the recipient's first open on the campaign and in their
+ * engagement stats
+ * @param {object} job - Queue job
+ * @param {Date} at - When the open happened
+ */
+async function markOpened(job, at) {
+  const first = await Queue.updateOne(
+    { _id: job._id, openedAt: { $exists: false } },
+    { $set: { openedAt: at } }
+  );
+  if (first.modifiedCount === 0) return;
+
+  await Campaign.updateOne(
+    { _id: job.campaignId },
+    { $inc: { openedCount: 1 } }
+  );
+  if (job.contactId) await recordOpen(job.contactId, at);
+}
+
+/**
+ * Record an open from the tracking pixel
+ * @param {string} jobId - Queue job id
+ * @param {object} meta - { ipAddress, userAgent }
+ */
+async function trackOpen(jobId, meta = {}) {
+  const job = await createEvent(jobId, "opened", meta);
+  if (!job) return;
+
+  const now = new Date();
+  await markOpened(job, now);
+  if (job.contactId) {
+    await recordCampaignEngagement(job.contactId, job.campaignId, {
+      lastOpenedAt: now,
+    });
+  }
+}
+
+/**
+ * Record a click. A click also counts as an open, since many email
+ * clients block the pixel.
+ * @param {string} jobId - Queue job id
+ * @param {string} url - Link that was clicked
+ * @param {object} meta - { linkIndex, ipAddress, userAgent }
+ */
+async function trackClick(jobId, url, meta = {}) {
+  const job = await createEvent(jobId, "clicked", { ...meta, url });
+  if (!job) return;
+
+  const now = new Date();
+  await markOpened(job, now);
+  const first = await Queue.updateOne(
+    { _id: job._id, clickedAt: { $exists: false } },
+    { $set: { clickedAt: now } }
+  );
+  if (first.modifiedCount > 0) {
+    await Campaign.updateOne(
+      { _id: job.campaignId },
+      { $inc: { clickedCount: 1 } }
+    );
+  }
+  if (job.contactId) {
+    await recordCampaignEngagement(job.contactId, job.campaignId, {
+      lastOpenedAt: now,
+      lastClickedAt: now,
+    });
+  }
+}
+
+module.exports = {
+  TRACKING_ROUTE,
+  getBaseUrl,
+  PIXEL,
+  verifyOpen,
+  verifyClick,
+  addTracking,
+  trackOpen,
+  trackClick,
+};
@@ -0,0 +1,250 @@
+/**
+ * Unsubscribe Service for CSE Mail Platform
+ * Signed unsubscribe links and the preference center behind them. Every
+ * email carries a token naming the recipient (contact id, or address for
+ * test sends) and the campaign, signed with an HMAC so one recipient cannot
+ * unsubscribe another. The token is used by the {{unsubscribe_url}} merge
+ * tag, which opens the preference center in the frontend, and by the
+ * RFC 8058 List-Unsubscribe one-click endpoint on the API.
+ */
+const crypto = require("crypto");
+const mongoose = require("mongoose");
+const Contact = require("../models/Contact");
+const ContactList = require("../models/ContactList");
+const Campaign = require("../models/Campaign");
+const Queue = require("../models/Queue");
+const EmailEvent = require("../models/EmailEvent");
+const { getBaseUrl } = require("./trackingService");
+const { suppress, unsuppress } = require("./suppressionService");
+
+const UNSUBSCRIBE_ROUTE = "/api/unsubscribe";
+const SIGNATURE_LENGTH = 22;
+
+const getSecret = () =>
+  process.env.UNSUBSCRIBE_SECRET ||
+  process.env.JWT_SECRET ||
+  "your-secret-key";
+
+// Separate from tracking signatures, so one cannot stand in for the other
+const sign = (payload) =>
+  crypto
+    .createHmac("sha256", getSecret())
+    .update(`unsubscribe|${payload}`)
+    .digest("base64url")
+    .slice(0, SIGNATURE_LENGTH);
+
+/**
+ * Unsubscribe token for one recipient of one email
+ * @param {object} options - { contactId, email, campaignId }
+ * @returns {string} URL-safe token
+ */
+function createToken({ contactId, email, campaignId }) {
+  const payload = `${contactId || email || ""}|${campaignId || ""}`;
+  return `${Buffer.from(payload).toString("base64url")}.${sign(payload)}`;
+}
+
+/**
+ * Read a token from an unsubscribe link
+ * @param {string} token - Token from the URL
+ * @returns {object|null} { recipient, campaignId }, or null when it was not
+ *   issued by us
+ */
+function parseToken(token) {
+  const [encoded, signature] = String(token || "").split(".");
+  if (!encoded || !signature) return null;
+
+  const payload = Buffer.from(encoded, "base64url").toString();
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  const separator = payload.lastIndexOf("|");
+  const recipient = payload.slice(0, separator);
+  const campaignId = payload.slice(separator + 1);
+  if (!recipient) return null;
+  return {
+    recipient,
+    campaignId: mongoose.isObjectIdOrHexString(campaignId) ? campaignId : null,
+  };
+}
+
+/**
+ * Preference center link, for the {{unsubscribe_url}} merge tag
+ * @param {object} options - { contactId, email, campaignId }
+ * @returns {string}
+ */
+function getUnsubscribeUrl(options) {
+  return `${process.env.FRONTEND_URL || ""}/unsubscribe?token=${createToken(
+    options
+  )}`;
+}
+
+/**
+ * RFC 8058 headers, so mail clients can offer a one-click unsubscribe
+ * @param {object} options - { contactId, email, campaignId }
+ * @returns {object} Email headers
+ */
+function getUnsubscribeHeaders(options) {
+  const oneClickUrl = `${getBaseUrl()}${UNSUBSCRIBE_ROUTE}/${createToken(
+    options
+  )}/one-click`;
+  return {
+    "List-Unsubscribe": `<${oneClickUrl}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
+
+// Test sends have no contact id, so their links name the address
+const findContact = (recipient) =>
+  Contact.findOne(
+    mongoose.isObjectIdOrHexString(recipient)
+      ? { _id: recipient }
+      : { email: recipient }
+  );
+
+/**
+ * Count the unsubscribe on the campaign the link came from, once per
+ * recipient
+ * @param {object} contact - Contact that unsubscribed
+ * @param {string} campaignId - Campaign from the token, if any
+ * @param {object} details - What changed, stored on the event
+ */
+async function recordUnsubscribe(contact, campaignId, details) {
+  if (!campaignId) return;
+
+  await EmailEvent.create({
+    campaignId,
+    contactId: contact._id,
+    email: contact.email,
+    type: "unsubscribed",
+    details,
+  });
+
+  const first = await Queue.updateOne(
+    { campaignId, contactId: contact._id, unsubscribedAt: { $exists: false } },
+    { $set: { unsubscribedAt: new Date() } }
+  );
+  if (first.modifiedCount > 0) {
+    await Campaign.updateOne(
+      { _id: campaignId },
+      { $inc: { unsubscribedCount: 1 } }
+    );
+  }
+}
+
+/**
+ * What the preference center shows for a token
+ * @param {string} token - Token from the link
+ * @returns {Promise<object|null>} { email, status, lists }, or null for an
+ *   invalid link or a contact that no longer exists
+ */
+async function getPreferences(token) {
+  const parsed = parseToken(token);
+  if (!parsed) return null;
+
+  const contact = await findContact(parsed.recipient)
+    .select("email status lists")
+    .populate({
+      path: "lists",
+      match: { isActive: true },
+      select: "name description",
+    })
+    .lean();
+  if (!contact) return null;
+
+  return {
+    email: contact.email,
+    status: contact.status,
+    lists: (contact.lists || []).filter(Boolean).map((list) => ({
+      id: list._id,
+      name: list.name,
+      description: list.description || "",
+    })),
+  };
+}
+
+/**
+ * Save the preference center: leave some lists, unsubscribe from
+ * everything, or resubscribe after unsubscribing
+ * @param {string} token - Token from the link
+ * @param {object} changes - { leaveLists: list ids, unsubscribeAll }
+ * @returns {Promise<object|null>} Preferences after the change, or null
+ *   for an invalid link
+ */
+async function updatePreferences(token, { leaveLists = [], unsubscribeAll }) {
+  const parsed = parseToken(token);
+  if (!parsed) return null;
+
+  const contact = await findContact(parsed.recipient);
+  if (!contact) return null;
+
+  const leaving = (contact.lists || []).filter((listId) =>
+    leaveLists.includes(String(listId))
+  );
+  if (leaving.length > 0) {
+    contact.lists = contact.lists.filter(
+      (listId) => !leaving.some((left) => left.equals(listId))
+    );
+    await ContactList.updateMany(
+      { _id: { $in: leaving } },
+      { $inc: { contactCount: -1 } }
+    );
+  }
+
+  const wasUnsubscribed = contact.status === "unsubscribed";
+  if (unsubscribeAll === true && contact.status === "active") {
+    contact.status = "unsubscribed";
+  } else if (unsubscribeAll === false && wasUnsubscribed) {
+    // Bounced addresses stay bounced
+    contact.status = "active";
+  }
+  await contact.save();
+
+  // Inactive, bounced and complained contacts keep their status, but their
+  // address is still suppressed so a later reactivation or import cannot
+  // bring it back
+  const unsubscribing = unsubscribeAll === true && !wasUnsubscribed;
+  if (unsubscribeAll === true) {
+    await suppress(contact.email, {
+      reason: "unsubscribed",
+      campaignId: parsed.campaignId,
+      contactId: contact._id,
+    });
+  } else if (wasUnsubscribed && contact.status === "active") {
+    await unsuppress(contact.email, "unsubscribed");
+  }
+
+  if (leaving.length > 0 || unsubscribing) {
+    await recordUnsubscribe(contact, parsed.campaignId, {
+      leftLists: leaving,
+      unsubscribedAll: unsubscribing,
+    });
+  }
+
+  return getPreferences(token);
+}
+
+/**
+ * One-click unsubscribe from every email
+ * @param {string} token - Token from the List-Unsubscribe header
+ * @returns {Promise<boolean>} False for an invalid link
+ */
+async function unsubscribeAll(token) {
+  return Boolean(await updatePreferences(token, { unsubscribeAll: true }));
+}
+
+module.exports = {
+  UNSUBSCRIBE_ROUTE,
+  createToken,
+  parseToken,
+  getUnsubscribeUrl,
+  getUnsubscribeHeaders,
+  getPreferences,
+  updatePreferences,
+  unsubscribeAll,
+};
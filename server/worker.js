@@ -0,0 +1,71 @@
+/**
+ * Standalone queue worker for CSE Mail Platform
+ * Sends queued campaign emails, dispatches scheduled campaigns and reads
+ * the bounce mailbox outside the API process, e.g. when the API runs
+ * serverless. Start with `npm run worker` and set RUN_QUEUE_WORKER=false
+ * for the API so only dedicated workers send.
+ */
+const mongoose = require("mongoose");
+const path = require("path");
+
+if (process.env.NODE_ENV !== "production") {
+  require("dotenv").config({ path: path.join(__dirname, "../.env") });
+}
+
+const {
+  startQueueWorker,
+  stopQueueWorker,
+} = require("./services/queueService");
+const {
+  startScheduler,
+  stopScheduler,
+} = require("./services/schedulerService");
+const {
+  startBounceProcessor,
+  stopBounceProcessor,
+} = require("./services/bounceMailboxService");
+const {
+  migrateLegacySuppressionList,
+} = require("./services/suppressionService");
+const {
+  migrateDefaultSenderIdentity,
+} = require("./services/senderIdentityService");
+
+const start = async () => {
+  try {
+    await mongoose.connect(process.env.MONGO_URI, {
+      serverSelectionTimeoutMS: 10000,
+      socketTimeoutMS: 45000,
+    });
+    console.log("✓ MongoDB connected successfully");
+    // Suppressed addresses used to live in Settings.suppressionList
+    await migrateLegacySuppressionList().catch((error) =>
+      console.error("Suppression list migration failed:", error)
+    );
+    // Campaigns are sent as an approved sender identity; existing installs
+    // start with the sender from Settings
+    await migrateDefaultSenderIdentity().catch((error) =>
+      console.error("Sender identity migration failed:", error)
+    );
+    startQueueWorker();
+    startScheduler();
+    startBounceProcessor();
+  } catch (error) {
+    console.error("✗ MongoDB connection error:", error.message);
+    process.exit(1);
+  }
+};
+
+// Finish the job in progress before exiting, so it is not sent twice
+const shutdown = async () => {
+  stopScheduler();
+  stopBounceProcessor();
+  await stopQueueWorker();
+  await mongoose.disconnect();
+  process.exit(0);
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+start();
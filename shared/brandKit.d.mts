@@ -0,0 +1,40 @@
+// Types for brandKit.mjs, shared by the frontend and the server
+
+export interface BrandKit {
+  palette: {
+    primary: string;
+    secondary: string;
+    accent: string;
+    text: string;
+    muted: string;
+    background: string; // Around the email
+    surface: string; // Behind the content
+  };
+  fonts: {
+    heading: string;
+    body: string;
+  };
+  button: {
+    backgroundColor: string;
+    textColor: string;
+    borderRadius: string;
+    padding: string;
+  };
+  logo: {
+    url: string;
+    alt: string;
+    width: string;
+  };
+  linkColor: string;
+  contentWidth: number; // Pixels
+}
+
+export declare const DEFAULT_BRAND_KIT: BrandKit;
+
+export declare const BRAND_TOKEN_PREFIX: "brand:";
+
+export declare function mergeBrandKit(stored?: Partial<BrandKit>): BrandKit;
+
+export declare function brandTokenValues(
+  brandKit: BrandKit
+): Record<string, string>;
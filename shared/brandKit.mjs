@@ -0,0 +1,76 @@
+/**
+ * Organization brand kit (Settings > Brand Kit) and the theme tokens that
+ * editor blocks use instead of raw values. Used by the frontend editors and
+ * by the server when it restyles saved templates, so both resolve tokens to
+ * the same values.
+ */
+
+export const DEFAULT_BRAND_KIT = {
+  palette: {
+    primary: "#3b82f6",
+    secondary: "#1e293b",
+    accent: "#f59e0b",
+    text: "#333333",
+    muted: "#e2e8f0",
+    background: "#f7f7f7",
+    surface: "#ffffff",
+  },
+  fonts: {
+    heading: "Arial, Helvetica, sans-serif",
+    body: "Arial, Helvetica, sans-serif",
+  },
+  button: {
+    backgroundColor: "#3b82f6",
+    textColor: "#ffffff",
+    borderRadius: "6px",
+    padding: "12px 24px",
+  },
+  logo: {
+    url: "",
+    alt: "",
+    width: "150px",
+  },
+  linkColor: "#2563eb",
+  contentWidth: 600,
+};
+
+// A block property set to "brand:<token>" follows the brand kit
+export const BRAND_TOKEN_PREFIX = "brand:";
+
+/**
+ * Fill in anything missing from a stored brand kit with the defaults
+ * @param {object} [stored] - Brand kit as stored in settings
+ * @returns {object} Complete brand kit
+ */
+export function mergeBrandKit(stored = {}) {
+  return {
+    palette: { ...DEFAULT_BRAND_KIT.palette, ...stored.palette },
+    fonts: { ...DEFAULT_BRAND_KIT.fonts, ...stored.fonts },
+    button: { ...DEFAULT_BRAND_KIT.button, ...stored.button },
+    logo: { ...DEFAULT_BRAND_KIT.logo, ...stored.logo },
+    linkColor: stored.linkColor || DEFAULT_BRAND_KIT.linkColor,
+    contentWidth: Number(stored.contentWidth) || DEFAULT_BRAND_KIT.contentWidth,
+  };
+}
+
+/**
+ * Every token name with its current value
+ * @param {object} brandKit - Complete brand kit
+ * @returns {object} Token values keyed by token name
+ */
+export function brandTokenValues(brandKit) {
+  return {
+    ...brandKit.palette,
+    link: brandKit.linkColor,
+    headingFont: brandKit.fonts.heading,
+    bodyFont: brandKit.fonts.body,
+    buttonBackground: brandKit.button.backgroundColor,
+    buttonText: brandKit.button.textColor,
+    buttonRadius: brandKit.button.borderRadius,
+    buttonPadding: brandKit.button.padding,
+    logo: brandKit.logo.url,
+    logoAlt: brandKit.logo.alt,
+    logoWidth: brandKit.logo.width,
+    contentWidth: `${brandKit.contentWidth}px`,
+  };
+}
@@ -0,0 +1,80 @@
+// Types for mergeTags.mjs, shared by the frontend and the server
+
+export type MergeTagGroup = "contact" | "custom" | "system" | "campaign";
+
+export interface MergeTag {
+  name: string;
+  group: MergeTagGroup;
+  label: string;
+  description: string;
+  example: string;
+}
+
+export type MergeContext = Record<string, unknown>;
+
+export interface SystemVariableOptions {
+  email?: string;
+  appUrl?: string;
+  companyName?: string;
+  supportEmail?: string;
+  websiteUrl?: string;
+  now?: Date;
+}
+
+export interface RenderMergeTagsOptions {
+  /** "html" escapes inserted values (default "text") */
+  format?: "html" | "text";
+  /** "preview" keeps unknown tags visible (default "send") */
+  mode?: "send" | "preview";
+}
+
+export declare const MERGE_TAG_CATALOG: MergeTag[];
+
+export declare const MERGE_TAG_GROUPS: Record<MergeTagGroup, string>;
+
+export declare function escapeHtml(value: unknown): string;
+
+export declare function buildSystemVariables(
+  options?: SystemVariableOptions
+): Record<string, string>;
+
+export declare function buildContactVariables(
+  contact?: Record<string, unknown>
+): MergeContext;
+
+export declare function buildMergeContext(options?: {
+  contact?: Record<string, unknown>;
+  variables?: Record<string, unknown>;
+  system?: Record<string, unknown>;
+}): MergeContext;
+
+export declare function renderMergeTags(
+  content: string,
+  context: MergeContext,
+  options?: RenderMergeTagsOptions
+): string;
+
+export declare function findUnresolvedTags(
+  content: string,
+  context: MergeContext
+): string[];
+
+export interface MergeTagLint {
+  unknown: {
+    path: string;
+    start: number;
+    end: number;
+    suggestion: string | null;
+  }[];
+  error: { message: string; start: number; end: number } | null;
+}
+
+export declare function suggestMergeTag(
+  name: string,
+  knownNames: Iterable<string>
+): string | null;
+
+export declare function lintMergeTags(
+  content: string,
+  knownNames: Iterable<string>
+): MergeTagLint;
@@ -0,0 +1,367 @@
+/**
+ * Merge tags: the variables available to email templates and the single
+ * place where they are substituted. Used by the frontend previews and by the
+ * server when sending, testing and analyzing, so every path agrees on
+ * escaping, unknown tags and system variables.
+ *
+ * Values are looked up in this order, the first match wins:
+ *   1. System variables. They cannot be replaced, so a custom field or
+ *      campaign variable named unsubscribe_url never hides the signed
+ *      unsubscribe link.
+ *   2. Campaign variables (set per campaign or per test send). Empty values
+ *      are skipped so a blank form field does not hide the contact's data.
+ *   3. Contact fields and custom fields
+ *
+ * Rendering rules:
+ *   - In HTML, inserted values are HTML-escaped. Subjects and plain text are
+ *     inserted as-is.
+ *   - Previews keep unknown tags visible as {{name}}; real sends remove them.
+ *     Use findUnresolvedTags() to list them before sending.
+ */
+import {
+  TemplateSyntaxError,
+  formatDate,
+  parseTemplate,
+  renderTemplate,
+} from "./templateLanguage.mjs";
+
+/**
+ * Documented variable catalog. "custom" and "campaign" entries describe
+ * groups whose names depend on the data; getMergeTagCatalog() in the server
+ * adds the actual names.
+ */
+export const MERGE_TAG_CATALOG = [
+  // Contact fields
+  {
+    name: "first_name",
+    group: "contact",
+    label: "First name",
+    description: "Contact's first name",
+    example: "Jane",
+  },
+  {
+    name: "last_name",
+    group: "contact",
+    label: "Last name",
+    description: "Contact's last name",
+    example: "Doe",
+  },
+  {
+    name: "email",
+    group: "contact",
+    label: "Email",
+    description: "Contact's email address",
+    example: "jane.doe@example.com",
+  },
+  {
+    name: "phone",
+    group: "contact",
+    label: "Phone",
+    description: "Contact's phone number",
+    example: "+1 (555) 123-4567",
+  },
+  {
+    name: "company",
+    group: "contact",
+    label: "Company",
+    description: "Contact's company (from the company custom field)",
+    example: "Acme Corporation",
+  },
+  // System variables
+  {
+    name: "unsubscribe_url",
+    group: "system",
+    label: "Unsubscribe link",
+    description: "Preference center link where the contact can unsubscribe",
+    example: "https://app.example.com/unsubscribe?token=...",
+  },
+  {
+    name: "current_date",
+    group: "system",
+    label: "Current date",
+    description: "Date the email is sent, e.g. 3/5/2024",
+    example: "3/5/2024",
+  },
+  {
+    name: "current_year",
+    group: "system",
+    label: "Current year",
+    description: "Year the email is sent",
+    example: "2024",
+  },
+  {
+    name: "current_month",
+    group: "system",
+    label: "Current month",
+    description: "Month the email is sent, e.g. March",
+    example: "March",
+  },
+  {
+    name: "company_name",
+    group: "system",
+    label: "Your company name",
+    description: "Sending organization's name (COMPANY_NAME)",
+    example: "Your Company",
+  },
+  {
+    name: "support_email",
+    group: "system",
+    label: "Support email",
+    description: "Sending organization's support address (SUPPORT_EMAIL)",
+    example: "support@example.com",
+  },
+  {
+    name: "website_url",
+    group: "system",
+    label: "Website",
+    description: "Sending organization's website (WEBSITE_URL)",
+    example: "https://example.com",
+  },
+];
+
+export const MERGE_TAG_GROUPS = {
+  contact: "Contact fields",
+  custom: "Custom fields",
+  system: "System",
+  campaign: "Campaign variables",
+};
+
+const HTML_ESCAPES = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export const escapeHtml = (value) =>
+  String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+/**
+ * System variables for one recipient
+ * @param {object} options
+ * @param {string} [options.email] - Recipient address
+ * @param {string} [options.appUrl] - Frontend URL, for the unsubscribe link
+ * @param {string} [options.unsubscribeUrl] - Signed preference center link
+ * @param {string} [options.companyName]
+ * @param {string} [options.supportEmail]
+ * @param {string} [options.websiteUrl]
+ * @param {Date} [options.now]
+ * @returns {object} System variables
+ */
+export function buildSystemVariables({
+  email = "",
+  appUrl = "",
+  unsubscribeUrl = `${appUrl}/unsubscribe`,
+  companyName = "Your Company",
+  supportEmail = "support@example.com",
+  websiteUrl = "https://example.com",
+  now = new Date(),
+} = {}) {
+  return {
+    current_date: formatDate(now, "M/d/yyyy"),
+    current_year: formatDate(now, "yyyy"),
+    current_month: formatDate(now, "MMMM"),
+    unsubscribe_url: unsubscribeUrl,
+    company_name: companyName,
+    support_email: supportEmail,
+    website_url: websiteUrl,
+  };
+}
+
+/**
+ * Contact fields and custom fields. Accepts contact documents (firstName,
+ * customFields as a Map or object) as well as flat sample data (first_name).
+ * Typed custom fields keep their type, so {{#if}} and {{#each}} work on
+ * yes/no and multiple choice fields; dates become YYYY-MM-DD for the date
+ * filter.
+ * @param {object} contact
+ * @returns {object} Contact variables
+ */
+export function buildContactVariables(contact = {}) {
+  const customFields = Object.fromEntries(
+    Object.entries(
+      contact.customFields instanceof Map
+        ? Object.fromEntries(contact.customFields)
+        : contact.customFields || {}
+    ).map(([key, value]) => [
+      key,
+      value instanceof Date ? value.toISOString().slice(0, 10) : value,
+    ])
+  );
+
+  return {
+    ...customFields,
+    customFields,
+    first_name: contact.firstName ?? contact.first_name ?? "",
+    last_name: contact.lastName ?? contact.last_name ?? "",
+    email: contact.email ?? "",
+    phone: contact.phone ?? "",
+    company: contact.company ?? customFields.company ?? "",
+  };
+}
+
+/**
+ * All variables for one recipient, in lookup order
+ * @param {object} options
+ * @param {object} [options.contact] - Contact document or sample contact
+ * @param {object} [options.variables] - Campaign variables
+ * @param {object} [options.system] - From buildSystemVariables()
+ * @returns {object} Merge context
+ */
+export function buildMergeContext({
+  contact = {},
+  variables = {},
+  system = {},
+} = {}) {
+  const provided = Object.fromEntries(
+    Object.entries(variables).filter(
+      ([, value]) => value !== "" && value !== null && value !== undefined
+    )
+  );
+
+  return {
+    ...buildContactVariables(contact),
+    ...provided,
+    ...system,
+  };
+}
+
+/**
+ * Substitute merge tags
+ * @param {string} content - Subject, HTML or plain text
+ * @param {object} context - From buildMergeContext()
+ * @param {object} [options]
+ * @param {"html"|"text"} [options.format="text"] - HTML escapes values
+ * @param {"send"|"preview"} [options.mode="send"] - Previews keep unknown tags
+ * @returns {string} Rendered content
+ * @throws {TemplateSyntaxError} When the template is malformed
+ */
+export function renderMergeTags(
+  content,
+  context,
+  { format = "text", mode = "send" } = {}
+) {
+  if (!content) return content || "";
+  return renderTemplate(content, context, {
+    keepMissing: mode === "preview",
+    escape: format === "html" ? escapeHtml : undefined,
+  });
+}
+
+/**
+ * Tags in the content that have no value in the context
+ * @param {string} content - Subject, HTML or plain text
+ * @param {object} context - From buildMergeContext()
+ * @returns {string[]} Unresolved tag paths
+ * @throws {TemplateSyntaxError} When the template is malformed
+ */
+export function findUnresolvedTags(content, context) {
+  const unresolved = new Set();
+  if (content) {
+    renderTemplate(content, context, {
+      onMissing: (node) => unresolved.add(node.path),
+    });
+  }
+  return Array.from(unresolved);
+}
+
+/**
+ * Whether a variable path has a source: a known name, a custom field through
+ * customFields.<key>, or a loop reference such as {{this}} or {{@index}}
+ */
+function isKnownPath(path, known) {
+  if (path.startsWith("@") || path.split(".")[0] === "this") return true;
+  const [head, field] = path.split(".");
+  if (head === "customFields") return field === undefined || known.has(field);
+  return known.has(head);
+}
+
+// Edits needed to turn one name into another. Swapped neighbouring letters
+// count as one edit, since that is the most common typo.
+function editDistance(a, b) {
+  const rows = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+  for (let i = 1; i <= a.length; i++) {
+    rows[i] = [i];
+    for (let j = 1; j <= b.length; j++) {
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * Closest known name to a misspelled one
+ * @param {string} name - Unknown variable name
+ * @param {Iterable<string>} knownNames
+ * @returns {string|null} Suggestion, or null when nothing is close
+ */
+export function suggestMergeTag(name, knownNames) {
+  const target = name.toLowerCase();
+  let best = null;
+  let bestDistance = Math.max(1, Math.floor(target.length / 3));
+
+  for (const candidate of knownNames) {
+    const distance = editDistance(target, candidate.toLowerCase());
+    if (distance <= bestDistance && distance > 0) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Check the tags in editor content against the known variables. Tags
+ * inside {{#each}} loops refer to the loop item and are not checked.
+ * @param {string} content - Subject, HTML or plain text
+ * @param {Iterable<string>} knownNames - Catalog and declared variable names
+ * @returns {object} { unknown: [{ path, start, end, suggestion }], error }
+ *   where error is { message, start, end } for malformed templates
+ */
+export function lintMergeTags(content, knownNames) {
+  const known = new Set(knownNames);
+  const result = { unknown: [], error: null };
+  if (!content) return result;
+
+  let nodes;
+  try {
+    nodes = parseTemplate(content);
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    const close = content.indexOf("}}", error.position);
+    result.error = {
+      message: error.message,
+      start: error.position,
+      end: close === -1 ? content.length : close + 2,
+    };
+    return result;
+  }
+
+  const visit = (list) => {
+    for (const node of list) {
+      if (node.type === "text") continue;
+      if (!isKnownPath(node.path, known)) {
+        result.unknown.push({
+          path: node.path,
+          start: node.position,
+          end: node.position + node.raw.length,
+          suggestion: suggestMergeTag(node.path.split(".")[0], known),
+        });
+      }
+      if (node.type !== "each" && node.children) visit(node.children);
+      if (node.alternative) visit(node.alternative);
+    }
+  };
+  visit(nodes);
+
+  result.unknown.sort((a, b) => a.start - b.start);
+  return result;
+}
@@ -0,0 +1,43 @@
+// Types for templateLanguage.mjs, shared by the frontend and the server
+
+export declare class TemplateSyntaxError extends Error {
+  constructor(message: string, position: number);
+  position: number;
+}
+
+export interface TemplateNode {
+  type: "text" | "variable" | "if" | "unless" | "each";
+  value?: string;
+  path?: string;
+  raw?: string;
+  filters?: { name: string; args: string[] }[];
+  children?: TemplateNode[];
+  alternative?: TemplateNode[];
+  position?: number;
+}
+
+export interface RenderOptions {
+  /** Leave tags for unknown variables in the output (default true) */
+  keepMissing?: boolean;
+  /** Applied to every inserted value, e.g. to escape HTML */
+  escape?: (value: string) => string;
+  /** Called for every tag that had no value and no fallback */
+  onMissing?: (node: TemplateNode) => void;
+}
+
+export declare const TEMPLATE_FILTERS: string[];
+
+export declare function parseTemplate(source: string): TemplateNode[];
+
+export declare function renderTemplate(
+  source: string,
+  data?: Record<string, unknown>,
+  options?: RenderOptions
+): string;
+
+export declare function collectTemplateVariables(source: string): string[];
+
+export declare function formatDate(
+  value: Date | string | number,
+  format?: string
+): string;
@@ -0,0 +1,512 @@
+/**
+ * Template language for email subjects, HTML and plain text.
+ *
+ * This module is shared by the frontend preview and the backend sender so a
+ * preview renders exactly what gets sent. It must stay dependency free and
+ * behave the same in the browser and in Node.
+ *
+ *   {{first_name}}                          Variable (dot paths allowed)
+ *   {{first_name | default: "there"}}       Fallback for empty values
+ *   {{signup_date | date: "MMM d, yyyy"}}   Filters: default, date, currency,
+ *   {{total | currency: "EUR"}}             upper, lower
+ *   {{#if plan}}...{{else}}...{{/if}}       Conditionals ({{#unless}} too)
+ *   {{#each orders}}{{name}}{{/each}}       Loops over arrays, with {{this}},
+ *                                           {{@index}}, {{@first}}, {{@last}}
+ *   {{! comment }}                          Removed from the output
+ *
+ * Tags that are not valid expressions (for example "{{ some text }}") are
+ * left in the output untouched, as are variables that have no value at all.
+ */
+
+export class TemplateSyntaxError extends Error {
+  constructor(message, position) {
+    super(message);
+    this.name = "TemplateSyntaxError";
+    this.position = position;
+  }
+}
+
+const TAG_REGEX = /\{\{([\s\S]*?)\}\}/g;
+const PATH_REGEX =
+  /^(?:this|@index|@first|@last|[A-Za-z_][\w-]*)(?:\.[A-Za-z_][\w-]*)*$/;
+const ARGUMENT_REGEX =
+  /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(-?\d+(?:\.\d+)?)|([A-Za-z_][\w-]*))$/;
+
+const BLOCK_HELPERS = ["if", "unless", "each"];
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Split on a separator, ignoring separators inside quoted strings
+ */
+function splitOutsideQuotes(text, separator) {
+  const parts = [];
+  let current = "";
+  let quote = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\" && i + 1 < text.length) {
+        current += char + text[++i];
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseArgument(text) {
+  const match = text.trim().match(ARGUMENT_REGEX);
+  if (!match) return null;
+  if (match[1] !== undefined) return match[1].replace(/\\(.)/g, "$1");
+  if (match[2] !== undefined) return match[2].replace(/\\(.)/g, "$1");
+  if (match[3] !== undefined) return match[3];
+  return match[4];
+}
+
+/**
+ * Parse a variable expression such as `total | currency: "EUR" | upper`
+ * @returns {object|null} Expression, or null when the tag is not one
+ */
+function parseExpression(source) {
+  const [pathPart, ...filterParts] = splitOutsideQuotes(source, "|");
+  const path = pathPart.trim();
+  if (!PATH_REGEX.test(path)) return null;
+
+  const filters = [];
+  for (const part of filterParts) {
+    const separator = part.indexOf(":");
+    const name = (separator === -1 ? part : part.slice(0, separator)).trim();
+    if (!FILTERS[name]) return null;
+
+    const args = [];
+    if (separator !== -1) {
+      const argumentList = part.slice(separator + 1);
+      for (const argument of splitOutsideQuotes(argumentList, ",")) {
+        const value = parseArgument(argument);
+        if (value === null) return null;
+        args.push(value);
+      }
+    }
+    filters.push({ name, args });
+  }
+
+  return { path, filters };
+}
+
+const PARSE_CACHE_SIZE = 50;
+const parseCache = new Map();
+
+/**
+ * Parse a template into a tree of nodes. Parsed templates are cached, since
+ * the same content is rendered once per recipient.
+ * @param {string} source - Template text
+ * @returns {Array} Nodes
+ * @throws {TemplateSyntaxError} When blocks are not closed or mismatched
+ */
+export function parseTemplate(source) {
+  const text = String(source ?? "");
+  const cached = parseCache.get(text);
+  if (cached) return cached;
+
+  const root = { children: [] };
+  const stack = [root];
+  const current = () => stack[stack.length - 1];
+  // Inside a block, "else" switches output to the alternative branch
+  const output = () => {
+    const node = current();
+    return node.inElse ? node.alternative : node.children;
+  };
+
+  let cursor = 0;
+  for (const match of text.matchAll(TAG_REGEX)) {
+    const [raw, inner] = match;
+    const position = match.index;
+    if (position > cursor) {
+      output().push({ type: "text", value: text.slice(cursor, position) });
+    }
+    cursor = position + raw.length;
+
+    const tag = inner.trim();
+
+    if (tag.startsWith("!")) continue;
+
+    if (tag.startsWith("#")) {
+      const match = tag.match(/^#(\S+)\s*([\s\S]*)$/);
+      if (!match) {
+        throw new TemplateSyntaxError("Block helper name missing", position);
+      }
+      const [, helper, argument = ""] = match;
+      if (!BLOCK_HELPERS.includes(helper)) {
+        throw new TemplateSyntaxError(
+          `Unknown block "{{#${helper}}}"`,
+          position
+        );
+      }
+      const path = argument.trim();
+      if (!PATH_REGEX.test(path)) {
+        throw new TemplateSyntaxError(
+          `"{{#${helper}}}" needs a variable name, for example {{#${helper} ${
+            helper === "each" ? "items" : "first_name"
+          }}}`,
+          position
+        );
+      }
+      const node = {
+        type: helper,
+        path,
+        children: [],
+        alternative: [],
+        inElse: false,
+        raw,
+        position,
+      };
+      output().push(node);
+      stack.push(node);
+      continue;
+    }
+
+    if (tag.startsWith("/")) {
+      const helper = tag.slice(1).trim();
+      const node = current();
+      if (node === root) {
+        throw new TemplateSyntaxError(
+          `"{{/${helper}}}" has no matching "{{#${helper}}}"`,
+          position
+        );
+      }
+      if (node.type !== helper) {
+        throw new TemplateSyntaxError(
+          `"{{/${helper}}}" found where "{{/${node.type}}}" was expected`,
+          position
+        );
+      }
+      delete node.inElse;
+      stack.pop();
+      continue;
+    }
+
+    if (tag === "else") {
+      const node = current();
+      if (node === root || node.inElse) {
+        throw new TemplateSyntaxError(
+          `"{{else}}" must be inside {{#if}}, {{#unless}} or {{#each}}`,
+          position
+        );
+      }
+      node.inElse = true;
+      continue;
+    }
+
+    const expression = parseExpression(tag);
+    output().push(
+      expression
+        ? { type: "variable", ...expression, raw, position }
+        : { type: "text", value: raw }
+    );
+  }
+
+  if (cursor < text.length) {
+    output().push({ type: "text", value: text.slice(cursor) });
+  }
+
+  if (stack.length > 1) {
+    const node = current();
+    throw new TemplateSyntaxError(
+      `"{{#${node.type} ${node.path}}}" is never closed with "{{/${node.type}}}"`,
+      node.position
+    );
+  }
+
+  if (parseCache.size >= PARSE_CACHE_SIZE) {
+    parseCache.delete(parseCache.keys().next().value);
+  }
+  parseCache.set(text, root.children);
+  return root.children;
+}
+
+/**
+ * Values such as customFields may hold arrays as JSON text (e.g. from a CSV
+ * import)
+ */
+function toArray(value) {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string" && value.trim().startsWith("[")) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // Not JSON, treat as a single value
+    }
+  }
+  return null;
+}
+
+function isTruthy(value) {
+  if (value === undefined || value === null || value === false) return false;
+  if (typeof value === "number") return value !== 0 && !Number.isNaN(value);
+  if (typeof value === "string") return value.trim() !== "";
+  const array = toArray(value);
+  if (array) return array.length > 0;
+  return true;
+}
+
+const isEmpty = (value) =>
+  value === undefined || value === null || String(value).trim() === "";
+
+/**
+ * Look up a dot path, searching loop scopes from the innermost outwards
+ */
+function lookup(path, scopes) {
+  const [head, ...rest] = path.split(".");
+
+  if (head.startsWith("@")) {
+    const frame = scopes.find((scope) => scope.loop);
+    return frame ? frame.loop[head.slice(1)] : undefined;
+  }
+
+  // Only own properties resolve, so {{constructor}} or {{name.toString}}
+  // do not reach into the prototype
+  const hasKey = (value, key) =>
+    value !== null && typeof value === "object" && Object.hasOwn(value, key);
+  const resolveIn = (value) =>
+    rest.reduce(
+      (current, key) => (hasKey(current, key) ? current[key] : undefined),
+      value
+    );
+
+  if (head === "this") return resolveIn(scopes[0].data);
+
+  for (const scope of scopes) {
+    const data = scope.data;
+    if (hasKey(data, head)) {
+      return resolveIn(data[head]);
+    }
+  }
+  return undefined;
+}
+
+function pad(value, length = 2) {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * Format a date with tokens such as "MMM d, yyyy" or "yyyy-MM-dd HH:mm".
+ * Dates are formatted in UTC so browser previews and the server agree.
+ */
+export function formatDate(value, format = "MMM d, yyyy") {
+  const date =
+    value instanceof Date
+      ? value
+      : new Date(/^\d+$/.test(String(value)) ? Number(value) : String(value));
+  if (Number.isNaN(date.getTime())) return value;
+
+  if (format === "iso") return date.toISOString();
+
+  const hours = date.getUTCHours();
+  const tokens = {
+    yyyy: date.getUTCFullYear(),
+    yy: pad(date.getUTCFullYear() % 100),
+    MMMM: MONTHS[date.getUTCMonth()],
+    MMM: MONTHS[date.getUTCMonth()].slice(0, 3),
+    MM: pad(date.getUTCMonth() + 1),
+    M: date.getUTCMonth() + 1,
+    EEEE: WEEKDAYS[date.getUTCDay()],
+    EEE: WEEKDAYS[date.getUTCDay()].slice(0, 3),
+    dd: pad(date.getUTCDate()),
+    d: date.getUTCDate(),
+    HH: pad(hours),
+    H: hours,
+    hh: pad(hours % 12 || 12),
+    h: hours % 12 || 12,
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+    a: hours < 12 ? "AM" : "PM",
+  };
+
+  return format.replace(
+    /yyyy|yy|MMMM|MMM|MM|M|EEEE|EEE|dd|d|HH|H|hh|h|mm|ss|a/g,
+    (token) => String(tokens[token])
+  );
+}
+
+function formatCurrency(value, currency = "USD") {
+  const amount = Number(String(value).replace(/[^0-9.-]/g, ""));
+  if (isEmpty(value) || Number.isNaN(amount)) return value;
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: String(currency).toUpperCase(),
+    }).format(amount);
+  } catch {
+    // Unknown currency code
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+const FILTERS = {
+  default: (value, fallback = "") => (isEmpty(value) ? fallback : value),
+  date: (value, format) => (isEmpty(value) ? value : formatDate(value, format)),
+  currency: (value, currency) => formatCurrency(value, currency),
+  upper: (value) => (isEmpty(value) ? value : String(value).toUpperCase()),
+  lower: (value) => (isEmpty(value) ? value : String(value).toLowerCase()),
+};
+
+/**
+ * Names of the filters available after "|"
+ */
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+function renderNodes(nodes, scopes, options) {
+  let result = "";
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        result += node.value;
+        break;
+
+      case "variable": {
+        let value = lookup(node.path, scopes);
+        const missing = value === undefined;
+        for (const filter of node.filters) {
+          value = FILTERS[filter.name](value, ...filter.args);
+        }
+        if (value === undefined || value === null) {
+          if (missing && value === undefined) options.onMissing(node);
+          // Unknown variables stay visible so they can be spotted
+          result += missing && options.keepMissing ? node.raw : "";
+        } else if (typeof value === "object" && !(value instanceof Date)) {
+          result += options.escape(
+            Array.isArray(value) ? value.join(", ") : JSON.stringify(value)
+          );
+        } else {
+          result += options.escape(String(value));
+        }
+        break;
+      }
+
+      case "if":
+      case "unless": {
+        const truthy = isTruthy(lookup(node.path, scopes));
+        const branch =
+          truthy === (node.type === "if") ? node.children : node.alternative;
+        result += renderNodes(branch, scopes, options);
+        break;
+      }
+
+      case "each": {
+        const items = toArray(lookup(node.path, scopes)) || [];
+        if (items.length === 0) {
+          result += renderNodes(node.alternative, scopes, options);
+          break;
+        }
+        items.forEach((item, index) => {
+          result += renderNodes(
+            node.children,
+            [
+              {
+                data: item,
+                loop: {
+                  index,
+                  first: index === 0,
+                  last: index === items.length - 1,
+                },
+              },
+              ...scopes,
+            ],
+            options
+          );
+        });
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Render a template with the given data
+ * @param {string} source - Template text
+ * @param {object} data - Variables, e.g. { first_name: "Ada", orders: [...] }
+ * @param {object} [options]
+ * @param {boolean} [options.keepMissing=true] - Leave tags for unknown
+ *   variables in the output instead of removing them
+ * @param {function} [options.escape] - Applied to every inserted value,
+ *   e.g. to escape HTML
+ * @param {function} [options.onMissing] - Called with the variable node for
+ *   every tag that had no value and no fallback
+ * @returns {string} Rendered text
+ * @throws {TemplateSyntaxError} When the template is malformed
+ */
+export function renderTemplate(source, data = {}, options = {}) {
+  const nodes = parseTemplate(source);
+  return renderNodes(nodes, [{ data }], {
+    keepMissing: options.keepMissing !== false,
+    escape: options.escape || ((value) => value),
+    onMissing: options.onMissing || (() => {}),
+  });
+}
+
+/**
+ * Every variable path a template reads, including block conditions and loop
+ * sources. Paths inside {{#each}} blocks are relative to the loop item and
+ * are left out.
+ * @param {string} source - Template text
+ * @returns {string[]} Unique variable paths
+ */
+export function collectTemplateVariables(source) {
+  const paths = new Set();
+
+  const visit = (nodes, inLoop) => {
+    for (const node of nodes) {
+      if (node.type === "text") continue;
+      const isLoopReference =
+        node.path.startsWith("@") || node.path.split(".")[0] === "this";
+      if (!inLoop && !isLoopReference) paths.add(node.path);
+      if (node.children) {
+        visit(node.children, inLoop || node.type === "each");
+        visit(node.alternative, inLoop);
+      }
+    }
+  };
+
+  visit(parseTemplate(source), false);
+  return Array.from(paths);
+}